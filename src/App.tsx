@@ -6,6 +6,7 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate, useLocation } from "react-router-dom";
 import { ThemeProvider } from "next-themes";
 import { LanguageProvider } from "@/contexts/LanguageContext";
+import { CurrencyProvider } from "@/contexts/CurrencyContext";
 import { ApiAuthProvider } from "@/contexts/ApiAuthContext";
 import { LoadingProvider, useLoading } from "@/contexts/LoadingContext";
 import { CompareProvider } from "@/contexts/CompareContext";
@@ -22,6 +23,7 @@ import ResetPassword from "./pages/ResetPassword";
 import Properties from "./pages/Properties";
 import PropertyDetails from "./pages/PropertyDetails";
 import Projects from "./pages/Projects";
+import ProjectDetails from "./pages/ProjectDetails";
 import Contact from "./pages/Contact";
 import About from "./pages/About";
 import NotFound from "./pages/NotFound";
@@ -34,12 +36,16 @@ const MyAssets = lazy(() => import("./pages/client/MyAssets"));
 const Documents = lazy(() => import("./pages/client/Documents"));
 const ResaleRequest = lazy(() => import("./pages/client/ResaleRequest"));
 const EditProfile = lazy(() => import("./pages/client/EditProfile"));
+const SavedSearches = lazy(() => import("./pages/client/SavedSearches"));
 
 // Admin Dashboard Pages (lazy loaded)
 const AdminDashboard = lazy(() => import("./pages/admin/Dashboard"));
 const ManageUsers = lazy(() => import("./pages/admin/ManageUsers"));
 const EditUser = lazy(() => import("./pages/admin/EditUser"));
 const ManageProperties = lazy(() => import("./pages/admin/ManageProperties"));
+const ManageProjects = lazy(() => import("./pages/admin/ManageProjects"));
+const ManageDevelopers = lazy(() => import("./pages/admin/ManageDevelopers"));
+const ManagePaymentPlans = lazy(() => import("./pages/admin/ManagePaymentPlans"));
 const ManageDocuments = lazy(() => import("./pages/admin/ManageDocuments"));
 const ManageResaleRequests = lazy(() => import("./pages/admin/ManageResaleRequests"));
 const AdminSettings = lazy(() => import("./pages/admin/Settings"));
@@ -72,9 +78,9 @@ const AppContent = () => {
         <Route path="/auth" element={<Auth />} />
         <Route path="/reset-password" element={<ResetPassword />} />
         <Route path="/properties" element={<Properties />} />
-        <Route path="/properties/:id" element={<PropertyDetails />} />
+        <Route path="/properties/:slug" element={<PropertyDetails />} />
         <Route path="/projects" element={<Projects />} />
-        <Route path="/projects/:id" element={<Projects />} />
+        <Route path="/projects/:id" element={<ProjectDetails />} />
         <Route path="/contact" element={<Contact />} />
         <Route path="/about" element={<About />} />
         <Route path="/compare" element={<Compare />} />
@@ -121,6 +127,16 @@ const AppContent = () => {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/client-portal/saved-searches"
+          element={
+            <ProtectedRoute requiredRole="client">
+              <Suspense fallback={null}>
+                <SavedSearches />
+              </Suspense>
+            </ProtectedRoute>
+          }
+        />
         <Route
           path="/client-portal/profile"
           element={
@@ -195,6 +211,36 @@ const AppContent = () => {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/admin/projects"
+          element={
+            <ProtectedRoute requiredRole="admin">
+              <Suspense fallback={null}>
+                <ManageProjects />
+              </Suspense>
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/admin/developers"
+          element={
+            <ProtectedRoute requiredRole="admin">
+              <Suspense fallback={null}>
+                <ManageDevelopers />
+              </Suspense>
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/admin/payment-plans"
+          element={
+            <ProtectedRoute requiredRole="admin">
+              <Suspense fallback={null}>
+                <ManagePaymentPlans />
+              </Suspense>
+            </ProtectedRoute>
+          }
+        />
         <Route
           path="/admin/inventory"
           element={
@@ -293,19 +339,21 @@ const App = () => (
   <QueryClientProvider client={queryClient}>
     <ThemeProvider attribute="class" defaultTheme="dark" enableSystem>
       <LanguageProvider>
-        <ApiAuthProvider>
-          <LoadingProvider>
-            <CompareProvider>
-              <TooltipProvider>
-                <Toaster />
-                <Sonner />
-                <BrowserRouter>
-                  <AppContent />
-                </BrowserRouter>
-              </TooltipProvider>
-            </CompareProvider>
-          </LoadingProvider>
-        </ApiAuthProvider>
+        <CurrencyProvider>
+          <ApiAuthProvider>
+            <LoadingProvider>
+              <CompareProvider>
+                <TooltipProvider>
+                  <Toaster />
+                  <Sonner />
+                  <BrowserRouter>
+                    <AppContent />
+                  </BrowserRouter>
+                </TooltipProvider>
+              </CompareProvider>
+            </LoadingProvider>
+          </ApiAuthProvider>
+        </CurrencyProvider>
       </LanguageProvider>
     </ThemeProvider>
   </QueryClientProvider>
@@ -3,6 +3,8 @@ import { useNavigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { GitCompare, X, Trash2 } from 'lucide-react';
 import { useCompare } from '@/contexts/CompareContext';
+import { MAX_COMPARE_ITEMS } from '@/hooks/useCompareStore';
+import { compareUrl } from '@/lib/compare';
 import { Button } from '@/components/ui/button';
 import { supabase } from '@/integrations/supabase/client';
 
@@ -13,7 +15,7 @@ interface PropertyPreview {
 }
 
 const CompareBar = () => {
-  const { ids, remove, clear, isFull } = useCompare();
+  const { ids, remove, clear, canCompare } = useCompare();
   const navigate = useNavigate();
   const [properties, setProperties] = useState<PropertyPreview[]>([]);
 
@@ -43,7 +45,8 @@ const CompareBar = () => {
         const validIds = matched.map(p => p.id);
         ids.filter(id => !validIds.includes(id)).forEach(id => remove(id));
 
-        setProperties(matched);
+        // Keep selection order rather than database order
+        setProperties(ids.flatMap(id => matched.filter(p => p.id === id)));
       } catch (error) {
         console.error('Failed to fetch compare properties:', error);
       }
@@ -53,8 +56,8 @@ const CompareBar = () => {
   }, [ids, remove]);
 
   const handleCompare = () => {
-    if (ids.length === 2) {
-      navigate(`/compare?ids=${ids.join(',')}`);
+    if (canCompare) {
+      navigate(compareUrl(ids));
     }
   };
 
@@ -78,7 +81,7 @@ const CompareBar = () => {
                 <div className="flex items-center gap-2 px-4 py-2 bg-secondary/50 rounded-lg border border-border/30">
                   <GitCompare className="w-4 h-4 text-primary" />
                   <span className="text-foreground font-medium whitespace-nowrap">
-                    {ids.length}/2 selected
+                    {ids.length}/{MAX_COMPARE_ITEMS} selected
                   </span>
                 </div>
 
@@ -125,8 +128,8 @@ const CompareBar = () => {
 
                 <Button
                   onClick={handleCompare}
-                  disabled={!isFull}
-                  className={`btn-gold gap-2 ${!isFull ? 'opacity-50 cursor-not-allowed' : ''}`}
+                  disabled={!canCompare}
+                  className={`btn-gold gap-2 ${!canCompare ? 'opacity-50 cursor-not-allowed' : ''}`}
                 >
                   <GitCompare className="w-4 h-4" />
                   <span>Compare Now</span>
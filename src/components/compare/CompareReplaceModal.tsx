@@ -1,6 +1,7 @@
 import { motion, AnimatePresence } from 'framer-motion';
 import { AlertTriangle, X, RefreshCw } from 'lucide-react';
 import { useCompare } from '@/contexts/CompareContext';
+import { MAX_COMPARE_ITEMS } from '@/hooks/useCompareStore';
 import { Button } from '@/components/ui/button';
 import sourceLogo from '@/assets/logo-b-secondary.svg';
 
@@ -72,7 +73,7 @@ const CompareReplaceModal = ({ open, onClose, newPropertyId }: CompareReplaceMod
 
                 {/* Description */}
                 <p className="text-muted-foreground mb-8">
-                  Compare is limited to 2 properties. Would you like to replace the first selection with this property?
+                  Compare is limited to {MAX_COMPARE_ITEMS} properties. Would you like to replace the first selection with this property?
                 </p>
 
                 {/* Actions */}
@@ -0,0 +1,150 @@
+/**
+ * Inventory History Dialog
+ * Timeline of unit count changes for one property, newest first
+ */
+
+import { useEffect, useState } from 'react';
+import { FileSpreadsheet, Loader2, User } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import type { InventoryUnitCounts as UnitCounts } from '@/lib/api/types';
+
+interface HistoryEntry {
+  id: string;
+  source: string;
+  changed_by: string | null;
+  old_counts: UnitCounts | null;
+  new_counts: UnitCounts;
+  created_at: string;
+  actorName?: string;
+}
+
+interface InventoryHistoryDialogProps {
+  propertyId: string | null;
+  propertyTitle?: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+const UNIT_LABELS: Record<keyof UnitCounts, string> = {
+  total_units: 'Total',
+  available_units: 'Available',
+  reserved_units: 'Reserved',
+  sold_units: 'Sold',
+};
+
+const fetchHistory = async (propertyId: string): Promise<HistoryEntry[]> => {
+  const { data, error } = await supabase
+    .from('inventory_history')
+    .select('id, source, changed_by, old_counts, new_counts, created_at')
+    .eq('property_id', propertyId)
+    .order('created_at', { ascending: false })
+    .limit(100);
+
+  if (error) throw error;
+
+  const actorIds = [...new Set((data || []).map((h) => h.changed_by).filter((id): id is string => !!id))];
+  const actorMap = new Map<string, string>();
+  if (actorIds.length > 0) {
+    const { data: profiles } = await supabase
+      .from('profiles')
+      .select('user_id, full_name, email')
+      .in('user_id', actorIds);
+    (profiles || []).forEach((p) => actorMap.set(p.user_id, p.full_name || p.email || 'Unknown user'));
+  }
+
+  return (data || []).map((h) => ({
+    ...h,
+    old_counts: h.old_counts as UnitCounts | null,
+    new_counts: h.new_counts as UnitCounts,
+    actorName: h.changed_by ? actorMap.get(h.changed_by) : undefined,
+  }));
+};
+
+const InventoryHistoryDialog = ({ propertyId, propertyTitle, onOpenChange }: InventoryHistoryDialogProps) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!propertyId) return;
+    setLoading(true);
+    fetchHistory(propertyId)
+      .then(setEntries)
+      .catch((error) => {
+        console.error('Error fetching inventory history:', error);
+        setEntries([]);
+      })
+      .finally(() => setLoading(false));
+  }, [propertyId]);
+
+  return (
+    <Dialog open={propertyId !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="glass-card border-border/30 max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="font-display">Inventory History</DialogTitle>
+          <DialogDescription>{propertyTitle}</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">No changes recorded yet.</p>
+        ) : (
+          <ol className="relative border-l border-border/40 ml-2 max-h-[60vh] overflow-y-auto space-y-5 py-1">
+            {entries.map((entry) => {
+              const isSync = entry.source === 'google_sheets';
+              const changedFields = (Object.keys(UNIT_LABELS) as (keyof UnitCounts)[]).filter(
+                (field) => !entry.old_counts || entry.old_counts[field] !== entry.new_counts[field]
+              );
+
+              return (
+                <li key={entry.id} className="ml-4">
+                  <span
+                    className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full ${isSync ? 'bg-success' : 'bg-primary'}`}
+                  />
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <Badge variant="outline" className="border-border/50 gap-1">
+                      {isSync ? <FileSpreadsheet className="w-3 h-3" /> : <User className="w-3 h-3" />}
+                      {isSync ? 'Sheet sync' : 'Manual'}
+                    </Badge>
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(entry.created_at).toLocaleString()}
+                    </span>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {entry.actorName || (isSync ? 'Google Sheets' : 'System')}
+                    {!entry.old_counts && ' · record created'}
+                  </p>
+                  <ul className="mt-1 text-sm space-y-0.5">
+                    {changedFields.map((field) => (
+                      <li key={field}>
+                        <span className="text-muted-foreground">{UNIT_LABELS[field]}:</span>{' '}
+                        {entry.old_counts && (
+                          <>
+                            <span className="line-through text-muted-foreground">{entry.old_counts[field]}</span>{' '}
+                            →{' '}
+                          </>
+                        )}
+                        {entry.new_counts[field]}
+                      </li>
+                    ))}
+                  </ul>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default InventoryHistoryDialog;
@@ -0,0 +1,142 @@
+/**
+ * Lead Export Dialog
+ * Downloads the leads matching the current filters as CSV or XLSX
+ */
+
+import { useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { downloadEdgeFunctionFile } from '@/lib/edgeFunctions';
+import { toast } from 'sonner';
+
+interface LeadExportDialogProps {
+  status: string;
+  search: string;
+  statusLabel: string;
+}
+
+type ExportFormat = 'csv' | 'xlsx';
+
+/** Turns a yyyy-mm-dd input value into the start or end of that local day as an ISO timestamp. */
+const toDayBoundary = (date: string, end: boolean) =>
+  date ? new Date(`${date}T${end ? '23:59:59.999' : '00:00:00'}`).toISOString() : undefined;
+
+const LeadExportDialog = ({ status, search, statusLabel }: LeadExportDialogProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>('xlsx');
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const invalidRange = !!dateFrom && !!dateTo && dateFrom > dateTo;
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await downloadEdgeFunctionFile('export-leads', {
+        format,
+        filters: {
+          status,
+          search: search.trim() || undefined,
+          dateFrom: toDayBoundary(dateFrom, false),
+          dateTo: toDayBoundary(dateTo, true),
+        },
+      });
+      toast.success('Leads exported');
+      setIsOpen(false);
+    } catch (err) {
+      console.error('Error exporting leads:', err);
+      toast.error(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Download className="w-4 h-4" />
+          Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="glass-card border-border/30 sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-display text-xl">Export Leads</DialogTitle>
+          <DialogDescription>
+            Status: {statusLabel}
+            {search.trim() && <> · Search: “{search.trim()}”</>}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 mt-2">
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select value={format} onValueChange={(v) => setFormat(v as ExportFormat)}>
+              <SelectTrigger className="input-luxury">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="glass-card border-border/50">
+                <SelectItem value="xlsx">Excel (.xlsx)</SelectItem>
+                <SelectItem value="csv">CSV (.csv)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="lead-export-from">Created from</Label>
+              <Input
+                id="lead-export-from"
+                type="date"
+                value={dateFrom}
+                onChange={(e) => setDateFrom(e.target.value)}
+                className="input-luxury"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="lead-export-to">Created to</Label>
+              <Input
+                id="lead-export-to"
+                type="date"
+                value={dateTo}
+                onChange={(e) => setDateTo(e.target.value)}
+                className="input-luxury"
+              />
+            </div>
+          </div>
+          {invalidRange && <p className="text-xs text-destructive">The start date must be before the end date</p>}
+          <p className="text-xs text-muted-foreground">
+            Includes every lead field with agent and broker names. Leave the dates empty to export all time.
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleExport} disabled={isExporting || invalidRange} className="btn-gold">
+            {isExporting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Download
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LeadExportDialog;
@@ -0,0 +1,174 @@
+import { useEffect, useRef, useState } from 'react';
+import L from 'leaflet';
+import { Circle, CircleMarker, Polygon, Polyline, useMap, useMapEvents } from 'react-leaflet';
+import { Check, CircleDot, Hexagon, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { distanceKm, LatLng, RadiusArea } from '@/lib/geoSearch';
+
+export interface DrawnArea {
+  polygon?: LatLng[];
+  radius?: RadiusArea;
+}
+
+interface AreaDrawControlProps {
+  polygon: LatLng[] | null;
+  radius: RadiusArea | null;
+  onChange: (area: DrawnArea | null) => void;
+}
+
+type DrawMode = 'idle' | 'polygon' | 'radius';
+
+const AREA_STYLE = { color: 'hsl(var(--primary))', weight: 2, fillOpacity: 0.1 };
+const DRAFT_STYLE = { ...AREA_STYLE, dashArray: '6 6' };
+
+/**
+ * Draw-to-search toolbar. Polygons are drawn by clicking vertices and pressing Finish;
+ * a radius by clicking the centre and then the edge.
+ */
+const AreaDrawControl = ({ polygon, radius, onChange }: AreaDrawControlProps) => {
+  const map = useMap();
+  const toolbarRef = useRef<HTMLDivElement>(null);
+
+  const [mode, setMode] = useState<DrawMode>('idle');
+  const [vertices, setVertices] = useState<LatLng[]>([]);
+  const [center, setCenter] = useState<LatLng | null>(null);
+  const [cursor, setCursor] = useState<LatLng | null>(null);
+
+  // Clicks on the toolbar shouldn't drop vertices on the map underneath
+  useEffect(() => {
+    if (!toolbarRef.current) return;
+    L.DomEvent.disableClickPropagation(toolbarRef.current);
+    L.DomEvent.disableScrollPropagation(toolbarRef.current);
+  }, []);
+
+  useEffect(() => {
+    const container = map.getContainer();
+    if (mode === 'idle') {
+      map.doubleClickZoom.enable();
+      container.style.cursor = '';
+    } else {
+      map.doubleClickZoom.disable();
+      container.style.cursor = 'crosshair';
+    }
+  }, [map, mode]);
+
+  const reset = () => {
+    setMode('idle');
+    setVertices([]);
+    setCenter(null);
+    setCursor(null);
+  };
+
+  useMapEvents({
+    click(e) {
+      const point = { lat: e.latlng.lat, lng: e.latlng.lng };
+      if (mode === 'polygon') {
+        setVertices((prev) => [...prev, point]);
+      } else if (mode === 'radius') {
+        if (!center) {
+          setCenter(point);
+        } else {
+          onChange({ radius: { center, radiusKm: distanceKm(center, point) } });
+          reset();
+        }
+      }
+    },
+    mousemove(e) {
+      if (mode !== 'idle') setCursor({ lat: e.latlng.lat, lng: e.latlng.lng });
+    },
+  });
+
+  const finishPolygon = () => {
+    if (vertices.length < 3) return;
+    onChange({ polygon: vertices });
+    reset();
+  };
+
+  const hasArea = !!polygon || !!radius;
+  const draftRadiusKm = center && cursor ? distanceKm(center, cursor) : 0;
+
+  return (
+    <>
+      {mode === 'idle' && polygon && (
+        <Polygon positions={polygon.map((p) => [p.lat, p.lng])} pathOptions={AREA_STYLE} />
+      )}
+      {mode === 'idle' && radius && (
+        <Circle
+          center={[radius.center.lat, radius.center.lng]}
+          radius={radius.radiusKm * 1000}
+          pathOptions={AREA_STYLE}
+        />
+      )}
+
+      {mode === 'polygon' && vertices.length > 0 && (
+        <>
+          <Polyline
+            positions={[...vertices, ...(cursor ? [cursor] : [])].map((p) => [p.lat, p.lng])}
+            pathOptions={DRAFT_STYLE}
+          />
+          {vertices.map((p, i) => (
+            <CircleMarker key={i} center={[p.lat, p.lng]} radius={4} pathOptions={AREA_STYLE} />
+          ))}
+        </>
+      )}
+      {mode === 'radius' && center && (
+        <>
+          <CircleMarker center={[center.lat, center.lng]} radius={4} pathOptions={AREA_STYLE} />
+          {draftRadiusKm > 0 && (
+            <Circle center={[center.lat, center.lng]} radius={draftRadiusKm * 1000} pathOptions={DRAFT_STYLE} />
+          )}
+        </>
+      )}
+
+      <div ref={toolbarRef} className="absolute top-3 right-3 z-[1000] flex flex-col items-end gap-2">
+        {mode === 'idle' ? (
+          <div className="flex gap-2">
+            <Button size="sm" variant="secondary" className="gap-1.5 shadow-md" onClick={() => setMode('polygon')}>
+              <Hexagon className="w-4 h-4" />
+              Draw area
+            </Button>
+            <Button size="sm" variant="secondary" className="gap-1.5 shadow-md" onClick={() => setMode('radius')}>
+              <CircleDot className="w-4 h-4" />
+              Radius
+            </Button>
+            {hasArea && (
+              <Button size="sm" variant="secondary" className="gap-1.5 shadow-md" onClick={() => onChange(null)}>
+                <Trash2 className="w-4 h-4" />
+                Clear area
+              </Button>
+            )}
+          </div>
+        ) : (
+          <>
+            <div className="flex gap-2">
+              {mode === 'polygon' && (
+                <Button
+                  size="sm"
+                  className="gap-1.5 shadow-md"
+                  disabled={vertices.length < 3}
+                  onClick={finishPolygon}
+                >
+                  <Check className="w-4 h-4" />
+                  Finish
+                </Button>
+              )}
+              <Button size="sm" variant="secondary" className="gap-1.5 shadow-md" onClick={reset}>
+                <X className="w-4 h-4" />
+                Cancel
+              </Button>
+            </div>
+            <p className="rounded-md bg-background/90 px-2 py-1 text-xs text-muted-foreground shadow">
+              {mode === 'polygon'
+                ? 'Click to add points, then press Finish'
+                : center
+                  ? `Click to set the radius (${draftRadiusKm.toFixed(1)} km)`
+                  : 'Click the centre of your search'}
+            </p>
+          </>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default AreaDrawControl;
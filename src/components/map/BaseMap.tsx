@@ -0,0 +1,35 @@
+import { ReactNode } from 'react';
+import { MapContainer, TileLayer } from 'react-leaflet';
+import 'leaflet/dist/leaflet.css';
+import { cn } from '@/lib/utils';
+import type { LatLng } from '@/lib/geoSearch';
+import {
+  MAP_DEFAULT_CENTER,
+  MAP_DEFAULT_ZOOM,
+  MAP_MAX_ZOOM,
+  MAP_TILE_ATTRIBUTION,
+  MAP_TILE_URL,
+} from '@/lib/mapConfig';
+
+interface BaseMapProps {
+  center?: LatLng;
+  zoom?: number;
+  className?: string;
+  children?: ReactNode;
+}
+
+/** Leaflet map with the configured tile source. Leaflet panes use high z-indexes, so the map is isolated to keep it under sheets and headers. */
+const BaseMap = ({ center = MAP_DEFAULT_CENTER, zoom = MAP_DEFAULT_ZOOM, className, children }: BaseMapProps) => (
+  <MapContainer
+    center={[center.lat, center.lng]}
+    zoom={zoom}
+    maxZoom={MAP_MAX_ZOOM}
+    scrollWheelZoom
+    className={cn('isolate z-0 rounded-xl', className)}
+  >
+    <TileLayer url={MAP_TILE_URL} attribution={MAP_TILE_ATTRIBUTION} maxZoom={MAP_MAX_ZOOM} />
+    {children}
+  </MapContainer>
+);
+
+export default BaseMap;
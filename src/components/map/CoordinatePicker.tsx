@@ -0,0 +1,113 @@
+import { useEffect, useMemo } from 'react';
+import L from 'leaflet';
+import { Marker, useMap, useMapEvents } from 'react-leaflet';
+import { MapPin, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import BaseMap from './BaseMap';
+import type { LatLng } from '@/lib/geoSearch';
+
+interface CoordinatePickerProps {
+  value: LatLng | null;
+  onChange: (value: LatLng | null) => void;
+}
+
+const PIN_ICON = L.divIcon({
+  className: '',
+  html: '<span class="block w-5 h-5 -translate-x-1/2 -translate-y-full rounded-full rounded-br-none rotate-45 bg-primary border-2 border-background shadow-md"></span>',
+  iconSize: [0, 0],
+});
+
+const round = (value: number) => Number(value.toFixed(6));
+
+const ClickToPlace = ({ onPick }: { onPick: (value: LatLng) => void }) => {
+  useMapEvents({
+    click: (e) => onPick({ lat: round(e.latlng.lat), lng: round(e.latlng.lng) }),
+  });
+  return null;
+};
+
+/** Pans to coordinates typed into the inputs when they fall outside the current view. */
+const FollowValue = ({ value }: { value: LatLng | null }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    if (value && !map.getBounds().contains([value.lat, value.lng])) {
+      map.setView([value.lat, value.lng], Math.max(map.getZoom(), 14));
+    }
+  }, [map, value]);
+
+  return null;
+};
+
+const CoordinatePicker = ({ value, onChange }: CoordinatePickerProps) => {
+  const markerHandlers = useMemo(
+    () => ({
+      dragend: (e: L.LeafletEvent) => {
+        const { lat, lng } = (e.target as L.Marker).getLatLng();
+        onChange({ lat: round(lat), lng: round(lng) });
+      },
+    }),
+    [onChange]
+  );
+
+  const handleInput = (key: keyof LatLng, raw: string) => {
+    const num = Number(raw);
+    if (raw === '' || !Number.isFinite(num)) return;
+    const limit = key === 'lat' ? 90 : 180;
+    if (Math.abs(num) > limit) return;
+    onChange({ lat: value?.lat ?? 0, lng: value?.lng ?? 0, [key]: num });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="flex items-center gap-1.5">
+          <MapPin className="w-4 h-4" />
+          Map Location
+        </Label>
+        {value && (
+          <Button type="button" variant="ghost" size="sm" className="h-7 gap-1 text-xs" onClick={() => onChange(null)}>
+            <X className="w-3 h-3" />
+            Clear
+          </Button>
+        )}
+      </div>
+      <BaseMap center={value ?? undefined} zoom={value ? 14 : undefined} className="h-56 w-full">
+        <ClickToPlace onPick={onChange} />
+        <FollowValue value={value} />
+        {value && (
+          <Marker position={[value.lat, value.lng]} icon={PIN_ICON} draggable eventHandlers={markerHandlers} />
+        )}
+      </BaseMap>
+      <p className="text-xs text-muted-foreground">Click the map or drag the pin to set the property's position.</p>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <Label className="text-xs">Latitude</Label>
+          <Input
+            type="number"
+            step="any"
+            value={value?.lat ?? ''}
+            onChange={(e) => handleInput('lat', e.target.value)}
+            placeholder="30.0444"
+            className="input-luxury mt-1"
+          />
+        </div>
+        <div>
+          <Label className="text-xs">Longitude</Label>
+          <Input
+            type="number"
+            step="any"
+            value={value?.lng ?? ''}
+            onChange={(e) => handleInput('lng', e.target.value)}
+            placeholder="31.2357"
+            className="input-luxury mt-1"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CoordinatePicker;
@@ -0,0 +1,139 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import L from 'leaflet';
+import 'leaflet.markercluster';
+import 'leaflet.markercluster/dist/MarkerCluster.css';
+import 'leaflet.markercluster/dist/MarkerCluster.Default.css';
+import { useMap } from 'react-leaflet';
+import BaseMap from './BaseMap';
+import AreaDrawControl, { DrawnArea } from './AreaDrawControl';
+import { useCurrency } from '@/hooks/useCurrency';
+import type { LatLng, RadiusArea } from '@/lib/geoSearch';
+import type { PropertyMapPoint } from '@/lib/propertySearch';
+
+interface PropertyMapProps {
+  points: PropertyMapPoint[];
+  polygon: LatLng[] | null;
+  radius: RadiusArea | null;
+  onAreaChange: (area: DrawnArea | null) => void;
+  className?: string;
+}
+
+const formatPinPrice = (value: number | null) => {
+  if (!value) return '—';
+  if (value >= 1000000) return `${(value / 1000000).toFixed(1)}M`;
+  if (value >= 1000) return `${(value / 1000).toFixed(0)}K`;
+  return value.toString();
+};
+
+const pinIcon = (price: number | null) =>
+  L.divIcon({
+    className: '',
+    html: `<span class="inline-block -translate-x-1/2 -translate-y-full whitespace-nowrap rounded-full bg-primary px-2 py-0.5 text-xs font-semibold text-primary-foreground shadow-md">${formatPinPrice(price)}</span>`,
+    iconSize: [0, 0],
+  });
+
+// Built as DOM nodes rather than an HTML string so titles can't inject markup
+const buildPopup = (point: PropertyMapPoint, onOpen: (id: string) => void, formatPrice: (amount: number) => string) => {
+  const root = document.createElement('div');
+  root.className = 'w-48 space-y-1';
+
+  if (point.image_url) {
+    const img = document.createElement('img');
+    img.src = point.image_url;
+    img.alt = point.title;
+    img.className = 'w-full h-24 object-cover rounded-md';
+    root.appendChild(img);
+  }
+
+  const title = document.createElement('a');
+  title.href = `/properties/${point.id}`;
+  title.textContent = point.title;
+  title.className = 'block font-semibold text-sm leading-snug';
+  title.addEventListener('click', (e) => {
+    e.preventDefault();
+    onOpen(point.id);
+  });
+  root.appendChild(title);
+
+  if (point.location) {
+    const location = document.createElement('p');
+    location.textContent = point.location;
+    location.className = '!m-0 text-xs opacity-70';
+    root.appendChild(location);
+  }
+
+  const price = document.createElement('p');
+  price.textContent = point.price ? formatPrice(point.price) : 'Price on request';
+  price.className = '!m-0 text-sm font-medium';
+  root.appendChild(price);
+
+  return root;
+};
+
+const ClusterLayer = ({ points, onOpen }: { points: PropertyMapPoint[]; onOpen: (id: string) => void }) => {
+  const map = useMap();
+  const groupRef = useRef<L.MarkerClusterGroup | null>(null);
+  const { convert, formatPrice } = useCurrency();
+
+  useEffect(() => {
+    const group = L.markerClusterGroup({ showCoverageOnHover: false, maxClusterRadius: 50 });
+    map.addLayer(group);
+    groupRef.current = group;
+    return () => {
+      map.removeLayer(group);
+      groupRef.current = null;
+    };
+  }, [map]);
+
+  useEffect(() => {
+    const group = groupRef.current;
+    if (!group) return;
+
+    group.clearLayers();
+    group.addLayers(
+      points.map((point) =>
+        L.marker([point.latitude, point.longitude], {
+          icon: pinIcon(point.price ? convert(point.price).amount : null),
+          title: point.title,
+        }).bindPopup(() => buildPopup(point, onOpen, formatPrice))
+      )
+    );
+  }, [points, onOpen, convert, formatPrice]);
+
+  return null;
+};
+
+/** Keeps the drawn area, or failing that the results, in view whenever they change. */
+const FitBounds = ({ points, polygon, radius }: Pick<PropertyMapProps, 'points' | 'polygon' | 'radius'>) => {
+  const map = useMap();
+
+  useEffect(() => {
+    let bounds: L.LatLngBounds | null = null;
+    if (polygon) {
+      bounds = L.latLngBounds(polygon.map((p) => [p.lat, p.lng]));
+    } else if (radius) {
+      bounds = L.latLng(radius.center.lat, radius.center.lng).toBounds(radius.radiusKm * 2000);
+    } else if (points.length > 0) {
+      bounds = L.latLngBounds(points.map((p) => [p.latitude, p.longitude]));
+    }
+    if (bounds?.isValid()) map.fitBounds(bounds, { padding: [40, 40], maxZoom: 15 });
+  }, [map, points, polygon, radius]);
+
+  return null;
+};
+
+const PropertyMap = ({ points, polygon, radius, onAreaChange, className }: PropertyMapProps) => {
+  const navigate = useNavigate();
+  const openProperty = useCallback((id: string) => navigate(`/properties/${id}`), [navigate]);
+
+  return (
+    <BaseMap className={className}>
+      <ClusterLayer points={points} onOpen={openProperty} />
+      <FitBounds points={points} polygon={polygon} radius={radius} />
+      <AreaDrawControl polygon={polygon} radius={radius} onChange={onAreaChange} />
+    </BaseMap>
+  );
+};
+
+export default PropertyMap;
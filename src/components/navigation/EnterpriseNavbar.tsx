@@ -22,6 +22,8 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { useNavigation, NavigationItem } from '@/hooks/useNavigation';
 import { useLanguage } from '@/contexts/LanguageContext';
+import { useCurrency } from '@/hooks/useCurrency';
+import { DISPLAY_CURRENCIES } from '@/lib/currency';
 import { useApiAuth } from '@/contexts/ApiAuthContext';
 import { useUserRole } from '@/hooks/useUserRole';
 import { useCompare } from '@/contexts/CompareContext';
@@ -36,6 +38,7 @@ import DynamicIcon from './DynamicIcon';
 export const EnterpriseNavbar = () => {
   const { t } = useTranslation();
   const { language, setLanguage, isRTL } = useLanguage();
+  const { currency, setCurrency, rates, currencyLabel } = useCurrency();
   const { user, signOut, isLoading: authLoading, isAuthenticated } = useApiAuth();
   const { isAdmin, isLoading: roleLoading } = useUserRole();
   const { ids: compareIds } = useCompare();
@@ -190,6 +193,33 @@ export const EnterpriseNavbar = () => {
                   </DropdownMenuContent>
                 </DropdownMenu>
 
+                {/* Currency Switcher */}
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-muted-foreground hover:text-foreground hidden sm:flex text-xs font-semibold px-2"
+                      aria-label={t('common.displayCurrency')}
+                    >
+                      {currency}
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align={isRTL ? 'start' : 'end'} className="glass-card border-border/50">
+                    {DISPLAY_CURRENCIES.map((code) => (
+                      <DropdownMenuItem
+                        key={code}
+                        onClick={() => setCurrency(code)}
+                        // Without a rate prices would stay in EGP anyway
+                        disabled={code !== 'EGP' && !rates[code]}
+                        className={currency === code ? 'text-primary' : ''}
+                      >
+                        {code} · {currencyLabel(code)}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+
                 {/* Theme Toggle */}
                 <Button
                   variant="ghost"
@@ -18,6 +18,8 @@ import { useTheme } from 'next-themes';
 import { Button } from '@/components/ui/button';
 import { NavigationItem, NavigationCTA } from '@/hooks/useNavigation';
 import { useLanguage } from '@/contexts/LanguageContext';
+import { useCurrency } from '@/hooks/useCurrency';
+import { DISPLAY_CURRENCIES } from '@/lib/currency';
 import { useApiAuth } from '@/contexts/ApiAuthContext';
 import { useUserRole } from '@/hooks/useUserRole';
 import { useCompare } from '@/contexts/CompareContext';
@@ -37,6 +39,7 @@ interface MobileDrawerProps {
 export const MobileDrawer = ({ isOpen, onClose, items, cta, getLabel }: MobileDrawerProps) => {
   const { t } = useTranslation();
   const { language, setLanguage, isRTL } = useLanguage();
+  const { currency, setCurrency, rates } = useCurrency();
   const { user, signOut, isAuthenticated } = useApiAuth();
   const { isAdmin } = useUserRole();
   const { ids: compareIds } = useCompare();
@@ -259,6 +262,22 @@ export const MobileDrawer = ({ isOpen, onClose, items, cta, getLabel }: MobileDr
                 </Button>
               </div>
 
+              {/* Currency Switcher */}
+              <div className="flex items-center gap-2">
+                {DISPLAY_CURRENCIES.map((code) => (
+                  <Button
+                    key={code}
+                    variant={currency === code ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setCurrency(code)}
+                    disabled={code !== 'EGP' && !rates[code]}
+                    className={cn("flex-1", currency === code ? 'btn-gold' : 'border-border/50')}
+                  >
+                    {code}
+                  </Button>
+                ))}
+              </div>
+
               {/* Theme Toggle */}
               <Button
                 variant="outline"
@@ -13,6 +13,11 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { useLanguage } from '@/contexts/LanguageContext';
+import { useCurrency } from '@/hooks/useCurrency';
+import { formatShortAmount } from '@/lib/currency';
+import { usePropertyFacets } from '@/hooks/usePropertyFacets';
+import { searchProperties, PropertySearchRow } from '@/lib/propertySearch';
+import { localizeProperty, propertyPath } from '@/lib/propertyContent';
 import { cn } from '@/lib/utils';
 
 interface QuickSearchProps {
@@ -21,14 +26,8 @@ interface QuickSearchProps {
   onSearch?: () => void;
 }
 
-const propertyTypes = [
-  { value: 'all', labelEn: 'All Types', labelAr: 'جميع الأنواع' },
-  { value: 'apartment', labelEn: 'Apartment', labelAr: 'شقة' },
-  { value: 'villa', labelEn: 'Villa', labelAr: 'فيلا' },
-  { value: 'townhouse', labelEn: 'Townhouse', labelAr: 'تاون هاوس' },
-  { value: 'penthouse', labelEn: 'Penthouse', labelAr: 'بنتهاوس' },
-  { value: 'duplex', labelEn: 'Duplex', labelAr: 'دوبلكس' },
-];
+const allTypes = { value: 'all', labelEn: 'All Types', labelAr: 'جميع الأنواع' };
+const allLocations = { value: 'all', labelEn: 'All Locations', labelAr: 'جميع المواقع' };
 
 const priceRanges = [
   { value: 'all', labelEn: 'Any Price', labelAr: 'أي سعر' },
@@ -39,18 +38,17 @@ const priceRanges = [
   { value: '10000000+', labelEn: '10M+', labelAr: 'أكثر من 10 مليون' },
 ];
 
-const locations = [
-  { value: 'all', labelEn: 'All Locations', labelAr: 'جميع المواقع' },
-  { value: 'new-cairo', labelEn: 'New Cairo', labelAr: 'القاهرة الجديدة' },
-  { value: 'sixth-october', labelEn: '6th October', labelAr: '6 أكتوبر' },
-  { value: 'new-capital', labelEn: 'New Capital', labelAr: 'العاصمة الإدارية' },
-  { value: 'north-coast', labelEn: 'North Coast', labelAr: 'الساحل الشمالي' },
-  { value: 'ain-sokhna', labelEn: 'Ain Sokhna', labelAr: 'العين السخنة' },
-];
+/** Turns a price range value such as "1000000-3000000" or "10000000+" into min/max filters. */
+const parsePriceRange = (range: string): { minPrice?: number; maxPrice?: number } => {
+  if (range === 'all') return {};
+  const [min, max] = range.replace('+', '').split('-');
+  return { minPrice: Number(min) || undefined, maxPrice: max ? Number(max) : undefined };
+};
 
 export const QuickSearch = ({ variant = 'header', className, onSearch }: QuickSearchProps) => {
   const { t } = useTranslation();
   const { language, isRTL } = useLanguage();
+  const { convert, currencyLabel } = useCurrency();
   const navigate = useNavigate();
   const location = useLocation();
   const [isExpanded, setIsExpanded] = useState(false);
@@ -58,6 +56,12 @@ export const QuickSearch = ({ variant = 'header', className, onSearch }: QuickSe
   const [priceRange, setPriceRange] = useState('all');
   const [locationFilter, setLocationFilter] = useState('all');
   const [keyword, setKeyword] = useState('');
+  const [suggestions, setSuggestions] = useState<PropertySearchRow[]>([]);
+  const { facets, getLabel: getFacetLabel } = usePropertyFacets({
+    city: locationFilter !== 'all' ? locationFilter : undefined,
+    propertyType: propertyType !== 'all' ? propertyType : undefined,
+    ...parsePriceRange(priceRange),
+  }, variant === 'expanded' || isExpanded);
   const inputRef = useRef<HTMLInputElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
@@ -65,11 +69,14 @@ export const QuickSearch = ({ variant = 'header', className, onSearch }: QuickSe
   const isSearchPage = location.pathname === '/properties' || location.pathname === '/projects';
 
   const handleSearch = useCallback(() => {
+    // Same parameter names the listing page reads its filters from
     const params = new URLSearchParams();
-    if (propertyType !== 'all') params.set('type', propertyType);
-    if (priceRange !== 'all') params.set('price', priceRange);
-    if (locationFilter !== 'all') params.set('location', locationFilter);
-    if (keyword.trim()) params.set('q', keyword.trim());
+    if (keyword.trim()) params.set('search', keyword.trim());
+    if (propertyType !== 'all') params.set('propertyType', propertyType);
+    if (locationFilter !== 'all') params.set('city', locationFilter);
+    const { minPrice, maxPrice } = parsePriceRange(priceRange);
+    if (minPrice) params.set('minPrice', String(minPrice));
+    if (maxPrice) params.set('maxPrice', String(maxPrice));
 
     const searchUrl = `/properties${params.toString() ? `?${params.toString()}` : ''}`;
     navigate(searchUrl);
@@ -100,6 +107,40 @@ export const QuickSearch = ({ variant = 'header', className, onSearch }: QuickSe
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, [isExpanded]);
 
+  // Live matches while typing in the header search
+  useEffect(() => {
+    const term = keyword.trim();
+    if (variant !== 'header' || !isExpanded || term.length < 2) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      searchProperties({
+        search: term,
+        city: locationFilter !== 'all' ? locationFilter : undefined,
+        limit: 5,
+      })
+        .then(({ properties }) => {
+          if (!cancelled) setSuggestions(properties);
+        })
+        .catch((err) => console.error('QuickSearch suggestions error:', err));
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [keyword, locationFilter, isExpanded, variant]);
+
+  const openSuggestion = (property: PropertySearchRow) => {
+    navigate(propertyPath(property, language));
+    setIsExpanded(false);
+    setKeyword('');
+    onSearch?.();
+  };
+
   // Focus input when expanded
   useEffect(() => {
     if (isExpanded && inputRef.current) {
@@ -111,6 +152,19 @@ export const QuickSearch = ({ variant = 'header', className, onSearch }: QuickSe
     return language === 'ar' ? item.labelAr : item.labelEn;
   };
 
+  // The ranges are in EGP; in another currency the labels show the converted bounds
+  const getPriceLabel = (range: (typeof priceRanges)[number]) => {
+    const { minPrice, maxPrice } = parsePriceRange(range.value);
+    const bound = maxPrice ?? minPrice;
+    if (!bound || !convert(bound).approximate) return getLabel(range);
+
+    const short = (value: number) => formatShortAmount(convert(value).amount);
+    const unit = currencyLabel();
+    if (!minPrice) return language === 'ar' ? `≈ أقل من ${short(bound)} ${unit}` : `≈ Under ${short(bound)} ${unit}`;
+    if (!maxPrice) return `≈ ${short(minPrice)}+ ${unit}`;
+    return `≈ ${short(minPrice)} - ${short(maxPrice)} ${unit}`;
+  };
+
   // Compact header variant
   if (variant === 'header' && !isSearchPage) {
     return (
@@ -161,9 +215,10 @@ export const QuickSearch = ({ variant = 'header', className, onSearch }: QuickSe
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent className="glass-card border-border/50">
-                    {locations.map((loc) => (
-                      <SelectItem key={loc.value} value={loc.value}>
-                        {getLabel(loc)}
+                    <SelectItem value={allLocations.value}>{getLabel(allLocations)}</SelectItem>
+                    {facets.city.map((city) => (
+                      <SelectItem key={city.value} value={city.value} disabled={city.count === 0}>
+                        {getFacetLabel(city)} ({city.count})
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -184,6 +239,26 @@ export const QuickSearch = ({ variant = 'header', className, onSearch }: QuickSe
                   <X className="w-4 h-4" />
                 </Button>
               </div>
+              {suggestions.length > 0 && (
+                <ul className="mt-2 border-t border-border/30 pt-2 space-y-1">
+                  {suggestions.map((property) => (
+                    <li key={property.id}>
+                      <button
+                        onClick={() => openSuggestion(property)}
+                        className="w-full flex items-center justify-between gap-3 px-3 py-2 rounded-lg text-sm hover:bg-secondary/50 text-start"
+                      >
+                        <span className="truncate text-foreground">{localizeProperty(property, language).title}</span>
+                        {property.location && (
+                          <span className="flex items-center gap-1 text-xs text-muted-foreground shrink-0">
+                            <MapPin className="w-3 h-3" />
+                            {property.location}
+                          </span>
+                        )}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
             </motion.div>
           )}
         </AnimatePresence>
@@ -220,9 +295,10 @@ export const QuickSearch = ({ variant = 'header', className, onSearch }: QuickSe
             <SelectValue />
           </SelectTrigger>
           <SelectContent className="glass-card border-border/50">
-            {propertyTypes.map((type) => (
-              <SelectItem key={type.value} value={type.value}>
-                {getLabel(type)}
+            <SelectItem value={allTypes.value}>{getLabel(allTypes)}</SelectItem>
+            {facets.property_type.map((type) => (
+              <SelectItem key={type.value} value={type.value} disabled={type.count === 0}>
+                {getFacetLabel(type)} ({type.count})
               </SelectItem>
             ))}
           </SelectContent>
@@ -235,9 +311,10 @@ export const QuickSearch = ({ variant = 'header', className, onSearch }: QuickSe
             <SelectValue />
           </SelectTrigger>
           <SelectContent className="glass-card border-border/50">
-            {locations.map((loc) => (
-              <SelectItem key={loc.value} value={loc.value}>
-                {getLabel(loc)}
+            <SelectItem value={allLocations.value}>{getLabel(allLocations)}</SelectItem>
+            {facets.city.map((city) => (
+              <SelectItem key={city.value} value={city.value} disabled={city.count === 0}>
+                {getFacetLabel(city)} ({city.count})
               </SelectItem>
             ))}
           </SelectContent>
@@ -252,7 +329,7 @@ export const QuickSearch = ({ variant = 'header', className, onSearch }: QuickSe
           <SelectContent className="glass-card border-border/50">
             {priceRanges.map((range) => (
               <SelectItem key={range.value} value={range.value}>
-                {getLabel(range)}
+                {getPriceLabel(range)}
               </SelectItem>
             ))}
           </SelectContent>
@@ -19,6 +19,10 @@ import {
   Menu,
   X,
   Sparkles,
+  Bookmark,
+  Building,
+  HardHat,
+  CalendarClock,
 } from 'lucide-react';
 import { useApiAuth } from '@/contexts/ApiAuthContext';
 import { UserRole } from '@/lib/api/types';
@@ -38,12 +42,16 @@ const clientNavItems = [
   { path: '/client-portal/assets', label: 'My Assets', icon: Building2 },
   { path: '/client-portal/documents', label: 'Documents', icon: FileText },
   { path: '/client-portal/resale', label: 'Resale Request', icon: RefreshCw },
+  { path: '/client-portal/saved-searches', label: 'Saved Searches', icon: Bookmark },
 ];
 
 const adminNavItems = [
   { path: '/admin/dashboard', label: 'Dashboard', icon: LayoutDashboard },
   { path: '/admin/users', label: 'Manage Users', icon: Users },
   { path: '/admin/properties', label: 'Properties', icon: Building2 },
+  { path: '/admin/projects', label: 'Projects', icon: Building },
+  { path: '/admin/developers', label: 'Developers', icon: HardHat },
+  { path: '/admin/payment-plans', label: 'Payment Plans', icon: CalendarClock },
   { path: '/admin/inventory', label: 'Inventory', icon: Package },
   { path: '/admin/leads', label: 'Leads', icon: MessageSquare },
   { path: '/admin/documents', label: 'Documents', icon: FileText },
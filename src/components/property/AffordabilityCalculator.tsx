@@ -0,0 +1,281 @@
+/**
+ * Affordability Calculator
+ * Works out a price range from income and savings and opens the matching property search
+ */
+
+import { useState, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { Search, Wallet } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { useCurrency } from '@/hooks/useCurrency';
+import { useLanguage } from '@/contexts/LanguageContext';
+import {
+  affordablePriceRange,
+  AffordabilityTerms,
+  DEFAULT_BANK_TERMS,
+  DEFAULT_MAX_DTI_PERCENT,
+  maxAffordablePrice,
+} from '@/lib/affordability';
+import { SCENARIO_LIMITS } from '@/lib/mortgage';
+import { PaymentPlan } from '@/lib/paymentPlans';
+import { localizedName } from '@/lib/projects';
+import { savedSearchPath } from '@/lib/savedSearches';
+
+interface AffordabilityCalculatorProps {
+  /** Developer plans for the listing, offered alongside a bank loan */
+  plans?: PaymentPlan[];
+}
+
+const BANK = 'bank';
+
+const AffordabilityCalculator = ({ plans = [] }: AffordabilityCalculatorProps) => {
+  const { language } = useLanguage();
+  const { currencyLabel, formatPrice, toBase, approximateNote } = useCurrency();
+
+  // Amounts are typed in the visitor's currency and worked out in EGP
+  const [monthlyIncome, setMonthlyIncome] = useState('');
+  const [monthlyObligations, setMonthlyObligations] = useState('');
+  const [savings, setSavings] = useState('');
+  const [maxDti, setMaxDti] = useState(DEFAULT_MAX_DTI_PERCENT);
+  const [termsKey, setTermsKey] = useState(BANK);
+  const [interestRate, setInterestRate] = useState(DEFAULT_BANK_TERMS.annualInterestRate);
+  const [years, setYears] = useState(DEFAULT_BANK_TERMS.years);
+  const [minDownPayment, setMinDownPayment] = useState(DEFAULT_BANK_TERMS.minDownPaymentPercent);
+
+  const selectedPlan = plans.find((plan) => plan.id === termsKey);
+
+  const result = useMemo(() => {
+    const income = toBase(Number(monthlyIncome) || 0);
+    if (!(income > 0)) return null;
+
+    const terms: AffordabilityTerms = selectedPlan
+      ? { kind: 'plan', plan: selectedPlan }
+      : { kind: 'bank', minDownPaymentPercent: minDownPayment, years, annualInterestRate: interestRate };
+
+    return maxAffordablePrice(
+      {
+        monthlyIncome: income,
+        monthlyObligations: toBase(Number(monthlyObligations) || 0),
+        savings: toBase(Number(savings) || 0),
+        maxDebtToIncomePercent: maxDti,
+      },
+      terms
+    );
+  }, [monthlyIncome, monthlyObligations, savings, maxDti, selectedPlan, minDownPayment, years, interestRate, toBase]);
+
+  // Search links keep prices in EGP, like every /properties URL
+  const range = result ? affordablePriceRange(result.maxPrice) : null;
+  const unit = currencyLabel();
+
+  const amountField = (label: string, value: string, onChange: (value: string) => void) => (
+    <div>
+      <Label className="text-sm text-muted-foreground mb-2 block">
+        {label} ({unit})
+      </Label>
+      <Input
+        type="number"
+        min={0}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="0"
+        className="input-luxury h-12"
+      />
+    </div>
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="glass-card p-6"
+    >
+      <div className="flex items-center gap-3 mb-6">
+        <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center">
+          <Wallet className="w-5 h-5 text-primary" />
+        </div>
+        <div>
+          <h3 className="font-display text-xl font-semibold text-foreground">
+            What Can I Afford?
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            Find the price range that fits your income and savings
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        {/* Inputs */}
+        <div className="space-y-5">
+          {amountField('Monthly Income', monthlyIncome, setMonthlyIncome)}
+          {amountField('Existing Monthly Obligations', monthlyObligations, setMonthlyObligations)}
+          {amountField('Savings for Down Payment', savings, setSavings)}
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <Label className="text-sm text-muted-foreground">
+                Max Share of Income for Payments
+              </Label>
+              <span className="text-sm font-medium text-foreground">{maxDti}%</span>
+            </div>
+            <Slider
+              value={[maxDti]}
+              onValueChange={([val]) => setMaxDti(val)}
+              min={10}
+              max={60}
+              step={5}
+              className="py-4"
+            />
+          </div>
+
+          <div>
+            <Label className="text-sm text-muted-foreground mb-2 block">
+              Financing
+            </Label>
+            <Select value={termsKey} onValueChange={setTermsKey}>
+              <SelectTrigger className="input-luxury h-12">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={BANK}>Bank loan</SelectItem>
+                {plans.map((plan) => (
+                  <SelectItem key={plan.id} value={plan.id}>
+                    {localizedName(plan, language)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {!selectedPlan && (
+            <>
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <Label className="text-sm text-muted-foreground">
+                    Annual Interest Rate
+                  </Label>
+                  <span className="text-sm font-medium text-foreground">{interestRate}%</span>
+                </div>
+                <Slider
+                  value={[interestRate]}
+                  onValueChange={([val]) => setInterestRate(val)}
+                  min={SCENARIO_LIMITS.interestRate.min}
+                  max={SCENARIO_LIMITS.interestRate.max}
+                  step={SCENARIO_LIMITS.interestRate.step}
+                  className="py-4"
+                />
+              </div>
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <Label className="text-sm text-muted-foreground">
+                    Loan Term
+                  </Label>
+                  <span className="text-sm font-medium text-foreground">{years} Years</span>
+                </div>
+                <Slider
+                  value={[years]}
+                  onValueChange={([val]) => setYears(val)}
+                  min={SCENARIO_LIMITS.years.min}
+                  max={SCENARIO_LIMITS.years.max}
+                  step={SCENARIO_LIMITS.years.step}
+                  className="py-4"
+                />
+              </div>
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <Label className="text-sm text-muted-foreground">
+                    Minimum Down Payment
+                  </Label>
+                  <span className="text-sm font-medium text-foreground">{minDownPayment}%</span>
+                </div>
+                <Slider
+                  value={[minDownPayment]}
+                  onValueChange={([val]) => setMinDownPayment(val)}
+                  min={SCENARIO_LIMITS.downPaymentPercent.min}
+                  max={SCENARIO_LIMITS.downPaymentPercent.max}
+                  step={SCENARIO_LIMITS.downPaymentPercent.step}
+                  className="py-4"
+                />
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Result */}
+        <div className="space-y-4">
+          <div className="bg-secondary/30 rounded-xl p-6 text-center">
+            <p className="text-sm text-muted-foreground mb-1">You could afford up to</p>
+            <p className="text-3xl font-semibold text-gold-gradient" title={approximateNote ?? undefined}>
+              {result ? formatPrice(Math.round(result.maxPrice)) : '—'}
+            </p>
+            {result && result.maxPrice > 0 && (
+              <p className="text-xs text-muted-foreground mt-2">
+                {result.limitedBy === 'savings'
+                  ? 'Limited by your savings for the down payment'
+                  : 'Limited by your monthly income'}
+              </p>
+            )}
+          </div>
+
+          {result && result.maxPrice > 0 && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="bg-secondary/30 rounded-xl p-4 text-center">
+                <p className="text-sm text-muted-foreground mb-1">Down Payment</p>
+                <p className="text-lg font-semibold text-foreground">{formatPrice(Math.round(result.downPayment))}</p>
+              </div>
+              <div className="bg-secondary/30 rounded-xl p-4 text-center">
+                <p className="text-sm text-muted-foreground mb-1">Monthly Payment</p>
+                <p className="text-lg font-semibold text-foreground">{formatPrice(Math.round(result.monthlyPayment))}</p>
+              </div>
+            </div>
+          )}
+
+          {result && result.monthlyBudget === 0 && (
+            <p className="text-sm text-destructive text-center">
+              Your existing obligations already use the share of income available for payments.
+            </p>
+          )}
+
+          {selectedPlan && selectedPlan.delivery_payment_percent > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {selectedPlan.delivery_months > 0
+                ? `The monthly payment includes setting aside the ${selectedPlan.delivery_payment_percent}% delivery payment over the ${selectedPlan.delivery_months} months until delivery.`
+                : `The down payment includes the ${selectedPlan.delivery_payment_percent}% delivery payment, due on signing.`}
+            </p>
+          )}
+
+          {range ? (
+            <Button asChild className="w-full btn-gold gap-2">
+              <Link to={savedSearchPath(range)}>
+                <Search className="w-4 h-4" />
+                See properties I can afford
+              </Link>
+            </Button>
+          ) : (
+            <Button disabled className="w-full btn-gold gap-2">
+              <Search className="w-4 h-4" />
+              See properties I can afford
+            </Button>
+          )}
+          {range && (
+            <p className="text-xs text-muted-foreground text-center">
+              Searches from {formatPrice(range.minPrice)} to {formatPrice(range.maxPrice)}
+            </p>
+          )}
+        </div>
+      </div>
+    </motion.div>
+  );
+};
+
+export default AffordabilityCalculator;
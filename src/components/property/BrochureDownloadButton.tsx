@@ -0,0 +1,79 @@
+/**
+ * Brochure Download Button
+ * Downloads the server-rendered PDF brochure for a listing in English or Arabic
+ */
+
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Download, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useBrandAssets } from '@/hooks/useBrandAssets';
+import { downloadEdgeFunctionFile } from '@/lib/edgeFunctions';
+import type { ContentLanguage } from '@/lib/propertyContent';
+import { toast } from 'sonner';
+
+interface BrochureDownloadButtonProps {
+  propertyId: string;
+}
+
+const LANGUAGES: { value: ContentLanguage; label: string }[] = [
+  { value: 'en', label: 'English' },
+  { value: 'ar', label: 'العربية' },
+];
+
+const BrochureDownloadButton = ({ propertyId }: BrochureDownloadButtonProps) => {
+  const { t } = useTranslation();
+  const { brandLogoUrl } = useBrandAssets();
+  const [downloading, setDownloading] = useState(false);
+
+  const handleDownload = async (language: ContentLanguage) => {
+    setDownloading(true);
+    try {
+      await downloadEdgeFunctionFile(
+        'property-brochure',
+        {
+          propertyId,
+          language,
+          // Bundled fallback logos are relative paths; the function only needs them when no CMS logo is set
+          brandLogoUrl: new URL(brandLogoUrl, window.location.origin).href,
+        },
+        { allowAnonymous: true }
+      );
+    } catch (err) {
+      console.error('Failed to download brochure:', err);
+      toast.error('Could not generate the brochure. Please try again.');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          disabled={downloading}
+          className="w-full h-12 text-base gap-2 border-border/50 hover:border-primary/50"
+        >
+          {downloading ? <Loader2 className="w-5 h-5 animate-spin" /> : <Download className="w-5 h-5" />}
+          {t('property.brochure')}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-48">
+        {LANGUAGES.map(({ value, label }) => (
+          <DropdownMenuItem key={value} onClick={() => handleDownload(value)}>
+            {label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default BrochureDownloadButton;
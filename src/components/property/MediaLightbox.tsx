@@ -0,0 +1,103 @@
+/**
+ * Media Lightbox
+ * Full-screen image viewer with arrows, keyboard navigation and thumbnails
+ */
+
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from '@/components/ui/dialog';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { mediaCaption, PropertyMediaItem } from '@/lib/propertyMedia';
+
+interface MediaLightboxProps {
+  items: PropertyMediaItem[];
+  /** Index of the open image, or null when closed */
+  index: number | null;
+  onIndexChange: (index: number | null) => void;
+  title: string;
+}
+
+const MediaLightbox = ({ items, index, onIndexChange, title }: MediaLightboxProps) => {
+  const { language, isRTL } = useLanguage();
+  const active = index !== null ? items[index] : undefined;
+
+  const prev = () => index !== null && onIndexChange(index > 0 ? index - 1 : items.length - 1);
+  const next = () => index !== null && onIndexChange(index < items.length - 1 ? index + 1 : 0);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowLeft') (isRTL ? next : prev)();
+    if (e.key === 'ArrowRight') (isRTL ? prev : next)();
+  };
+
+  const caption = active ? mediaCaption(active, language) : '';
+
+  return (
+    <Dialog open={!!active} onOpenChange={(open) => !open && onIndexChange(null)}>
+      <DialogContent
+        className="glass-card border-border/30 sm:max-w-5xl p-0 overflow-hidden"
+        onKeyDown={handleKeyDown}
+      >
+        <DialogTitle className="sr-only">{title}</DialogTitle>
+        <DialogDescription className="sr-only">{caption || title}</DialogDescription>
+
+        {active && index !== null && (
+          <div className="flex flex-col">
+            <div className="relative bg-black/80 flex items-center justify-center min-h-[300px]">
+              <img src={active.url} alt={caption || title} className="max-h-[75vh] w-full object-contain" />
+
+              {items.length > 1 && (
+                <>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="absolute left-2 top-1/2 -translate-y-1/2 bg-black/40 hover:bg-black/60 text-white rounded-full"
+                    onClick={prev}
+                    aria-label="Previous"
+                  >
+                    <ChevronLeft className="w-5 h-5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="absolute right-2 top-1/2 -translate-y-1/2 bg-black/40 hover:bg-black/60 text-white rounded-full"
+                    onClick={next}
+                    aria-label="Next"
+                  >
+                    <ChevronRight className="w-5 h-5" />
+                  </Button>
+                </>
+              )}
+            </div>
+
+            <div className="px-6 py-3 flex items-center justify-between gap-4 border-t border-border/20">
+              <p dir="auto" className="text-sm text-foreground">{caption}</p>
+              <span className="text-xs text-muted-foreground shrink-0">
+                {index + 1} / {items.length}
+              </span>
+            </div>
+
+            {items.length > 1 && (
+              <div className="px-6 pb-4 flex gap-2 overflow-x-auto">
+                {items.map((item, idx) => (
+                  <button
+                    key={item.id}
+                    onClick={() => onIndexChange(idx)}
+                    className={`flex-shrink-0 w-16 h-12 rounded-lg overflow-hidden border-2 transition-all ${
+                      idx === index
+                        ? 'border-primary ring-1 ring-primary/30'
+                        : 'border-border/20 opacity-60 hover:opacity-100'
+                    }`}
+                  >
+                    <img src={item.url} alt="" className="w-full h-full object-cover" />
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MediaLightbox;
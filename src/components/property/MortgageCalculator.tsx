@@ -3,13 +3,31 @@
  * Production-grade with charts and accurate formulas
  */
 
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { motion } from 'framer-motion';
-import { Calculator, Info } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { Calculator, FileDown, Info, Link2, Loader2, Plus, Table2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Slider } from '@/components/ui/slider';
 import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import {
   Tooltip,
   TooltipContent,
@@ -17,64 +35,181 @@ import {
   TooltipTrigger,
 } from '@/components/ui/tooltip';
 import { PieChart, Pie, Cell, Tooltip as RechartsTooltip, ResponsiveContainer } from 'recharts';
+import {
+  amortizationSchedule,
+  CalculatorScenario,
+  DEFAULT_SCENARIO,
+  ExtraPayment,
+  PaymentFrequency,
+  SCENARIO_LIMITS,
+  scenarioFromParams,
+  scenarioToParams,
+} from '@/lib/mortgage';
+import { useCurrency } from '@/hooks/useCurrency';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useBrandAssets } from '@/hooks/useBrandAssets';
+import { formatAmount } from '@/lib/currency';
+import { downloadEdgeFunctionFile } from '@/lib/edgeFunctions';
+import { buildPaymentSchedule, INSTALLMENT_FREQUENCIES, PaymentPlan, ScheduleItem } from '@/lib/paymentPlans';
+import { localizedName } from '@/lib/projects';
+import { toast } from 'sonner';
 
 interface MortgageCalculatorProps {
   price: number;
+  /** Enables the schedule export, which reprices the scenario from the listing */
+  propertyId?: string;
   currency?: 'EGP' | 'USD';
+  /** Developer plans for the listing; when present the calculator opens on the selected plan's schedule */
+  plans?: PaymentPlan[];
 }
 
-const MortgageCalculator = ({ price, currency = 'EGP' }: MortgageCalculatorProps) => {
+const scheduleLabel = (item: ScheduleItem) => {
+  switch (item.kind) {
+    case 'down_payment':
+      return 'Down Payment';
+    case 'installment':
+      return `Installment ${item.number}`;
+    case 'delivery_payment':
+      return 'Delivery Payment';
+    case 'maintenance_deposit':
+      return 'Maintenance Deposit';
+    case 'club_fees':
+      return 'Club Fees';
+  }
+};
+
+const PERIOD_LABELS: Record<PaymentFrequency, { one: string; many: string }> = {
+  monthly: { one: 'Month', many: 'months' },
+  quarterly: { one: 'Quarter', many: 'quarters' },
+};
+
+const MortgageCalculator = ({ price, propertyId, currency = 'EGP', plans = [] }: MortgageCalculatorProps) => {
   const { t } = useTranslation();
+  const { language } = useLanguage();
+  const { convert, currencyLabel, approximateNote } = useCurrency();
+  const { brandLogoUrl } = useBrandAssets();
+  const [searchParams, setSearchParams] = useSearchParams();
+  // A scenario in the link (e.g. sent by an agent) opens the custom calculator pre-filled
+  const [initialScenario] = useState(() => scenarioFromParams(searchParams));
+  const [mode, setMode] = useState<'plan' | 'custom' | null>(initialScenario ? 'custom' : null);
+  const [selectedPlanId, setSelectedPlanId] = useState<string | null>(null);
   
   // Calculator state
-  const [downPaymentPercent, setDownPaymentPercent] = useState(20);
-  const [years, setYears] = useState(10);
-  const [interestRate, setInterestRate] = useState(0);
-  const [includeInterest, setIncludeInterest] = useState(false);
+  const start = initialScenario ?? DEFAULT_SCENARIO;
+  const [downPaymentPercent, setDownPaymentPercent] = useState(start.downPaymentPercent);
+  const [years, setYears] = useState(start.years);
+  const [interestRate, setInterestRate] = useState(start.interestRate);
+  const [includeInterest, setIncludeInterest] = useState(start.interestRate > 0);
+  const [frequency, setFrequency] = useState<PaymentFrequency>(start.frequency);
+  const [extraPayments, setExtraPayments] = useState<ExtraPayment[]>(start.extraPayments);
+  const [newExtraPeriod, setNewExtraPeriod] = useState('');
+  const [newExtraAmount, setNewExtraAmount] = useState('');
+  const [showSchedule, setShowSchedule] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  const scenario = useMemo<CalculatorScenario>(
+    () => ({
+      downPaymentPercent,
+      years,
+      interestRate: includeInterest ? interestRate : 0,
+      frequency,
+      extraPayments,
+    }),
+    [downPaymentPercent, years, interestRate, includeInterest, frequency, extraPayments]
+  );
+
+  // Keep the scenario in the URL so the page link can be shared as-is
+  useEffect(() => {
+    const next = scenarioToParams(scenario, searchParams);
+    if (next.toString() !== searchParams.toString()) {
+      setSearchParams(next, { replace: true });
+    }
+  }, [scenario, searchParams, setSearchParams]);
 
   // Calculations
+  const amortization = useMemo(
+    () =>
+      amortizationSchedule(
+        price * (1 - scenario.downPaymentPercent / 100),
+        scenario.years,
+        scenario.interestRate,
+        scenario.frequency,
+        scenario.extraPayments
+      ),
+    [price, scenario]
+  );
+
   const calculations = useMemo(() => {
     const downPaymentAmount = (price * downPaymentPercent) / 100;
-    const loanAmount = price - downPaymentAmount;
-    const months = years * 12;
-
-    let monthlyPayment: number;
-    let totalInterest: number;
-    let totalPaid: number;
-
-    if (includeInterest && interestRate > 0) {
-      // With interest - using standard amortization formula
-      const monthlyRate = interestRate / 100 / 12;
-      monthlyPayment = loanAmount * (monthlyRate * Math.pow(1 + monthlyRate, months)) / (Math.pow(1 + monthlyRate, months) - 1);
-      totalPaid = monthlyPayment * months + downPaymentAmount;
-      totalInterest = totalPaid - price;
-    } else {
-      // Without interest - simple division
-      monthlyPayment = loanAmount / months;
-      totalPaid = price;
-      totalInterest = 0;
-    }
+    return {
+      downPaymentAmount,
+      loanAmount: price - downPaymentAmount,
+      regularPayment: amortization.regularPayment,
+      totalInterest: amortization.totalInterest,
+      totalPaid: price + amortization.totalInterest,
+    };
+  }, [price, downPaymentPercent, amortization]);
+
+  const periodLabel = PERIOD_LABELS[frequency];
+  const maxPeriod = years * (frequency === 'quarterly' ? 4 : 12);
 
-    // Handle edge cases
-    if (!isFinite(monthlyPayment) || isNaN(monthlyPayment)) {
-      monthlyPayment = 0;
+  const changeTerm = (nextYears: number, nextFrequency: PaymentFrequency) => {
+    setYears(nextYears);
+    setFrequency(nextFrequency);
+    // Extra payments past the new end of the term no longer apply
+    const periods = nextYears * (nextFrequency === 'quarterly' ? 4 : 12);
+    setExtraPayments((prev) => prev.filter((extra) => extra.period <= periods));
+  };
+
+  const handleAddExtra = () => {
+    const period = Number(newExtraPeriod);
+    const amount = Math.round(Number(newExtraAmount));
+    if (!Number.isInteger(period) || period < 1 || period > maxPeriod) {
+      toast.error(`Choose a ${periodLabel.one.toLowerCase()} from 1 to ${maxPeriod}`);
+      return;
     }
-    if (!isFinite(totalInterest) || isNaN(totalInterest)) {
-      totalInterest = 0;
+    if (!(amount > 0)) {
+      toast.error('Enter the extra payment amount');
+      return;
     }
-    if (!isFinite(totalPaid) || isNaN(totalPaid)) {
-      totalPaid = price;
+    setExtraPayments((prev) => [...prev, { period, amount }].sort((a, b) => a.period - b.period));
+    setNewExtraPeriod('');
+    setNewExtraAmount('');
+  };
+
+  const handleExport = async (exportFormat: 'csv' | 'pdf') => {
+    if (!propertyId) return;
+    setExporting(true);
+    try {
+      await downloadEdgeFunctionFile(
+        'export-amortization',
+        { propertyId, scenario, format: exportFormat, language, brandLogoUrl: new URL(brandLogoUrl, window.location.origin).href },
+        { allowAnonymous: true }
+      );
+    } catch (err) {
+      console.error('Failed to export payment schedule:', err);
+      toast.error('Could not export the schedule. Please try again.');
+    } finally {
+      setExporting(false);
     }
+  };
 
-    return {
-      downPaymentAmount,
-      loanAmount,
-      monthlyPayment,
-      totalInterest,
-      totalPaid,
-      months,
-    };
-  }, [price, downPaymentPercent, years, interestRate, includeInterest]);
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success('Scenario link copied');
+    } catch {
+      toast.error('Could not copy the link');
+    }
+  };
+
+  const activeMode = mode ?? (plans.length > 0 ? 'plan' : 'custom');
+  const selectedPlan = plans.find((plan) => plan.id === selectedPlanId) ?? plans[0];
+  // Dated from today, as if the contract were signed now
+  const planSchedule = useMemo(
+    () => (selectedPlan ? buildPaymentSchedule(price, selectedPlan) : null),
+    [price, selectedPlan]
+  );
 
   // Chart data
   const pieData = useMemo(() => {
@@ -90,44 +225,26 @@ const MortgageCalculator = ({ price, currency = 'EGP' }: MortgageCalculatorProps
     return data;
   }, [calculations]);
 
-  const formatPrice = (value: number) => {
-    return new Intl.NumberFormat('en-EG', {
-      style: 'decimal',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(value);
-  };
+  // Amounts are worked out in the listing's currency and converted for display
+  const { approximate, currency: displayCurrency } = convert(price, currency);
+  const unit = currencyLabel(displayCurrency);
+  const prefix = approximate ? '≈ ' : '';
+
+  const formatPrice = (amount: number) => `${prefix}${formatAmount(convert(amount, currency).amount)}`;
 
-  const formatShortPrice = (value: number) => {
+  const formatShortPrice = (amount: number) => {
+    const value = convert(amount, currency).amount;
     if (value >= 1000000) {
-      return `${(value / 1000000).toFixed(1)}M`;
+      return `${prefix}${(value / 1000000).toFixed(1)}M`;
     }
     if (value >= 1000) {
-      return `${(value / 1000).toFixed(0)}K`;
+      return `${prefix}${(value / 1000).toFixed(0)}K`;
     }
-    return value.toFixed(0);
+    return `${prefix}${value.toFixed(0)}`;
   };
 
-  return (
-    <motion.div
-      initial={{ opacity: 0, y: 20 }}
-      animate={{ opacity: 1, y: 0 }}
-      className="glass-card p-6"
-    >
-      <div className="flex items-center gap-3 mb-6">
-        <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center">
-          <Calculator className="w-5 h-5 text-primary" />
-        </div>
-        <div>
-          <h3 className="font-display text-xl font-semibold text-foreground">
-            Payment Calculator
-          </h3>
-          <p className="text-sm text-muted-foreground">
-            Calculate your monthly installments
-          </p>
-        </div>
-      </div>
-
+  const customView = (
+    <div className="space-y-6">
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         {/* Inputs */}
         <div className="space-y-6">
@@ -138,9 +255,12 @@ const MortgageCalculator = ({ price, currency = 'EGP' }: MortgageCalculatorProps
             </Label>
             <div className="input-luxury h-12 flex items-center bg-secondary/30 px-4 rounded-lg">
               <span className="text-foreground font-medium">
-                {formatPrice(price)} {currency}
+                {formatPrice(price)} {unit}
               </span>
             </div>
+            {approximate && approximateNote && (
+              <p className="text-xs text-muted-foreground mt-1">{approximateNote}</p>
+            )}
           </div>
 
           {/* Down Payment */}
@@ -150,15 +270,15 @@ const MortgageCalculator = ({ price, currency = 'EGP' }: MortgageCalculatorProps
                 Down Payment
               </Label>
               <span className="text-sm font-medium text-foreground">
-                {downPaymentPercent}% ({formatShortPrice(calculations.downPaymentAmount)} {currency})
+                {downPaymentPercent}% ({formatShortPrice(calculations.downPaymentAmount)} {unit})
               </span>
             </div>
             <Slider
               value={[downPaymentPercent]}
               onValueChange={([val]) => setDownPaymentPercent(val)}
-              min={5}
-              max={50}
-              step={5}
+              min={SCENARIO_LIMITS.downPaymentPercent.min}
+              max={SCENARIO_LIMITS.downPaymentPercent.max}
+              step={SCENARIO_LIMITS.downPaymentPercent.step}
               className="py-4"
             />
           </div>
@@ -170,19 +290,35 @@ const MortgageCalculator = ({ price, currency = 'EGP' }: MortgageCalculatorProps
                 Duration
               </Label>
               <span className="text-sm font-medium text-foreground">
-                {years} Years ({calculations.months} months)
+                {years} Years ({amortization.scheduledPeriods} {periodLabel.many})
               </span>
             </div>
             <Slider
               value={[years]}
-              onValueChange={([val]) => setYears(val)}
-              min={1}
-              max={15}
-              step={1}
+              onValueChange={([val]) => changeTerm(val, frequency)}
+              min={SCENARIO_LIMITS.years.min}
+              max={SCENARIO_LIMITS.years.max}
+              step={SCENARIO_LIMITS.years.step}
               className="py-4"
             />
           </div>
 
+          {/* Payment Frequency */}
+          <div className="flex items-center justify-between gap-4">
+            <Label className="text-sm text-muted-foreground">
+              Payment Frequency
+            </Label>
+            <Select value={frequency} onValueChange={(value) => changeTerm(years, value as PaymentFrequency)}>
+              <SelectTrigger className="input-luxury w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="monthly">Monthly</SelectItem>
+                <SelectItem value="quarterly">Quarterly</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
           {/* Interest Toggle */}
           <div className="flex items-center justify-between p-4 bg-secondary/30 rounded-lg">
             <div className="flex items-center gap-2">
@@ -224,13 +360,70 @@ const MortgageCalculator = ({ price, currency = 'EGP' }: MortgageCalculatorProps
               <Slider
                 value={[interestRate]}
                 onValueChange={([val]) => setInterestRate(val)}
-                min={0}
-                max={25}
-                step={0.5}
+                min={SCENARIO_LIMITS.interestRate.min}
+                max={SCENARIO_LIMITS.interestRate.max}
+                step={SCENARIO_LIMITS.interestRate.step}
                 className="py-4"
               />
             </motion.div>
           )}
+
+          {/* Extra Payments */}
+          <div>
+            <Label className="text-sm text-muted-foreground mb-2 block">
+              Extra Payments
+            </Label>
+            {extraPayments.length > 0 && (
+              <div className="space-y-2 mb-3">
+                {extraPayments.map((extra, index) => (
+                  <div
+                    key={`${extra.period}-${index}`}
+                    className="flex items-center justify-between gap-2 px-3 py-2 bg-secondary/30 rounded-lg text-sm"
+                  >
+                    <span className="text-muted-foreground">
+                      {periodLabel.one} {extra.period}
+                    </span>
+                    <span className="flex items-center gap-2 text-foreground font-medium">
+                      {formatPrice(extra.amount)} {unit}
+                      <button
+                        type="button"
+                        onClick={() => setExtraPayments((prev) => prev.filter((_, i) => i !== index))}
+                        className="text-muted-foreground hover:text-destructive"
+                        aria-label="Remove extra payment"
+                      >
+                        <X className="w-3.5 h-3.5" />
+                      </button>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="flex gap-2">
+              <Input
+                type="number"
+                min={1}
+                max={maxPeriod}
+                value={newExtraPeriod}
+                onChange={(e) => setNewExtraPeriod(e.target.value)}
+                placeholder={periodLabel.one}
+                className="input-luxury w-24"
+              />
+              <Input
+                type="number"
+                min={0}
+                value={newExtraAmount}
+                onChange={(e) => setNewExtraAmount(e.target.value)}
+                placeholder={`Amount (${currencyLabel(currency)})`}
+                className="input-luxury flex-1"
+              />
+              <Button type="button" variant="outline" size="icon" onClick={handleAddExtra} aria-label="Add extra payment">
+                <Plus className="w-4 h-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">
+              Lump sums paid off the balance shorten the term; the regular payment stays the same.
+            </p>
+          </div>
         </div>
 
         {/* Results & Charts */}
@@ -238,18 +431,20 @@ const MortgageCalculator = ({ price, currency = 'EGP' }: MortgageCalculatorProps
           {/* Summary */}
           <div className="grid grid-cols-2 gap-4">
             <div className="bg-secondary/30 rounded-xl p-4 text-center">
-              <p className="text-sm text-muted-foreground mb-1">Monthly Payment</p>
+              <p className="text-sm text-muted-foreground mb-1">
+                {frequency === 'quarterly' ? 'Quarterly' : 'Monthly'} Payment
+              </p>
               <p className="text-2xl font-semibold text-gold-gradient">
-                {formatPrice(calculations.monthlyPayment)}
+                {formatPrice(calculations.regularPayment)}
               </p>
-              <p className="text-xs text-muted-foreground">{currency}</p>
+              <p className="text-xs text-muted-foreground">{unit}</p>
             </div>
             <div className="bg-secondary/30 rounded-xl p-4 text-center">
               <p className="text-sm text-muted-foreground mb-1">Total Paid</p>
               <p className="text-2xl font-semibold text-foreground">
                 {formatShortPrice(calculations.totalPaid)}
               </p>
-              <p className="text-xs text-muted-foreground">{currency}</p>
+              <p className="text-xs text-muted-foreground">{unit}</p>
             </div>
           </div>
 
@@ -257,11 +452,22 @@ const MortgageCalculator = ({ price, currency = 'EGP' }: MortgageCalculatorProps
             <div className="bg-destructive/10 border border-destructive/20 rounded-xl p-4 text-center">
               <p className="text-sm text-muted-foreground mb-1">Total Interest</p>
               <p className="text-xl font-semibold text-destructive">
-                {formatPrice(calculations.totalInterest)} {currency}
+                {formatPrice(calculations.totalInterest)} {unit}
               </p>
+              {amortization.interestSaved > 0 && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Extra payments save {formatPrice(amortization.interestSaved)} {unit}
+                </p>
+              )}
             </div>
           )}
 
+          {extraPayments.length > 0 && amortization.rows.length < amortization.scheduledPeriods && (
+            <p className="text-sm text-center text-muted-foreground">
+              Paid off after {amortization.rows.length} of {amortization.scheduledPeriods} {periodLabel.many}
+            </p>
+          )}
+
           {/* Pie Chart */}
           <div className="h-48">
             <ResponsiveContainer width="100%" height="100%">
@@ -305,6 +511,180 @@ const MortgageCalculator = ({ price, currency = 'EGP' }: MortgageCalculatorProps
           </div>
         </div>
       </div>
+
+      {/* Amortization Schedule */}
+      <div className="flex flex-wrap items-center gap-2 pt-2 border-t border-border/30">
+        <Button variant="outline" size="sm" onClick={() => setShowSchedule((open) => !open)} className="gap-1.5">
+          <Table2 className="w-4 h-4" />
+          {showSchedule ? 'Hide Schedule' : 'Show Schedule'}
+        </Button>
+        {propertyId && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" disabled={exporting} className="gap-1.5">
+                {exporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileDown className="w-4 h-4" />}
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start">
+              <DropdownMenuItem onClick={() => handleExport('pdf')}>PDF</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport('csv')}>CSV</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+        <Button variant="outline" size="sm" onClick={handleCopyLink} className="gap-1.5">
+          <Link2 className="w-4 h-4" />
+          Copy Link
+        </Button>
+      </div>
+
+      {showSchedule && (
+        <div className="max-h-96 overflow-auto rounded-xl border border-border/30">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-card">
+              <tr className="text-muted-foreground">
+                <th className="text-start font-medium p-3">{periodLabel.one}</th>
+                <th className="text-end font-medium p-3">Payment</th>
+                <th className="text-end font-medium p-3">Principal</th>
+                <th className="text-end font-medium p-3">Interest</th>
+                <th className="text-end font-medium p-3">Extra</th>
+                <th className="text-end font-medium p-3">Balance ({unit})</th>
+              </tr>
+            </thead>
+            <tbody>
+              {amortization.rows.map((row) => (
+                <tr key={row.period} className="border-t border-border/20">
+                  <td className="p-3 text-muted-foreground">{row.period}</td>
+                  <td className="p-3 text-end text-foreground">{formatPrice(row.payment)}</td>
+                  <td className="p-3 text-end text-foreground">{formatPrice(row.principal)}</td>
+                  <td className="p-3 text-end text-muted-foreground">{formatPrice(row.interest)}</td>
+                  <td className="p-3 text-end text-primary">{row.extra > 0 ? formatPrice(row.extra) : '—'}</td>
+                  <td className="p-3 text-end font-medium text-foreground">{formatPrice(row.balance)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+
+  const planView = selectedPlan && planSchedule && (
+    <div className="space-y-6">
+      {plans.length > 1 && (
+        <div>
+          <Label className="text-sm text-muted-foreground mb-2 block">
+            Payment Plan
+          </Label>
+          <Select value={selectedPlan.id} onValueChange={setSelectedPlanId}>
+            <SelectTrigger className="input-luxury h-12">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {plans.map((plan) => (
+                <SelectItem key={plan.id} value={plan.id}>
+                  {localizedName(plan, language)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="bg-secondary/30 rounded-xl p-4 text-center">
+          <p className="text-sm text-muted-foreground mb-1">Down Payment</p>
+          <p className="text-xl font-semibold text-foreground">
+            {selectedPlan.down_payment_percent}%
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {formatPrice((price * selectedPlan.down_payment_percent) / 100)} {unit}
+          </p>
+        </div>
+        <div className="bg-secondary/30 rounded-xl p-4 text-center">
+          <p className="text-sm text-muted-foreground mb-1">
+            {INSTALLMENT_FREQUENCIES.find((f) => f.value === selectedPlan.installment_frequency)?.label} Installment
+          </p>
+          <p className="text-xl font-semibold text-gold-gradient">
+            {formatPrice(planSchedule.installmentAmount)}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {unit} × {planSchedule.installmentCount}
+          </p>
+        </div>
+        <div className="bg-secondary/30 rounded-xl p-4 text-center">
+          <p className="text-sm text-muted-foreground mb-1">Total Paid</p>
+          <p className="text-xl font-semibold text-foreground">
+            {formatShortPrice(planSchedule.totalPaid)}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {planSchedule.totalExtras > 0 ? `${unit}, incl. ${formatShortPrice(planSchedule.totalExtras)} fees` : unit}
+          </p>
+        </div>
+      </div>
+
+      {/* Schedule */}
+      <div className="max-h-96 overflow-y-auto rounded-xl border border-border/30">
+        <table className="w-full text-sm">
+          <thead className="sticky top-0 bg-card">
+            <tr className="text-muted-foreground">
+              <th className="text-start font-medium p-3">Due Date</th>
+              <th className="text-start font-medium p-3">Payment</th>
+              <th className="text-end font-medium p-3">Amount ({unit})</th>
+            </tr>
+          </thead>
+          <tbody>
+            {planSchedule.items.map((item) => (
+              <tr key={`${item.kind}-${item.number ?? 0}`} className="border-t border-border/20">
+                <td className="p-3 text-muted-foreground whitespace-nowrap">
+                  {format(parseISO(item.dueDate), 'd MMM yyyy')}
+                </td>
+                <td className="p-3 text-foreground">{scheduleLabel(item)}</td>
+                <td className="p-3 text-end font-medium text-foreground">{formatPrice(item.amount)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Dates assume a contract signed today; delivery is expected {selectedPlan.delivery_months} months after signing.
+      </p>
+    </div>
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="glass-card p-6"
+    >
+      <div className="flex items-center gap-3 mb-6">
+        <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center">
+          <Calculator className="w-5 h-5 text-primary" />
+        </div>
+        <div>
+          <h3 className="font-display text-xl font-semibold text-foreground">
+            Payment Calculator
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            {activeMode === 'plan' && planView ? 'Payment schedule from the developer' : 'Calculate your monthly installments'}
+          </p>
+        </div>
+      </div>
+
+      {planView ? (
+        <Tabs value={activeMode} onValueChange={(value) => setMode(value as 'plan' | 'custom')}>
+          <TabsList className="mb-6">
+            <TabsTrigger value="plan">Developer Plan</TabsTrigger>
+            <TabsTrigger value="custom">Custom</TabsTrigger>
+          </TabsList>
+          <TabsContent value="plan">{planView}</TabsContent>
+          <TabsContent value="custom">{customView}</TabsContent>
+        </Tabs>
+      ) : (
+        customView
+      )}
     </motion.div>
   );
 };
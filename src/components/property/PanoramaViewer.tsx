@@ -0,0 +1,162 @@
+/**
+ * Panorama Viewer
+ * In-browser 360° viewer for equirectangular images: drag to look around, scroll to zoom
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import * as THREE from 'three';
+import { AlertCircle, Loader2, Move } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface PanoramaViewerProps {
+  src: string;
+  className?: string;
+}
+
+const MIN_FOV = 30;
+const MAX_FOV = 90;
+
+const PanoramaViewer = ({ src, className }: PanoramaViewerProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [status, setStatus] = useState<'loading' | 'ready' | 'error'>('loading');
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    setStatus('loading');
+
+    const renderer = new THREE.WebGLRenderer({ antialias: true });
+    renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
+    renderer.setSize(container.clientWidth, container.clientHeight);
+    renderer.domElement.style.touchAction = 'none';
+    container.appendChild(renderer.domElement);
+
+    const scene = new THREE.Scene();
+    const camera = new THREE.PerspectiveCamera(75, container.clientWidth / container.clientHeight, 1, 1100);
+
+    // Inside-out sphere so the image is seen from its centre
+    const geometry = new THREE.SphereGeometry(500, 60, 40);
+    geometry.scale(-1, 1, 1);
+    const material = new THREE.MeshBasicMaterial();
+    scene.add(new THREE.Mesh(geometry, material));
+
+    let disposed = false;
+    let texture: THREE.Texture | null = null;
+    const loader = new THREE.TextureLoader();
+    loader.setCrossOrigin('anonymous');
+    loader.load(
+      src,
+      (loaded) => {
+        if (disposed) {
+          loaded.dispose();
+          return;
+        }
+        loaded.colorSpace = THREE.SRGBColorSpace;
+        texture = loaded;
+        material.map = loaded;
+        material.needsUpdate = true;
+        setStatus('ready');
+      },
+      undefined,
+      () => !disposed && setStatus('error')
+    );
+
+    let lon = 0;
+    let lat = 0;
+    let interacted = false;
+    let pointer: { x: number; y: number; lon: number; lat: number } | null = null;
+
+    const onPointerDown = (e: PointerEvent) => {
+      interacted = true;
+      pointer = { x: e.clientX, y: e.clientY, lon, lat };
+      renderer.domElement.setPointerCapture(e.pointerId);
+    };
+    const onPointerMove = (e: PointerEvent) => {
+      if (!pointer) return;
+      lon = pointer.lon + (pointer.x - e.clientX) * 0.1;
+      lat = Math.max(-85, Math.min(85, pointer.lat + (e.clientY - pointer.y) * 0.1));
+    };
+    const onPointerUp = () => {
+      pointer = null;
+    };
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      camera.fov = Math.max(MIN_FOV, Math.min(MAX_FOV, camera.fov + e.deltaY * 0.05));
+      camera.updateProjectionMatrix();
+    };
+
+    const canvas = renderer.domElement;
+    canvas.addEventListener('pointerdown', onPointerDown);
+    canvas.addEventListener('pointermove', onPointerMove);
+    canvas.addEventListener('pointerup', onPointerUp);
+    canvas.addEventListener('pointercancel', onPointerUp);
+    canvas.addEventListener('wheel', onWheel, { passive: false });
+
+    const resizeObserver = new ResizeObserver(() => {
+      const { clientWidth, clientHeight } = container;
+      if (!clientWidth || !clientHeight) return;
+      camera.aspect = clientWidth / clientHeight;
+      camera.updateProjectionMatrix();
+      renderer.setSize(clientWidth, clientHeight);
+    });
+    resizeObserver.observe(container);
+
+    const target = new THREE.Vector3();
+    let frame = 0;
+    const render = () => {
+      frame = requestAnimationFrame(render);
+      // Slow turn until the visitor takes over
+      if (!interacted) lon += 0.03;
+      const phi = THREE.MathUtils.degToRad(90 - lat);
+      const theta = THREE.MathUtils.degToRad(lon);
+      target.setFromSphericalCoords(1, phi, theta);
+      camera.lookAt(target);
+      renderer.render(scene, camera);
+    };
+    render();
+
+    return () => {
+      disposed = true;
+      cancelAnimationFrame(frame);
+      resizeObserver.disconnect();
+      canvas.removeEventListener('pointerdown', onPointerDown);
+      canvas.removeEventListener('pointermove', onPointerMove);
+      canvas.removeEventListener('pointerup', onPointerUp);
+      canvas.removeEventListener('pointercancel', onPointerUp);
+      canvas.removeEventListener('wheel', onWheel);
+      texture?.dispose();
+      material.dispose();
+      geometry.dispose();
+      renderer.dispose();
+      container.removeChild(canvas);
+    };
+  }, [src]);
+
+  return (
+    <div
+      ref={containerRef}
+      className={cn('relative w-full overflow-hidden rounded-xl bg-black/40 cursor-grab active:cursor-grabbing', className)}
+    >
+      {status === 'loading' && (
+        <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      )}
+      {status === 'error' && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 text-muted-foreground pointer-events-none">
+          <AlertCircle className="w-8 h-8" />
+          <span className="text-sm">360° view unavailable</span>
+        </div>
+      )}
+      {status === 'ready' && (
+        <div className="absolute bottom-3 left-1/2 -translate-x-1/2 flex items-center gap-1.5 rounded-full bg-background/70 px-3 py-1 text-xs text-foreground backdrop-blur-sm pointer-events-none">
+          <Move className="w-3 h-3" />
+          Drag to look around
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PanoramaViewer;
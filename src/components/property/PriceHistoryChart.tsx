@@ -0,0 +1,94 @@
+/**
+ * Price History Chart
+ * Step chart of a listing's recorded prices; the compact variant is a bare sparkline for cards
+ */
+
+import { useId, useMemo } from 'react';
+import { Area, AreaChart, CartesianGrid, ResponsiveContainer, Tooltip as RechartsTooltip, XAxis, YAxis } from 'recharts';
+import { useCurrency } from '@/hooks/useCurrency';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { formatAmount, formatShortAmount } from '@/lib/currency';
+import { cn } from '@/lib/utils';
+import { PricePoint } from '@/lib/priceHistory';
+
+interface PriceHistoryChartProps {
+  /** Prices as stored, in EGP; plotted in the visitor's currency */
+  points: PricePoint[];
+  compact?: boolean;
+  className?: string;
+}
+
+const PriceHistoryChart = ({ points, compact = false, className }: PriceHistoryChartProps) => {
+  const { language } = useLanguage();
+  const { convert, currencyLabel } = useCurrency();
+  const gradientId = `price-history-${useId().replace(/:/g, '')}`;
+  const locale = language === 'ar' ? 'ar-EG' : 'en-GB';
+
+  const data = useMemo(() => points.map((point) => ({ ...point, price: convert(point.price).amount })), [points, convert]);
+  // Every point converts at the same rate, so one tells the unit and whether it's approximate
+  const sample = points.length > 0 ? convert(points[0].price) : null;
+  const unit = currencyLabel(sample?.currency);
+  const approximate = sample?.approximate ?? false;
+
+  const formatDate = (value: number, withDay = false) =>
+    new Date(value).toLocaleDateString(locale, { day: withDay ? 'numeric' : undefined, month: 'short', year: 'numeric' });
+
+  return (
+    <div className={cn(compact ? 'h-16' : 'h-64', className)} dir="ltr">
+      <ResponsiveContainer width="100%" height="100%">
+        <AreaChart data={data} margin={compact ? { top: 4, right: 0, bottom: 0, left: 0 } : { top: 8, right: 8, bottom: 0, left: 0 }}>
+          <defs>
+            <linearGradient id={gradientId} x1="0" y1="0" x2="0" y2="1">
+              <stop offset="0%" stopColor="hsl(var(--primary))" stopOpacity={0.35} />
+              <stop offset="100%" stopColor="hsl(var(--primary))" stopOpacity={0} />
+            </linearGradient>
+          </defs>
+          {!compact && <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" vertical={false} />}
+          <XAxis
+            dataKey="date"
+            type="number"
+            scale="time"
+            domain={['dataMin', 'dataMax']}
+            hide={compact}
+            tickFormatter={(value: number) => formatDate(value)}
+            tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+            axisLine={false}
+            tickLine={false}
+            minTickGap={32}
+          />
+          <YAxis
+            domain={['auto', 'auto']}
+            hide={compact}
+            tickFormatter={formatShortAmount}
+            tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+            axisLine={false}
+            tickLine={false}
+            width={48}
+          />
+          {!compact && (
+            <RechartsTooltip
+              labelFormatter={(value: number) => formatDate(value, true)}
+              formatter={(value: number) => [`${approximate ? '≈ ' : ''}${formatAmount(value)} ${unit}`, '']}
+              separator=""
+              contentStyle={{
+                backgroundColor: 'hsl(var(--card))',
+                border: '1px solid hsl(var(--border))',
+                borderRadius: '8px',
+              }}
+            />
+          )}
+          <Area
+            type="stepAfter"
+            dataKey="price"
+            stroke="hsl(var(--primary))"
+            strokeWidth={2}
+            fill={`url(#${gradientId})`}
+            isAnimationActive={!compact}
+          />
+        </AreaChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+export default PriceHistoryChart;
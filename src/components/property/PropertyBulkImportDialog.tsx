@@ -0,0 +1,309 @@
+/**
+ * Property Bulk Import Dialog
+ * Upload a CSV/XLSX file, map its columns, review per-cell errors and import in one go
+ */
+
+import { useState } from 'react';
+import { ArrowLeft, Download, FileSpreadsheet, Loader2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { callEdgeFunction, EdgeFunctionError } from '@/lib/edgeFunctions';
+import {
+  ColumnMapping,
+  downloadImportTemplate,
+  guessColumnMapping,
+  IMPORT_FIELDS,
+  ImportFieldKey,
+  ImportFileRow,
+  ImportRowResult,
+  parseImportFile,
+  validateImportRows,
+} from '@/lib/propertyImport';
+import { toast } from 'sonner';
+
+interface PropertyBulkImportDialogProps {
+  onImported: () => void;
+}
+
+type Step = 'upload' | 'mapping' | 'preview';
+
+type BulkImportRowError = { index: number; field: ImportFieldKey; message: string };
+
+const NOT_IMPORTED = '-1';
+
+/** Marks rows whose Property ID is already used by an existing property. */
+const checkExistingExternalIds = async (results: ImportRowResult[]) => {
+  const ids = results.map((r) => r.record.external_id).filter((id): id is string => !!id);
+  if (ids.length === 0) return results;
+
+  const { data } = await supabase.from('properties').select('external_id').in('external_id', ids);
+  const existing = new Set((data || []).map((p) => p.external_id));
+
+  return results.map((r) =>
+    r.record.external_id && existing.has(r.record.external_id)
+      ? { ...r, errors: { ...r.errors, external_id: 'Already exists' } }
+      : r
+  );
+};
+
+const PropertyBulkImportDialog = ({ onImported }: PropertyBulkImportDialogProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<ImportFileRow[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>(guessColumnMapping([]));
+  const [results, setResults] = useState<ImportRowResult[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setHeaders([]);
+    setDataRows([]);
+    setResults([]);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsWorking(true);
+    try {
+      const rows = await parseImportFile(file);
+      if (rows.length < 2) {
+        toast.error('The file needs a header row and at least one property');
+        return;
+      }
+      setFileName(file.name);
+      setHeaders(rows[0].cells);
+      setDataRows(rows.slice(1));
+      setMapping(guessColumnMapping(rows[0].cells));
+      setStep('mapping');
+    } catch (err) {
+      console.error('Error reading import file:', err);
+      toast.error('Could not read the file. Upload a CSV or XLSX file.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleValidate = async () => {
+    setIsWorking(true);
+    try {
+      setResults(await checkExistingExternalIds(validateImportRows(dataRows, mapping)));
+      setStep('preview');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const validRows = results.filter((r) => Object.keys(r.errors).length === 0);
+  const invalidCount = results.length - validRows.length;
+  const mappedFields = IMPORT_FIELDS.filter((f) => mapping[f.key] >= 0);
+
+  const handleImport = async () => {
+    setIsWorking(true);
+    try {
+      const result = await callEdgeFunction<{ inserted: number; imagesDownloaded: number }>('property-bulk-import', {
+        rows: validRows.map((r) => r.record),
+      });
+      toast.success(
+        `Imported ${result.inserted} properties${result.imagesDownloaded ? `, ${result.imagesDownloaded} images saved` : ''}`
+      );
+      setIsOpen(false);
+      reset();
+      onImported();
+    } catch (err) {
+      // Row errors from the server (e.g. an image that can't be downloaded) point back into validRows
+      const rowErrors = err instanceof EdgeFunctionError
+        ? (err.body.rowErrors as BulkImportRowError[] | undefined)
+        : undefined;
+      if (rowErrors?.length) {
+        const byRow = new Map(rowErrors.map((e) => [validRows[e.index]?.rowNumber, e]));
+        setResults((prev) =>
+          prev.map((r) => {
+            const e = byRow.get(r.rowNumber);
+            return e ? { ...r, errors: { ...r.errors, [e.field]: e.message } } : r;
+          })
+        );
+      }
+      toast.error(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { setIsOpen(open); if (!open) reset(); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Upload className="w-5 h-5" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="glass-card border-border/30 sm:max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-display text-xl">Import Properties</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Upload a CSV or XLSX file with one property per row'}
+            {step === 'mapping' && `Match the columns in ${fileName} to property fields`}
+            {step === 'preview' && 'Review the rows before importing. Nothing is saved until you confirm.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-4 mt-2">
+            <label className="flex flex-col items-center justify-center gap-3 border-2 border-dashed border-border/40 rounded-lg py-12 cursor-pointer hover:border-primary/50 transition-colors">
+              {isWorking ? (
+                <Loader2 className="w-8 h-8 animate-spin text-primary" />
+              ) : (
+                <FileSpreadsheet className="w-8 h-8 text-muted-foreground" />
+              )}
+              <span className="text-sm text-muted-foreground">Click to choose a .csv or .xlsx file</span>
+              <input
+                type="file"
+                accept=".csv,.xlsx,.xls"
+                className="hidden"
+                onChange={handleFile}
+                disabled={isWorking}
+              />
+            </label>
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Download className="w-4 h-4" />
+              Template:
+              <Button variant="link" size="sm" className="px-1" onClick={() => downloadImportTemplate('xlsx')}>
+                XLSX
+              </Button>
+              <Button variant="link" size="sm" className="px-1" onClick={() => downloadImportTemplate('csv')}>
+                CSV
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'mapping' && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mt-2">
+            {IMPORT_FIELDS.map((field) => (
+              <div key={field.key} className="flex items-center gap-3">
+                <Label className="w-36 text-xs text-muted-foreground">
+                  {field.label} {field.required && '*'}
+                </Label>
+                <Select
+                  value={String(mapping[field.key])}
+                  onValueChange={(value) => setMapping({ ...mapping, [field.key]: Number(value) })}
+                >
+                  <SelectTrigger className="input-luxury flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="glass-card border-border/50">
+                    <SelectItem value={NOT_IMPORTED}>Don't import</SelectItem>
+                    {headers.map((header, i) => (
+                      <SelectItem key={i} value={String(i)}>
+                        {header || `Column ${i + 1}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-3 mt-2">
+            <p className="text-sm">
+              <span className="text-success">{validRows.length} ready</span>
+              {invalidCount > 0 && (
+                <span className="text-destructive"> · {invalidCount} with errors (will be skipped)</span>
+              )}
+            </p>
+            <div className="max-h-[55vh] overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-border/20">
+                    <TableHead>Row</TableHead>
+                    {mappedFields.map((field) => (
+                      <TableHead key={field.key} className="whitespace-nowrap">{field.label}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.map((result) => (
+                    <TableRow key={result.rowNumber} className="border-border/10 align-top">
+                      <TableCell className="text-muted-foreground">{result.rowNumber}</TableCell>
+                      {mappedFields.map((field) => {
+                        const error = result.errors[field.key];
+                        return (
+                          <TableCell
+                            key={field.key}
+                            className={`text-sm max-w-48 ${error ? 'bg-destructive/10' : ''}`}
+                          >
+                            <span className="block truncate">{result.cells[field.key] || '—'}</span>
+                            {error && <span className="block text-xs text-destructive">{error}</span>}
+                          </TableCell>
+                        );
+                      })}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        {step !== 'upload' && (
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setStep(step === 'preview' ? 'mapping' : 'upload')}
+              disabled={isWorking}
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back
+            </Button>
+            {step === 'mapping' ? (
+              <Button onClick={handleValidate} disabled={isWorking || mapping.title < 0} className="btn-gold">
+                {isWorking && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Validate Rows
+              </Button>
+            ) : (
+              <Button onClick={handleImport} disabled={isWorking || validRows.length === 0} className="btn-gold">
+                {isWorking && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Import {validRows.length} {validRows.length === 1 ? 'Property' : 'Properties'}
+              </Button>
+            )}
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PropertyBulkImportDialog;
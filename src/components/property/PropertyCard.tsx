@@ -1,14 +1,19 @@
 import { Link } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { motion } from 'framer-motion';
-import { Bed, Bath, Maximize, Heart, ArrowRight } from 'lucide-react';
+import { Bed, Bath, Maximize, Heart, ArrowRight, Languages } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import CompareToggle from '@/components/compare/CompareToggle';
+import { useCurrency } from '@/hooks/useCurrency';
+import { CurrencyCode } from '@/lib/currency';
 
 interface PropertyCardProps {
   id: string;
+  /** Detail page slug; falls back to the id */
+  slug?: string;
   title: string;
+  translationMissing?: boolean;
   location: string;
   price: number;
   salePrice?: number;
@@ -23,13 +28,16 @@ interface PropertyCardProps {
   status: 'available' | 'reserved' | 'sold' | 'under_construction' | 'delivered';
   tag?: 'hot' | 'new' | 'bestValue';
   constructionProgress?: number;
-  currency?: string;
+  /** Currency the prices are stored in; they are shown in the visitor's chosen currency */
+  currency?: CurrencyCode;
   featured?: boolean;
 }
 
 const PropertyCard = ({
   id,
+  slug,
   title,
+  translationMissing,
   location,
   price,
   salePrice,
@@ -58,14 +66,7 @@ const PropertyCard = ({
     ? 'available' 
     : status;
   const { t } = useTranslation();
-
-  const formatPrice = (value: number) => {
-    return new Intl.NumberFormat('en-EG', {
-      style: 'decimal',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(value);
-  };
+  const { formatPrice, approximateNote } = useCurrency();
 
   const getStatusBadge = () => {
     const statusClasses: Record<string, string> = {
@@ -157,6 +158,12 @@ const PropertyCard = ({
           <h3 className="font-display text-xl font-semibold text-foreground mb-1 group-hover:text-primary transition-colors duration-200">
             {title}
           </h3>
+          {translationMissing && (
+            <p className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+              <Languages className="w-3 h-3" />
+              {t('property.translationMissing')}
+            </p>
+          )}
           <p className="text-muted-foreground text-sm mb-4">{location}</p>
 
           {/* Specs */}
@@ -177,23 +184,23 @@ const PropertyCard = ({
 
           {/* Price */}
           <div className="flex items-end justify-between">
-            <div>
+            <div title={approximateNote ?? undefined}>
               {displayOriginalPrice ? (
                 <>
                   <p className="text-muted-foreground line-through text-sm">
-                    {formatPrice(displayOriginalPrice)} {currency}
+                    {formatPrice(displayOriginalPrice, currency)}
                   </p>
                   <p className="text-gold font-semibold text-xl">
-                    {formatPrice(price)} {currency}
+                    {formatPrice(price, currency)}
                   </p>
                 </>
               ) : (
                 <p className="text-gold font-semibold text-xl">
-                  {formatPrice(price)} {currency}
+                  {formatPrice(price, currency)}
                 </p>
               )}
             </div>
-            <Link to={`/properties/${id}`}>
+            <Link to={`/properties/${encodeURIComponent(slug || id)}`}>
               <Button
                 variant="ghost"
                 size="sm"
@@ -46,6 +46,9 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { PropertyFilters, FinishingType } from '@/lib/api/types';
+import { usePropertyFacets } from '@/hooks/usePropertyFacets';
+import { useCurrency } from '@/hooks/useCurrency';
+import { BASE_CURRENCY, convertPrice } from '@/lib/currency';
 import { cn } from '@/lib/utils';
 
 interface PropertyFiltersDrawerProps {
@@ -56,23 +59,6 @@ interface PropertyFiltersDrawerProps {
   className?: string;
 }
 
-// Mock data - would come from API
-const CITIES = ['New Cairo', 'North Coast', '6th October', 'Sheikh Zayed', 'Ain Sokhna'];
-const AREAS: Record<string, string[]> = {
-  'New Cairo': ['Palm Hills', 'Sodic East', 'Zed East', 'Madinaty', 'Hyde Park'],
-  'North Coast': ['Marina', 'Marassi', 'Hacienda', 'Telal'],
-  '6th October': ['Zayed', 'Beverly Hills', 'Palm Parks'],
-  'Sheikh Zayed': ['Allegria', 'Sodic West', 'Palm Valley'],
-  'Ain Sokhna': ['La Vista', 'Azha', 'Monte Galala'],
-};
-const TAGS = ['Luxury', 'Sea View', 'Golf View', 'Investment', 'Family Home', 'New Launch', 'Smart Home'];
-const FINISHING_OPTIONS: { value: FinishingType; label: string }[] = [
-  { value: 'core_shell', label: 'Core & Shell' },
-  { value: 'semi_finished', label: 'Semi-Finished' },
-  { value: 'fully_finished', label: 'Fully Finished' },
-  { value: 'furnished', label: 'Furnished' },
-];
-
 const FilterSection = ({
   title,
   icon: Icon,
@@ -113,8 +99,16 @@ const FiltersContent = ({
   onClearFilters,
   activeFilterCount,
 }: PropertyFiltersDrawerProps) => {
+  const { facets, getLabel } = usePropertyFacets(filters);
+  const { currency, rates, toBase, currencyLabel, approximateNote } = useCurrency();
   const selectedCity = filters.city;
-  const availableAreas = selectedCity ? AREAS[selectedCity] || [] : [];
+
+  // Filters hold EGP; the inputs take amounts in the visitor's currency, unrounded so typing isn't disturbed
+  const priceInput = (value?: number) =>
+    value ? Math.round(convertPrice(value, BASE_CURRENCY, currency, rates) ?? value) : '';
+  const setPrice = (key: 'minPrice' | 'maxPrice', input: string) =>
+    onFilterChange(key, input ? toBase(Number(input)) : undefined);
+  const availableAreas = selectedCity ? facets.area.filter((area) => area.parent === selectedCity) : [];
 
   return (
     <div className="space-y-2">
@@ -150,8 +144,10 @@ const FiltersContent = ({
               </SelectTrigger>
               <SelectContent className="glass-card border-border/50">
                 <SelectItem value="">All cities</SelectItem>
-                {CITIES.map((city) => (
-                  <SelectItem key={city} value={city}>{city}</SelectItem>
+                {facets.city.map((city) => (
+                  <SelectItem key={city.value} value={city.value} disabled={city.count === 0}>
+                    {getLabel(city)} ({city.count})
+                  </SelectItem>
                 ))}
               </SelectContent>
             </Select>
@@ -170,7 +166,9 @@ const FiltersContent = ({
                 <SelectContent className="glass-card border-border/50">
                   <SelectItem value="">All areas</SelectItem>
                   {availableAreas.map((area) => (
-                    <SelectItem key={area} value={area}>{area}</SelectItem>
+                    <SelectItem key={area.value} value={area.value} disabled={area.count === 0}>
+                      {getLabel(area)} ({area.count})
+                    </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
@@ -188,8 +186,8 @@ const FiltersContent = ({
               <Input
                 type="number"
                 placeholder="0"
-                value={filters.minPrice || ''}
-                onChange={(e) => onFilterChange('minPrice', e.target.value ? Number(e.target.value) : undefined)}
+                value={priceInput(filters.minPrice)}
+                onChange={(e) => setPrice('minPrice', e.target.value)}
                 className="mt-1 bg-secondary/50 border-border/50"
               />
             </div>
@@ -198,14 +196,14 @@ const FiltersContent = ({
               <Input
                 type="number"
                 placeholder="No limit"
-                value={filters.maxPrice || ''}
-                onChange={(e) => onFilterChange('maxPrice', e.target.value ? Number(e.target.value) : undefined)}
+                value={priceInput(filters.maxPrice)}
+                onChange={(e) => setPrice('maxPrice', e.target.value)}
                 className="mt-1 bg-secondary/50 border-border/50"
               />
             </div>
           </div>
           <p className="text-xs text-muted-foreground">
-            Prices in EGP
+            {approximateNote ?? `Prices in ${currencyLabel()}`}
           </p>
         </div>
       </FilterSection>
@@ -279,31 +277,40 @@ const FiltersContent = ({
       {/* Finishing */}
       <FilterSection title="Finishing" icon={Paintbrush}>
         <div className="space-y-2">
-          {FINISHING_OPTIONS.map((option) => (
-            <div key={option.value} className="flex items-center gap-2">
-              <Checkbox
-                id={`finishing-${option.value}`}
-                checked={filters.finishing === option.value}
-                onCheckedChange={(checked) => 
-                  onFilterChange('finishing', checked ? option.value : undefined)
-                }
-              />
-              <Label
-                htmlFor={`finishing-${option.value}`}
-                className="text-sm text-foreground cursor-pointer"
-              >
-                {option.label}
-              </Label>
-            </div>
-          ))}
+          {facets.finishing.map((option) => {
+            const isChecked = filters.finishing === option.value;
+            return (
+              <div key={option.value} className="flex items-center gap-2">
+                <Checkbox
+                  id={`finishing-${option.value}`}
+                  checked={isChecked}
+                  disabled={option.count === 0 && !isChecked}
+                  onCheckedChange={(checked) =>
+                    onFilterChange('finishing', checked ? (option.value as FinishingType) : undefined)
+                  }
+                />
+                <Label
+                  htmlFor={`finishing-${option.value}`}
+                  className={cn(
+                    'text-sm text-foreground cursor-pointer',
+                    option.count === 0 && !isChecked && 'opacity-50 cursor-not-allowed'
+                  )}
+                >
+                  {getLabel(option)} ({option.count})
+                </Label>
+              </div>
+            );
+          })}
         </div>
       </FilterSection>
 
       {/* Tags */}
       <FilterSection title="Features & Tags" icon={Tag}>
         <div className="flex flex-wrap gap-2">
-          {TAGS.map((tag) => {
+          {facets.tag.map((option) => {
+            const tag = option.value;
             const isSelected = filters.tags?.includes(tag);
+            const isEmpty = option.count === 0 && !isSelected;
             return (
               <Badge
                 key={tag}
@@ -312,8 +319,10 @@ const FiltersContent = ({
                   'cursor-pointer transition-all',
                   isSelected
                     ? 'bg-primary text-primary-foreground hover:bg-primary/80'
-                    : 'hover:bg-secondary'
+                    : 'hover:bg-secondary',
+                  isEmpty && 'opacity-50 pointer-events-none'
                 )}
+                aria-disabled={isEmpty}
                 onClick={() => {
                   const currentTags = filters.tags || [];
                   const newTags = isSelected
@@ -322,7 +331,7 @@ const FiltersContent = ({
                   onFilterChange('tags', newTags.length > 0 ? newTags : undefined);
                 }}
               >
-                {tag}
+                {getLabel(option)}
               </Badge>
             );
           })}
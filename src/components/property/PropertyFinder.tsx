@@ -26,6 +26,8 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { useLanguage } from '@/contexts/LanguageContext';
+import { useCurrency } from '@/hooks/useCurrency';
+import { usePropertyFacets } from '@/hooks/usePropertyFacets';
 import { cn } from '@/lib/utils';
 
 interface PropertyFinderProps {
@@ -43,42 +45,6 @@ export interface PropertyPreferences {
   paymentPreference: string;
 }
 
-const cities = [
-  { value: 'cairo', labelEn: 'Cairo', labelAr: 'القاهرة' },
-  { value: 'new-cairo', labelEn: 'New Cairo', labelAr: 'القاهرة الجديدة' },
-  { value: 'october', labelEn: '6th October', labelAr: '6 أكتوبر' },
-  { value: 'new-capital', labelEn: 'New Capital', labelAr: 'العاصمة الإدارية' },
-  { value: 'north-coast', labelEn: 'North Coast', labelAr: 'الساحل الشمالي' },
-  { value: 'ain-sokhna', labelEn: 'Ain Sokhna', labelAr: 'العين السخنة' },
-];
-
-const districts: Record<string, { value: string; labelEn: string; labelAr: string }[]> = {
-  'new-cairo': [
-    { value: 'fifth-settlement', labelEn: '5th Settlement', labelAr: 'التجمع الخامس' },
-    { value: 'madinaty', labelEn: 'Madinaty', labelAr: 'مدينتي' },
-    { value: 'el-shorouk', labelEn: 'El Shorouk', labelAr: 'الشروق' },
-  ],
-  'october': [
-    { value: 'zayed', labelEn: 'Sheikh Zayed', labelAr: 'الشيخ زايد' },
-    { value: 'beverly-hills', labelEn: 'Beverly Hills', labelAr: 'بيفرلي هيلز' },
-    { value: 'palm-hills', labelEn: 'Palm Hills', labelAr: 'بالم هيلز' },
-  ],
-  'new-capital': [
-    { value: 'r5', labelEn: 'R5', labelAr: 'R5' },
-    { value: 'r7', labelEn: 'R7', labelAr: 'R7' },
-    { value: 'r8', labelEn: 'R8', labelAr: 'R8' },
-  ],
-};
-
-const propertyTypes = [
-  { value: 'apartment', labelEn: 'Apartment', labelAr: 'شقة' },
-  { value: 'villa', labelEn: 'Villa', labelAr: 'فيلا' },
-  { value: 'townhouse', labelEn: 'Townhouse', labelAr: 'تاون هاوس' },
-  { value: 'penthouse', labelEn: 'Penthouse', labelAr: 'بنتهاوس' },
-  { value: 'duplex', labelEn: 'Duplex', labelAr: 'دوبلكس' },
-  { value: 'studio', labelEn: 'Studio', labelAr: 'ستوديو' },
-];
-
 const paymentOptions = [
   { value: 'cash', labelEn: 'Cash', labelAr: 'كاش' },
   { value: 'installments', labelEn: 'Installments', labelAr: 'تقسيط' },
@@ -95,6 +61,7 @@ const steps = [
 export const PropertyFinder = ({ onComplete, className }: PropertyFinderProps) => {
   const { t } = useTranslation();
   const { language, isRTL } = useLanguage();
+  const { formatShortPrice } = useCurrency();
   const [currentStep, setCurrentStep] = useState(0);
   const [isSubmitting, setIsSubmitting] = useState(false);
   
@@ -108,17 +75,18 @@ export const PropertyFinder = ({ onComplete, className }: PropertyFinderProps) =
     paymentPreference: '',
   });
 
+  // Options come from the listed properties, with counts for the budget and location picked so far
+  const { facets } = usePropertyFacets({
+    minPrice: preferences.budgetMin,
+    maxPrice: preferences.budgetMax,
+    city: preferences.city || undefined,
+    area: preferences.district || undefined,
+  });
+
   const getLabel = (item: { labelEn: string; labelAr: string }) => {
     return language === 'ar' ? item.labelAr : item.labelEn;
   };
 
-  const formatCurrency = (value: number) => {
-    if (value >= 1000000) {
-      return `${(value / 1000000).toFixed(1)}M EGP`;
-    }
-    return `${(value / 1000).toFixed(0)}K EGP`;
-  };
-
   const handleNext = () => {
     if (currentStep < steps.length - 1) {
       setCurrentStep(currentStep + 1);
@@ -151,7 +119,9 @@ export const PropertyFinder = ({ onComplete, className }: PropertyFinderProps) =
     }
   };
 
-  const availableDistricts = preferences.city ? districts[preferences.city] || [] : [];
+  const availableDistricts = preferences.city
+    ? facets.area.filter((district) => district.parent === preferences.city)
+    : [];
 
   return (
     <div className={cn("w-full max-w-2xl mx-auto", className)}>
@@ -224,7 +194,7 @@ export const PropertyFinder = ({ onComplete, className }: PropertyFinderProps) =
                 <div className="space-y-8">
                   <div className="text-center">
                     <p className="text-3xl font-display font-semibold text-gold-gradient">
-                      {formatCurrency(preferences.budgetMin)} - {formatCurrency(preferences.budgetMax)}
+                      {formatShortPrice(preferences.budgetMin)} - {formatShortPrice(preferences.budgetMax)}
                     </p>
                   </div>
 
@@ -279,9 +249,9 @@ export const PropertyFinder = ({ onComplete, className }: PropertyFinderProps) =
                         <SelectValue placeholder={language === 'ar' ? 'اختر المدينة' : 'Select city'} />
                       </SelectTrigger>
                       <SelectContent className="glass-card border-border/50">
-                        {cities.map((city) => (
-                          <SelectItem key={city.value} value={city.value}>
-                            {getLabel(city)}
+                        {facets.city.map((city) => (
+                          <SelectItem key={city.value} value={city.value} disabled={city.count === 0}>
+                            {getLabel(city)} ({city.count})
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -303,8 +273,8 @@ export const PropertyFinder = ({ onComplete, className }: PropertyFinderProps) =
                         </SelectTrigger>
                         <SelectContent className="glass-card border-border/50">
                           {availableDistricts.map((district) => (
-                            <SelectItem key={district.value} value={district.value}>
-                              {getLabel(district)}
+                            <SelectItem key={district.value} value={district.value} disabled={district.count === 0}>
+                              {getLabel(district)} ({district.count})
                             </SelectItem>
                           ))}
                         </SelectContent>
@@ -331,18 +301,20 @@ export const PropertyFinder = ({ onComplete, className }: PropertyFinderProps) =
                   <div>
                     <Label>{language === 'ar' ? 'نوع العقار' : 'Property Type'}</Label>
                     <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mt-3">
-                      {propertyTypes.map((type) => (
+                      {facets.property_type.map((type) => (
                         <button
                           key={type.value}
                           onClick={() => setPreferences({ ...preferences, propertyType: type.value })}
+                          disabled={type.count === 0}
                           className={cn(
-                            "p-4 rounded-xl border text-center transition-all",
+                            "p-4 rounded-xl border text-center transition-all disabled:opacity-40 disabled:pointer-events-none",
                             preferences.propertyType === type.value
                               ? "border-primary bg-primary/10 text-primary"
                               : "border-border/50 hover:border-primary/30 text-muted-foreground hover:text-foreground"
                           )}
                         >
                           {getLabel(type)}
+                          <span className="block text-xs opacity-70">{type.count}</span>
                         </button>
                       ))}
                     </div>
@@ -0,0 +1,86 @@
+/**
+ * Property Gallery
+ * Cover image with a thumbnail strip; any photo opens the lightbox
+ */
+
+import { ReactNode, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Images } from 'lucide-react';
+import MediaLightbox from './MediaLightbox';
+import { PropertyMediaItem } from '@/lib/propertyMedia';
+
+interface PropertyGalleryProps {
+  images: PropertyMediaItem[];
+  /** Shown when the listing has no gallery images yet */
+  fallbackImage: string;
+  title: string;
+  /** Overlays for the cover image, e.g. status badge and actions */
+  children?: ReactNode;
+}
+
+const THUMBNAILS = 4;
+
+const PropertyGallery = ({ images, fallbackImage, title, children }: PropertyGalleryProps) => {
+  const { t } = useTranslation();
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const cover = images[0]?.url ?? fallbackImage;
+  const thumbnails = images.slice(1, THUMBNAILS + 1);
+  const hiddenCount = images.length - 1 - thumbnails.length;
+
+  return (
+    <div className="space-y-3">
+      <div className="relative rounded-2xl overflow-hidden">
+        <button
+          type="button"
+          className="block w-full cursor-zoom-in disabled:cursor-default"
+          onClick={() => setOpenIndex(0)}
+          disabled={images.length === 0}
+        >
+          <img src={cover} alt={title} className="w-full h-[60vh] object-cover" />
+        </button>
+        {children}
+        {images.length > 1 && (
+          <button
+            type="button"
+            onClick={() => setOpenIndex(0)}
+            className="absolute bottom-4 right-4 flex items-center gap-2 rounded-full bg-background/70 px-4 py-2 text-sm text-foreground backdrop-blur-sm hover:bg-background/90 transition-all"
+          >
+            <Images className="w-4 h-4" />
+            {t('property.viewAllPhotos', { count: images.length })}
+          </button>
+        )}
+      </div>
+
+      {thumbnails.length > 0 && (
+        <div className="grid grid-cols-4 gap-3">
+          {thumbnails.map((image, idx) => {
+            const isLast = idx === thumbnails.length - 1 && hiddenCount > 0;
+            return (
+              <button
+                key={image.id}
+                type="button"
+                onClick={() => setOpenIndex(idx + 1)}
+                className="relative aspect-[4/3] rounded-xl overflow-hidden group"
+              >
+                <img
+                  src={image.url}
+                  alt=""
+                  className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-105"
+                />
+                {isLast && (
+                  <span className="absolute inset-0 flex items-center justify-center bg-background/60 text-lg font-semibold text-foreground">
+                    +{hiddenCount}
+                  </span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      <MediaLightbox items={images} index={openIndex} onIndexChange={setOpenIndex} title={title} />
+    </div>
+  );
+};
+
+export default PropertyGallery;
@@ -0,0 +1,386 @@
+/**
+ * Property Media Manager
+ * Admin uploader for a listing's gallery: drag to reorder, per-item type and bilingual captions
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  ChevronDown,
+  ChevronUp,
+  Film,
+  GripVertical,
+  ImageIcon,
+  Link2,
+  Loader2,
+  Trash2,
+  Upload,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useApiAuth } from '@/contexts/ApiAuthContext';
+import { MEDIA_BUCKET, MEDIA_TYPES, MediaType, moveItem, PropertyMediaItem } from '@/lib/propertyMedia';
+import { toast } from 'sonner';
+
+interface PropertyMediaManagerProps {
+  propertyId: string;
+  /** Called with the first photo's URL, which the database copies to properties.image_url; null once the last photo is gone */
+  onCoverChange?: (url: string | null, previousUrl: string | null) => void;
+}
+
+const PropertyMediaManager = ({ propertyId, onCoverChange }: PropertyMediaManagerProps) => {
+  const { user } = useApiAuth();
+  const [items, setItems] = useState<PropertyMediaItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUploading, setIsUploading] = useState(false);
+  const [uploadType, setUploadType] = useState<MediaType>('image');
+  const [videoLink, setVideoLink] = useState('');
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const orderBeforeDrag = useRef('');
+
+  const fetchMedia = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('property_media')
+      .select('*')
+      .eq('property_id', propertyId)
+      .order('sort_order')
+      .order('created_at');
+
+    if (error) {
+      console.error('Error fetching media:', error);
+      toast.error('Failed to load media');
+    } else {
+      setItems(data || []);
+    }
+    setIsLoading(false);
+  }, [propertyId]);
+
+  useEffect(() => {
+    fetchMedia();
+  }, [fetchMedia]);
+
+  const coverUrl = items.find((m) => m.media_type === 'image')?.url;
+
+  // Mirrors the database trigger: removing the last photo clears a cover that pointed at it
+  const previousCover = useRef<string | null>(null);
+  useEffect(() => {
+    const cover = coverUrl ?? null;
+    if (cover || previousCover.current) onCoverChange?.(cover, previousCover.current);
+    previousCover.current = cover;
+  }, [coverUrl, onCoverChange]);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    if (files.length === 0) return;
+
+    setIsUploading(true);
+    let uploaded = 0;
+    try {
+      for (const [index, file] of files.entries()) {
+        const ext = file.name.split('.').pop();
+        const path = `${propertyId}/media/${Date.now()}-${index}.${ext}`;
+
+        const { error: uploadError } = await supabase.storage.from(MEDIA_BUCKET).upload(path, file);
+        if (uploadError) throw uploadError;
+
+        const { data, error: dbError } = await supabase
+          .from('property_media')
+          .insert({
+            property_id: propertyId,
+            media_type: uploadType,
+            url: supabase.storage.from(MEDIA_BUCKET).getPublicUrl(path).data.publicUrl,
+            storage_path: path,
+            created_by: user?.id || null,
+          })
+          .select()
+          .single();
+
+        if (dbError) {
+          await supabase.storage.from(MEDIA_BUCKET).remove([path]);
+          throw dbError;
+        }
+
+        uploaded += 1;
+        setItems((prev) => [...prev, data]);
+      }
+      toast.success(uploaded === 1 ? 'Media uploaded' : `${uploaded} files uploaded`);
+    } catch (err) {
+      console.error('Error uploading media:', err);
+      toast.error(uploaded > 0 ? `Uploaded ${uploaded} of ${files.length} files` : 'Upload failed');
+    } finally {
+      setIsUploading(false);
+      e.target.value = '';
+    }
+  };
+
+  const handleAddVideoLink = async () => {
+    const url = videoLink.trim();
+    if (!/^https?:\/\//i.test(url)) {
+      toast.error('Enter a full video URL, e.g. a YouTube or Vimeo link');
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('property_media')
+      .insert({ property_id: propertyId, media_type: 'video', url, created_by: user?.id || null })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error adding video:', error);
+      toast.error('Failed to add video');
+      return;
+    }
+    setItems((prev) => [...prev, data]);
+    setVideoLink('');
+    toast.success('Video added');
+  };
+
+  const updateItem = async (
+    item: PropertyMediaItem,
+    changes: Partial<Pick<PropertyMediaItem, 'media_type' | 'caption_en' | 'caption_ar'>>
+  ) => {
+    setItems((prev) => prev.map((m) => (m.id === item.id ? { ...m, ...changes } : m)));
+    const { error } = await supabase.from('property_media').update(changes).eq('id', item.id);
+    if (error) {
+      console.error('Error updating media:', error);
+      toast.error('Failed to save changes');
+      fetchMedia();
+    }
+  };
+
+  const saveCaption = (item: PropertyMediaItem, field: 'caption_en' | 'caption_ar', value: string) => {
+    const caption = value.trim() || null;
+    if (caption !== item[field]) updateItem(item, { [field]: caption });
+  };
+
+  const persistOrder = async (ordered: PropertyMediaItem[]) => {
+    const { error } = await supabase.rpc('reorder_property_media', {
+      p_property_id: propertyId,
+      p_media_ids: ordered.map((m) => m.id),
+    });
+    if (error) {
+      console.error('Error reordering media:', error);
+      toast.error('Failed to save the new order');
+      fetchMedia();
+    }
+  };
+
+  const handleMove = (from: number, to: number) => {
+    const ordered = moveItem(items, from, to);
+    if (ordered === items) return;
+    setItems(ordered);
+    persistOrder(ordered);
+  };
+
+  const handleDelete = async (item: PropertyMediaItem) => {
+    try {
+      const { error } = await supabase.from('property_media').delete().eq('id', item.id);
+      if (error) throw error;
+      if (item.storage_path) await supabase.storage.from(MEDIA_BUCKET).remove([item.storage_path]);
+      setItems((prev) => prev.filter((m) => m.id !== item.id));
+      toast.success('Media deleted');
+    } catch (err) {
+      console.error('Error deleting media:', err);
+      toast.error('Failed to delete');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-sm font-medium text-foreground">
+          <ImageIcon className="w-4 h-4 text-primary" />
+          Gallery &amp; Media ({items.length})
+        </div>
+        <p className="text-xs text-muted-foreground">Drag to reorder. The first photo is the cover image.</p>
+      </div>
+
+      {/* Upload Controls */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+        <div>
+          <Label className="text-xs">Upload as</Label>
+          <Select value={uploadType} onValueChange={(value) => setUploadType(value as MediaType)}>
+            <SelectTrigger className="input-luxury mt-1 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="glass-card border-border/50">
+              {MEDIA_TYPES.map((type) => (
+                <SelectItem key={type.value} value={type.value}>
+                  {type.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-end">
+          <label className="w-full">
+            <input
+              type="file"
+              accept={uploadType === 'video' ? 'video/*' : 'image/*'}
+              multiple
+              onChange={handleUpload}
+              className="hidden"
+              disabled={isUploading}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full gap-2 border-primary/30 hover:bg-primary/10"
+              disabled={isUploading}
+              asChild
+            >
+              <span>
+                {isUploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                Upload Files
+              </span>
+            </Button>
+          </label>
+        </div>
+        <div className="flex items-end gap-2">
+          <Input
+            value={videoLink}
+            onChange={(e) => setVideoLink(e.target.value)}
+            placeholder="YouTube / Vimeo link"
+            className="input-luxury text-sm"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            className="shrink-0"
+            onClick={handleAddVideoLink}
+            disabled={!videoLink.trim()}
+            aria-label="Add video link"
+          >
+            <Link2 className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Media List */}
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : items.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-3">No media uploaded yet</p>
+      ) : (
+        <ul className="space-y-2 max-h-96 overflow-y-auto pr-1">
+          {items.map((item, index) => (
+            <li
+              key={item.id}
+              draggable
+              onDragStart={() => {
+                orderBeforeDrag.current = items.map((m) => m.id).join();
+                setDragIndex(index);
+              }}
+              onDragOver={(e) => {
+                e.preventDefault();
+                if (dragIndex === null || dragIndex === index) return;
+                setItems((prev) => moveItem(prev, dragIndex, index));
+                setDragIndex(index);
+              }}
+              onDrop={(e) => e.preventDefault()}
+              onDragEnd={() => {
+                setDragIndex(null);
+                if (items.map((m) => m.id).join() !== orderBeforeDrag.current) persistOrder(items);
+              }}
+              className={`flex gap-3 rounded-lg border p-2 bg-background/40 ${
+                dragIndex === index ? 'border-primary/60 opacity-70' : 'border-border/20'
+              }`}
+            >
+              <div className="flex flex-col items-center justify-center text-muted-foreground">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={() => handleMove(index, index - 1)}
+                  disabled={index === 0}
+                  aria-label="Move up"
+                >
+                  <ChevronUp className="w-4 h-4" />
+                </Button>
+                <GripVertical className="w-4 h-4 cursor-grab" />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={() => handleMove(index, index + 1)}
+                  disabled={index === items.length - 1}
+                  aria-label="Move down"
+                >
+                  <ChevronDown className="w-4 h-4" />
+                </Button>
+              </div>
+
+              <div className="w-24 h-20 shrink-0 rounded-md overflow-hidden bg-secondary flex items-center justify-center">
+                {item.media_type === 'video' ? (
+                  <Film className="w-6 h-6 text-muted-foreground" />
+                ) : (
+                  <img src={item.url} alt="" className="w-full h-full object-cover" draggable={false} />
+                )}
+              </div>
+
+              <div className="flex-1 min-w-0 grid grid-cols-1 sm:grid-cols-2 gap-2">
+                <Select
+                  value={item.media_type}
+                  onValueChange={(value) => updateItem(item, { media_type: value })}
+                >
+                  <SelectTrigger className="input-luxury h-8 text-xs sm:col-span-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="glass-card border-border/50">
+                    {MEDIA_TYPES.map((type) => (
+                      <SelectItem key={type.value} value={type.value}>
+                        {type.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  defaultValue={item.caption_en || ''}
+                  onBlur={(e) => saveCaption(item, 'caption_en', e.target.value)}
+                  placeholder="Caption (English)"
+                  maxLength={200}
+                  className="input-luxury h-8 text-xs"
+                />
+                <Input
+                  defaultValue={item.caption_ar || ''}
+                  onBlur={(e) => saveCaption(item, 'caption_ar', e.target.value)}
+                  placeholder="التعليق (عربي)"
+                  maxLength={200}
+                  className="input-luxury h-8 text-xs"
+                  dir="rtl"
+                />
+              </div>
+
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="self-center text-muted-foreground hover:text-destructive"
+                onClick={() => handleDelete(item)}
+                aria-label="Delete media"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PropertyMediaManager;
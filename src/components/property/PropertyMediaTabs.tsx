@@ -0,0 +1,134 @@
+/**
+ * Property Media Tabs
+ * Floor plans, video tour and 360° views for the details page; tabs without media are hidden
+ */
+
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Film, LayoutDashboard, Rotate3d } from 'lucide-react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import MediaLightbox from './MediaLightbox';
+import PanoramaViewer from './PanoramaViewer';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { mediaCaption, MediaType, PropertyMediaItem, videoEmbedUrl } from '@/lib/propertyMedia';
+
+interface PropertyMediaTabsProps {
+  floorPlans: PropertyMediaItem[];
+  videos: PropertyMediaItem[];
+  panoramas: PropertyMediaItem[];
+  title: string;
+}
+
+const PropertyMediaTabs = ({ floorPlans, videos, panoramas, title }: PropertyMediaTabsProps) => {
+  const { t } = useTranslation();
+  const { language } = useLanguage();
+  const [planIndex, setPlanIndex] = useState<number | null>(null);
+  const [panoramaIndex, setPanoramaIndex] = useState(0);
+
+  const tabs: { value: MediaType; label: string; icon: typeof Film; count: number }[] = [
+    { value: 'floor_plan', label: t('property.floorPlans'), icon: LayoutDashboard, count: floorPlans.length },
+    { value: 'video', label: t('property.video'), icon: Film, count: videos.length },
+    { value: '360_view', label: t('property.tour360'), icon: Rotate3d, count: panoramas.length },
+  ];
+  const available = tabs.filter((tab) => tab.count > 0);
+
+  if (available.length === 0) return null;
+
+  const panorama = panoramas[Math.min(panoramaIndex, panoramas.length - 1)];
+
+  return (
+    <div className="glass-card p-6">
+      <Tabs defaultValue={available[0].value} className="space-y-4">
+        <TabsList className="glass-card border-border/30">
+          {available.map(({ value, label, icon: Icon }) => (
+            <TabsTrigger key={value} value={value} className="gap-2">
+              <Icon className="w-4 h-4" />
+              {label}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+
+        {floorPlans.length > 0 && (
+          <TabsContent value="floor_plan" className="mt-0">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {floorPlans.map((plan, idx) => (
+                <button
+                  key={plan.id}
+                  type="button"
+                  onClick={() => setPlanIndex(idx)}
+                  className="rounded-xl overflow-hidden border border-border/20 bg-white text-start cursor-zoom-in"
+                >
+                  <img src={plan.url} alt={mediaCaption(plan, language) || title} className="w-full h-56 object-contain" />
+                  {mediaCaption(plan, language) && (
+                    <p dir="auto" className="px-3 py-2 text-sm text-background bg-foreground/90">
+                      {mediaCaption(plan, language)}
+                    </p>
+                  )}
+                </button>
+              ))}
+            </div>
+            <MediaLightbox items={floorPlans} index={planIndex} onIndexChange={setPlanIndex} title={title} />
+          </TabsContent>
+        )}
+
+        {videos.length > 0 && (
+          <TabsContent value="video" className="mt-0 space-y-4">
+            {videos.map((video) => {
+              const embedUrl = videoEmbedUrl(video.url);
+              const caption = mediaCaption(video, language);
+              return (
+                <figure key={video.id} className="space-y-2">
+                  <div className="aspect-video rounded-xl overflow-hidden bg-black">
+                    {embedUrl ? (
+                      <iframe
+                        src={embedUrl}
+                        title={caption || title}
+                        className="w-full h-full"
+                        allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+                        allowFullScreen
+                        loading="lazy"
+                      />
+                    ) : (
+                      <video src={video.url} controls preload="metadata" className="w-full h-full" />
+                    )}
+                  </div>
+                  {caption && (
+                    <figcaption dir="auto" className="text-sm text-muted-foreground">
+                      {caption}
+                    </figcaption>
+                  )}
+                </figure>
+              );
+            })}
+          </TabsContent>
+        )}
+
+        {panorama && (
+          <TabsContent value="360_view" className="mt-0 space-y-3">
+            <PanoramaViewer key={panorama.id} src={panorama.url} className="h-[420px]" />
+            {panoramas.length > 1 && (
+              <div className="flex flex-wrap gap-2">
+                {panoramas.map((item, idx) => (
+                  <button
+                    key={item.id}
+                    type="button"
+                    onClick={() => setPanoramaIndex(idx)}
+                    className={`rounded-full border px-3 py-1 text-sm transition-all ${
+                      item.id === panorama.id
+                        ? 'border-primary bg-primary/10 text-primary'
+                        : 'border-border/30 text-muted-foreground hover:text-foreground'
+                    }`}
+                  >
+                    {mediaCaption(item, language) || `${t('property.tour360')} ${idx + 1}`}
+                  </button>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+        )}
+      </Tabs>
+    </div>
+  );
+};
+
+export default PropertyMediaTabs;
@@ -0,0 +1,111 @@
+/**
+ * Property Translation Fields
+ * English / Arabic tabs for a listing's title, description and URL slug
+ */
+
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { PropertyTranslationValues, slugify } from '@/lib/propertyContent';
+
+interface PropertyTranslationFieldsProps {
+  value: PropertyTranslationValues;
+  onChange: (value: PropertyTranslationValues) => void;
+}
+
+const PropertyTranslationFields = ({ value, onChange }: PropertyTranslationFieldsProps) => {
+  const update = (field: keyof PropertyTranslationValues, text: string) => onChange({ ...value, [field]: text });
+  const arabicMissing = !value.title_ar.trim();
+
+  return (
+    <Tabs defaultValue="en" className="space-y-3">
+      <TabsList className="glass-card border-border/30">
+        <TabsTrigger value="en">English</TabsTrigger>
+        <TabsTrigger value="ar" className="gap-2">
+          العربية
+          {arabicMissing && (
+            <Badge variant="outline" className="px-1.5 py-0 text-[10px] font-normal">
+              Missing
+            </Badge>
+          )}
+        </TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="en" className="space-y-4 mt-0">
+        <div>
+          <Label>Title *</Label>
+          <Input
+            value={value.title}
+            onChange={(e) => update('title', e.target.value)}
+            placeholder="Property title"
+            className="input-luxury mt-1"
+          />
+        </div>
+        <div>
+          <Label>Description</Label>
+          <Textarea
+            value={value.description}
+            onChange={(e) => update('description', e.target.value)}
+            placeholder="Property description"
+            className="input-luxury mt-1 min-h-20"
+          />
+        </div>
+        <div>
+          <Label>URL Slug</Label>
+          <Input
+            value={value.slug}
+            onChange={(e) => update('slug', e.target.value)}
+            placeholder={slugify(value.title) || 'Generated from the title'}
+            className="input-luxury mt-1"
+          />
+          <p className="text-xs text-muted-foreground mt-1">
+            Leave empty to generate it from the title. Changing it breaks previously shared links.
+          </p>
+        </div>
+      </TabsContent>
+
+      <TabsContent value="ar" className="space-y-4 mt-0">
+        {arabicMissing && (
+          <p className="text-xs text-muted-foreground">
+            Without an Arabic title, Arabic visitors see the English text with a “translation unavailable” note.
+          </p>
+        )}
+        <div>
+          <Label>Title (Arabic)</Label>
+          <Input
+            value={value.title_ar}
+            onChange={(e) => update('title_ar', e.target.value)}
+            placeholder="عنوان العقار"
+            className="input-luxury mt-1"
+            dir="rtl"
+          />
+        </div>
+        <div>
+          <Label>Description (Arabic)</Label>
+          <Textarea
+            value={value.description_ar}
+            onChange={(e) => update('description_ar', e.target.value)}
+            placeholder="وصف العقار"
+            className="input-luxury mt-1 min-h-20"
+            dir="rtl"
+          />
+        </div>
+        <div>
+          <Label>URL Slug (Arabic)</Label>
+          <Input
+            value={value.slug_ar}
+            onChange={(e) => update('slug_ar', e.target.value)}
+            placeholder={slugify(value.title_ar) || 'Generated from the Arabic title'}
+            className="input-luxury mt-1"
+            dir="rtl"
+            disabled={arabicMissing}
+          />
+        </div>
+      </TabsContent>
+    </Tabs>
+  );
+};
+
+export default PropertyTranslationFields;
@@ -0,0 +1,162 @@
+/**
+ * Saved Search Dialog
+ * Names a /properties filter set and picks how often to be alerted about new matches
+ */
+
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { useApiAuth } from '@/contexts/ApiAuthContext';
+import { useCurrency } from '@/hooks/useCurrency';
+import {
+  ALERT_FREQUENCIES,
+  AlertFrequency,
+  describeSavedFilters,
+  SavedSearch,
+  SavedSearchFilters,
+  suggestSearchName,
+} from '@/lib/savedSearches';
+import { toast } from 'sonner';
+
+interface SavedSearchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Filters for a new saved search */
+  filters?: SavedSearchFilters;
+  /** Existing saved search to rename or change the alert frequency of */
+  savedSearch?: SavedSearch;
+  onSaved?: (search: SavedSearch) => void;
+}
+
+const SavedSearchDialog = ({ open, onOpenChange, filters, savedSearch, onSaved }: SavedSearchDialogProps) => {
+  const { user } = useApiAuth();
+  const { convert, currencyLabel } = useCurrency();
+  const prices = { convert: (amount: number) => convert(amount).amount, label: currencyLabel(convert(0).currency) };
+  const searchFilters = (savedSearch?.filters as SavedSearchFilters | undefined) ?? filters ?? {};
+
+  const [name, setName] = useState('');
+  const [frequency, setFrequency] = useState<AlertFrequency>('daily');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(savedSearch?.name ?? suggestSearchName(searchFilters, prices));
+    setFrequency((savedSearch?.alert_frequency as AlertFrequency) ?? 'daily');
+    // Reset only when the dialog opens, not on every filter object identity change
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, savedSearch]);
+
+  const chips = describeSavedFilters(searchFilters, prices);
+  const trimmedName = name.trim();
+
+  const handleSave = async () => {
+    if (!user || !trimmedName) return;
+
+    setIsSaving(true);
+    try {
+      const query = savedSearch
+        ? supabase
+            .from('saved_searches')
+            .update({ name: trimmedName, alert_frequency: frequency })
+            .eq('id', savedSearch.id)
+        : supabase.from('saved_searches').insert({
+            user_id: user.id,
+            name: trimmedName,
+            alert_frequency: frequency,
+            filters: searchFilters as Json,
+          });
+
+      const { data, error } = await query.select().single();
+      if (error) throw error;
+
+      toast.success(savedSearch ? 'Saved search updated' : 'Search saved. We\'ll let you know about new matches.');
+      onSaved?.(data);
+      onOpenChange(false);
+    } catch (err) {
+      console.error('Error saving search:', err);
+      toast.error('Failed to save search');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="glass-card border-border/30 sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-display text-xl">
+            {savedSearch ? 'Edit Saved Search' : 'Save This Search'}
+          </DialogTitle>
+          <DialogDescription>Get notified when new properties match these filters.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5 mt-2">
+          <div className="flex flex-wrap gap-1.5">
+            {chips.length > 0 ? (
+              chips.map((chip) => (
+                <Badge key={chip} variant="secondary" className="capitalize">
+                  {chip}
+                </Badge>
+              ))
+            ) : (
+              <span className="text-sm text-muted-foreground">All properties</span>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="saved-search-name">Name</Label>
+            <Input
+              id="saved-search-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+              className="input-luxury"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Alerts</Label>
+            <RadioGroup value={frequency} onValueChange={(v) => setFrequency(v as AlertFrequency)} className="gap-2">
+              {ALERT_FREQUENCIES.map((option) => (
+                <Label
+                  key={option.value}
+                  htmlFor={`alert-${option.value}`}
+                  className="flex items-center gap-3 rounded-lg border border-border/30 p-3 cursor-pointer hover:bg-secondary/30"
+                >
+                  <RadioGroupItem id={`alert-${option.value}`} value={option.value} />
+                  <div>
+                    <p className="font-medium text-foreground">{option.label}</p>
+                    <p className="text-xs text-muted-foreground font-normal">{option.description}</p>
+                  </div>
+                </Label>
+              ))}
+            </RadioGroup>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={isSaving || !trimmedName} className="btn-gold">
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {savedSearch ? 'Save Changes' : 'Save Search'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SavedSearchDialog;
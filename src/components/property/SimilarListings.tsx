@@ -5,11 +5,17 @@
 
 import { useTranslation } from 'react-i18next';
 import { motion } from 'framer-motion';
+import { Sparkles } from 'lucide-react';
 import PropertyCard from './PropertyCard';
 import { PropertyListItem } from '@/lib/api/types';
 
+export type SimilarListing = PropertyListItem & {
+  /** Short explanation of why the listing is similar, e.g. "Same area, 8% cheaper" */
+  similarityReason?: string;
+};
+
 interface SimilarListingsProps {
-  properties: PropertyListItem[];
+  properties: SimilarListing[];
   currentPropertyId: string;
 }
 
@@ -59,7 +65,9 @@ const SimilarListings = ({ properties, currentPropertyId }: SimilarListingsProps
             >
               <PropertyCard
                 id={property.id}
+                slug={property.slug}
                 title={property.title}
+                translationMissing={property.translationMissing}
                 location={property.location}
                 price={property.price}
                 beds={property.bedrooms}
@@ -69,6 +77,12 @@ const SimilarListings = ({ properties, currentPropertyId }: SimilarListingsProps
                 status={mapStatus(property.status)}
                 salePrice={property.salePrice}
               />
+              {property.similarityReason && (
+                <p className="mt-2 flex items-center gap-1.5 text-xs text-muted-foreground">
+                  <Sparkles className="w-3.5 h-3.5 text-primary shrink-0" />
+                  {property.similarityReason}
+                </p>
+              )}
             </motion.div>
           ))}
         </div>
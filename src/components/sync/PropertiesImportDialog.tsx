@@ -0,0 +1,222 @@
+/**
+ * Properties Import Dialog
+ * Shows the dry-run diff of a properties sheet import and lets the admin pick rows to commit
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { Loader2, Play } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type {
+  PropertiesImportPreview,
+  PropertyDiffAction,
+  PropertyDiffRow,
+  PropertyFieldChange,
+  PropertyRowSelection,
+} from '@/lib/api/types';
+
+interface PropertiesImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  preview: PropertiesImportPreview | null;
+  isCommitting: boolean;
+  onCommit: (rows: PropertyRowSelection[]) => void;
+}
+
+const ACTIONS: { value: PropertyDiffAction; label: string; color: string }[] = [
+  { value: 'create', label: 'Create', color: 'bg-success/20 text-success' },
+  { value: 'update', label: 'Update', color: 'bg-primary/20 text-primary' },
+  { value: 'unchanged', label: 'Unchanged', color: 'bg-secondary' },
+  { value: 'invalid', label: 'Invalid', color: 'bg-destructive/20 text-destructive' },
+];
+
+const isSelectable = (row: PropertyDiffRow) => row.action === 'create' || row.action === 'update';
+
+const formatValue = (value: PropertyFieldChange['from']) => {
+  if (value === null || value === '') return '—';
+  if (Array.isArray(value)) return value.join(', ') || '—';
+  return typeof value === 'number' ? value.toLocaleString() : value;
+};
+
+const PropertiesImportDialog = ({
+  open,
+  onOpenChange,
+  preview,
+  isCommitting,
+  onCommit,
+}: PropertiesImportDialogProps) => {
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [actionFilter, setActionFilter] = useState<PropertyDiffAction | 'all'>('all');
+
+  // Every create and update is selected by default for a fresh preview
+  useEffect(() => {
+    setSelected(new Set((preview?.rows || []).filter(isSelectable).map((r) => r.row)));
+    setActionFilter('all');
+  }, [preview]);
+
+  const selectableRows = useMemo(() => (preview?.rows || []).filter(isSelectable), [preview]);
+  const visibleRows = (preview?.rows || []).filter(
+    (r) => actionFilter === 'all' || r.action === actionFilter
+  );
+
+  const toggleRow = (row: number, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(row);
+      else next.delete(row);
+      return next;
+    });
+  };
+
+  const allSelected = selectableRows.length > 0 && selected.size === selectableRows.length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="glass-card border-border/30 max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="font-display">Properties Import Preview</DialogTitle>
+          <DialogDescription>
+            Nothing has been written yet. Review the changes and import the rows you select.
+          </DialogDescription>
+        </DialogHeader>
+
+        {preview && (
+          <>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant={actionFilter === 'all' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setActionFilter('all')}
+              >
+                All ({preview.rows.length})
+              </Button>
+              {ACTIONS.map((action) => (
+                <Button
+                  key={action.value}
+                  variant={actionFilter === action.value ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setActionFilter(action.value)}
+                >
+                  {action.label} ({preview.summary[action.value]})
+                </Button>
+              ))}
+            </div>
+
+            <div className="max-h-[50vh] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-border/20">
+                    <TableHead className="w-10">
+                      <Checkbox
+                        checked={allSelected}
+                        disabled={selectableRows.length === 0}
+                        onCheckedChange={(checked) =>
+                          setSelected(new Set(checked ? selectableRows.map((r) => r.row) : []))
+                        }
+                      />
+                    </TableHead>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Property ID</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Changes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleRows.map((row) => {
+                    const action = ACTIONS.find((a) => a.value === row.action)!;
+                    return (
+                      <TableRow key={row.row} className="border-border/10 align-top">
+                        <TableCell>
+                          <Checkbox
+                            checked={selected.has(row.row)}
+                            disabled={!isSelectable(row)}
+                            onCheckedChange={(checked) => toggleRow(row.row, checked === true)}
+                          />
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">{row.row}</TableCell>
+                        <TableCell className="font-medium">{row.externalId || '—'}</TableCell>
+                        <TableCell>
+                          <Badge className={action.color}>{action.label}</Badge>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {row.action === 'invalid' ? (
+                            <span className="text-destructive">{row.message}</span>
+                          ) : row.changes.length === 0 ? (
+                            <span className="text-muted-foreground">No changes</span>
+                          ) : (
+                            <ul className="space-y-0.5">
+                              {row.changes.map((change) => (
+                                <li key={change.field}>
+                                  <span className="text-muted-foreground">{change.field}:</span>{' '}
+                                  {row.action === 'update' && (
+                                    <>
+                                      <span className="line-through text-muted-foreground">
+                                        {formatValue(change.from)}
+                                      </span>{' '}
+                                      →{' '}
+                                    </>
+                                  )}
+                                  {formatValue(change.to)}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                  {visibleRows.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                        No rows in this category.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() =>
+              onCommit(selectableRows.filter((r) => selected.has(r.row)).map(({ row, hash }) => ({ row, hash })))
+            }
+            disabled={isCommitting || selected.size === 0}
+            className="btn-gold"
+          >
+            {isCommitting ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Play className="w-4 h-4 mr-2" />
+            )}
+            Import {selected.size} {selected.size === 1 ? 'Row' : 'Rows'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PropertiesImportDialog;
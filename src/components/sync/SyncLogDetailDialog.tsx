@@ -0,0 +1,144 @@
+/**
+ * Sync Log Detail Dialog
+ * Per-row errors of a single sync run, with a retry of just the failed rows
+ */
+
+import { Loader2, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type { SyncRowError } from '@/lib/api/types';
+
+export interface SyncLogRow {
+  id: string;
+  type: string;
+  source: string;
+  status: string;
+  trigger: string;
+  retry_of: string | null;
+  started_at: string;
+  finished_at: string | null;
+  rows_processed: number;
+  rows_updated: number;
+  rows_failed: number;
+  errors: SyncRowError[];
+  created_at: string;
+}
+
+interface SyncLogDetailDialogProps {
+  log: SyncLogRow | null;
+  onOpenChange: (open: boolean) => void;
+  onRetry: (log: SyncLogRow) => void;
+  isRetrying: boolean;
+}
+
+const formatDateTime = (date: string) => new Date(date).toLocaleString();
+
+const SyncLogDetailDialog = ({ log, onOpenChange, onRetry, isRetrying }: SyncLogDetailDialogProps) => {
+  const rowErrors = (log?.errors || []).filter((e) => e.row > 0);
+  const runErrors = (log?.errors || []).filter((e) => e.row === 0);
+  const isFinished = log?.status === 'completed' || log?.status === 'failed';
+  // Drive imports number files in listing order, not sheet rows
+  const rowLabel = log?.source === 'google_drive' ? 'File' : 'Sheet Row';
+
+  return (
+    <Dialog open={log !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="glass-card border-border/30 max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="font-display capitalize">
+            {log?.type} sync · {log?.status}
+          </DialogTitle>
+          <DialogDescription>
+            {log && (
+              <>
+                Started {formatDateTime(log.started_at)}
+                {log.finished_at && `, finished ${formatDateTime(log.finished_at)}`}
+                {' · '}
+                {log.rows_processed} processed, {log.rows_updated} updated, {log.rows_failed} failed
+                {log.retry_of && ' · retry of an earlier run'}
+              </>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        {runErrors.map((error, i) => (
+          <p key={i} className="text-sm text-destructive rounded-md bg-destructive/10 px-3 py-2">
+            {error.message}
+          </p>
+        ))}
+
+        {rowErrors.length === 0 ? (
+          runErrors.length === 0 && (
+            <p className="text-center py-8 text-muted-foreground">No row errors in this run.</p>
+          )
+        ) : (
+          <div className="max-h-[55vh] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="border-border/20">
+                  <TableHead className="w-24">{rowLabel}</TableHead>
+                  <TableHead>Values</TableHead>
+                  <TableHead>Error</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rowErrors.map((error, i) => (
+                  <TableRow key={`${error.row}-${i}`} className="border-border/10 align-top">
+                    <TableCell className="font-medium">{error.row}</TableCell>
+                    <TableCell>
+                      <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 text-xs">
+                        {Object.entries(error.values).map(([key, value]) => (
+                          <div key={key} className="contents">
+                            <dt className="text-muted-foreground">{key}</dt>
+                            <dd className="font-mono break-all">{value || '—'}</dd>
+                          </div>
+                        ))}
+                      </dl>
+                    </TableCell>
+                    <TableCell className="text-sm text-destructive">{error.message}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          {rowErrors.length > 0 && (
+            <Button
+              onClick={() => log && onRetry(log)}
+              disabled={!isFinished || isRetrying}
+              className="btn-gold"
+            >
+              {isRetrying ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <RotateCcw className="w-4 h-4 mr-2" />
+              )}
+              Retry {rowErrors.length} Failed {rowErrors.length === 1 ? 'Row' : 'Rows'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SyncLogDetailDialog;
@@ -0,0 +1,107 @@
+import { useState, useEffect, useCallback, useMemo, ReactNode } from 'react';
+import { useTranslation } from 'react-i18next';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  BASE_CURRENCY,
+  convertPrice,
+  CURRENCY_STORAGE_KEY,
+  CurrencyCode,
+  ExchangeRate,
+  formatAmount,
+  formatShortAmount,
+  isCurrencyCode,
+  RateTable,
+  ratesOn,
+  roundApproximate,
+} from '@/lib/currency';
+import { CurrencyContext, DisplayPrice } from '@/hooks/useCurrency';
+
+export const CurrencyProvider = ({ children }: { children: ReactNode }) => {
+  const { t } = useTranslation();
+  const [currency, setCurrencyState] = useState<CurrencyCode>(() => {
+    const stored = localStorage.getItem(CURRENCY_STORAGE_KEY);
+    return isCurrencyCode(stored) ? stored : BASE_CURRENCY;
+  });
+  const [rates, setRates] = useState<RateTable>({});
+
+  useEffect(() => {
+    const fetchRates = async () => {
+      const { data, error } = await supabase
+        .from('exchange_rates')
+        .select('currency, rate, effective_date')
+        .order('effective_date', { ascending: false })
+        .limit(50);
+      if (error) {
+        console.error('Error fetching exchange rates:', error);
+        return;
+      }
+      setRates(ratesOn((data || []).filter((row): row is ExchangeRate => isCurrencyCode(row.currency))));
+    };
+
+    fetchRates();
+  }, []);
+
+  const setCurrency = useCallback((next: CurrencyCode) => {
+    setCurrencyState(next);
+    localStorage.setItem(CURRENCY_STORAGE_KEY, next);
+  }, []);
+
+  const convert = useCallback(
+    (amount: number, from: CurrencyCode = BASE_CURRENCY): DisplayPrice => {
+      const converted = convertPrice(amount, from, currency, rates);
+      if (converted === null) return { amount, currency: from, approximate: false };
+      return from === currency
+        ? { amount, currency, approximate: false }
+        : { amount: roundApproximate(converted), currency, approximate: true };
+    },
+    [currency, rates]
+  );
+
+  const toBase = useCallback(
+    (amount: number) => Math.round(convertPrice(amount, currency, BASE_CURRENCY, rates) ?? amount),
+    [currency, rates]
+  );
+
+  const currencyLabel = useCallback(
+    (code: CurrencyCode = currency) => (code === 'USD' ? t('common.currencyUSD') : t('common.currency')),
+    [currency, t]
+  );
+
+  const formatPrice = useCallback(
+    (amount: number, from?: CurrencyCode) => {
+      const price = convert(amount, from);
+      return `${price.approximate ? '≈ ' : ''}${formatAmount(price.amount)} ${currencyLabel(price.currency)}`;
+    },
+    [convert, currencyLabel]
+  );
+
+  const formatShortPrice = useCallback(
+    (amount: number, from?: CurrencyCode) => {
+      const price = convert(amount, from);
+      return `${price.approximate ? '≈ ' : ''}${formatShortAmount(price.amount)} ${currencyLabel(price.currency)}`;
+    },
+    [convert, currencyLabel]
+  );
+
+  const activeRate = currency === BASE_CURRENCY ? undefined : rates[currency];
+  const approximateNote = activeRate
+    ? t('common.approximatePrice', { rate: activeRate.rate, currency, date: activeRate.effective_date })
+    : null;
+
+  const value = useMemo(
+    () => ({
+      currency,
+      setCurrency,
+      rates,
+      convert,
+      toBase,
+      currencyLabel,
+      formatPrice,
+      formatShortPrice,
+      approximateNote,
+    }),
+    [currency, setCurrency, rates, convert, toBase, currencyLabel, formatPrice, formatShortPrice, approximateNote]
+  );
+
+  return <CurrencyContext.Provider value={value}>{children}</CurrencyContext.Provider>;
+};
@@ -58,20 +58,22 @@ describe('useCompareStore', () => {
     expect(result.current.ids).toEqual(['property-1']);
   });
 
-  it('should limit to MAX_COMPARE_ITEMS (2)', () => {
+  it('should limit to MAX_COMPARE_ITEMS (4)', () => {
     const { result } = renderHook(() => useCompareStore());
     
     act(() => {
       result.current.add('property-1');
       result.current.add('property-2');
+      result.current.add('property-3');
+      result.current.add('property-4');
     });
     
     act(() => {
-      const status = result.current.add('property-3');
+      const status = result.current.add('property-5');
       expect(status).toBe('limit_reached');
     });
     
-    expect(result.current.ids).toEqual(['property-1', 'property-2']);
+    expect(result.current.ids).toEqual(['property-1', 'property-2', 'property-3', 'property-4']);
     expect(result.current.ids.length).toBe(MAX_COMPARE_ITEMS);
   });
 
@@ -122,13 +124,15 @@ describe('useCompareStore', () => {
     act(() => {
       result.current.add('property-1');
       result.current.add('property-2');
+      result.current.add('property-3');
+      result.current.add('property-4');
     });
     
     act(() => {
-      result.current.replaceOldest('property-3');
+      result.current.replaceOldest('property-5');
     });
     
-    expect(result.current.ids).toEqual(['property-2', 'property-3']);
+    expect(result.current.ids).toEqual(['property-2', 'property-3', 'property-4', 'property-5']);
     expect(result.current.ids).not.toContain('property-1');
   });
 
@@ -139,15 +143,45 @@ describe('useCompareStore', () => {
     
     act(() => {
       result.current.add('property-1');
+      result.current.add('property-2');
+      result.current.add('property-3');
     });
     expect(result.current.isFull).toBe(false);
     
     act(() => {
-      result.current.add('property-2');
+      result.current.add('property-4');
     });
     expect(result.current.isFull).toBe(true);
   });
 
+  it('should allow comparing from two selections', () => {
+    const { result } = renderHook(() => useCompareStore());
+    
+    act(() => {
+      result.current.add('property-1');
+    });
+    expect(result.current.canCompare).toBe(false);
+    
+    act(() => {
+      result.current.add('property-2');
+    });
+    expect(result.current.canCompare).toBe(true);
+  });
+
+  it('should replace the whole selection, dropping duplicates and extras', () => {
+    const { result } = renderHook(() => useCompareStore());
+    
+    act(() => {
+      result.current.add('property-1');
+    });
+    
+    act(() => {
+      result.current.replaceAll(['a', 'b', 'a', 'c', 'd', 'e']);
+    });
+    
+    expect(result.current.ids).toEqual(['a', 'b', 'c', 'd']);
+  });
+
   it('should persist to localStorage', () => {
     const { result } = renderHook(() => useCompareStore());
     
@@ -1,7 +1,8 @@
 import { useState, useEffect, useCallback } from 'react';
 
 const STORAGE_KEY = 'compare_properties';
-const MAX_COMPARE_ITEMS = 2;
+const MIN_COMPARE_ITEMS = 2;
+const MAX_COMPARE_ITEMS = 4;
 
 export interface CompareStore {
   ids: string[];
@@ -10,7 +11,10 @@ export interface CompareStore {
   clear: () => void;
   isSelected: (id: string) => boolean;
   replaceOldest: (newId: string) => void;
+  /** Adopt a selection wholesale, e.g. from a shared compare link */
+  replaceAll: (ids: string[]) => void;
   isFull: boolean;
+  canCompare: boolean;
 }
 
 export const useCompareStore = (): CompareStore => {
@@ -18,7 +22,7 @@ export const useCompareStore = (): CompareStore => {
     if (typeof window === 'undefined') return [];
     try {
       const stored = localStorage.getItem(STORAGE_KEY);
-      return stored ? JSON.parse(stored) : [];
+      return stored ? JSON.parse(stored).slice(0, MAX_COMPARE_ITEMS) : [];
     } catch {
       return [];
     }
@@ -64,6 +68,10 @@ export const useCompareStore = (): CompareStore => {
     });
   }, [ids]);
 
+  const replaceAll = useCallback((newIds: string[]) => {
+    setIds([...new Set(newIds)].slice(0, MAX_COMPARE_ITEMS));
+  }, []);
+
   return {
     ids,
     add,
@@ -71,8 +79,10 @@ export const useCompareStore = (): CompareStore => {
     clear,
     isSelected,
     replaceOldest,
+    replaceAll,
     isFull: ids.length >= MAX_COMPARE_ITEMS,
+    canCompare: ids.length >= MIN_COMPARE_ITEMS,
   };
 };
 
-export { MAX_COMPARE_ITEMS };
+export { MIN_COMPARE_ITEMS, MAX_COMPARE_ITEMS };
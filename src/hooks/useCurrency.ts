@@ -0,0 +1,39 @@
+import { createContext, useContext } from 'react';
+import { CurrencyCode, RateTable } from '@/lib/currency';
+
+export interface DisplayPrice {
+  amount: number;
+  currency: CurrencyCode;
+  /** Converted at an exchange rate rather than shown as stored */
+  approximate: boolean;
+}
+
+export interface CurrencyContextType {
+  /** The visitor's chosen currency */
+  currency: CurrencyCode;
+  setCurrency: (currency: CurrencyCode) => void;
+  /** Rates in force today, by currency */
+  rates: RateTable;
+  /** Converts a stored amount into the chosen currency, or leaves it as stored when there is no rate */
+  convert: (amount: number, from?: CurrencyCode) => DisplayPrice;
+  /** Converts an amount typed in the chosen currency back to EGP, for queries */
+  toBase: (amount: number) => number;
+  /** Localized unit label, e.g. "EGP" or "ج.م" */
+  currencyLabel: (currency?: CurrencyCode) => string;
+  /** Full display string such as "≈ 103,000 USD" */
+  formatPrice: (amount: number, from?: CurrencyCode) => string;
+  /** Compact display string such as "≈ 2.1M USD" */
+  formatShortPrice: (amount: number, from?: CurrencyCode) => string;
+  /** Tooltip for approximate amounts explaining the rate used; null when prices are shown as stored */
+  approximateNote: string | null;
+}
+
+export const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
+
+export const useCurrency = () => {
+  const context = useContext(CurrencyContext);
+  if (!context) {
+    throw new Error('useCurrency must be used within a CurrencyProvider');
+  }
+  return context;
+};
@@ -32,6 +32,10 @@ const FILTER_KEYS: (keyof PropertyFilters)[] = [
   'finishing',
   'tags',
   'status',
+  'propertyType',
+  'deliveryStatus',
+  'polygon',
+  'radius',
   'sortBy',
   'page',
   'limit',
@@ -68,7 +72,7 @@ export function useFilters(): UseFiltersReturn {
           filters.tags = value.split(',').filter(Boolean);
           break;
         case 'sortBy':
-          if (['price_asc', 'price_desc', 'newest', 'area_asc', 'area_desc'].includes(value)) {
+          if (['relevance', 'price_asc', 'price_desc', 'newest', 'area_asc', 'area_desc'].includes(value)) {
             filters.sortBy = value as PropertyFilters['sortBy'];
           }
           break;
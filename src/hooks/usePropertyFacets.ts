@@ -0,0 +1,51 @@
+/**
+ * Property Facets Hook
+ * Live city/area/type/finishing/tag options with result counts for the current filters
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { PropertyFilters } from '@/lib/api/types';
+import { FacetOption, fetchPropertyFacets, PropertyFacets } from '@/lib/propertySearch';
+import { useLanguage } from '@/contexts/LanguageContext';
+
+const EMPTY_FACETS: PropertyFacets = { city: [], area: [], property_type: [], finishing: [], tag: [] };
+
+/** Pass enabled = false to hold off fetching until the options are actually shown. */
+export function usePropertyFacets(filters: PropertyFilters, enabled = true) {
+  const { language } = useLanguage();
+  const [facets, setFacets] = useState<PropertyFacets>(EMPTY_FACETS);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Paging and sorting don't change counts, so they don't trigger a refetch
+  const { page: _page, limit: _limit, sortBy: _sortBy, ...countFilters } = filters;
+  const filterKey = JSON.stringify(countFilters);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    fetchPropertyFacets(JSON.parse(filterKey) as PropertyFilters)
+      .then((result) => {
+        if (!cancelled) setFacets(result);
+      })
+      .catch((err) => console.error('Failed to fetch property facets:', err))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [filterKey, enabled]);
+
+  const getLabel = useCallback(
+    (option: FacetOption) => (language === 'ar' ? option.labelAr : option.labelEn),
+    [language]
+  );
+
+  return { facets, isLoading, getLabel };
+}
+
+export default usePropertyFacets;
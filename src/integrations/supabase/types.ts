@@ -182,9 +182,46 @@ export type Database = {
         }
         Relationships: []
       }
+      developers: {
+        Row: {
+          created_at: string
+          description: string | null
+          description_ar: string | null
+          id: string
+          logo_url: string | null
+          name: string
+          name_ar: string | null
+          updated_at: string
+          website: string | null
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          description_ar?: string | null
+          id?: string
+          logo_url?: string | null
+          name: string
+          name_ar?: string | null
+          updated_at?: string
+          website?: string | null
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          description_ar?: string | null
+          id?: string
+          logo_url?: string | null
+          name?: string
+          name_ar?: string | null
+          updated_at?: string
+          website?: string | null
+        }
+        Relationships: []
+      }
       documents: {
         Row: {
           created_at: string
+          drive_file_id: string | null
           file_path: string
           file_type: string | null
           id: string
@@ -194,6 +231,7 @@ export type Database = {
         }
         Insert: {
           created_at?: string
+          drive_file_id?: string | null
           file_path: string
           file_type?: string | null
           id?: string
@@ -203,6 +241,7 @@ export type Database = {
         }
         Update: {
           created_at?: string
+          drive_file_id?: string | null
           file_path?: string
           file_type?: string | null
           id?: string
@@ -220,6 +259,33 @@ export type Database = {
           },
         ]
       }
+      exchange_rates: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          currency: string
+          effective_date: string
+          id: string
+          rate: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          currency: string
+          effective_date?: string
+          id?: string
+          rate: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          currency?: string
+          effective_date?: string
+          id?: string
+          rate?: number
+        }
+        Relationships: []
+      }
       heatmap_exclusions: {
         Row: {
           created_at: string
@@ -288,6 +354,152 @@ export type Database = {
           },
         ]
       }
+      inventory_conflicts: {
+        Row: {
+          created_at: string
+          id: string
+          inventory_id: string
+          manual_history_id: string | null
+          property_id: string
+          resolved_at: string | null
+          resolved_by: string | null
+          sheet_counts: Json
+          status: string
+          sync_log_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          inventory_id: string
+          manual_history_id?: string | null
+          property_id: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          sheet_counts: Json
+          status?: string
+          sync_log_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          inventory_id?: string
+          manual_history_id?: string | null
+          property_id?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          sheet_counts?: Json
+          status?: string
+          sync_log_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inventory_conflicts_inventory_id_fkey"
+            columns: ["inventory_id"]
+            isOneToOne: false
+            referencedRelation: "inventory"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_conflicts_manual_history_id_fkey"
+            columns: ["manual_history_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_history"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_conflicts_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_conflicts_sync_log_id_fkey"
+            columns: ["sync_log_id"]
+            isOneToOne: false
+            referencedRelation: "sync_logs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inventory_history: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          id: string
+          inventory_id: string
+          new_counts: Json
+          old_counts: Json | null
+          property_id: string
+          source: string
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          id?: string
+          inventory_id: string
+          new_counts: Json
+          old_counts?: Json | null
+          property_id: string
+          source?: string
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          id?: string
+          inventory_id?: string
+          new_counts?: Json
+          old_counts?: Json | null
+          property_id?: string
+          source?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inventory_history_inventory_id_fkey"
+            columns: ["inventory_id"]
+            isOneToOne: false
+            referencedRelation: "inventory"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_history_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lead_exports: {
+        Row: {
+          created_at: string
+          filters: Json
+          format: string
+          id: string
+          row_count: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          filters?: Json
+          format: string
+          id?: string
+          row_count?: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          filters?: Json
+          format?: string
+          id?: string
+          row_count?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
       leads: {
         Row: {
           agent_name: string | null
@@ -643,6 +855,75 @@ export type Database = {
         }
         Relationships: []
       }
+      payment_plans: {
+        Row: {
+          club_fees: number
+          created_at: string
+          delivery_months: number
+          delivery_payment_percent: number
+          down_payment_percent: number
+          id: string
+          installment_frequency: string
+          installment_years: number
+          maintenance_deposit_percent: number
+          name: string
+          name_ar: string | null
+          project_id: string | null
+          property_id: string | null
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          club_fees?: number
+          created_at?: string
+          delivery_months?: number
+          delivery_payment_percent?: number
+          down_payment_percent: number
+          id?: string
+          installment_frequency?: string
+          installment_years: number
+          maintenance_deposit_percent?: number
+          name: string
+          name_ar?: string | null
+          project_id?: string | null
+          property_id?: string | null
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          club_fees?: number
+          created_at?: string
+          delivery_months?: number
+          delivery_payment_percent?: number
+          down_payment_percent?: number
+          id?: string
+          installment_frequency?: string
+          installment_years?: number
+          maintenance_deposit_percent?: number
+          name?: string
+          name_ar?: string | null
+          project_id?: string | null
+          property_id?: string | null
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_plans_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_plans_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           assigned_agent_id: string | null
@@ -679,26 +960,100 @@ export type Database = {
         }
         Relationships: []
       }
+      projects: {
+        Row: {
+          city: string | null
+          created_at: string
+          delivery_year: number | null
+          description: string | null
+          description_ar: string | null
+          developer_id: string | null
+          featured: boolean
+          id: string
+          image_url: string | null
+          location: string | null
+          name: string
+          name_ar: string | null
+          progress_percent: number
+          updated_at: string
+        }
+        Insert: {
+          city?: string | null
+          created_at?: string
+          delivery_year?: number | null
+          description?: string | null
+          description_ar?: string | null
+          developer_id?: string | null
+          featured?: boolean
+          id?: string
+          image_url?: string | null
+          location?: string | null
+          name: string
+          name_ar?: string | null
+          progress_percent?: number
+          updated_at?: string
+        }
+        Update: {
+          city?: string | null
+          created_at?: string
+          delivery_year?: number | null
+          description?: string | null
+          description_ar?: string | null
+          developer_id?: string | null
+          featured?: boolean
+          id?: string
+          image_url?: string | null
+          location?: string | null
+          name?: string
+          name_ar?: string | null
+          progress_percent?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "projects_developer_id_fkey"
+            columns: ["developer_id"]
+            isOneToOne: false
+            referencedRelation: "developers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       properties: {
         Row: {
           area: number | null
           assigned_user_id: string | null
           baths: number | null
           beds: number | null
+          city: string | null
           created_at: string
           created_by: string | null
           description: string | null
+          description_ar: string | null
+          district: string | null
+          external_id: string | null
+          finishing: string | null
           id: string
           image_url: string | null
+          latitude: number | null
           location: string | null
+          longitude: number | null
           price: number | null
           price_delta_percent: number | null
           progress_percent: number | null
           progress_status: string | null
+          project_id: string | null
           property_type: string | null
+          published_at: string | null
+          purchased_at: string | null
+          search_text: string | null
+          search_vector: unknown
+          slug: string | null
+          slug_ar: string | null
           status: string
           tags: string[] | null
           title: string
+          title_ar: string | null
           updated_at: string
         }
         Insert: {
@@ -706,20 +1061,35 @@ export type Database = {
           assigned_user_id?: string | null
           baths?: number | null
           beds?: number | null
+          city?: string | null
           created_at?: string
           created_by?: string | null
           description?: string | null
+          description_ar?: string | null
+          district?: string | null
+          external_id?: string | null
+          finishing?: string | null
           id?: string
           image_url?: string | null
+          latitude?: number | null
           location?: string | null
+          longitude?: number | null
           price?: number | null
           price_delta_percent?: number | null
           progress_percent?: number | null
           progress_status?: string | null
+          project_id?: string | null
           property_type?: string | null
+          published_at?: string | null
+          purchased_at?: string | null
+          search_text?: never
+          search_vector?: never
+          slug?: string | null
+          slug_ar?: string | null
           status?: string
           tags?: string[] | null
           title: string
+          title_ar?: string | null
           updated_at?: string
         }
         Update: {
@@ -727,24 +1097,124 @@ export type Database = {
           assigned_user_id?: string | null
           baths?: number | null
           beds?: number | null
+          city?: string | null
           created_at?: string
           created_by?: string | null
           description?: string | null
+          description_ar?: string | null
+          district?: string | null
+          external_id?: string | null
+          finishing?: string | null
           id?: string
           image_url?: string | null
+          latitude?: number | null
           location?: string | null
+          longitude?: number | null
           price?: number | null
           price_delta_percent?: number | null
           progress_percent?: number | null
           progress_status?: string | null
+          project_id?: string | null
           property_type?: string | null
+          published_at?: string | null
+          purchased_at?: string | null
+          search_text?: never
+          search_vector?: never
+          slug?: string | null
+          slug_ar?: string | null
           status?: string
           tags?: string[] | null
           title?: string
+          title_ar?: string | null
           updated_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "properties_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      property_facet_labels: {
+        Row: {
+          created_at: string
+          facet: string
+          label_ar: string
+          label_en: string
+          sort_order: number
+          value: string
+        }
+        Insert: {
+          created_at?: string
+          facet: string
+          label_ar: string
+          label_en: string
+          sort_order?: number
+          value: string
+        }
+        Update: {
+          created_at?: string
+          facet?: string
+          label_ar?: string
+          label_en?: string
+          sort_order?: number
+          value?: string
+        }
         Relationships: []
       }
+      property_media: {
+        Row: {
+          caption_ar: string | null
+          caption_en: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          media_type: string
+          property_id: string
+          sort_order: number
+          storage_path: string | null
+          updated_at: string
+          url: string
+        }
+        Insert: {
+          caption_ar?: string | null
+          caption_en?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          media_type?: string
+          property_id: string
+          sort_order?: number
+          storage_path?: string | null
+          updated_at?: string
+          url: string
+        }
+        Update: {
+          caption_ar?: string | null
+          caption_en?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          media_type?: string
+          property_id?: string
+          sort_order?: number
+          storage_path?: string | null
+          updated_at?: string
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "property_media_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       property_photos: {
         Row: {
           created_at: string
@@ -783,16 +1253,89 @@ export type Database = {
           },
         ]
       }
+      property_price_history: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          id: string
+          previous_price: number | null
+          price: number
+          property_id: string
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          id?: string
+          previous_price?: number | null
+          price: number
+          property_id: string
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          id?: string
+          previous_price?: number | null
+          price?: number
+          property_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "property_price_history_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      property_views: {
+        Row: {
+          first_viewed_at: string
+          last_viewed_at: string
+          property_id: string
+          user_id: string
+          view_count: number
+        }
+        Insert: {
+          first_viewed_at?: string
+          last_viewed_at?: string
+          property_id: string
+          user_id: string
+          view_count?: number
+        }
+        Update: {
+          first_viewed_at?: string
+          last_viewed_at?: string
+          property_id?: string
+          user_id?: string
+          view_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "property_views_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       recommendations: {
         Row: {
           created_at: string
           created_by: string | null
           description: string | null
+          generated_at: string | null
           id: string
           image_url: string | null
           is_active: boolean
+          is_pinned: boolean
+          is_suppressed: boolean
           link: string | null
+          property_id: string | null
+          score: number | null
           sort_order: number
+          source: string
           title: string
           updated_at: string
           user_id: string
@@ -801,11 +1344,17 @@ export type Database = {
           created_at?: string
           created_by?: string | null
           description?: string | null
+          generated_at?: string | null
           id?: string
           image_url?: string | null
           is_active?: boolean
+          is_pinned?: boolean
+          is_suppressed?: boolean
           link?: string | null
+          property_id?: string | null
+          score?: number | null
           sort_order?: number
+          source?: string
           title: string
           updated_at?: string
           user_id: string
@@ -814,16 +1363,30 @@ export type Database = {
           created_at?: string
           created_by?: string | null
           description?: string | null
+          generated_at?: string | null
           id?: string
           image_url?: string | null
           is_active?: boolean
+          is_pinned?: boolean
+          is_suppressed?: boolean
           link?: string | null
+          property_id?: string | null
+          score?: number | null
           sort_order?: number
+          source?: string
           title?: string
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "recommendations_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       resale_requests: {
         Row: {
@@ -863,6 +1426,45 @@ export type Database = {
           },
         ]
       }
+      saved_searches: {
+        Row: {
+          alert_frequency: string
+          created_at: string
+          filters: Json
+          id: string
+          is_active: boolean
+          last_checked_at: string
+          last_notified_at: string | null
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          alert_frequency?: string
+          created_at?: string
+          filters?: Json
+          id?: string
+          is_active?: boolean
+          last_checked_at?: string
+          last_notified_at?: string | null
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          alert_frequency?: string
+          created_at?: string
+          filters?: Json
+          id?: string
+          is_active?: boolean
+          last_checked_at?: string
+          last_notified_at?: string | null
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       session_events: {
         Row: {
           created_at: string
@@ -917,18 +1519,49 @@ export type Database = {
         }
         Relationships: []
       }
+      sync_locks: {
+        Row: {
+          expires_at: string
+          locked_at: string
+          log_id: string | null
+          sync_type: string
+        }
+        Insert: {
+          expires_at: string
+          locked_at?: string
+          log_id?: string | null
+          sync_type: string
+        }
+        Update: {
+          expires_at?: string
+          locked_at?: string
+          log_id?: string | null
+          sync_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sync_locks_log_id_fkey"
+            columns: ["log_id"]
+            isOneToOne: false
+            referencedRelation: "sync_logs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       sync_logs: {
         Row: {
           created_at: string
           errors: Json | null
           finished_at: string | null
           id: string
+          retry_of: string | null
           rows_failed: number
           rows_processed: number
           rows_updated: number
           source: string
           started_at: string
           status: string
+          trigger: string
           type: string
         }
         Insert: {
@@ -936,12 +1569,14 @@ export type Database = {
           errors?: Json | null
           finished_at?: string | null
           id?: string
+          retry_of?: string | null
           rows_failed?: number
           rows_processed?: number
           rows_updated?: number
           source: string
           started_at?: string
           status?: string
+          trigger?: string
           type: string
         }
         Update: {
@@ -949,15 +1584,25 @@ export type Database = {
           errors?: Json | null
           finished_at?: string | null
           id?: string
+          retry_of?: string | null
           rows_failed?: number
           rows_processed?: number
           rows_updated?: number
           source?: string
           started_at?: string
           status?: string
+          trigger?: string
           type?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "sync_logs_retry_of_fkey"
+            columns: ["retry_of"]
+            isOneToOne: false
+            referencedRelation: "sync_logs"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       user_roles: {
         Row: {
@@ -985,6 +1630,10 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      acquire_sync_lock: {
+        Args: { p_log_id: string; p_sync_type: string; p_ttl_seconds?: number }
+        Returns: boolean
+      }
       cleanup_old_session_events: { Args: never; Returns: undefined }
       create_notification: {
         Args: {
@@ -999,6 +1648,10 @@ export type Database = {
         }
         Returns: string
       }
+      generate_recommendations: {
+        Args: { p_user_id?: string }
+        Returns: number
+      }
       get_property_progress: { Args: { status: string }; Returns: number }
       get_unread_notification_count: {
         Args: { p_user_id: string }
@@ -1015,6 +1668,195 @@ export type Database = {
         }
         Returns: boolean
       }
+      normalize_arabic: { Args: { p_text: string }; Returns: string }
+      price_delta_window_days: { Args: never; Returns: number }
+      project_summaries: {
+        Args: { p_project_ids?: string[] }
+        Returns: {
+          available_units: number
+          listings: number
+          project_id: string
+          reserved_units: number
+          sold_units: number
+          starting_price: number
+          total_units: number
+        }[]
+      }
+      property_facets: {
+        Args: {
+          p_area?: string
+          p_bathrooms?: number
+          p_bedrooms?: number
+          p_center_lat?: number
+          p_center_lng?: number
+          p_city?: string
+          p_delivery_status?: string
+          p_finishing?: string
+          p_max_area?: number
+          p_max_price?: number
+          p_min_area?: number
+          p_min_price?: number
+          p_polygon?: Json
+          p_property_type?: string
+          p_radius_km?: number
+          p_search?: string
+          p_status?: string
+          p_tags?: string[]
+        }
+        Returns: {
+          count: number
+          facet: string
+          label_ar: string
+          label_en: string
+          parent: string
+          value: string
+        }[]
+      }
+      property_in_area: {
+        Args: {
+          p_center_lat: number
+          p_center_lng: number
+          p_latitude: number
+          p_longitude: number
+          p_polygon: Json
+          p_radius_km: number
+        }
+        Returns: boolean
+      }
+      property_map_points: {
+        Args: {
+          p_area?: string
+          p_bathrooms?: number
+          p_bedrooms?: number
+          p_center_lat?: number
+          p_center_lng?: number
+          p_city?: string
+          p_delivery_status?: string
+          p_finishing?: string
+          p_limit?: number
+          p_max_area?: number
+          p_max_price?: number
+          p_min_area?: number
+          p_min_price?: number
+          p_polygon?: Json
+          p_property_type?: string
+          p_radius_km?: number
+          p_search?: string
+          p_status?: string
+          p_tags?: string[]
+        }
+        Returns: {
+          id: string
+          image_url: string
+          latitude: number
+          location: string
+          longitude: number
+          price: number
+          title: string
+          total_count: number
+        }[]
+      }
+      property_price_delta: {
+        Args: { p_current_price: number; p_property_id: string }
+        Returns: number
+      }
+      property_search_document: {
+        Args: {
+          p_description: string
+          p_description_ar: string
+          p_location: string
+          p_tags: string[]
+          p_title: string
+          p_title_ar: string
+        }
+        Returns: string
+      }
+      property_search_tsquery: { Args: { p_query: string }; Returns: unknown }
+      recommendation_candidates: {
+        Args: {
+          p_limit?: number
+          p_user_id: string
+        }
+        Returns: {
+          image_url: string
+          price: number
+          property_id: string
+          reasons: string[]
+          score: number
+          slug: string
+          title: string
+        }[]
+      }
+      recommendation_link_ref: { Args: { p_link: string }; Returns: string }
+      record_property_view: {
+        Args: { p_property_id: string }
+        Returns: undefined
+      }
+      refresh_price_deltas: { Args: never; Returns: undefined }
+      release_sync_lock: {
+        Args: { p_log_id: string; p_sync_type: string }
+        Returns: undefined
+      }
+      reorder_property_media: {
+        Args: { p_media_ids: string[]; p_property_id: string }
+        Returns: undefined
+      }
+      resolve_inventory_conflict: {
+        Args: { p_conflict_id: string; p_resolution: string }
+        Returns: undefined
+      }
+      saved_search_matches: {
+        Args: {
+          p_filters: Json
+          p_limit?: number
+          p_since: string
+          p_until?: string
+        }
+        Returns: {
+          id: string
+          image_url: string
+          location: string
+          price: number
+          published_at: string
+          title: string
+          total_count: number
+        }[]
+      }
+      search_properties: {
+        Args: {
+          p_area?: string
+          p_bathrooms?: number
+          p_bedrooms?: number
+          p_center_lat?: number
+          p_center_lng?: number
+          p_city?: string
+          p_delivery_status?: string
+          p_finishing?: string
+          p_limit?: number
+          p_max_area?: number
+          p_max_price?: number
+          p_min_area?: number
+          p_min_price?: number
+          p_offset?: number
+          p_polygon?: Json
+          p_property_type?: string
+          p_radius_km?: number
+          p_search?: string
+          p_sort_by?: string
+          p_status?: string
+          p_tags?: string[]
+        }
+        Returns: {
+          property: Database["public"]["Tables"]["properties"]["Row"]
+          rank: number
+          total_count: number
+        }[]
+      }
+      slugify: { Args: { p_text: string }; Returns: string }
+      unique_property_slug: {
+        Args: { p_base: string; p_property_id: string }
+        Returns: string
+      }
     }
     Enums: {
       app_role:
@@ -1042,6 +1884,7 @@ export type Database = {
         | "booking_request"
         | "agent_submission_approved"
         | "agent_submission_rejected"
+        | "saved_search_match"
       property_progress_status:
         | "off_plan"
         | "ready_to_deliver"
@@ -1200,6 +2043,7 @@ export const Constants = {
         "booking_request",
         "agent_submission_approved",
         "agent_submission_rejected",
+        "saved_search_match",
       ],
       property_progress_status: [
         "off_plan",
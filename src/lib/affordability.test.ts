@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { affordablePriceRange, maxAffordablePrice } from './affordability';
+
+const buyer = { monthlyIncome: 50_000, monthlyObligations: 5_000, savings: 1_000_000, maxDebtToIncomePercent: 40 };
+
+describe('maxAffordablePrice', () => {
+  it('adds savings to the loan the budget repays under a bank loan', () => {
+    const result = maxAffordablePrice(buyer, { kind: 'bank', minDownPaymentPercent: 20, years: 10, annualInterestRate: 0 });
+    expect(result.monthlyBudget).toBe(15_000);
+    // 15,000 a month for 120 months, plus the savings as the down payment
+    expect(result.maxPrice).toBeCloseTo(2_800_000, 4);
+    expect(result.monthlyPayment).toBeCloseTo(15_000, 4);
+    expect(result.limitedBy).toBe('income');
+  });
+
+  it('is capped by savings when they cannot cover the minimum down payment', () => {
+    const result = maxAffordablePrice(
+      { ...buyer, savings: 200_000 },
+      { kind: 'bank', minDownPaymentPercent: 20, years: 10, annualInterestRate: 0 }
+    );
+    expect(result.maxPrice).toBeCloseTo(1_000_000, 4);
+    expect(result.limitedBy).toBe('savings');
+  });
+
+  it('borrows less at a higher rate', () => {
+    const free = maxAffordablePrice(buyer, { kind: 'bank', minDownPaymentPercent: 10, years: 10, annualInterestRate: 0 });
+    const costly = maxAffordablePrice(buyer, { kind: 'bank', minDownPaymentPercent: 10, years: 10, annualInterestRate: 20 });
+    expect(costly.maxPrice).toBeLessThan(free.maxPrice);
+    expect(costly.monthlyPayment).toBeCloseTo(15_000, 4);
+  });
+
+  it('uses the plan percentages for a developer plan', () => {
+    // 10% down, 80% over 8 years and 10% at delivery in year 8: 0.9 / 96 of the price a month
+    const plan = { down_payment_percent: 10, installment_years: 8, delivery_payment_percent: 10, delivery_months: 96 };
+    const result = maxAffordablePrice(buyer, { kind: 'plan', plan });
+    expect(result.maxPrice).toBeCloseTo(1_600_000, 4);
+    expect(result.downPayment).toBeCloseTo(160_000, 4);
+    expect(result.limitedBy).toBe('income');
+  });
+
+  it('sets the delivery payment aside from income when the plan has no installments', () => {
+    // 10% down and 90% at delivery in three years: 0.9 / 36 of the price a month
+    const plan = { down_payment_percent: 10, installment_years: 0, delivery_payment_percent: 90, delivery_months: 36 };
+    const result = maxAffordablePrice(buyer, { kind: 'plan', plan });
+    expect(result.maxPrice).toBeCloseTo(600_000, 4);
+    expect(result.monthlyPayment).toBeCloseTo(15_000, 4);
+    expect(result.limitedBy).toBe('income');
+  });
+
+  it('takes a delivery payment due on signing from savings', () => {
+    const plan = { down_payment_percent: 10, installment_years: 0, delivery_payment_percent: 90, delivery_months: 0 };
+    const result = maxAffordablePrice(buyer, { kind: 'plan', plan });
+    expect(result.maxPrice).toBeCloseTo(1_000_000, 4);
+    expect(result.limitedBy).toBe('savings');
+  });
+
+  it('affords nothing when obligations use up the budget', () => {
+    const result = maxAffordablePrice(
+      { ...buyer, monthlyObligations: 25_000, savings: 0 },
+      { kind: 'bank', minDownPaymentPercent: 0, years: 10, annualInterestRate: 10 }
+    );
+    expect(result.monthlyBudget).toBe(0);
+    expect(result.maxPrice).toBe(0);
+  });
+});
+
+describe('affordablePriceRange', () => {
+  it('rounds to tidy figures below the maximum', () => {
+    expect(affordablePriceRange(2_876_543)).toEqual({ minPrice: 2_000_000, maxPrice: 2_870_000 });
+    expect(affordablePriceRange(5_000)).toBeNull();
+  });
+});
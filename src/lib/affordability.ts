@@ -0,0 +1,125 @@
+/**
+ * Affordability
+ * Highest property price a buyer can carry from their income and savings, under a bank loan or a developer plan
+ */
+
+import { amortizationSchedule, DEFAULT_DOWN_PAYMENT_PERCENT, DEFAULT_YEARS } from '@/lib/mortgage';
+import { PaymentPlan } from '@/lib/paymentPlans';
+
+export const DEFAULT_MAX_DTI_PERCENT = 40;
+
+/** Starting bank terms; the rate is a typical local mortgage rate for buyers to adjust */
+export const DEFAULT_BANK_TERMS = {
+  kind: 'bank' as const,
+  minDownPaymentPercent: DEFAULT_DOWN_PAYMENT_PERCENT,
+  years: DEFAULT_YEARS,
+  annualInterestRate: 20,
+};
+
+export interface AffordabilityInput {
+  monthlyIncome: number;
+  /** Existing loan and card payments per month */
+  monthlyObligations: number;
+  /** Savings available for the down payment */
+  savings: number;
+  /** Maximum share of income that may go to debt payments, obligations included */
+  maxDebtToIncomePercent: number;
+}
+
+export type AffordabilityTerms =
+  | { kind: 'bank'; minDownPaymentPercent: number; years: number; annualInterestRate: number }
+  | {
+      kind: 'plan';
+      plan: Pick<PaymentPlan, 'down_payment_percent' | 'installment_years' | 'delivery_payment_percent' | 'delivery_months'>;
+    };
+
+export interface AffordabilityResult {
+  maxPrice: number;
+  /** Income left for the new payment once existing obligations are taken out */
+  monthlyBudget: number;
+  /**
+   * The monthly payment at the maximum price; quarterly and other plan installments are spread per
+   * month, and so is a plan's delivery payment over the months until delivery
+   */
+  monthlyPayment: number;
+  downPayment: number;
+  /** Which of income or savings caps the price */
+  limitedBy: 'income' | 'savings';
+}
+
+const EMPTY_RESULT: AffordabilityResult = {
+  maxPrice: 0,
+  monthlyBudget: 0,
+  monthlyPayment: 0,
+  downPayment: 0,
+  limitedBy: 'income',
+};
+
+/**
+ * With a bank loan, savings above the minimum down payment lower the loan, so the price is savings
+ * plus the largest loan the budget repays, capped where savings stop covering the minimum down
+ * payment. A developer plan fixes its percentages, so the price is capped by whichever of the
+ * monthly payments or the down payment runs out first. The delivery payment is set aside from
+ * income over the months until delivery, or comes out of savings when it is due on signing.
+ */
+export const maxAffordablePrice = (input: AffordabilityInput, terms: AffordabilityTerms): AffordabilityResult => {
+  const monthlyBudget = Math.max(
+    0,
+    (input.monthlyIncome * input.maxDebtToIncomePercent) / 100 - Math.max(0, input.monthlyObligations)
+  );
+  const savings = Math.max(0, input.savings);
+
+  if (terms.kind === 'bank') {
+    // Monthly payment per unit borrowed
+    const paymentPerUnit = amortizationSchedule(1, terms.years, terms.annualInterestRate).regularPayment;
+    if (!(paymentPerUnit > 0)) return { ...EMPTY_RESULT, monthlyBudget };
+
+    const byIncome = savings + monthlyBudget / paymentPerUnit;
+    const bySavings = terms.minDownPaymentPercent > 0 ? savings / (terms.minDownPaymentPercent / 100) : Infinity;
+    const maxPrice = Math.min(byIncome, bySavings);
+    const downPayment = Math.min(savings, maxPrice);
+    return {
+      maxPrice,
+      monthlyBudget,
+      monthlyPayment: (maxPrice - downPayment) * paymentPerUnit,
+      downPayment,
+      limitedBy: bySavings < byIncome ? 'savings' : 'income',
+    };
+  }
+
+  const { plan } = terms;
+  const deliveryShare = plan.delivery_payment_percent / 100;
+  const deliveryLater = plan.delivery_months > 0;
+  const installmentShare = 1 - plan.down_payment_percent / 100 - deliveryShare;
+  const installmentMonths = plan.installment_years * 12;
+  // Share of the price paid up front, and per month once each installment is spread over its
+  // period; before delivery the buyer carries both the installments and the delivery savings
+  const upfrontShare = plan.down_payment_percent / 100 + (deliveryLater ? 0 : deliveryShare);
+  const monthlyShare =
+    (installmentMonths > 0 && installmentShare > 0 ? installmentShare / installmentMonths : 0) +
+    (deliveryLater ? deliveryShare / plan.delivery_months : 0);
+
+  const byIncome = monthlyShare > 0 ? monthlyBudget / monthlyShare : Infinity;
+  const bySavings = upfrontShare > 0 ? savings / upfrontShare : Infinity;
+  const maxPrice = Math.min(byIncome, bySavings);
+  if (!Number.isFinite(maxPrice)) return { ...EMPTY_RESULT, monthlyBudget };
+
+  return {
+    maxPrice,
+    monthlyBudget,
+    monthlyPayment: maxPrice * monthlyShare,
+    downPayment: maxPrice * upfrontShare,
+    limitedBy: bySavings < byIncome ? 'savings' : 'income',
+  };
+};
+
+/** Searches from this share of the maximum, so results use the budget rather than listing every cheaper home */
+export const AFFORDABLE_RANGE_FLOOR = 0.7;
+
+/** Price range for the /properties search, in EGP rounded to tidy figures; null when nothing is affordable */
+export const affordablePriceRange = (maxPrice: number): { minPrice: number; maxPrice: number } | null => {
+  const step = 10000;
+  const max = Math.floor(maxPrice / step) * step;
+  if (!(max > 0)) return null;
+  return { minPrice: Math.floor((max * AFFORDABLE_RANGE_FLOOR) / step) * step, maxPrice: max };
+};
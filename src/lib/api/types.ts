@@ -119,6 +119,8 @@ export interface PropertyListItem {
   imageUrl: string;
   status: PropertyStatus;
   tags: string[];
+  /** Title is shown in the other language because this one has no translation */
+  translationMissing?: boolean;
 }
 
 export interface PropertyFilters {
@@ -134,9 +136,13 @@ export interface PropertyFilters {
   finishing?: FinishingType;
   tags?: string[];
   status?: PropertyStatus;
+  propertyType?: string;
+  deliveryStatus?: string;
+  polygon?: string; // drawn map area, "lat,lng;lat,lng;..."
+  radius?: string; // drawn map circle, "lat,lng,km"
   page?: number;
   limit?: number;
-  sortBy?: 'price_asc' | 'price_desc' | 'newest' | 'area_asc' | 'area_desc';
+  sortBy?: 'relevance' | 'price_asc' | 'price_desc' | 'newest' | 'area_asc' | 'area_desc';
 }
 
 // ============ Inventory Types ============
@@ -162,6 +168,9 @@ export interface InventoryUpdate {
   soldUnits?: number;
 }
 
+// Snapshot of an inventory record's counts, as stored in inventory_history and inventory_conflicts
+export type InventoryUnitCounts = Record<'total_units' | 'available_units' | 'reserved_units' | 'sold_units', number>;
+
 // ============ Client Assets Types ============
 
 export type DeliveryStatus = 'under_construction' | 'delivered';
@@ -310,31 +319,72 @@ export interface ResaleRequest {
 
 // ============ Sync Types ============
 
-export type SyncStatus = 'pending' | 'running' | 'completed' | 'failed';
+export type SyncStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+
+export interface SyncRowError {
+  row: number; // sheet row number, 0 for errors that stopped the whole run
+  values: Record<string, string>;
+  message: string;
+  hash?: string; // properties rows: cell hash a retry must still match
+}
 
 export interface SyncLog {
   id: string;
   type: 'inventory' | 'properties' | 'documents';
   source: 'google_sheets' | 'google_drive';
+  trigger: 'manual' | 'scheduled';
+  retryOf?: string; // set when this run re-processed the failed rows of an earlier run
   status: SyncStatus;
   startedAt: string;
   finishedAt?: string;
   rowsProcessed: number;
   rowsUpdated: number;
   rowsFailed: number;
-  errors?: string[];
+  errors?: SyncRowError[];
+}
+
+export type PropertyDiffAction = 'create' | 'update' | 'unchanged' | 'invalid';
+
+export interface PropertyFieldChange {
+  field: string;
+  from: string | number | string[] | null;
+  to: string | number | string[];
+}
+
+export interface PropertyDiffRow {
+  row: number;
+  action: PropertyDiffAction;
+  externalId: string;
+  propertyId?: string;
+  values: Record<string, string>;
+  /** Hash of the row's cells at preview time; sent back on commit so changed rows are refused */
+  hash: string;
+  changes: PropertyFieldChange[];
+  message?: string;
+}
+
+export interface PropertyRowSelection {
+  row: number;
+  hash: string;
+}
+
+export interface PropertiesImportPreview {
+  rows: PropertyDiffRow[];
+  summary: Record<PropertyDiffAction, number>;
 }
 
 export interface GoogleSheetsConfig {
   inventorySheetId?: string;
   propertiesSheetId?: string;
   columnMappings: Record<string, string>;
+  propertiesColumnMappings?: Record<string, string>;
   syncFrequency: 'manual' | '5min' | '10min' | '30min' | '1hour';
   lastSyncedAt?: string;
 }
 
 export interface GoogleDriveConfig {
   contractsFolderId?: string;
+  contractsMappingSheetId?: string;
   mediaFolderId?: string;
   lastSyncedAt?: string;
 }
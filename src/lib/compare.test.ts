@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { bestIndexes, compareUrl, parseCompareIds, pricePerSqm } from './compare';
+
+describe('parseCompareIds', () => {
+  it('trims, de-duplicates and caps the list', () => {
+    expect(parseCompareIds(' a,b,,a,c,d,e ')).toEqual(['a', 'b', 'c', 'd']);
+    expect(parseCompareIds(null)).toEqual([]);
+  });
+
+  it('round-trips through compareUrl', () => {
+    expect(compareUrl(['a', 'b', 'c'])).toBe('/compare?ids=a,b,c');
+    expect(compareUrl([])).toBe('/compare');
+  });
+});
+
+describe('pricePerSqm', () => {
+  it('divides price by area', () => {
+    expect(pricePerSqm(3_000_000, 150)).toBe(20_000);
+  });
+
+  it('is null without a price or area', () => {
+    expect(pricePerSqm(null, 150)).toBeNull();
+    expect(pricePerSqm(3_000_000, 0)).toBeNull();
+  });
+});
+
+describe('bestIndexes', () => {
+  it('picks the lowest or highest value', () => {
+    expect([...bestIndexes([300, 200, 250], 'lower')]).toEqual([1]);
+    expect([...bestIndexes([3, 4, 4, null], 'higher')]).toEqual([1, 2]);
+  });
+
+  it('highlights nothing on a tie or with a single value', () => {
+    expect(bestIndexes([2, 2, 2], 'higher').size).toBe(0);
+    expect(bestIndexes([null, 5], 'lower').size).toBe(0);
+  });
+});
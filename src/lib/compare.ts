@@ -0,0 +1,29 @@
+/**
+ * Property Comparison
+ * Shareable compare links and the "best value" maths behind the comparison table
+ */
+
+import { MAX_COMPARE_ITEMS } from '@/hooks/useCompareStore';
+
+/** Ids from a ?ids=a,b,c link: trimmed, de-duplicated and capped at the compare limit */
+export const parseCompareIds = (param: string | null): string[] =>
+  [...new Set((param || '').split(',').map((id) => id.trim()).filter(Boolean))].slice(0, MAX_COMPARE_ITEMS);
+
+export const compareUrl = (ids: string[]): string => (ids.length > 0 ? `/compare?ids=${ids.join(',')}` : '/compare');
+
+export const pricePerSqm = (price: number | null, area: number | null): number | null =>
+  price && area ? Math.round(price / area) : null;
+
+export type BetterWhen = 'lower' | 'higher';
+
+/**
+ * Columns holding the best value of a row. Nothing is highlighted when fewer than two
+ * properties have a value or when they all tie, since there is no winner to point out.
+ */
+export const bestIndexes = (values: (number | null | undefined)[], better: BetterWhen): Set<number> => {
+  const present = values.filter((v): v is number => typeof v === 'number' && !isNaN(v));
+  if (present.length < 2) return new Set();
+  const best = better === 'lower' ? Math.min(...present) : Math.max(...present);
+  if (present.every((v) => v === best)) return new Set();
+  return new Set(values.flatMap((v, i) => (v === best ? [i] : [])));
+};
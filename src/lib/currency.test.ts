@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { convertPrice, ExchangeRate, ratesOn, roundApproximate } from './currency';
+
+const rates: ExchangeRate[] = [
+  { currency: 'USD', rate: 30.9, effective_date: '2024-01-01' },
+  { currency: 'USD', rate: 48.5, effective_date: '2025-03-01' },
+  { currency: 'USD', rate: 50, effective_date: '2025-09-01' },
+];
+
+describe('ratesOn', () => {
+  it('picks the latest rate effective on or before the date', () => {
+    expect(ratesOn(rates, '2025-06-15').USD?.rate).toBe(48.5);
+    expect(ratesOn(rates, '2025-09-01').USD?.rate).toBe(50);
+  });
+
+  it('ignores future-dated rates', () => {
+    expect(ratesOn(rates, '2023-12-31')).toEqual({});
+  });
+});
+
+describe('convertPrice', () => {
+  const table = ratesOn(rates, '2025-06-15');
+
+  it('converts both ways through EGP', () => {
+    expect(convertPrice(4_850_000, 'EGP', 'USD', table)).toBeCloseTo(100_000);
+    expect(convertPrice(100_000, 'USD', 'EGP', table)).toBeCloseTo(4_850_000);
+    expect(convertPrice(1_000, 'EGP', 'EGP', {})).toBe(1_000);
+  });
+
+  it('returns null without a rate', () => {
+    expect(convertPrice(1_000, 'EGP', 'USD', {})).toBeNull();
+  });
+});
+
+describe('roundApproximate', () => {
+  it('keeps three significant figures', () => {
+    expect(roundApproximate(103_092.78)).toBe(103_000);
+    expect(roundApproximate(1_234_567)).toBe(1_230_000);
+    expect(roundApproximate(687.28)).toBe(687);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Currency Display
+ * Prices are stored in EGP; visitors can view them in another currency at the admin-managed rate
+ */
+
+export type CurrencyCode = 'EGP' | 'USD';
+
+export const BASE_CURRENCY: CurrencyCode = 'EGP';
+export const DISPLAY_CURRENCIES: CurrencyCode[] = ['EGP', 'USD'];
+
+/** localStorage key for the visitor's chosen currency */
+export const CURRENCY_STORAGE_KEY = 'currency';
+
+export interface ExchangeRate {
+  currency: CurrencyCode;
+  /** EGP per one unit of the currency */
+  rate: number;
+  /** ISO date (YYYY-MM-DD) the rate applies from */
+  effective_date: string;
+}
+
+export type RateTable = Partial<Record<CurrencyCode, ExchangeRate>>;
+
+export const isCurrencyCode = (value: unknown): value is CurrencyCode =>
+  DISPLAY_CURRENCIES.includes(value as CurrencyCode);
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/** The rate in force per currency on the given day: the latest one effective on or before it. */
+export const ratesOn = (rates: ExchangeRate[], date: string = today()): RateTable => {
+  const table: RateTable = {};
+  for (const rate of rates) {
+    if (rate.effective_date > date || !(rate.rate > 0)) continue;
+    const current = table[rate.currency];
+    if (!current || rate.effective_date > current.effective_date) table[rate.currency] = rate;
+  }
+  return table;
+};
+
+const egpPerUnit = (currency: CurrencyCode, rates: RateTable) =>
+  currency === BASE_CURRENCY ? 1 : rates[currency]?.rate ?? null;
+
+/** Converts through EGP; null when a rate the conversion needs is missing. */
+export const convertPrice = (amount: number, from: CurrencyCode, to: CurrencyCode, rates: RateTable): number | null => {
+  if (from === to) return amount;
+  const fromRate = egpPerUnit(from, rates);
+  const toRate = egpPerUnit(to, rates);
+  if (fromRate === null || toRate === null) return null;
+  return (amount * fromRate) / toRate;
+};
+
+export const formatAmount = (value: number) =>
+  new Intl.NumberFormat('en-EG', { maximumFractionDigits: 0 }).format(value);
+
+/** Compact amount for filter labels, e.g. "2.5M" or "750K". */
+export const formatShortAmount = (value: number) => {
+  if (value >= 1000000) return `${(value / 1000000).toFixed(1)}M`;
+  if (value >= 1000) return `${(value / 1000).toFixed(0)}K`;
+  return value.toFixed(0);
+};
+
+/**
+ * Rounds a converted amount to three significant figures (whole units below 1,000), so it
+ * doesn't suggest more precision than an exchange rate can give.
+ */
+export const roundApproximate = (value: number): number => {
+  const magnitude = Math.abs(value);
+  if (magnitude < 1000) return Math.round(value);
+  const step = 10 ** (Math.floor(Math.log10(magnitude)) - 2);
+  return Math.round(value / step) * step;
+};
@@ -0,0 +1,73 @@
+/**
+ * Edge Function helper
+ * Calls a Supabase edge function with the current user's session token
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+
+/** Error response from an edge function; `body` keeps extra fields such as `code` or per-row errors. */
+export class EdgeFunctionError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public body: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'EdgeFunctionError';
+  }
+}
+
+interface EdgeFunctionOptions {
+  /** Call with the publishable key when nobody is signed in, for functions open to visitors */
+  allowAnonymous?: boolean;
+}
+
+const postToEdgeFunction = async (name: string, body?: unknown, options: EdgeFunctionOptions = {}) => {
+  const { data: sessionData } = await supabase.auth.getSession();
+  const token = sessionData.session?.access_token ?? (options.allowAnonymous ? import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY : null);
+  if (!token) throw new Error('Not authenticated');
+
+  return fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${name}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify(body ?? {}),
+  });
+};
+
+export const callEdgeFunction = async <T>(name: string, body?: unknown): Promise<T> => {
+  const res = await postToEdgeFunction(name, body);
+
+  const result = await res.json();
+  if (!res.ok) throw new EdgeFunctionError(result.error || `Request to ${name} failed`, res.status, result);
+  return result as T;
+};
+
+/** Calls an edge function that responds with a file and saves it in the browser. */
+export const downloadEdgeFunctionFile = async (
+  name: string,
+  body?: unknown,
+  options?: EdgeFunctionOptions
+): Promise<void> => {
+  const res = await postToEdgeFunction(name, body, options);
+
+  if (!res.ok) {
+    const result = await res.json().catch(() => ({}));
+    throw new EdgeFunctionError(result.error || `Request to ${name} failed`, res.status, result);
+  }
+
+  const disposition = res.headers.get('Content-Disposition') || '';
+  // Prefer the RFC 5987 UTF-8 name, which keeps Arabic titles intact
+  const encodedName = disposition.match(/filename\*=UTF-8''([^;]+)/i)?.[1];
+  const fileName =
+    (encodedName && decodeURIComponent(encodedName)) || disposition.match(/filename="?([^";]+)"?/)?.[1] || name;
+
+  const url = URL.createObjectURL(await res.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import {
+  distanceKm,
+  formatPolygonParam,
+  formatRadiusParam,
+  parsePolygonParam,
+  parseRadiusParam,
+  toGeoArgs,
+} from './geoSearch';
+
+const triangle = [
+  { lat: 30.01, lng: 31.2 },
+  { lat: 30.05, lng: 31.25 },
+  { lat: 30.0, lng: 31.3 },
+];
+
+describe('polygon params', () => {
+  it('round-trips through the URL format', () => {
+    const param = formatPolygonParam(triangle);
+    expect(param).toBe('30.01,31.2;30.05,31.25;30,31.3');
+    expect(parsePolygonParam(param)).toEqual(triangle);
+  });
+
+  it('rejects fewer than three points and out-of-range coordinates', () => {
+    expect(formatPolygonParam(triangle.slice(0, 2))).toBeUndefined();
+    expect(parsePolygonParam('30,31;30.1,31.1')).toBeNull();
+    expect(parsePolygonParam('30,31;95,31.1;30.2,31')).toBeNull();
+    expect(parsePolygonParam('30,31;abc;30.2,31')).toBeNull();
+  });
+});
+
+describe('radius params', () => {
+  it('round-trips through the URL format', () => {
+    const area = { center: { lat: 30.0444, lng: 31.2357 }, radiusKm: 2.5 };
+    expect(parseRadiusParam(formatRadiusParam(area))).toEqual(area);
+  });
+
+  it('rejects a missing or non-positive radius', () => {
+    expect(formatRadiusParam({ center: triangle[0], radiusKm: 0 })).toBeUndefined();
+    expect(parseRadiusParam('30,31')).toBeNull();
+    expect(parseRadiusParam('30,31,-1')).toBeNull();
+  });
+});
+
+describe('toGeoArgs', () => {
+  it('builds a closed GeoJSON ring in lng,lat order', () => {
+    const { p_polygon } = toGeoArgs({ polygon: formatPolygonParam(triangle) });
+    expect(p_polygon).toEqual({
+      type: 'Polygon',
+      coordinates: [[[31.2, 30.01], [31.25, 30.05], [31.3, 30], [31.2, 30.01]]],
+    });
+  });
+
+  it('leaves every argument unset when no area is drawn', () => {
+    expect(toGeoArgs({})).toEqual({
+      p_polygon: undefined,
+      p_center_lat: undefined,
+      p_center_lng: undefined,
+      p_radius_km: undefined,
+    });
+  });
+});
+
+describe('distanceKm', () => {
+  it('measures great-circle distance', () => {
+    // Cairo to Alexandria is roughly 180 km as the crow flies
+    const km = distanceKm({ lat: 30.0444, lng: 31.2357 }, { lat: 31.2001, lng: 29.9187 });
+    expect(km).toBeGreaterThan(170);
+    expect(km).toBeLessThan(190);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Geo Search
+ * URL encoding for drawn map areas and the matching spatial RPC arguments
+ */
+
+import type { Json } from '@/integrations/supabase/types';
+import { PropertyFilters } from '@/lib/api/types';
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface RadiusArea {
+  center: LatLng;
+  radiusKm: number;
+}
+
+const COORD_PRECISION = 5; // ~1m, keeps shared URLs short
+
+const round = (value: number) => Number(value.toFixed(COORD_PRECISION));
+
+const isValidPoint = ({ lat, lng }: LatLng) =>
+  Number.isFinite(lat) && Number.isFinite(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+
+/** "lat,lng;lat,lng;..." — the ring is closed server-side, so the first point isn't repeated. */
+export const formatPolygonParam = (points: LatLng[]): string | undefined => {
+  if (points.length < 3) return undefined;
+  return points.map((p) => `${round(p.lat)},${round(p.lng)}`).join(';');
+};
+
+export const parsePolygonParam = (value?: string | null): LatLng[] | null => {
+  if (!value) return null;
+  const points = value.split(';').map((pair) => {
+    const [lat, lng] = pair.split(',').map(Number);
+    return { lat, lng };
+  });
+  return points.length >= 3 && points.every(isValidPoint) ? points : null;
+};
+
+/** "lat,lng,km" */
+export const formatRadiusParam = ({ center, radiusKm }: RadiusArea): string | undefined => {
+  if (!(radiusKm > 0)) return undefined;
+  return `${round(center.lat)},${round(center.lng)},${Number(radiusKm.toFixed(2))}`;
+};
+
+export const parseRadiusParam = (value?: string | null): RadiusArea | null => {
+  if (!value) return null;
+  const [lat, lng, radiusKm] = value.split(',').map(Number);
+  const center = { lat, lng };
+  return isValidPoint(center) && radiusKm > 0 ? { center, radiusKm } : null;
+};
+
+/** GeoJSON wants [lng, lat] pairs and a closed ring. */
+export const toGeoJsonPolygon = (points: LatLng[]) => {
+  const ring = points.map((p) => [p.lng, p.lat]);
+  ring.push(ring[0]);
+  return { type: 'Polygon', coordinates: [ring] };
+};
+
+/** Spatial arguments shared by the search, facet and map RPCs. */
+export const toGeoArgs = (filters: Pick<PropertyFilters, 'polygon' | 'radius'>) => {
+  const polygon = parsePolygonParam(filters.polygon);
+  const radius = parseRadiusParam(filters.radius);
+
+  return {
+    p_polygon: polygon ? (toGeoJsonPolygon(polygon) as Json) : undefined,
+    p_center_lat: radius?.center.lat,
+    p_center_lng: radius?.center.lng,
+    p_radius_km: radius?.radiusKm,
+  };
+};
+
+/** Great-circle distance, used to size a radius while it's being drawn. */
+export const distanceKm = (a: LatLng, b: LatLng): number => {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.sqrt(h));
+};
@@ -84,6 +84,13 @@ const en = {
       whatsapp: 'WhatsApp',
       call: 'Call Us',
       viewAll: 'View All Properties',
+      translationMissing: 'Translation not available yet',
+      translationFallback: 'This listing hasn\'t been translated into English yet, so parts of it are shown in Arabic.',
+      viewAllPhotos: 'View all {{count}} photos',
+      floorPlans: 'Floor Plans',
+      video: 'Video',
+      tour360: '360° Tour',
+      priceHistory: 'Price History',
     },
     // Search & Filters
     search: {
@@ -308,6 +315,9 @@ const en = {
       yes: 'Yes',
       no: 'No',
       currency: 'EGP',
+      currencyUSD: 'USD',
+      displayCurrency: 'Currency',
+      approximatePrice: 'Approximate, converted at {{rate}} EGP per {{currency}} (rate from {{date}})',
       lightMode: 'Light Mode',
       darkMode: 'Dark Mode',
       english: 'English',
@@ -417,6 +427,13 @@ const ar = {
       whatsapp: 'واتساب',
       call: 'اتصل بنا',
       viewAll: 'عرض جميع العقارات',
+      translationMissing: 'الترجمة غير متوفرة بعد',
+      translationFallback: 'لم تتم ترجمة هذا العقار إلى العربية بعد، لذا يُعرض جزء منه باللغة الإنجليزية.',
+      viewAllPhotos: 'عرض كل الصور ({{count}})',
+      floorPlans: 'المخططات',
+      video: 'فيديو',
+      tour360: 'جولة 360°',
+      priceHistory: 'سجل الأسعار',
     },
     // Search & Filters
     search: {
@@ -641,6 +658,9 @@ const ar = {
       yes: 'نعم',
       no: 'لا',
       currency: 'ج.م',
+      currencyUSD: 'دولار',
+      displayCurrency: 'العملة',
+      approximatePrice: 'قيمة تقريبية بسعر {{rate}} ج.م لكل {{currency}} (سعر {{date}})',
       lightMode: 'الوضع الفاتح',
       darkMode: 'الوضع الداكن',
       english: 'English',
@@ -0,0 +1,19 @@
+/**
+ * Map Configuration
+ * Tile source and default viewport; point VITE_MAP_TILE_URL at a local tile server to run offline
+ */
+
+import type { LatLng } from '@/lib/geoSearch';
+
+export const MAP_TILE_URL =
+  import.meta.env.VITE_MAP_TILE_URL || 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png';
+
+export const MAP_TILE_ATTRIBUTION =
+  import.meta.env.VITE_MAP_TILE_ATTRIBUTION ||
+  '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+export const MAP_MAX_ZOOM = Number(import.meta.env.VITE_MAP_MAX_ZOOM) || 19;
+
+// Greater Cairo
+export const MAP_DEFAULT_CENTER: LatLng = { lat: 30.0444, lng: 31.2357 };
+export const MAP_DEFAULT_ZOOM = 10;
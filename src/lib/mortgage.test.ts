@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+  amortizationSchedule,
+  DEFAULT_SCENARIO,
+  installmentBreakdown,
+  scenarioFromParams,
+  scenarioToParams,
+} from './mortgage';
+
+describe('installmentBreakdown', () => {
+  it('splits the remainder evenly without interest', () => {
+    const result = installmentBreakdown(1_200_000, 20, 10);
+    expect(result.downPaymentAmount).toBe(240_000);
+    expect(result.loanAmount).toBe(960_000);
+    expect(result.months).toBe(120);
+    expect(result.monthlyPayment).toBe(8_000);
+    expect(result.totalPaid).toBe(1_200_000);
+    expect(result.totalInterest).toBe(0);
+  });
+
+  it('uses the amortization formula with interest', () => {
+    const result = installmentBreakdown(1_000_000, 0, 1, 12);
+    expect(result.monthlyPayment).toBeCloseTo(88_848.79, 2);
+    expect(result.totalInterest).toBeCloseTo(66_185.46, 1);
+    expect(result.totalPaid).toBeCloseTo(result.monthlyPayment * 12, 6);
+  });
+
+  it('returns zero installments for a zero-year term', () => {
+    const result = installmentBreakdown(500_000, 20, 0);
+    expect(result.monthlyPayment).toBe(0);
+    expect(result.totalPaid).toBe(500_000);
+  });
+});
+
+describe('amortizationSchedule', () => {
+  it('pays the loan off over the term', () => {
+    const schedule = amortizationSchedule(1_000_000, 1, 12);
+    expect(schedule.rows).toHaveLength(12);
+    expect(schedule.regularPayment).toBeCloseTo(88_848.79, 2);
+    expect(schedule.rows[0].interest).toBeCloseTo(10_000, 6);
+    expect(schedule.rows[0].principal).toBeCloseTo(78_848.79, 2);
+    expect(schedule.rows[11].balance).toBeCloseTo(0, 6);
+    expect(schedule.totalInterest).toBeCloseTo(66_185.46, 1);
+    expect(schedule.interestSaved).toBeCloseTo(0, 6);
+  });
+
+  it('compounds per quarter for quarterly payments', () => {
+    const schedule = amortizationSchedule(1_000_000, 2, 12, 'quarterly');
+    expect(schedule.scheduledPeriods).toBe(8);
+    expect(schedule.rows[0].interest).toBeCloseTo(30_000, 6);
+    expect(schedule.rows.reduce((sum, row) => sum + row.principal, 0)).toBeCloseTo(1_000_000, 4);
+  });
+
+  it('shortens the term and saves interest with extra payments', () => {
+    const schedule = amortizationSchedule(1_200_000, 10, 10, 'monthly', [{ period: 12, amount: 300_000 }]);
+    expect(schedule.rows[11].extra).toBe(300_000);
+    expect(schedule.rows.length).toBeLessThan(120);
+    expect(schedule.rows[schedule.rows.length - 1].balance).toBe(0);
+    expect(schedule.interestSaved).toBeGreaterThan(0);
+    expect(schedule.regularPayment).toBeCloseTo(amortizationSchedule(1_200_000, 10, 10).regularPayment, 6);
+  });
+
+  it('caps an extra payment at the remaining balance', () => {
+    const schedule = amortizationSchedule(120_000, 1, 0, 'monthly', [{ period: 2, amount: 1_000_000 }]);
+    expect(schedule.rows).toHaveLength(2);
+    expect(schedule.rows[1].extra).toBeCloseTo(100_000, 6);
+  });
+});
+
+describe('calculator scenario params', () => {
+  it('round-trips through the query string and keeps other params', () => {
+    const scenario = {
+      downPaymentPercent: 10,
+      years: 8,
+      interestRate: 18.5,
+      frequency: 'quarterly' as const,
+      extraPayments: [{ period: 4, amount: 500_000 }],
+    };
+    const params = scenarioToParams(scenario, new URLSearchParams('ref=agent'));
+    expect(params.toString()).toBe('ref=agent&down=10&term=8&rate=18.5&freq=quarterly&extra=4%3A500000');
+    expect(scenarioFromParams(params)).toEqual(scenario);
+  });
+
+  it('leaves the URL clean for the default scenario', () => {
+    expect(scenarioToParams(DEFAULT_SCENARIO, new URLSearchParams('down=30')).toString()).toBe('');
+    expect(scenarioFromParams(new URLSearchParams('ref=agent'))).toBeNull();
+  });
+
+  it('clamps and drops invalid values', () => {
+    expect(scenarioFromParams(new URLSearchParams('down=90&term=abc&rate=-3&extra=0:5,200:1000,3:x,5:2000'))).toEqual({
+      ...DEFAULT_SCENARIO,
+      downPaymentPercent: 50,
+      interestRate: 0,
+      extraPayments: [{ period: 5, amount: 2000 }],
+    });
+  });
+});
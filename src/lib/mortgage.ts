@@ -0,0 +1,162 @@
+/**
+ * Mortgage / Installment Maths
+ * Shared by the payment calculator and the brochure's payment-plan breakdown
+ */
+
+import {
+  amortizationSchedule,
+  PERIODS_PER_YEAR,
+  type AmortizationRow,
+  type AmortizationSchedule,
+  type ExtraPayment,
+  type PaymentFrequency,
+} from '../../supabase/functions/_shared/mortgage.ts';
+
+/** Starting values of the payment calculator, also printed in brochures */
+export const DEFAULT_DOWN_PAYMENT_PERCENT = 20;
+export const DEFAULT_YEARS = 10;
+export const DEFAULT_INTEREST_RATE = 0;
+
+export interface InstallmentBreakdown {
+  downPaymentAmount: number;
+  loanAmount: number;
+  monthlyPayment: number;
+  totalInterest: number;
+  totalPaid: number;
+  months: number;
+}
+
+/**
+ * Down payment, monthly installment and totals for a price.
+ * With no interest the remainder is split evenly; otherwise the standard amortization formula applies.
+ */
+export const installmentBreakdown = (
+  price: number,
+  downPaymentPercent: number,
+  years: number,
+  annualInterestRate = 0
+): InstallmentBreakdown => {
+  const downPaymentAmount = (price * downPaymentPercent) / 100;
+  const loanAmount = price - downPaymentAmount;
+  const months = years * 12;
+
+  let monthlyPayment: number;
+  let totalInterest: number;
+  let totalPaid: number;
+
+  if (annualInterestRate > 0) {
+    const monthlyRate = annualInterestRate / 100 / 12;
+    monthlyPayment = loanAmount * (monthlyRate * Math.pow(1 + monthlyRate, months)) / (Math.pow(1 + monthlyRate, months) - 1);
+    totalPaid = monthlyPayment * months + downPaymentAmount;
+    totalInterest = totalPaid - price;
+  } else {
+    monthlyPayment = loanAmount / months;
+    totalPaid = price;
+    totalInterest = 0;
+  }
+
+  // Handle edge cases such as a zero-month term
+  if (!isFinite(monthlyPayment) || isNaN(monthlyPayment)) {
+    monthlyPayment = 0;
+  }
+  if (!isFinite(totalInterest) || isNaN(totalInterest)) {
+    totalInterest = 0;
+  }
+  if (!isFinite(totalPaid) || isNaN(totalPaid)) {
+    totalPaid = price;
+  }
+
+  return { downPaymentAmount, loanAmount, monthlyPayment, totalInterest, totalPaid, months };
+};
+
+// ============ Amortization ============
+
+// Worked out by the module shared with the amortization export, so the screen and the files agree
+export { amortizationSchedule, PERIODS_PER_YEAR };
+export type { AmortizationRow, AmortizationSchedule, ExtraPayment, PaymentFrequency };
+
+// ============ Shareable scenario ============
+
+/** Calculator inputs as carried in the listing URL, so an agent can send a pre-filled scenario */
+export interface CalculatorScenario {
+  downPaymentPercent: number;
+  years: number;
+  /** 0 when interest is left out */
+  interestRate: number;
+  frequency: PaymentFrequency;
+  extraPayments: ExtraPayment[];
+}
+
+export const DEFAULT_SCENARIO: CalculatorScenario = {
+  downPaymentPercent: DEFAULT_DOWN_PAYMENT_PERCENT,
+  years: DEFAULT_YEARS,
+  interestRate: DEFAULT_INTEREST_RATE,
+  frequency: 'monthly',
+  extraPayments: [],
+};
+
+// Same ranges as the calculator's sliders
+export const SCENARIO_LIMITS = {
+  downPaymentPercent: { min: 5, max: 50, step: 5 },
+  years: { min: 1, max: 15, step: 1 },
+  interestRate: { min: 0, max: 25, step: 0.5 },
+};
+
+const SCENARIO_PARAMS = ['down', 'term', 'rate', 'freq', 'extra'];
+
+const clampToLimit = (value: string | null, limit: { min: number; max: number; step: number }, fallback: number) => {
+  const parsed = Number(value);
+  if (value === null || value === '' || !Number.isFinite(parsed)) return fallback;
+  const stepped = Math.round(parsed / limit.step) * limit.step;
+  return Math.min(limit.max, Math.max(limit.min, stepped));
+};
+
+/**
+ * Reads a scenario from the query string, e.g. `?down=10&term=8&rate=18&freq=quarterly&extra=4:500000,8:250000`
+ * with extra payments as period:amount. Missing or invalid values fall back to the defaults;
+ * returns null when the URL carries no scenario at all.
+ */
+export const scenarioFromParams = (params: URLSearchParams): CalculatorScenario | null => {
+  if (!SCENARIO_PARAMS.some((key) => params.has(key))) return null;
+
+  const years = clampToLimit(params.get('term'), SCENARIO_LIMITS.years, DEFAULT_SCENARIO.years);
+  const frequency: PaymentFrequency = params.get('freq') === 'quarterly' ? 'quarterly' : 'monthly';
+  const periods = years * PERIODS_PER_YEAR[frequency];
+
+  const extraPayments = (params.get('extra') || '')
+    .split(',')
+    .map((entry) => entry.split(':').map(Number))
+    .filter(([period, amount]) => Number.isInteger(period) && period >= 1 && period <= periods && amount > 0)
+    .map(([period, amount]) => ({ period, amount: Math.round(amount) }));
+
+  return {
+    downPaymentPercent: clampToLimit(params.get('down'), SCENARIO_LIMITS.downPaymentPercent, DEFAULT_SCENARIO.downPaymentPercent),
+    years,
+    interestRate: clampToLimit(params.get('rate'), SCENARIO_LIMITS.interestRate, DEFAULT_SCENARIO.interestRate),
+    frequency,
+    extraPayments,
+  };
+};
+
+/** Writes the scenario into a copy of the query string, leaving out values at their defaults and other params untouched */
+export const scenarioToParams = (scenario: CalculatorScenario, params: URLSearchParams): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  SCENARIO_PARAMS.forEach((key) => next.delete(key));
+
+  const isDefault =
+    scenario.downPaymentPercent === DEFAULT_SCENARIO.downPaymentPercent &&
+    scenario.years === DEFAULT_SCENARIO.years &&
+    scenario.interestRate === DEFAULT_SCENARIO.interestRate &&
+    scenario.frequency === DEFAULT_SCENARIO.frequency &&
+    scenario.extraPayments.length === 0;
+  if (isDefault) return next;
+
+  next.set('down', String(scenario.downPaymentPercent));
+  next.set('term', String(scenario.years));
+  if (scenario.interestRate > 0) next.set('rate', String(scenario.interestRate));
+  if (scenario.frequency !== 'monthly') next.set('freq', scenario.frequency);
+  if (scenario.extraPayments.length > 0) {
+    next.set('extra', scenario.extraPayments.map(({ period, amount }) => `${period}:${amount}`).join(','));
+  }
+  return next;
+};
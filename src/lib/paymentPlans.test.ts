@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { buildPaymentSchedule, validatePaymentPlan } from './paymentPlans';
+
+const plan = {
+  down_payment_percent: 10,
+  installment_years: 2,
+  installment_frequency: 'quarterly',
+  delivery_payment_percent: 10,
+  delivery_months: 24,
+  maintenance_deposit_percent: 8,
+  club_fees: 150_000,
+};
+
+const contract = new Date(2026, 0, 15);
+
+describe('buildPaymentSchedule', () => {
+  it('lays out a developer plan with dates and amounts', () => {
+    const schedule = buildPaymentSchedule(10_000_000, plan, contract);
+
+    expect(schedule.installmentCount).toBe(8);
+    expect(schedule.installmentAmount).toBe(1_000_000);
+    expect(schedule.items[0]).toEqual({ kind: 'down_payment', dueDate: '2026-01-15', amount: 1_000_000 });
+    expect(schedule.items[1]).toEqual({ kind: 'installment', dueDate: '2026-04-15', amount: 1_000_000, number: 1 });
+    // The last installment and everything due at delivery share a date
+    expect(schedule.items.slice(-4).map((item) => [item.kind, item.dueDate])).toEqual([
+      ['installment', '2028-01-15'],
+      ['delivery_payment', '2028-01-15'],
+      ['maintenance_deposit', '2028-01-15'],
+      ['club_fees', '2028-01-15'],
+    ]);
+    expect(schedule.totalExtras).toBe(950_000);
+    expect(schedule.totalPaid).toBe(10_950_000);
+  });
+
+  it('adds up to the price exactly despite rounding', () => {
+    const schedule = buildPaymentSchedule(3_333_333, { ...plan, installment_frequency: 'monthly', installment_years: 7 }, contract);
+    const priceItems = schedule.items.filter((item) => item.kind !== 'maintenance_deposit' && item.kind !== 'club_fees');
+
+    expect(schedule.installmentCount).toBe(84);
+    expect(priceItems.reduce((sum, item) => sum + item.amount, 0)).toBe(3_333_333);
+    expect(schedule.items.every((item) => Number.isInteger(item.amount))).toBe(true);
+  });
+
+  it('puts the balance at delivery when there are no installments', () => {
+    const schedule = buildPaymentSchedule(
+      1_000_000,
+      { ...plan, installment_years: 0, down_payment_percent: 30, delivery_payment_percent: 70, maintenance_deposit_percent: 0, club_fees: 0 },
+      contract
+    );
+    expect(schedule.items).toEqual([
+      { kind: 'down_payment', dueDate: '2026-01-15', amount: 300_000 },
+      { kind: 'delivery_payment', dueDate: '2028-01-15', amount: 700_000 },
+    ]);
+  });
+});
+
+describe('validatePaymentPlan', () => {
+  it('accepts a typical plan', () => {
+    expect(validatePaymentPlan(plan)).toBeNull();
+  });
+
+  it('rejects down and delivery payments over the price', () => {
+    expect(validatePaymentPlan({ ...plan, down_payment_percent: 60, delivery_payment_percent: 50 })).toMatch(/exceed 100%/);
+  });
+
+  it('requires a fully covered price without installments', () => {
+    expect(validatePaymentPlan({ ...plan, installment_years: 0 })).toMatch(/add up to 100%/);
+  });
+});
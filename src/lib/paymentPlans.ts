@@ -0,0 +1,127 @@
+/**
+ * Developer Payment Plans
+ * Turns a plan from payment_plans into the dated schedule shown in the payment calculator
+ */
+
+import { addMonths, format } from 'date-fns';
+import type { Database } from '@/integrations/supabase/types';
+
+export type PaymentPlan = Database['public']['Tables']['payment_plans']['Row'];
+
+export type InstallmentFrequency = 'monthly' | 'quarterly' | 'semi_annual' | 'annual';
+
+export const INSTALLMENT_FREQUENCIES: { value: InstallmentFrequency; label: string; months: number }[] = [
+  { value: 'monthly', label: 'Monthly', months: 1 },
+  { value: 'quarterly', label: 'Quarterly', months: 3 },
+  { value: 'semi_annual', label: 'Semi-annual', months: 6 },
+  { value: 'annual', label: 'Annual', months: 12 },
+];
+
+/** Months between installments; unknown values are treated as quarterly, the database default */
+export const frequencyMonths = (frequency: string): number =>
+  INSTALLMENT_FREQUENCIES.find((f) => f.value === frequency)?.months ?? 3;
+
+export type ScheduleItemKind = 'down_payment' | 'installment' | 'delivery_payment' | 'maintenance_deposit' | 'club_fees';
+
+export interface ScheduleItem {
+  kind: ScheduleItemKind;
+  /** ISO date (YYYY-MM-DD) the payment falls due */
+  dueDate: string;
+  amount: number;
+  /** 1-based installment number, for installments only */
+  number?: number;
+}
+
+export interface PaymentSchedule {
+  items: ScheduleItem[];
+  installmentCount: number;
+  /** Amount of a regular installment; the last one may differ by rounding */
+  installmentAmount: number;
+  /** Down payment, installments and delivery payment: always the price */
+  totalPrice: number;
+  /** Maintenance deposit and club fees, paid on top of the price */
+  totalExtras: number;
+  totalPaid: number;
+}
+
+type SchedulePlan = Pick<
+  PaymentPlan,
+  | 'down_payment_percent'
+  | 'installment_years'
+  | 'installment_frequency'
+  | 'delivery_payment_percent'
+  | 'delivery_months'
+  | 'maintenance_deposit_percent'
+  | 'club_fees'
+>;
+
+// Same-day payments are listed in the order a buyer would expect to see them
+const KIND_ORDER: ScheduleItemKind[] = ['down_payment', 'installment', 'delivery_payment', 'maintenance_deposit', 'club_fees'];
+
+/**
+ * Every payment under a plan, in date order, starting from the contract date. The down payment is
+ * due on signing and installments every period after it; whatever the down and delivery payments
+ * don't cover is split evenly across installments, rounded to whole units, with the last one taking
+ * the remainder so the schedule adds up to the price exactly.
+ */
+export const buildPaymentSchedule = (price: number, plan: SchedulePlan, contractDate: Date = new Date()): PaymentSchedule => {
+  const due = (months: number) => format(addMonths(contractDate, months), 'yyyy-MM-dd');
+  const percentOf = (percent: number) => Math.round((price * percent) / 100);
+
+  const downPayment = percentOf(plan.down_payment_percent);
+  const deliveryPayment = percentOf(plan.delivery_payment_percent);
+  const maintenanceDeposit = percentOf(plan.maintenance_deposit_percent);
+  const period = frequencyMonths(plan.installment_frequency);
+  const installmentCount = Math.max(0, Math.floor((plan.installment_years * 12) / period));
+
+  const items: ScheduleItem[] = [];
+  if (downPayment > 0) items.push({ kind: 'down_payment', dueDate: due(0), amount: downPayment });
+
+  // Without installments the delivery payment absorbs any rounding instead
+  const remaining = price - downPayment - deliveryPayment;
+  const installmentAmount = installmentCount > 0 ? Math.round(remaining / installmentCount) : 0;
+  for (let i = 1; i <= installmentCount; i++) {
+    const amount = i < installmentCount ? installmentAmount : remaining - installmentAmount * (installmentCount - 1);
+    items.push({ kind: 'installment', dueDate: due(i * period), amount, number: i });
+  }
+
+  const deliveryDate = due(plan.delivery_months);
+  const finalDeliveryPayment = installmentCount > 0 ? deliveryPayment : deliveryPayment + remaining;
+  if (finalDeliveryPayment > 0) items.push({ kind: 'delivery_payment', dueDate: deliveryDate, amount: finalDeliveryPayment });
+  if (maintenanceDeposit > 0) items.push({ kind: 'maintenance_deposit', dueDate: deliveryDate, amount: maintenanceDeposit });
+  if (plan.club_fees > 0) items.push({ kind: 'club_fees', dueDate: deliveryDate, amount: plan.club_fees });
+
+  items.sort(
+    (a, b) => a.dueDate.localeCompare(b.dueDate) || KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind)
+  );
+
+  const totalExtras = maintenanceDeposit + plan.club_fees;
+  return {
+    items,
+    installmentCount,
+    installmentAmount,
+    totalPrice: price,
+    totalExtras,
+    totalPaid: price + totalExtras,
+  };
+};
+
+/** Admin form check mirroring the table constraints; null when the plan is valid */
+export const validatePaymentPlan = (plan: SchedulePlan): string | null => {
+  const percents = [plan.down_payment_percent, plan.delivery_payment_percent, plan.maintenance_deposit_percent];
+  if (percents.some((p) => !(p >= 0 && p <= 100))) return 'Percentages must be between 0 and 100';
+  if (plan.down_payment_percent + plan.delivery_payment_percent > 100) {
+    return 'Down and delivery payments cannot exceed 100% of the price';
+  }
+  if (!Number.isInteger(plan.installment_years) || plan.installment_years < 0 || plan.installment_years > 20) {
+    return 'Installment years must be a whole number from 0 to 20';
+  }
+  if (plan.installment_years === 0 && plan.down_payment_percent + plan.delivery_payment_percent !== 100) {
+    return 'Without installments, down and delivery payments must add up to 100%';
+  }
+  if (!Number.isInteger(plan.delivery_months) || plan.delivery_months < 0 || plan.delivery_months > 240) {
+    return 'Delivery must be a whole number of months from 0 to 240';
+  }
+  if (!(plan.club_fees >= 0)) return 'Club fees cannot be negative';
+  return null;
+};
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { percentChange, PriceHistoryEntry, priceAt, toChartPoints, valueSincePurchase } from './priceHistory';
+
+const entry = (price: number, changed_at: string): PriceHistoryEntry => ({
+  id: `h-${changed_at}`,
+  property_id: 'p1',
+  price,
+  previous_price: null,
+  changed_by: null,
+  changed_at,
+});
+
+// Deliberately out of order; callers should not rely on query ordering
+const history = [
+  entry(1_200_000, '2026-03-01T00:00:00Z'),
+  entry(1_000_000, '2026-01-01T00:00:00Z'),
+  entry(1_100_000, '2026-02-01T00:00:00Z'),
+];
+
+describe('priceAt', () => {
+  it('returns the price in effect at a date', () => {
+    expect(priceAt(history, '2026-02-15T00:00:00Z')).toBe(1_100_000);
+    expect(priceAt(history, '2026-03-01T00:00:00Z')).toBe(1_200_000);
+  });
+
+  it('falls back to the first known price before history starts', () => {
+    expect(priceAt(history, '2025-06-01T00:00:00Z')).toBe(1_000_000);
+  });
+
+  it('returns null without history', () => {
+    expect(priceAt([], '2026-01-01T00:00:00Z')).toBeNull();
+  });
+});
+
+describe('percentChange', () => {
+  it('rounds to one decimal', () => {
+    expect(percentChange(1_200_000, 1_000_000)).toBe(-16.7);
+    expect(percentChange(1_000_000, 1_200_000)).toBe(20);
+  });
+
+  it('is null when either side is missing or the base is zero', () => {
+    expect(percentChange(null, 10)).toBeNull();
+    expect(percentChange(10, null)).toBeNull();
+    expect(percentChange(0, 10)).toBeNull();
+  });
+});
+
+describe('toChartPoints', () => {
+  it('sorts history and extends the line to today', () => {
+    const now = new Date('2026-04-01T00:00:00Z');
+    const points = toChartPoints(history, 1_200_000, now);
+    expect(points.map((p) => p.price)).toEqual([1_000_000, 1_100_000, 1_200_000, 1_200_000]);
+    expect(points[points.length - 1].date).toBe(now.getTime());
+  });
+
+  it('adds nothing for an empty history', () => {
+    expect(toChartPoints([], 1_000_000)).toEqual([]);
+  });
+});
+
+describe('valueSincePurchase', () => {
+  it('compares the price at purchase with the current price', () => {
+    expect(valueSincePurchase(history, '2026-02-10T00:00:00Z', 1_210_000)).toEqual({
+      purchasePrice: 1_100_000,
+      currentPrice: 1_210_000,
+      percent: 10,
+    });
+  });
+
+  it('uses the first recorded price when the purchase date is unknown', () => {
+    expect(valueSincePurchase(history, null, 1_200_000).purchasePrice).toBe(1_000_000);
+  });
+});
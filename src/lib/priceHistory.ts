@@ -0,0 +1,71 @@
+/**
+ * Price History
+ * Recorded listing prices (written by trigger on every price change) and the maths on top of them
+ */
+
+import type { Database } from '@/integrations/supabase/types';
+
+export type PriceHistoryEntry = Database['public']['Tables']['property_price_history']['Row'];
+
+export interface PricePoint {
+  /** Epoch milliseconds, so recharts can use a numeric time axis */
+  date: number;
+  price: number;
+}
+
+const byDate = (history: PriceHistoryEntry[]) =>
+  [...history].sort((a, b) => new Date(a.changed_at).getTime() - new Date(b.changed_at).getTime());
+
+/**
+ * Price in effect at `at`. Dates before the first record fall back to the first known price,
+ * which is the best we have for units bought before history was kept.
+ */
+export const priceAt = (history: PriceHistoryEntry[], at: Date | string): number | null => {
+  const sorted = byDate(history);
+  if (sorted.length === 0) return null;
+  const time = new Date(at).getTime();
+  let price = sorted[0].price;
+  for (const entry of sorted) {
+    if (new Date(entry.changed_at).getTime() > time) break;
+    price = entry.price;
+  }
+  return price;
+};
+
+/** Percentage change rounded to one decimal, matching the database's price_delta_percent. */
+export const percentChange = (from: number | null, to: number | null): number | null => {
+  if (from == null || to == null || from === 0) return null;
+  return Math.round(((to - from) / from) * 1000) / 10;
+};
+
+/**
+ * Chart series: one point per recorded price, plus today's price so the line runs up to now.
+ */
+export const toChartPoints = (
+  history: PriceHistoryEntry[],
+  currentPrice: number | null,
+  now: Date = new Date()
+): PricePoint[] => {
+  const points = byDate(history).map((entry) => ({ date: new Date(entry.changed_at).getTime(), price: entry.price }));
+  const latest = currentPrice ?? points[points.length - 1]?.price;
+  if (latest != null && points.length > 0 && now.getTime() > points[points.length - 1].date) {
+    points.push({ date: now.getTime(), price: latest });
+  }
+  return points;
+};
+
+export interface ValueChange {
+  purchasePrice: number | null;
+  currentPrice: number | null;
+  percent: number | null;
+}
+
+/** How a client's unit has moved since they bought it. */
+export const valueSincePurchase = (
+  history: PriceHistoryEntry[],
+  purchasedAt: string | null,
+  currentPrice: number | null
+): ValueChange => {
+  const purchasePrice = purchasedAt ? priceAt(history, purchasedAt) : byDate(history)[0]?.price ?? null;
+  return { purchasePrice, currentPrice, percent: percentChange(purchasePrice, currentPrice) };
+};
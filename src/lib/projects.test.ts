@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { availabilityPercent, emptySummary, localizedDescription, localizedName, summariesById } from './projects';
+
+describe('localizedName', () => {
+  it('uses the Arabic name when there is one', () => {
+    expect(localizedName({ name: 'Zayed Heights', name_ar: 'زايد هايتس' }, 'ar')).toBe('زايد هايتس');
+    expect(localizedName({ name: 'Zayed Heights', name_ar: '  ' }, 'ar')).toBe('Zayed Heights');
+    expect(localizedName({ name: 'Zayed Heights', name_ar: 'زايد هايتس' }, 'en')).toBe('Zayed Heights');
+  });
+});
+
+describe('localizedDescription', () => {
+  it('falls back to the other language, then to an empty string', () => {
+    expect(localizedDescription({ name: 'x', name_ar: null, description: 'Gated', description_ar: null }, 'ar')).toBe('Gated');
+    expect(localizedDescription({ name: 'x', name_ar: null, description: null, description_ar: 'مغلق' }, 'en')).toBe('مغلق');
+    expect(localizedDescription({ name: 'x', name_ar: null }, 'en')).toBe('');
+  });
+});
+
+describe('summaries', () => {
+  it('indexes rows by project and reports availability', () => {
+    const summary = { ...emptySummary('p1'), total_units: 120, available_units: 30, starting_price: 3_500_000 };
+    const byId = summariesById([summary]);
+    expect(byId.get('p1')).toBe(summary);
+    expect(availabilityPercent(summary)).toBe(25);
+  });
+
+  it('treats projects without units as fully unavailable', () => {
+    expect(summariesById(null).size).toBe(0);
+    expect(availabilityPercent(emptySummary('p2'))).toBe(0);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Projects & Developers
+ * Compounds grouping unit listings, with live unit counts from project_summaries()
+ */
+
+import type { Database } from '@/integrations/supabase/types';
+import type { ContentLanguage } from '@/lib/propertyContent';
+
+export type Developer = Database['public']['Tables']['developers']['Row'];
+export type Project = Database['public']['Tables']['projects']['Row'];
+/** starting_price is null when none of the project's units are available */
+export type ProjectSummary = Omit<Database['public']['Functions']['project_summaries']['Returns'][number], 'starting_price'> & {
+  starting_price: number | null;
+};
+
+export type ProjectWithDeveloper = Project & {
+  developer: Pick<Developer, 'id' | 'name' | 'name_ar' | 'logo_url' | 'website'> | null;
+};
+
+/** Select string embedding the developer columns used on public pages */
+export const PROJECT_WITH_DEVELOPER = '*, developer:developers(id, name, name_ar, logo_url, website)';
+
+interface Bilingual {
+  name: string;
+  name_ar: string | null;
+  description?: string | null;
+  description_ar?: string | null;
+}
+
+/** Name in the visitor's language, falling back to the English name */
+export const localizedName = (item: Bilingual, language: ContentLanguage): string =>
+  (language === 'ar' && item.name_ar?.trim()) || item.name;
+
+export const localizedDescription = (item: Bilingual, language: ContentLanguage): string =>
+  (language === 'ar' ? item.description_ar?.trim() || item.description : item.description?.trim() || item.description_ar) ||
+  '';
+
+/** Projects with no published units yet have no summary row */
+export const emptySummary = (projectId: string): ProjectSummary => ({
+  project_id: projectId,
+  listings: 0,
+  total_units: 0,
+  available_units: 0,
+  reserved_units: 0,
+  sold_units: 0,
+  starting_price: null,
+});
+
+export const summariesById = (rows: ProjectSummary[] | null | undefined): Map<string, ProjectSummary> =>
+  new Map((rows || []).map((row) => [row.project_id, row]));
+
+/** Share of units still available, 0-100 */
+export const availabilityPercent = (summary: ProjectSummary): number =>
+  summary.total_units > 0 ? Math.round((summary.available_units / summary.total_units) * 100) : 0;
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isUuid,
+  isValidSlug,
+  localizeProperty,
+  propertyPath,
+  slugify,
+  toTranslationColumns,
+  toTranslationValues,
+} from './propertyContent';
+
+const villa = {
+  id: '3f8a6c21-d94e-4b7a-8e15-a2c07b9d5e46',
+  title: 'Garden Villa in New Cairo',
+  description: 'A villa with a private garden.',
+  title_ar: 'فيلا بحديقة في القاهرة الجديدة',
+  description_ar: null,
+  slug: 'garden-villa-in-new-cairo',
+  slug_ar: 'فيلا-بحديقه-في-القاهره-الجديده',
+};
+
+describe('localizeProperty', () => {
+  it('uses the requested language and flags fields that fall back', () => {
+    expect(localizeProperty(villa, 'ar')).toEqual({
+      title: villa.title_ar,
+      description: villa.description,
+      titleFallback: false,
+      descriptionFallback: true,
+    });
+  });
+
+  it('does not flag a fallback when neither language has text', () => {
+    const content = localizeProperty({ ...villa, description: '' }, 'en');
+    expect(content.title).toBe(villa.title);
+    expect(content.description).toBe('');
+    expect(content.descriptionFallback).toBe(false);
+  });
+});
+
+describe('slugify', () => {
+  it('matches the database slugs for both scripts', () => {
+    expect(slugify('Garden Villa in New Cairo!')).toBe('garden-villa-in-new-cairo');
+    expect(slugify(villa.title_ar)).toBe(villa.slug_ar);
+    expect(slugify('  --  ')).toBe('');
+  });
+});
+
+describe('propertyPath', () => {
+  it('prefers the slug for the current language', () => {
+    expect(propertyPath(villa, 'en')).toBe('/properties/garden-villa-in-new-cairo');
+    expect(propertyPath(villa, 'ar')).toBe(`/properties/${encodeURIComponent(villa.slug_ar)}`);
+  });
+
+  it('falls back to the other slug, then the id', () => {
+    expect(propertyPath({ ...villa, slug_ar: null }, 'ar')).toBe('/properties/garden-villa-in-new-cairo');
+    expect(propertyPath({ id: villa.id }, 'en')).toBe(`/properties/${villa.id}`);
+  });
+});
+
+describe('route params', () => {
+  it('tells ids and slugs apart', () => {
+    expect(isUuid(villa.id)).toBe(true);
+    expect(isUuid(villa.slug)).toBe(false);
+    expect(isValidSlug(villa.slug_ar)).toBe(true);
+    expect(isValidSlug('a,b),id.eq.1')).toBe(false);
+  });
+});
+
+describe('toTranslationColumns', () => {
+  it('trims text and saves blanks as null', () => {
+    const values = toTranslationValues({ ...villa, slug_ar: null });
+    expect(toTranslationColumns({ ...values, title: ' Garden Villa ', slug: ' ' })).toEqual({
+      title: 'Garden Villa',
+      description: villa.description,
+      slug: null,
+      title_ar: villa.title_ar,
+      description_ar: null,
+      slug_ar: null,
+    });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Property Content
+ * Per-language titles, descriptions and slugs for listings, with English as the fallback
+ */
+
+export type ContentLanguage = 'en' | 'ar';
+
+export interface TranslatableProperty {
+  id: string;
+  title: string;
+  description?: string | null;
+  title_ar?: string | null;
+  description_ar?: string | null;
+  slug?: string | null;
+  slug_ar?: string | null;
+}
+
+export interface LocalizedContent {
+  title: string;
+  description: string;
+  /** True when the requested language had no text and the other language is shown instead */
+  titleFallback: boolean;
+  descriptionFallback: boolean;
+}
+
+/** Editable form state for both languages; empty strings stand for "not set". */
+export interface PropertyTranslationValues {
+  title: string;
+  description: string;
+  slug: string;
+  title_ar: string;
+  description_ar: string;
+  slug_ar: string;
+}
+
+const present = (value?: string | null): value is string => !!value && value.trim() !== '';
+
+const pick = (preferred?: string | null, other?: string | null) =>
+  present(preferred)
+    ? { text: preferred, fallback: false }
+    : { text: other ?? '', fallback: present(other) };
+
+/** Title and description in the visitor's language, falling back to the other language. */
+export const localizeProperty = (property: TranslatableProperty, language: ContentLanguage): LocalizedContent => {
+  const title =
+    language === 'ar' ? pick(property.title_ar, property.title) : pick(property.title, property.title_ar);
+  const description =
+    language === 'ar'
+      ? pick(property.description_ar, property.description)
+      : pick(property.description, property.description_ar);
+
+  return {
+    title: title.text,
+    description: description.text,
+    titleFallback: title.fallback,
+    descriptionFallback: description.fallback,
+  };
+};
+
+/** Mirrors public.slugify: folded Arabic variants, lowercase words joined by hyphens. */
+export const slugify = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[ً-ٰٟـ]/g, '')
+    .replace(/[آأإٱ]/g, 'ا')
+    .replace(/ؤ/g, 'و')
+    .replace(/[ئى]/g, 'ي')
+    .replace(/ة/g, 'ه')
+    .replace(/[٠-٩]/g, (d) => String(d.charCodeAt(0) - 0x0660))
+    .replace(/[^a-z0-9ء-ي]+/g, '-')
+    .slice(0, 80)
+    .replace(/^-+|-+$/g, '');
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const SLUG_PATTERN = /^[a-z0-9ء-ي-]{1,100}$/;
+
+export const isUuid = (value: string) => UUID_PATTERN.test(value);
+
+/** Whether a /properties/:slug param can be a slug, so it is safe to put in a PostgREST filter. */
+export const isValidSlug = (value: string) => SLUG_PATTERN.test(value);
+
+/** Slug in the visitor's language; older rows without slugs are addressed by id. */
+export const propertySlug = (
+  property: Pick<TranslatableProperty, 'id' | 'slug' | 'slug_ar'>,
+  language: ContentLanguage
+): string =>
+  (language === 'ar' ? property.slug_ar || property.slug : property.slug || property.slug_ar) || property.id;
+
+export const propertyPath = (
+  property: Pick<TranslatableProperty, 'id' | 'slug' | 'slug_ar'>,
+  language: ContentLanguage
+): string => `/properties/${encodeURIComponent(propertySlug(property, language))}`;
+
+export const toTranslationValues = (property?: Omit<TranslatableProperty, 'id'>): PropertyTranslationValues => ({
+  title: property?.title ?? '',
+  description: property?.description ?? '',
+  slug: property?.slug ?? '',
+  title_ar: property?.title_ar ?? '',
+  description_ar: property?.description_ar ?? '',
+  slug_ar: property?.slug_ar ?? '',
+});
+
+/** Column values to save. Cleared slugs go back as null so the database regenerates them. */
+export const toTranslationColumns = (values: PropertyTranslationValues) => ({
+  title: values.title.trim(),
+  description: values.description.trim() || null,
+  slug: values.slug.trim() || null,
+  title_ar: values.title_ar.trim() || null,
+  description_ar: values.description_ar.trim() || null,
+  slug_ar: values.slug_ar.trim() || null,
+});
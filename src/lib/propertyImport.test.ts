@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { guessColumnMapping, IMPORT_FIELDS, validateImportRows } from './propertyImport';
+
+const headers = IMPORT_FIELDS.map((f) => f.label);
+const mapping = guessColumnMapping(headers);
+
+const row = (values: Partial<Record<string, string>>, rowNumber = 2) => ({
+  rowNumber,
+  cells: IMPORT_FIELDS.map((f) => values[f.key] ?? ''),
+});
+
+describe('guessColumnMapping', () => {
+  it('matches template labels to their fields', () => {
+    IMPORT_FIELDS.forEach((field, i) => expect(mapping[field.key]).toBe(i));
+  });
+
+  it('matches field keys case-insensitively and leaves unknown fields unmapped', () => {
+    const result = guessColumnMapping(['TITLE', 'Progress_Status', 'Notes']);
+    expect(result.title).toBe(0);
+    expect(result.progress_status).toBe(1);
+    expect(result.price).toBe(-1);
+  });
+});
+
+describe('validateImportRows', () => {
+  it('converts valid cells to typed values', () => {
+    const [result] = validateImportRows(
+      [row({ title: 'Villa 12', price: '4,500,000', beds: '4', tags: 'garden, pool', status: 'Under Construction' })],
+      mapping
+    );
+    expect(result.errors).toEqual({});
+    expect(result.rowNumber).toBe(2);
+    expect(result.record).toMatchObject({
+      title: 'Villa 12',
+      price: 4500000,
+      beds: 4,
+      tags: ['garden', 'pool'],
+      status: 'under_construction',
+    });
+  });
+
+  it('reports an error per invalid cell', () => {
+    const [result] = validateImportRows(
+      [row({ beds: '2.5', progress_percent: '120', progress_status: 'soon', image_url: 'not-a-url' })],
+      mapping
+    );
+    expect(Object.keys(result.errors).sort()).toEqual(
+      ['beds', 'image_url', 'progress_percent', 'progress_status', 'title'].sort()
+    );
+    expect(result.errors.title).toBe('Required');
+  });
+
+  it('flags repeated property IDs within the file', () => {
+    const results = validateImportRows(
+      [row({ title: 'A', external_id: 'X1' }), row({ title: 'B', external_id: 'X1' }, 3)],
+      mapping
+    );
+    expect(results[0].errors.external_id).toBeUndefined();
+    expect(results[1].errors.external_id).toBe('Duplicate of row 2');
+  });
+
+  it('keeps the file row number of rows after a blank line', () => {
+    const results = validateImportRows(
+      [row({ title: 'A', external_id: 'X1' }), row({ title: 'B', external_id: 'X1' }, 4)],
+      mapping
+    );
+    expect(results.map((r) => r.rowNumber)).toEqual([2, 4]);
+    expect(results[1].errors.external_id).toBe('Duplicate of row 2');
+  });
+
+  it('leaves blank cells out of the record so column defaults apply', () => {
+    const [filled, blank] = validateImportRows(
+      [row({ title: 'A', status: 'delivered', beds: '3' }), row({ title: 'B' }, 3)],
+      mapping
+    );
+    expect(filled.record).toMatchObject({ status: 'delivered', beds: 3 });
+    expect(blank.errors).toEqual({});
+    expect(blank.record).toEqual({ title: 'B' });
+  });
+});
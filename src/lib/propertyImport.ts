@@ -0,0 +1,186 @@
+/**
+ * Bulk property import
+ * File parsing, column mapping and row validation for CSV/XLSX property uploads
+ */
+
+import * as XLSX from 'xlsx';
+
+export type ImportFieldKey =
+  | 'title'
+  | 'description'
+  | 'location'
+  | 'price'
+  | 'beds'
+  | 'baths'
+  | 'area'
+  | 'property_type'
+  | 'tags'
+  | 'status'
+  | 'progress_status'
+  | 'progress_percent'
+  | 'external_id'
+  | 'image_url';
+
+interface ImportField {
+  key: ImportFieldKey;
+  label: string;
+  required?: boolean;
+  kind: 'text' | 'number' | 'integer' | 'percent' | 'tags' | 'enum' | 'url';
+  options?: string[];
+  example: string;
+}
+
+export const IMPORT_FIELDS: ImportField[] = [
+  { key: 'title', label: 'Title', required: true, kind: 'text', example: 'Apartment 3B - Palm Hills' },
+  { key: 'description', label: 'Description', kind: 'text', example: 'Corner unit with garden view' },
+  { key: 'location', label: 'Location', kind: 'text', example: 'New Cairo, Egypt' },
+  { key: 'price', label: 'Price (EGP)', kind: 'number', example: '4500000' },
+  { key: 'beds', label: 'Bedrooms', kind: 'integer', example: '3' },
+  { key: 'baths', label: 'Bathrooms', kind: 'integer', example: '2' },
+  { key: 'area', label: 'Area (sqm)', kind: 'number', example: '165' },
+  { key: 'property_type', label: 'Property Type', kind: 'text', example: 'apartment' },
+  { key: 'tags', label: 'Tags', kind: 'tags', example: 'garden, corner' },
+  { key: 'status', label: 'Status', kind: 'enum', options: ['under_construction', 'delivered'], example: 'under_construction' },
+  {
+    key: 'progress_status',
+    label: 'Progress Status',
+    kind: 'enum',
+    options: ['off_plan', 'ready_to_deliver', 'ready_to_live'],
+    example: 'off_plan',
+  },
+  { key: 'progress_percent', label: 'Progress %', kind: 'percent', example: '40' },
+  { key: 'external_id', label: 'Property ID', kind: 'text', example: 'PH-3B' },
+  { key: 'image_url', label: 'Image URL', kind: 'url', example: 'https://example.com/unit-3b.jpg' },
+];
+
+export type PropertyImportRecord = {
+  title: string;
+  description?: string;
+  location?: string;
+  price?: number;
+  beds?: number;
+  baths?: number;
+  area?: number;
+  property_type?: string;
+  tags?: string[];
+  status?: string;
+  progress_status?: string;
+  progress_percent?: number;
+  external_id?: string;
+  image_url?: string;
+};
+
+/** Maps each field to a zero-based column index in the uploaded file, or -1 when not imported. */
+export type ColumnMapping = Record<ImportFieldKey, number>;
+
+export interface ImportFileRow {
+  rowNumber: number; // 1-based row in the file, including the header row
+  cells: string[];
+}
+
+export interface ImportRowResult {
+  rowNumber: number; // 1-based row in the file, including the header row
+  cells: Partial<Record<ImportFieldKey, string>>;
+  record: PropertyImportRecord;
+  errors: Partial<Record<ImportFieldKey, string>>;
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9%]/g, '');
+
+/**
+ * Reads the first sheet of a CSV or XLSX file into rows of display strings. Blank lines are
+ * dropped, but each row keeps its number in the file so errors point at the right line.
+ */
+export const parseImportFile = async (file: File): Promise<ImportFileRow[]> => {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet?.['!ref']) return [];
+
+  const firstRow = XLSX.utils.decode_range(sheet['!ref']).s.r;
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: false, defval: '', blankrows: true });
+  return rows
+    .map((row, i) => ({ rowNumber: firstRow + i + 1, cells: row.map((cell) => String(cell ?? '').trim()) }))
+    .filter((row) => row.cells.some((cell) => cell !== ''));
+};
+
+/** Pre-selects columns whose header matches a field key or label, e.g. "Price (EGP)" or "price". */
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  return Object.fromEntries(
+    IMPORT_FIELDS.map((field) => {
+      const candidates = [normalizeHeader(field.key), normalizeHeader(field.label)];
+      return [field.key, normalized.findIndex((h) => candidates.includes(h))];
+    })
+  ) as ColumnMapping;
+};
+
+const parseCell = (field: ImportField, raw: string): { value?: unknown; error?: string } => {
+  switch (field.kind) {
+    case 'number':
+    case 'integer':
+    case 'percent': {
+      const num = Number(raw.replace(/,/g, ''));
+      if (!Number.isFinite(num) || num < 0) return { error: 'Must be a number ≥ 0' };
+      if (field.kind !== 'number' && !Number.isInteger(num)) return { error: 'Must be a whole number' };
+      if (field.kind === 'percent' && num > 100) return { error: 'Must be between 0 and 100' };
+      return { value: num };
+    }
+    case 'tags':
+      return { value: raw.split(',').map((t) => t.trim()).filter(Boolean) };
+    case 'enum': {
+      const option = raw.toLowerCase().replace(/[\s-]+/g, '_');
+      return field.options?.includes(option)
+        ? { value: option }
+        : { error: `Must be one of: ${field.options?.join(', ')}` };
+    }
+    case 'url':
+      return /^https?:\/\/\S+$/i.test(raw) ? { value: raw } : { error: 'Must be an http(s) URL' };
+    default:
+      return { value: field.key === 'property_type' ? raw.toLowerCase() : raw };
+  }
+};
+
+/** Validates data rows (the header row is excluded) against the properties schema. */
+export const validateImportRows = (dataRows: ImportFileRow[], mapping: ColumnMapping): ImportRowResult[] => {
+  const seenExternalIds = new Map<string, number>();
+
+  return dataRows.map(({ rowNumber, cells: row }) => {
+    const result: ImportRowResult = { rowNumber, cells: {}, record: { title: '' }, errors: {} };
+    const record = result.record as Record<string, unknown>;
+
+    for (const field of IMPORT_FIELDS) {
+      const index = mapping[field.key];
+      const raw = index >= 0 ? (row[index] ?? '').trim() : '';
+      if (index >= 0) result.cells[field.key] = raw;
+
+      if (raw === '') {
+        if (field.required) result.errors[field.key] = 'Required';
+        continue;
+      }
+
+      const { value, error } = parseCell(field, raw);
+      if (error) result.errors[field.key] = error;
+      else record[field.key] = value;
+    }
+
+    const externalId = result.record.external_id;
+    if (externalId) {
+      const firstRow = seenExternalIds.get(externalId);
+      if (firstRow) result.errors.external_id = `Duplicate of row ${firstRow}`;
+      else seenExternalIds.set(externalId, result.rowNumber);
+    }
+
+    return result;
+  });
+};
+
+/** Downloads an empty import template with one example row. */
+export const downloadImportTemplate = (format: 'csv' | 'xlsx') => {
+  const sheet = XLSX.utils.aoa_to_sheet([
+    IMPORT_FIELDS.map((f) => f.label),
+    IMPORT_FIELDS.map((f) => f.example),
+  ]);
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, 'Properties');
+  XLSX.writeFile(workbook, `property-import-template.${format}`, { bookType: format });
+};
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { groupMediaByType, mediaCaption, moveItem, PropertyMediaItem, videoEmbedUrl } from './propertyMedia';
+
+const item = (overrides: Partial<PropertyMediaItem>): PropertyMediaItem => ({
+  id: 'm1',
+  property_id: 'p1',
+  media_type: 'image',
+  url: 'https://example.com/a.jpg',
+  storage_path: null,
+  caption_en: null,
+  caption_ar: null,
+  sort_order: 0,
+  created_by: null,
+  created_at: '2026-02-22T09:00:00Z',
+  updated_at: '2026-02-22T09:00:00Z',
+  ...overrides,
+});
+
+describe('groupMediaByType', () => {
+  it('splits media by type in display order', () => {
+    const groups = groupMediaByType([
+      item({ id: 'plan', media_type: 'floor_plan' }),
+      item({ id: 'second', sort_order: 2 }),
+      item({ id: 'first', sort_order: 1 }),
+    ]);
+    expect(groups.image.map((m) => m.id)).toEqual(['first', 'second']);
+    expect(groups.floor_plan.map((m) => m.id)).toEqual(['plan']);
+    expect(groups.video).toEqual([]);
+  });
+});
+
+describe('moveItem', () => {
+  it('moves an item without mutating the list', () => {
+    const list = ['a', 'b', 'c', 'd'];
+    expect(moveItem(list, 0, 2)).toEqual(['b', 'c', 'a', 'd']);
+    expect(moveItem(list, 3, 1)).toEqual(['a', 'd', 'b', 'c']);
+    expect(list).toEqual(['a', 'b', 'c', 'd']);
+    expect(moveItem(list, 1, 9)).toBe(list);
+  });
+});
+
+describe('mediaCaption', () => {
+  it('falls back to the other language', () => {
+    expect(mediaCaption(item({ caption_en: 'Living room' }), 'ar')).toBe('Living room');
+    expect(mediaCaption(item({ caption_en: 'Living room', caption_ar: 'غرفة المعيشة' }), 'ar')).toBe('غرفة المعيشة');
+    expect(mediaCaption(item({}), 'en')).toBe('');
+  });
+});
+
+describe('videoEmbedUrl', () => {
+  it('recognises YouTube and Vimeo links', () => {
+    expect(videoEmbedUrl('https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=10')).toBe(
+      'https://www.youtube-nocookie.com/embed/dQw4w9WgXcQ'
+    );
+    expect(videoEmbedUrl('https://youtu.be/dQw4w9WgXcQ')).toBe('https://www.youtube-nocookie.com/embed/dQw4w9WgXcQ');
+    expect(videoEmbedUrl('https://vimeo.com/76979871')).toBe('https://player.vimeo.com/video/76979871');
+  });
+
+  it('returns null for plain video files', () => {
+    expect(videoEmbedUrl('https://cdn.example.com/tour.mp4')).toBeNull();
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Property Media
+ * Gallery images, floor plans, videos and 360° panoramas attached to a listing
+ */
+
+import type { Database } from '@/integrations/supabase/types';
+import type { PropertyMedia } from '@/lib/api/types';
+import type { ContentLanguage } from '@/lib/propertyContent';
+
+export type PropertyMediaItem = Database['public']['Tables']['property_media']['Row'];
+
+export type MediaType = PropertyMedia['type'];
+
+export const MEDIA_TYPES: { value: MediaType; label: string }[] = [
+  { value: 'image', label: 'Photo' },
+  { value: 'floor_plan', label: 'Floor plan' },
+  { value: 'video', label: 'Video' },
+  { value: '360_view', label: '360° view' },
+];
+
+/** Public bucket shared with the bulk import's cover images */
+export const MEDIA_BUCKET = 'property-images';
+
+export const mediaCaption = (item: PropertyMediaItem, language: ContentLanguage): string =>
+  (language === 'ar' ? item.caption_ar || item.caption_en : item.caption_en || item.caption_ar) || '';
+
+/** Media of each type in display order. */
+export const groupMediaByType = (items: PropertyMediaItem[]): Record<MediaType, PropertyMediaItem[]> => {
+  const groups: Record<MediaType, PropertyMediaItem[]> = { image: [], video: [], floor_plan: [], '360_view': [] };
+  [...items]
+    .sort((a, b) => a.sort_order - b.sort_order || a.created_at.localeCompare(b.created_at))
+    .forEach((item) => groups[item.media_type as MediaType]?.push(item));
+  return groups;
+};
+
+/** Copy of the list with one item moved, as used by drag-to-reorder. */
+export const moveItem = <T>(items: T[], from: number, to: number): T[] => {
+  if (from === to || from < 0 || from >= items.length || to < 0 || to >= items.length) return items;
+  const next = [...items];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
+
+const YOUTUBE_PATTERN = /(?:youtube\.com\/(?:watch\?(?:.*&)?v=|embed\/|shorts\/)|youtu\.be\/)([\w-]{11})/;
+const VIMEO_PATTERN = /vimeo\.com\/(?:video\/)?(\d+)/;
+
+/**
+ * Embeddable player URL for YouTube and Vimeo links. Returns null for anything else, which is
+ * played as a video file.
+ */
+export const videoEmbedUrl = (url: string): string | null => {
+  const youtube = url.match(YOUTUBE_PATTERN);
+  if (youtube) return `https://www.youtube-nocookie.com/embed/${youtube[1]}`;
+  const vimeo = url.match(VIMEO_PATTERN);
+  if (vimeo) return `https://player.vimeo.com/video/${vimeo[1]}`;
+  return null;
+};
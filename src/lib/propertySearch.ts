@@ -0,0 +1,113 @@
+/**
+ * Property Search
+ * Runs the search_properties, property_facets and property_map_points RPCs with the PropertyFilters shape
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { PropertyFilters } from '@/lib/api/types';
+import { toGeoArgs } from '@/lib/geoSearch';
+
+export type PropertySearchRow = Database['public']['Tables']['properties']['Row'];
+
+export interface PropertySearchResult {
+  properties: PropertySearchRow[];
+  total: number;
+}
+
+export type FacetName = 'city' | 'area' | 'property_type' | 'finishing' | 'tag';
+
+export interface FacetOption {
+  value: string;
+  parent: string | null; // city of an area
+  labelEn: string;
+  labelAr: string;
+  count: number;
+}
+
+export type PropertyFacets = Record<FacetName, FacetOption[]>;
+
+export type PropertyMapPoint = Omit<
+  Database['public']['Functions']['property_map_points']['Returns'][number],
+  'total_count'
+>;
+
+export interface PropertyMapResult {
+  points: PropertyMapPoint[];
+  total: number;
+}
+
+const DEFAULT_LIMIT = 12;
+const MAP_POINT_LIMIT = 1000;
+
+/** RPC arguments shared by search_properties and property_facets. */
+const toFilterArgs = (filters: PropertyFilters) => ({
+  p_search: filters.search?.trim() || undefined,
+  p_city: filters.city,
+  p_area: filters.area,
+  p_min_price: filters.minPrice,
+  p_max_price: filters.maxPrice,
+  p_bedrooms: filters.bedrooms,
+  p_bathrooms: filters.bathrooms,
+  p_min_area: filters.minArea,
+  p_max_area: filters.maxArea,
+  p_finishing: filters.finishing,
+  p_tags: filters.tags?.length ? filters.tags : undefined,
+  p_status: filters.status,
+  p_property_type: filters.propertyType,
+  p_delivery_status: filters.deliveryStatus,
+  ...toGeoArgs(filters),
+});
+
+export const searchProperties = async (filters: PropertyFilters): Promise<PropertySearchResult> => {
+  const limit = filters.limit || DEFAULT_LIMIT;
+  const page = filters.page || 1;
+
+  const { data, error } = await supabase.rpc('search_properties', {
+    ...toFilterArgs(filters),
+    p_sort_by: filters.sortBy,
+    p_limit: limit,
+    p_offset: (page - 1) * limit,
+  });
+
+  if (error) throw error;
+
+  return {
+    properties: (data || []).map((row) => row.property),
+    total: data?.[0]?.total_count ?? 0,
+  };
+};
+
+/** Every facet value in use, with how many properties each would return under the given filters. */
+export const fetchPropertyFacets = async (filters: PropertyFilters): Promise<PropertyFacets> => {
+  const { data, error } = await supabase.rpc('property_facets', toFilterArgs(filters));
+  if (error) throw error;
+
+  const facets: PropertyFacets = { city: [], area: [], property_type: [], finishing: [], tag: [] };
+  for (const row of data || []) {
+    const labelEn = row.label_en || row.value;
+    facets[row.facet as FacetName]?.push({
+      value: row.value,
+      parent: row.parent,
+      labelEn,
+      labelAr: row.label_ar || labelEn,
+      count: row.count,
+    });
+  }
+  return facets;
+};
+
+/** Pins for every geolocated property matching the filters, capped at MAP_POINT_LIMIT. */
+export const fetchPropertyMapPoints = async (filters: PropertyFilters): Promise<PropertyMapResult> => {
+  const { data, error } = await supabase.rpc('property_map_points', {
+    ...toFilterArgs(filters),
+    p_limit: MAP_POINT_LIMIT,
+  });
+
+  if (error) throw error;
+
+  return {
+    points: (data || []).map(({ total_count: _total, ...point }) => point),
+    total: data?.[0]?.total_count ?? 0,
+  };
+};
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { describeSavedFilters, savedSearchPath, suggestSearchName, toSavedFilters } from './savedSearches';
+
+describe('toSavedFilters', () => {
+  it('drops paging and empty values', () => {
+    expect(
+      toSavedFilters({ city: 'New Cairo', search: '', tags: [], minPrice: undefined, page: 3, limit: 12, bedrooms: 3 })
+    ).toEqual({ city: 'New Cairo', bedrooms: 3 });
+  });
+});
+
+describe('savedSearchPath', () => {
+  it('uses the same query format as the properties page', () => {
+    expect(savedSearchPath({ city: 'New Cairo', tags: ['pool', 'garden'], maxPrice: 5000000 })).toBe(
+      '/properties?city=New+Cairo&tags=pool%2Cgarden&maxPrice=5000000'
+    );
+  });
+
+  it('links to all properties when nothing is filtered', () => {
+    expect(savedSearchPath({})).toBe('/properties');
+  });
+});
+
+describe('describeSavedFilters', () => {
+  it('summarises price ranges and map areas', () => {
+    expect(describeSavedFilters({ minPrice: 2000000, maxPrice: 4500000, radius: '30,31,2' })).toEqual([
+      '2M–4.5M EGP',
+      'Map area',
+    ]);
+  });
+
+  it('shows prices in the chosen currency', () => {
+    const usd = { convert: (amount: number) => amount / 50, label: 'USD' };
+    expect(describeSavedFilters({ maxPrice: 5000000 }, usd)).toEqual(['Up to 100K USD']);
+  });
+
+  it('suggests a name from the first few filters', () => {
+    expect(suggestSearchName({ city: 'New Cairo', bedrooms: 3, propertyType: 'villa', bathrooms: 2 })).toBe(
+      'New Cairo · Villa · 3+ beds'
+    );
+    expect(suggestSearchName({})).toBe('All properties');
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Saved Searches
+ * Filter snapshots for saved /properties searches and their alert settings
+ */
+
+import type { Database } from '@/integrations/supabase/types';
+import { PropertyFilters } from '@/lib/api/types';
+
+export type SavedSearch = Database['public']['Tables']['saved_searches']['Row'];
+
+export type AlertFrequency = 'instant' | 'daily' | 'weekly';
+
+export const ALERT_FREQUENCIES: { value: AlertFrequency; label: string; description: string }[] = [
+  { value: 'instant', label: 'Instant', description: 'As soon as a matching property is published' },
+  { value: 'daily', label: 'Daily', description: 'One summary a day' },
+  { value: 'weekly', label: 'Weekly', description: 'One summary a week' },
+];
+
+/** The filters worth keeping: paging is dropped, as are empty values. */
+export type SavedSearchFilters = Omit<PropertyFilters, 'page' | 'limit'>;
+
+export const toSavedFilters = (filters: PropertyFilters): SavedSearchFilters => {
+  const { page: _page, limit: _limit, ...rest } = filters;
+  return Object.fromEntries(
+    Object.entries(rest).filter(([, value]) =>
+      Array.isArray(value) ? value.length > 0 : value !== undefined && value !== null && value !== ''
+    )
+  ) as SavedSearchFilters;
+};
+
+/** /properties link in the useFilters URL format, so the search reopens as saved. */
+export const savedSearchPath = (filters: SavedSearchFilters): string => {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value === undefined || value === null || value === '') return;
+    params.set(key, Array.isArray(value) ? value.join(',') : String(value));
+  });
+  const query = params.toString();
+  return query ? `/properties?${query}` : '/properties';
+};
+
+/** How filter prices, stored in EGP, are shown: converted to the visitor's currency and labelled */
+export interface PriceDisplay {
+  convert: (amount: number) => number;
+  label: string;
+}
+
+const AS_STORED: PriceDisplay = { convert: (amount) => amount, label: 'EGP' };
+
+const formatShort = (value: number) => {
+  if (value >= 1000000) return `${Number((value / 1000000).toFixed(1))}M`;
+  if (value >= 1000) return `${Math.round(value / 1000)}K`;
+  return String(Math.round(value));
+};
+
+/** Short human-readable chips describing a filter set. */
+export const describeSavedFilters = (filters: SavedSearchFilters, prices: PriceDisplay = AS_STORED): string[] => {
+  const formatPrice = (value: number) => formatShort(prices.convert(value));
+  const parts: string[] = [];
+  if (filters.search) parts.push(`"${filters.search}"`);
+  if (filters.area) parts.push(filters.area);
+  if (filters.city) parts.push(filters.city);
+  if (filters.propertyType) parts.push(filters.propertyType.charAt(0).toUpperCase() + filters.propertyType.slice(1));
+  if (filters.minPrice && filters.maxPrice) {
+    parts.push(`${formatPrice(filters.minPrice)}–${formatPrice(filters.maxPrice)} ${prices.label}`);
+  } else if (filters.minPrice) {
+    parts.push(`From ${formatPrice(filters.minPrice)} ${prices.label}`);
+  } else if (filters.maxPrice) {
+    parts.push(`Up to ${formatPrice(filters.maxPrice)} ${prices.label}`);
+  }
+  if (filters.bedrooms) parts.push(`${filters.bedrooms}+ beds`);
+  if (filters.bathrooms) parts.push(`${filters.bathrooms}+ baths`);
+  if (filters.minArea || filters.maxArea) {
+    parts.push(`${filters.minArea || 0}–${filters.maxArea ? filters.maxArea : '∞'} sqm`);
+  }
+  if (filters.finishing) parts.push(filters.finishing.replace(/_/g, ' '));
+  if (filters.deliveryStatus) parts.push(filters.deliveryStatus.replace(/_/g, ' '));
+  if (filters.tags?.length) parts.push(...filters.tags);
+  if (filters.polygon || filters.radius) parts.push('Map area');
+  return parts;
+};
+
+/** Default name for a new saved search, e.g. "New Cairo · 3+ beds". */
+export const suggestSearchName = (filters: SavedSearchFilters, prices?: PriceDisplay): string => {
+  const parts = describeSavedFilters(filters, prices).slice(0, 3);
+  return parts.length > 0 ? parts.join(' · ') : 'All properties';
+};
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_SIMILARITY_WEIGHTS,
+  describeSimilarity,
+  parseSimilarityWeights,
+  rankSimilar,
+  scoreSimilarity,
+  SimilarityListing,
+} from './similarity';
+
+const listing = (overrides: Partial<SimilarityListing> = {}): SimilarityListing => ({
+  id: 'base',
+  price: 5_000_000,
+  area: 150,
+  beds: 3,
+  city: 'New Cairo',
+  district: 'Fifth Settlement',
+  property_type: 'apartment',
+  progress_status: 'ready_to_live',
+  tags: ['pool', 'garden'],
+  ...overrides,
+});
+
+describe('rankSimilar', () => {
+  const base = listing();
+
+  it('ranks the closest match first and drops the listing itself', () => {
+    const twin = listing({ id: 'twin', price: 4_600_000 });
+    const otherCity = listing({ id: 'other-city', city: 'Sheikh Zayed', district: 'Beverly Hills' });
+    const villa = listing({ id: 'villa', price: 9_000_000, area: 400, beds: 5, property_type: 'villa', tags: [] });
+
+    const ranked = rankSimilar(base, [villa, base, otherCity, twin]);
+    expect(ranked.map((m) => m.listing.id)).toEqual(['twin', 'other-city', 'villa']);
+    expect(ranked[0].score).toBeGreaterThan(ranked[1].score);
+  });
+
+  it('follows the admin weights', () => {
+    const sameDistrictPricier = listing({ id: 'same-district', price: 6_200_000 });
+    const otherCitySamePrice = listing({ id: 'same-price', city: 'October', district: 'Zayed 2000' });
+
+    const locationFirst = { ...DEFAULT_SIMILARITY_WEIGHTS, location: 10, price: 1 };
+    const priceFirst = { ...DEFAULT_SIMILARITY_WEIGHTS, location: 0, price: 10 };
+
+    expect(rankSimilar(base, [otherCitySamePrice, sameDistrictPricier], locationFirst)[0].listing.id).toBe('same-district');
+    expect(rankSimilar(base, [sameDistrictPricier, otherCitySamePrice], priceFirst)[0].listing.id).toBe('same-price');
+  });
+
+  it('does not penalise candidates for missing data', () => {
+    const sparse = listing({ id: 'sparse', area: null, tags: null, progress_status: null });
+    expect(scoreSimilarity(base, sparse).score).toBeCloseTo(1, 5);
+  });
+
+  it('ranks a candidate compared on a single factor below one compared on all of them', () => {
+    const cityOnly = listing({
+      id: 'city-only',
+      price: null,
+      area: null,
+      beds: null,
+      district: null,
+      property_type: null,
+      progress_status: null,
+      tags: null,
+    });
+    const pricier = listing({ id: 'pricier', price: 6_000_000, beds: 4 });
+
+    expect(scoreSimilarity(base, cityOnly).score).toBeLessThan(0.5);
+    expect(rankSimilar(base, [cityOnly, pricier]).map((m) => m.listing.id)).toEqual(['pricier', 'city-only']);
+  });
+
+  it('breaks ties on the closer price and respects the limit', () => {
+    const candidates = [
+      listing({ id: 'a', price: 5_300_000 }),
+      listing({ id: 'b', price: 4_800_000 }),
+      listing({ id: 'c', price: 5_000_000, tags: ['gym'] }),
+    ];
+    const flatWeights = { ...DEFAULT_SIMILARITY_WEIGHTS, price: 0, price_per_sqm: 0 };
+    const ranked = rankSimilar(base, candidates, flatWeights, 2);
+    expect(ranked.map((m) => m.listing.id)).toEqual(['b', 'a']);
+  });
+
+  it('drops candidates with nothing in common', () => {
+    const unrelated = listing({
+      id: 'unrelated',
+      price: 50_000_000,
+      area: 1_000,
+      beds: 8,
+      city: 'North Coast',
+      district: 'Marassi',
+      property_type: 'villa',
+      progress_status: 'off_plan',
+      tags: ['beach'],
+    });
+    expect(rankSimilar(base, [unrelated])).toEqual([]);
+  });
+});
+
+describe('describeSimilarity', () => {
+  it('explains the strongest reasons', () => {
+    const match = scoreSimilarity(listing(), listing({ id: 'x', price: 4_600_000, beds: 5, tags: [] }));
+    expect(describeSimilarity(match.reasons)).toBe('Same area, 8% cheaper');
+    expect(describeSimilarity(match.reasons, 'ar')).toBe('نفس المنطقة، أرخص بنسبة 8%');
+  });
+
+  it('mentions a pricier price and a city-only match', () => {
+    expect(
+      describeSimilarity([
+        { factor: 'location', sameDistrict: false },
+        { factor: 'price', priceDiffPercent: 12 },
+      ])
+    ).toBe('Same city, 12% pricier');
+  });
+});
+
+describe('parseSimilarityWeights', () => {
+  it('clamps saved weights and fills in defaults', () => {
+    expect(parseSimilarityWeights('{"price": 25, "tags": -1, "beds": "x"}')).toEqual({
+      ...DEFAULT_SIMILARITY_WEIGHTS,
+      price: 10,
+      tags: 0,
+    });
+  });
+
+  it('falls back to the defaults for invalid JSON', () => {
+    expect(parseSimilarityWeights('not json')).toEqual(DEFAULT_SIMILARITY_WEIGHTS);
+    expect(parseSimilarityWeights(null)).toEqual(DEFAULT_SIMILARITY_WEIGHTS);
+  });
+});
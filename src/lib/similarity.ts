@@ -0,0 +1,262 @@
+/**
+ * Similar Listings
+ * Weighted similarity between listings, with a short "why it's similar" explanation per match
+ */
+
+import type { ContentLanguage } from '@/lib/propertyContent';
+
+export type SimilarityFactor =
+  | 'price'
+  | 'price_per_sqm'
+  | 'beds'
+  | 'area'
+  | 'location'
+  | 'property_type'
+  | 'progress_status'
+  | 'tags';
+
+export type SimilarityWeights = Record<SimilarityFactor, number>;
+
+export interface SimilarityListing {
+  id: string;
+  price: number | null;
+  area: number | null;
+  beds: number | null;
+  city: string | null;
+  district: string | null;
+  property_type: string | null;
+  progress_status: string | null;
+  tags: string[] | null;
+}
+
+export interface SimilarityReason {
+  factor: SimilarityFactor;
+  /** Location matched on the district rather than just the city */
+  sameDistrict?: boolean;
+  /** Candidate price relative to the listing, in whole percent; negative is cheaper */
+  priceDiffPercent?: number;
+}
+
+export interface SimilarityMatch<T extends SimilarityListing> {
+  listing: T;
+  /** 0–1, weighted over the factors both listings have data for and scaled down when few are */
+  score: number;
+  reasons: SimilarityReason[];
+}
+
+/** Settings key holding the admin-tuned weights as JSON */
+export const SIMILARITY_WEIGHTS_KEY = 'similarity_weights';
+
+export const MAX_SIMILARITY_WEIGHT = 10;
+
+export const DEFAULT_SIMILARITY_WEIGHTS: SimilarityWeights = {
+  price: 3,
+  price_per_sqm: 2,
+  beds: 2,
+  area: 1.5,
+  location: 3,
+  property_type: 2,
+  progress_status: 1,
+  tags: 1,
+};
+
+export const SIMILARITY_FACTORS: { key: SimilarityFactor; label: string; description: string }[] = [
+  { key: 'price', label: 'Price band', description: 'Asking prices within 30% of each other' },
+  { key: 'price_per_sqm', label: 'Price per sqm', description: 'Comparable value for the space' },
+  { key: 'beds', label: 'Bedrooms', description: 'Same bedroom count, or one either way' },
+  { key: 'area', label: 'Area', description: 'Built-up area within 30%' },
+  { key: 'location', label: 'Location', description: 'Same district, or failing that the same city' },
+  { key: 'property_type', label: 'Property type', description: 'Apartment, villa, townhouse…' },
+  { key: 'progress_status', label: 'Delivery status', description: 'Off plan, ready to deliver or ready to live' },
+  { key: 'tags', label: 'Tags', description: 'Shared tags such as pool or sea view' },
+];
+
+// Relative difference at which price, price per sqm and area stop counting as similar
+const RELATIVE_BAND = 0.3;
+
+// Factors with a weighted contribution below this aren't worth mentioning in the explanation
+const MIN_REASON_CONTRIBUTION = 0.5;
+const MAX_REASONS = 2;
+
+// Share of the total weight that must be compared for a score to count in full; below it the
+// score shrinks in proportion, so a lone matching city can't outrank a listing compared on everything
+const FULL_COVERAGE = 0.6;
+
+/** Weights saved by admins, falling back to the defaults for anything missing or invalid. */
+export const parseSimilarityWeights = (value: string | null | undefined): SimilarityWeights => {
+  let saved: Record<string, unknown> = {};
+  try {
+    const parsed = value ? JSON.parse(value) : {};
+    if (parsed && typeof parsed === 'object') saved = parsed;
+  } catch {
+    // Fall through to the defaults
+  }
+
+  const weights = { ...DEFAULT_SIMILARITY_WEIGHTS };
+  for (const { key } of SIMILARITY_FACTORS) {
+    const weight = saved[key];
+    if (typeof weight === 'number' && isFinite(weight)) {
+      weights[key] = Math.min(MAX_SIMILARITY_WEIGHT, Math.max(0, weight));
+    }
+  }
+  return weights;
+};
+
+const present = <T>(value: T | null | undefined): value is T => value !== null && value !== undefined && value !== '';
+
+/** 1 when equal, falling linearly to 0 once the values are RELATIVE_BAND apart. */
+const relativeCloseness = (base: number, other: number) => {
+  if (base <= 0) return 0;
+  return Math.max(0, 1 - Math.abs(other - base) / base / RELATIVE_BAND);
+};
+
+const perSqm = (listing: SimilarityListing) =>
+  listing.price && listing.area ? listing.price / listing.area : null;
+
+/** Per-factor scores from 0 to 1; null when either listing lacks the data. */
+const factorScores = (base: SimilarityListing, other: SimilarityListing): Record<SimilarityFactor, number | null> => {
+  const basePerSqm = perSqm(base);
+  const otherPerSqm = perSqm(other);
+  const baseTags = base.tags ?? [];
+  const otherTags = other.tags ?? [];
+
+  let location: number | null = null;
+  if (present(base.district) && present(other.district) && base.district === other.district) {
+    location = 1;
+  } else if (present(base.city) && present(other.city)) {
+    location = base.city === other.city ? 0.6 : 0;
+  }
+
+  let tags: number | null = null;
+  if (baseTags.length > 0 && otherTags.length > 0) {
+    const shared = baseTags.filter((tag) => otherTags.includes(tag)).length;
+    tags = shared / new Set([...baseTags, ...otherTags]).size;
+  }
+
+  return {
+    price: present(base.price) && present(other.price) ? relativeCloseness(base.price, other.price) : null,
+    price_per_sqm: basePerSqm && otherPerSqm ? relativeCloseness(basePerSqm, otherPerSqm) : null,
+    beds:
+      present(base.beds) && present(other.beds)
+        ? base.beds === other.beds ? 1 : Math.abs(base.beds - other.beds) === 1 ? 0.5 : 0
+        : null,
+    area: present(base.area) && present(other.area) ? relativeCloseness(base.area, other.area) : null,
+    location,
+    property_type:
+      present(base.property_type) && present(other.property_type) ? Number(base.property_type === other.property_type) : null,
+    progress_status:
+      present(base.progress_status) && present(other.progress_status)
+        ? Number(base.progress_status === other.progress_status)
+        : null,
+    tags,
+  };
+};
+
+/**
+ * Scores one candidate against the listing being viewed. Factors either listing has no data
+ * for are left out of the weighted average rather than counting against the candidate, but the
+ * average is scaled down when the compared factors carry less than FULL_COVERAGE of the weight.
+ */
+export const scoreSimilarity = <T extends SimilarityListing>(
+  base: SimilarityListing,
+  candidate: T,
+  weights: SimilarityWeights = DEFAULT_SIMILARITY_WEIGHTS
+): SimilarityMatch<T> => {
+  const scores = factorScores(base, candidate);
+
+  let total = 0;
+  let weightSum = 0;
+  let totalWeight = 0;
+  const contributions: { factor: SimilarityFactor; value: number }[] = [];
+  for (const { key } of SIMILARITY_FACTORS) {
+    const score = scores[key];
+    if (weights[key] <= 0) continue;
+    totalWeight += weights[key];
+    if (score === null) continue;
+    total += score * weights[key];
+    weightSum += weights[key];
+    contributions.push({ factor: key, value: score * weights[key] });
+  }
+
+  const reasons = contributions
+    .filter((c) => c.value >= MIN_REASON_CONTRIBUTION)
+    .sort((a, b) => b.value - a.value)
+    .slice(0, MAX_REASONS)
+    .map(({ factor }): SimilarityReason => {
+      if (factor === 'location') return { factor, sameDistrict: scores.location === 1 };
+      if (factor === 'price') {
+        return { factor, priceDiffPercent: Math.round(((candidate.price! - base.price!) / base.price!) * 100) };
+      }
+      return { factor };
+    });
+
+  const coverage = Math.min(1, weightSum / totalWeight / FULL_COVERAGE);
+  return { listing: candidate, score: weightSum > 0 ? (total / weightSum) * coverage : 0, reasons };
+};
+
+/**
+ * Candidates ranked by similarity, best first. The listing itself and candidates with no
+ * similarity at all are dropped; ties go to the closer price.
+ */
+export const rankSimilar = <T extends SimilarityListing>(
+  base: SimilarityListing,
+  candidates: T[],
+  weights: SimilarityWeights = DEFAULT_SIMILARITY_WEIGHTS,
+  limit = 4
+): SimilarityMatch<T>[] => {
+  const priceGap = (listing: T) =>
+    base.price && listing.price ? Math.abs(listing.price - base.price) : Number.POSITIVE_INFINITY;
+
+  return candidates
+    .filter((candidate) => candidate.id !== base.id)
+    .map((candidate) => scoreSimilarity(base, candidate, weights))
+    .filter((match) => match.score > 0)
+    .sort((a, b) => b.score - a.score || priceGap(a.listing) - priceGap(b.listing) || a.listing.id.localeCompare(b.listing.id))
+    .slice(0, limit);
+};
+
+const REASON_TEXT: Record<ContentLanguage, Record<string, string>> = {
+  en: {
+    sameDistrict: 'same area',
+    sameCity: 'same city',
+    samePrice: 'same price',
+    cheaper: '{n}% cheaper',
+    pricier: '{n}% pricier',
+    price_per_sqm: 'similar price per sqm',
+    beds: 'similar bedrooms',
+    area: 'similar size',
+    property_type: 'same property type',
+    progress_status: 'same delivery status',
+    tags: 'shared features',
+  },
+  ar: {
+    sameDistrict: 'نفس المنطقة',
+    sameCity: 'نفس المدينة',
+    samePrice: 'نفس السعر',
+    cheaper: 'أرخص بنسبة {n}%',
+    pricier: 'أغلى بنسبة {n}%',
+    price_per_sqm: 'سعر متر مشابه',
+    beds: 'عدد غرف مشابه',
+    area: 'مساحة مشابهة',
+    property_type: 'نفس نوع العقار',
+    progress_status: 'نفس حالة التسليم',
+    tags: 'مميزات مشتركة',
+  },
+};
+
+/** "Same area, 8% cheaper" style summary of a match's reasons. */
+export const describeSimilarity = (reasons: SimilarityReason[], language: ContentLanguage = 'en'): string => {
+  const text = REASON_TEXT[language];
+  const phrases = reasons.map((reason) => {
+    if (reason.factor === 'location') return reason.sameDistrict ? text.sameDistrict : text.sameCity;
+    if (reason.factor === 'price') {
+      const diff = reason.priceDiffPercent ?? 0;
+      if (diff === 0) return text.samePrice;
+      return (diff < 0 ? text.cheaper : text.pricier).replace('{n}', String(Math.abs(diff)));
+    }
+    return text[reason.factor];
+  });
+
+  const summary = phrases.join(language === 'ar' ? '، ' : ', ');
+  return summary.charAt(0).toUpperCase() + summary.slice(1);
+};
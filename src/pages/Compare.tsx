@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { Link, useSearchParams, useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { useTranslation } from 'react-i18next';
@@ -18,18 +18,46 @@ import {
   GitCompare,
   Trash2,
   AlertCircle,
+  Banknote,
+  Ruler,
+  Paintbrush,
+  Home,
+  Link2,
+  Trophy,
+  Wallet,
+  FileDown,
+  LucideIcon,
 } from 'lucide-react';
 import Layout from '@/components/layout/Layout';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { supabase } from '@/integrations/supabase/client';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { useCompare } from '@/contexts/CompareContext';
+import { useCurrency } from '@/hooks/useCurrency';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useBrandAssets } from '@/hooks/useBrandAssets';
+import { MAX_COMPARE_ITEMS, MIN_COMPARE_ITEMS } from '@/hooks/useCompareStore';
+import { bestIndexes, BetterWhen, compareUrl, parseCompareIds, pricePerSqm } from '@/lib/compare';
+import { downloadEdgeFunctionFile } from '@/lib/edgeFunctions';
+import { DEFAULT_DOWN_PAYMENT_PERCENT, DEFAULT_YEARS, installmentBreakdown } from '@/lib/mortgage';
+import { localizeProperty, propertyPath } from '@/lib/propertyContent';
+import { toast } from 'sonner';
 import sourceLogo from '@/assets/logo-b-secondary.svg';
 
 interface Property {
   id: string;
   title: string;
+  title_ar: string | null;
+  slug: string | null;
+  slug_ar: string | null;
   location: string | null;
+  city: string | null;
+  district: string | null;
   price: number | null;
   beds: number | null;
   baths: number | null;
@@ -37,57 +65,75 @@ interface Property {
   image_url: string | null;
   status: string;
   progress_percent: number | null;
+  finishing: string | null;
+  property_type: string | null;
   description: string | null;
 }
 
-// Spec definitions for comparison table
-const specs = [
-  { key: 'beds', label: 'Bedrooms', icon: Bed },
-  { key: 'baths', label: 'Bathrooms', icon: Bath },
-  { key: 'area', label: 'Area (sqm)', icon: Maximize },
-  { key: 'status', label: 'Status', icon: Building },
-  { key: 'progress_percent', label: 'Construction', icon: Calendar },
-];
+interface CompareRow {
+  key: string;
+  label: string;
+  icon: LucideIcon;
+  value: (property: Property) => number | string | null;
+  format?: (value: number) => string;
+  /** Rows with a clear winner highlight the best cell */
+  better?: BetterWhen;
+}
+
+const humanize = (value: string) => value.replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
+
+// Card grid columns by number of compared properties
+const GRID_COLUMNS: Record<number, string> = {
+  2: 'lg:grid-cols-2',
+  3: 'md:grid-cols-2 xl:grid-cols-3',
+  4: 'md:grid-cols-2 xl:grid-cols-4',
+};
 
 const Compare = () => {
   const { t } = useTranslation();
+  const { language } = useLanguage();
+  const { formatPrice, approximateNote } = useCurrency();
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
-  const { ids: compareIds, remove, clear, add } = useCompare();
-  
+  const { ids: compareIds, remove, clear, replaceAll, canCompare: selectionReady } = useCompare();
+  const { brandLogoUrl } = useBrandAssets();
+
   const [properties, setProperties] = useState<Property[]>([]);
-  const [availableProperties, setAvailableProperties] = useState<Property[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [showSelector, setShowSelector] = useState(false);
+  const [exporting, setExporting] = useState(false);
 
   // Get IDs from URL params
-  const urlIds = searchParams.get('ids')?.split(',').filter(Boolean) || [];
+  const urlIds = useMemo(() => parseCompareIds(searchParams.get('ids')), [searchParams]);
+  const idsKey = urlIds.join(',');
+
+  // Visiting /compare directly opens the current selection
+  useEffect(() => {
+    if (idsKey === '' && selectionReady) {
+      navigate(compareUrl(compareIds), { replace: true });
+    }
+  }, [idsKey, selectionReady, compareIds, navigate]);
 
   // Fetch properties via edge function for comparison (uses URL params)
   useEffect(() => {
+    const ids = idsKey ? idsKey.split(',') : [];
+
     const fetchProperties = async () => {
-      // If no URL params, show empty state
-      if (urlIds.length === 0) {
+      // Fewer than two: show the empty state
+      if (ids.length < MIN_COMPARE_ITEMS) {
         setProperties([]);
         setLoading(false);
         setError(null);
         return;
       }
 
-      // Validate exactly 2 IDs
-      if (urlIds.length !== 2) {
-        setError('Please select exactly 2 properties to compare');
-        setLoading(false);
-        return;
-      }
-
       setLoading(true);
       setError(null);
 
       try {
+        // Public function, so shared links work for visitors who aren't signed in
         const response = await fetch(
-          `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/compare-properties?ids=${urlIds.join(',')}`,
+          `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/compare-properties?ids=${ids.join(',')}`,
           {
             method: 'GET',
             headers: {
@@ -111,6 +157,8 @@ const Compare = () => {
 
         if (result.success && result.properties) {
           setProperties(result.properties);
+          // A shared link becomes the visitor's own selection
+          replaceAll(ids);
         } else {
           setError('Failed to load properties for comparison');
         }
@@ -123,63 +171,60 @@ const Compare = () => {
     };
 
     fetchProperties();
-  }, [searchParams]);
-
-  // Fetch all available properties for the selector (public listings)
-  useEffect(() => {
-    const fetchAvailable = async () => {
-      try {
-        const { data, error: dbError } = await supabase
-          .from('properties')
-          .select('id, title, location, price, beds, baths, area, image_url, status, progress_percent, description')
-          .order('created_at', { ascending: false })
-          .limit(50);
-
-        if (dbError) {
-          console.error('Failed to fetch available properties:', dbError);
-          return;
-        }
-        setAvailableProperties(data || []);
-      } catch (err) {
-        console.error('Failed to fetch available properties:', err);
-      }
-    };
-
-    fetchAvailable();
-  }, []);
-
-  const formatPrice = (value: number | null) => {
-    if (value === null) return '—';
-    return new Intl.NumberFormat('en-EG', {
-      style: 'decimal',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(value);
-  };
-
-  const getSpecValue = (property: Property, key: string) => {
-    const value = property[key as keyof Property];
-    if (value === null || value === undefined) return '—';
-    if (key === 'progress_percent') return `${value}%`;
-    if (key === 'status') {
-      return t(`property.status.${value}` as const);
-    }
-    return String(value);
-  };
+  }, [idsKey, replaceAll]);
+
+  const rows = useMemo<CompareRow[]>(
+    () => [
+      { key: 'price', label: 'Price', icon: Banknote, value: (p) => p.price, format: (v) => formatPrice(v), better: 'lower' },
+      {
+        key: 'price_per_sqm',
+        label: 'Price per sqm',
+        icon: Ruler,
+        value: (p) => pricePerSqm(p.price, p.area),
+        format: (v) => formatPrice(v),
+        better: 'lower',
+      },
+      {
+        key: 'monthly_installment',
+        label: 'Monthly installment',
+        icon: Wallet,
+        value: (p) =>
+          p.price ? Math.round(installmentBreakdown(p.price, DEFAULT_DOWN_PAYMENT_PERCENT, DEFAULT_YEARS).monthlyPayment) : null,
+        format: (v) => formatPrice(v),
+        better: 'lower',
+      },
+      { key: 'area', label: 'Area (sqm)', icon: Maximize, value: (p) => p.area, better: 'higher' },
+      { key: 'beds', label: 'Bedrooms', icon: Bed, value: (p) => p.beds, better: 'higher' },
+      { key: 'baths', label: 'Bathrooms', icon: Bath, value: (p) => p.baths, better: 'higher' },
+      { key: 'progress_percent', label: 'Construction', icon: Calendar, value: (p) => p.progress_percent, format: (v) => `${v}%`, better: 'higher' },
+      { key: 'status', label: 'Status', icon: Building, value: (p) => t(`property.status.${p.status}` as const) },
+      { key: 'property_type', label: 'Type', icon: Home, value: (p) => (p.property_type ? humanize(p.property_type) : null) },
+      { key: 'finishing', label: 'Finishing', icon: Paintbrush, value: (p) => (p.finishing ? humanize(p.finishing) : null) },
+      { key: 'location', label: 'Location', icon: MapPin, value: (p) => p.district || p.city || p.location },
+    ],
+    [t, formatPrice]
+  );
 
-  const valuesAreDifferent = (key: string) => {
-    if (properties.length !== 2) return false;
-    return getSpecValue(properties[0], key) !== getSpecValue(properties[1], key);
-  };
+  const table = useMemo(
+    () =>
+      rows.map((row) => {
+        const raw = properties.map((p) => row.value(p));
+        const display = raw.map((v) =>
+          v === null || v === undefined || v === '' ? '—' : typeof v === 'number' && row.format ? row.format(v) : String(v)
+        );
+        return {
+          row,
+          display,
+          isDifferent: new Set(display).size > 1,
+          best: row.better ? bestIndexes(raw.map((v) => (typeof v === 'number' ? v : null)), row.better) : new Set<number>(),
+        };
+      }),
+    [rows, properties]
+  );
 
   const handleRemoveProperty = (propertyId: string) => {
     remove(propertyId);
-    const newIds = urlIds.filter(id => id !== propertyId);
-    if (newIds.length > 0) {
-      navigate(`/compare?ids=${newIds.join(',')}`);
-    } else {
-      navigate('/compare');
-    }
+    navigate(compareUrl(urlIds.filter(id => id !== propertyId)));
   };
 
   const handleClearAll = () => {
@@ -187,7 +232,33 @@ const Compare = () => {
     navigate('/compare');
   };
 
-  const canCompare = properties.length === 2;
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${compareUrl(urlIds)}`);
+      toast.success('Comparison link copied');
+    } catch {
+      toast.error('Could not copy the link');
+    }
+  };
+
+  const handleExport = async (format: 'pdf' | 'xlsx') => {
+    setExporting(true);
+    try {
+      await downloadEdgeFunctionFile(
+        'export-comparison',
+        { ids: urlIds, format, language, brandLogoUrl: new URL(brandLogoUrl, window.location.origin).href },
+        { allowAnonymous: true }
+      );
+    } catch (err) {
+      console.error('Failed to export comparison:', err);
+      toast.error('Could not export the comparison. Please try again.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const canCompare = properties.length >= MIN_COMPARE_ITEMS;
+  const titles = properties.map((p) => localizeProperty(p, language).title);
 
   if (loading) {
     return (
@@ -254,7 +325,7 @@ const Compare = () => {
                 Compare Properties
               </h1>
               <p className="text-muted-foreground text-lg">
-                Select two properties from our listings to compare side-by-side
+                Select up to four properties from our listings to compare side-by-side
               </p>
             </motion.div>
           </div>
@@ -272,9 +343,9 @@ const Compare = () => {
                 {urlIds.length === 1 ? 'Select One More Property' : 'Select Properties to Compare'}
               </h2>
               <p className="text-muted-foreground mb-6 max-w-md mx-auto">
-                {urlIds.length === 1 
-                  ? 'You have selected 1 property. Add one more from the properties page to start comparing.'
-                  : 'Browse our property listings and click the compare icon on any two properties to see a detailed side-by-side comparison.'}
+                {urlIds.length === 1
+                  ? 'You have selected 1 property. Add at least one more from the properties page to start comparing.'
+                  : `Browse our property listings and click the compare icon on ${MIN_COMPARE_ITEMS} to ${MAX_COMPARE_ITEMS} properties to see a detailed side-by-side comparison.`}
               </p>
               <Button
                 onClick={() => navigate('/properties')}
@@ -341,13 +412,13 @@ const Compare = () => {
                 <div className="flex items-center gap-2 px-4 py-2 bg-secondary/50 rounded-lg border border-border/30">
                   <GitCompare className="w-4 h-4 text-primary" />
                   <span className="text-foreground font-medium">
-                    {properties.length}/2 selected
+                    {properties.length}/{MAX_COMPARE_ITEMS} selected
                   </span>
                 </div>
 
                 {/* Selected Property Pills */}
                 <div className="flex flex-wrap items-center gap-2">
-                  {properties.map((property) => (
+                  {properties.map((property, index) => (
                     <div
                       key={property.id}
                       className="flex items-center gap-2 bg-secondary/30 rounded-lg pr-2 border border-border/20"
@@ -355,12 +426,12 @@ const Compare = () => {
                       <div className="w-10 h-10 rounded-l-lg overflow-hidden flex-shrink-0">
                         <img
                           src={property.image_url || '/placeholder.svg'}
-                          alt={property.title}
+                          alt={titles[index]}
                           className="w-full h-full object-cover"
                         />
                       </div>
-                      <span className="text-sm text-foreground font-medium truncate max-w-[120px]">
-                        {property.title}
+                      <span dir="auto" className="text-sm text-foreground font-medium truncate max-w-[120px]">
+                        {titles[index]}
                       </span>
                       <button
                         onClick={() => handleRemoveProperty(property.id)}
@@ -373,15 +444,43 @@ const Compare = () => {
                 </div>
               </div>
 
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={handleClearAll}
-                className="text-muted-foreground hover:text-destructive hover:bg-destructive/10 gap-1.5"
-              >
-                <Trash2 className="w-4 h-4" />
-                Clear All
-              </Button>
+              <div className="flex items-center gap-2">
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={exporting}
+                      className="gap-1.5 border-border/50 hover:border-primary/50"
+                    >
+                      {exporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileDown className="w-4 h-4" />}
+                      Export
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => handleExport('pdf')}>PDF</DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleExport('xlsx')}>Excel (XLSX)</DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleCopyLink}
+                  className="gap-1.5 border-border/50 hover:border-primary/50"
+                >
+                  <Link2 className="w-4 h-4" />
+                  Copy Link
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleClearAll}
+                  className="text-muted-foreground hover:text-destructive hover:bg-destructive/10 gap-1.5"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Clear All
+                </Button>
+              </div>
             </div>
           </motion.div>
         </div>
@@ -390,21 +489,21 @@ const Compare = () => {
       {/* Comparison Content */}
       <section className="pb-16">
         <div className="container mx-auto px-6">
-          {/* Property Cards - Desktop: side by side, Mobile: stacked */}
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-12">
+          {/* Property Cards */}
+          <div className={`grid grid-cols-1 ${GRID_COLUMNS[properties.length] ?? GRID_COLUMNS[MAX_COMPARE_ITEMS]} gap-6 mb-12`}>
             {properties.map((property, index) => (
               <motion.div
                 key={property.id}
                 initial={{ opacity: 0, y: 30 }}
                 animate={{ opacity: 1, y: 0 }}
                 transition={{ delay: index * 0.1 }}
-                className="glass-card overflow-hidden border border-border/30"
+                className="glass-card overflow-hidden border border-border/30 relative"
               >
                 {/* Image */}
                 <div className="relative aspect-[16/10] overflow-hidden">
                   <img
                     src={property.image_url || '/placeholder.svg'}
-                    alt={property.title}
+                    alt={titles[index]}
                     className="w-full h-full object-cover"
                   />
                   <div className="absolute inset-0 bg-gradient-to-t from-background/80 via-transparent to-transparent" />
@@ -415,22 +514,30 @@ const Compare = () => {
                       {t(`property.status.${property.status}` as const)}
                     </Badge>
                   </div>
+
+                  <button
+                    onClick={() => handleRemoveProperty(property.id)}
+                    className="absolute top-4 right-4 w-8 h-8 rounded-full bg-background/80 hover:bg-destructive/20 flex items-center justify-center text-muted-foreground hover:text-destructive transition-colors"
+                    aria-label="Remove from comparison"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
                 </div>
 
                 {/* Content */}
                 <div className="p-6">
-                  <h2 className="font-display text-2xl font-semibold text-foreground mb-2">
-                    {property.title}
+                  <h2 dir="auto" className="font-display text-2xl font-semibold text-foreground mb-2 line-clamp-2">
+                    {titles[index]}
                   </h2>
                   <div className="flex items-center gap-2 text-muted-foreground mb-4">
                     <MapPin className="w-4 h-4 text-primary" />
-                    <span>{property.location || 'Location not specified'}</span>
+                    <span className="truncate">{property.location || 'Location not specified'}</span>
                   </div>
 
                   {/* Price */}
                   <div className="mb-6">
-                    <p className="text-3xl font-semibold text-gold-gradient">
-                      {formatPrice(property.price)} {t('common.currency')}
+                    <p className="text-3xl font-semibold text-gold-gradient" title={approximateNote ?? undefined}>
+                      {property.price !== null ? formatPrice(property.price) : '—'}
                     </p>
                   </div>
 
@@ -459,7 +566,7 @@ const Compare = () => {
                       <MessageCircle className="w-4 h-4" />
                       WhatsApp
                     </Button>
-                    <Link to={`/properties/${property.id}`}>
+                    <Link to={propertyPath(property, language)}>
                       <Button
                         variant="outline"
                         className="w-full h-11 gap-2 border-border/50 hover:border-primary/50"
@@ -472,6 +579,20 @@ const Compare = () => {
                 </div>
               </motion.div>
             ))}
+
+            {/* Room for another property */}
+            {properties.length < MAX_COMPARE_ITEMS && (
+              <Link
+                to="/properties"
+                className="glass-card border-2 border-dashed border-border/40 hover:border-primary/50 transition-colors flex flex-col items-center justify-center gap-3 p-12 text-muted-foreground hover:text-primary min-h-[240px]"
+              >
+                <Plus className="w-10 h-10" />
+                <span className="font-medium">Add another property</span>
+                <span className="text-xs">
+                  {MAX_COMPARE_ITEMS - properties.length} more can be compared
+                </span>
+              </Link>
+            )}
           </div>
 
           {/* Specs Comparison Table */}
@@ -481,118 +602,63 @@ const Compare = () => {
             transition={{ delay: 0.3 }}
             className="glass-card overflow-hidden border border-border/30"
           >
-            <div className="p-6 border-b border-border/30">
+            <div className="p-6 border-b border-border/30 flex flex-wrap items-center justify-between gap-2">
               <h3 className="font-display text-xl font-semibold text-foreground">
                 Detailed Comparison
               </h3>
+              <span className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                <Trophy className="w-3.5 h-3.5 text-primary" />
+                Best value in each row is highlighted
+              </span>
+              {approximateNote && <p className="basis-full text-xs text-muted-foreground">{approximateNote}</p>}
             </div>
 
-            {/* Desktop Table */}
-            <div className="hidden md:block">
-              <table className="w-full">
+            <div className="overflow-x-auto">
+              <table className="w-full" style={{ minWidth: `${160 + properties.length * 180}px` }}>
                 <thead>
                   <tr className="border-b border-border/30">
-                    <th className="text-left p-4 text-muted-foreground font-medium w-1/3">
+                    <th className="sticky left-0 z-10 bg-card text-left p-4 text-muted-foreground font-medium w-44">
                       Specification
                     </th>
-                    <th className="text-center p-4 text-foreground font-medium w-1/3">
-                      {properties[0]?.title}
-                    </th>
-                    <th className="text-center p-4 text-foreground font-medium w-1/3">
-                      {properties[1]?.title}
-                    </th>
+                    {properties.map((property, index) => (
+                      <th key={property.id} dir="auto" className="text-center p-4 text-foreground font-medium">
+                        <span className="line-clamp-2">{titles[index]}</span>
+                      </th>
+                    ))}
                   </tr>
                 </thead>
                 <tbody>
-                  {specs.map((spec) => {
-                    const isDifferent = valuesAreDifferent(spec.key);
-                    const Icon = spec.icon;
+                  {table.map(({ row, display, isDifferent, best }) => {
+                    const Icon = row.icon;
                     return (
                       <tr
-                        key={spec.key}
+                        key={row.key}
                         className={`border-b border-border/20 transition-all ${
-                          isDifferent ? 'bg-primary/5 ring-1 ring-inset ring-primary/20' : ''
+                          isDifferent ? 'bg-primary/5' : ''
                         }`}
                       >
-                        <td className="p-4">
+                        <td className="sticky left-0 z-10 bg-card p-4">
                           <div className="flex items-center gap-3">
-                            <Icon className="w-5 h-5 text-primary" />
-                            <span className="text-foreground">{spec.label}</span>
+                            <Icon className="w-5 h-5 text-primary flex-shrink-0" />
+                            <span className="text-foreground">{row.label}</span>
                           </div>
                         </td>
-                        <td className="p-4 text-center">
-                          <span className={`font-medium ${isDifferent ? 'text-primary' : 'text-foreground'}`}>
-                            {getSpecValue(properties[0], spec.key)}
-                          </span>
-                        </td>
-                        <td className="p-4 text-center">
-                          <span className={`font-medium ${isDifferent ? 'text-primary' : 'text-foreground'}`}>
-                            {getSpecValue(properties[1], spec.key)}
-                          </span>
-                        </td>
-                      </tr>
-                    );
-                  })}
-                  {/* Price Row */}
-                  <tr
-                    className={`border-b border-border/20 transition-all ${
-                      properties[0]?.price !== properties[1]?.price ? 'bg-primary/5 ring-1 ring-inset ring-primary/20' : ''
-                    }`}
-                  >
-                    <td className="p-4">
-                      <div className="flex items-center gap-3">
-                        <span className="w-5 h-5 flex items-center justify-center text-primary font-bold">$</span>
-                        <span className="text-foreground">Price</span>
-                      </div>
-                    </td>
-                    <td className="p-4 text-center">
-                      <span className="font-semibold text-primary">
-                        {formatPrice(properties[0]?.price)} {t('common.currency')}
-                      </span>
-                    </td>
-                    <td className="p-4 text-center">
-                      <span className="font-semibold text-primary">
-                        {formatPrice(properties[1]?.price)} {t('common.currency')}
-                      </span>
-                    </td>
-                  </tr>
-                </tbody>
-              </table>
-            </div>
-
-            {/* Mobile: Horizontal Scroll Table */}
-            <div className="md:hidden overflow-x-auto">
-              <table className="w-full min-w-[500px]">
-                <thead>
-                  <tr className="border-b border-border/30">
-                    <th className="text-left p-4 text-muted-foreground font-medium">
-                      Spec
-                    </th>
-                    <th className="text-center p-4 text-foreground font-medium text-sm">
-                      {properties[0]?.title?.substring(0, 15)}...
-                    </th>
-                    <th className="text-center p-4 text-foreground font-medium text-sm">
-                      {properties[1]?.title?.substring(0, 15)}...
-                    </th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {specs.map((spec) => {
-                    const isDifferent = valuesAreDifferent(spec.key);
-                    return (
-                      <tr
-                        key={spec.key}
-                        className={`border-b border-border/20 ${
-                          isDifferent ? 'bg-primary/5' : ''
-                        }`}
-                      >
-                        <td className="p-3 text-sm text-foreground">{spec.label}</td>
-                        <td className="p-3 text-center text-sm font-medium text-foreground">
-                          {getSpecValue(properties[0], spec.key)}
-                        </td>
-                        <td className="p-3 text-center text-sm font-medium text-foreground">
-                          {getSpecValue(properties[1], spec.key)}
-                        </td>
+                        {display.map((value, index) => (
+                          <td key={properties[index].id} className="p-4 text-center">
+                            <span
+                              className={`inline-flex items-center gap-1.5 font-medium ${
+                                best.has(index) ? 'text-primary' : 'text-foreground'
+                              }`}
+                            >
+                              {value}
+                              {best.has(index) && (
+                                <Badge variant="outline" className="border-primary/40 text-primary text-[10px] px-1.5 py-0">
+                                  Best
+                                </Badge>
+                              )}
+                            </span>
+                          </td>
+                        ))}
                       </tr>
                     );
                   })}
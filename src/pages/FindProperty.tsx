@@ -8,30 +8,20 @@ import LeadCaptureModal from '@/components/property/LeadCaptureModal';
 import PropertyProgressBar from '@/components/property/PropertyProgressBar';
 import { Button } from '@/components/ui/button';
 import { useLanguage } from '@/contexts/LanguageContext';
+import { useCurrency } from '@/hooks/useCurrency';
 import { cn } from '@/lib/utils';
-import { supabase } from '@/integrations/supabase/client';
-
-interface FinderResult {
-  id: string;
-  title: string;
-  location: string | null;
-  price: number | null;
-  beds: number | null;
-  baths: number | null;
-  area: number | null;
-  image_url: string | null;
-  progress_status: string | null;
-}
+import { searchProperties, PropertySearchRow } from '@/lib/propertySearch';
 
 const FindProperty = () => {
   const { language } = useLanguage();
+  const { formatPrice } = useCurrency();
   const navigate = useNavigate();
   const [step, setStep] = useState<'finder' | 'results'>('finder');
   const [preferences, setPreferences] = useState<PropertyPreferences | null>(null);
   const [showLeadModal, setShowLeadModal] = useState(false);
   const [isUnlocked, setIsUnlocked] = useState(false);
 
-  const [results, setResults] = useState<FinderResult[]>([]);
+  const [results, setResults] = useState<PropertySearchRow[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -40,57 +30,21 @@ const FindProperty = () => {
     setError(null);
 
     try {
-      let query = supabase
-        .from('properties')
-        .select('id, title, location, price, beds, baths, area, image_url, progress_status')
-        .order('created_at', { ascending: false })
-        .limit(12);
-
-      // Budget filter
-      if (prefs.budgetMin) {
-        query = query.gte('price', prefs.budgetMin);
-      }
-      if (prefs.budgetMax) {
-        query = query.lte('price', prefs.budgetMax);
-      }
-
-      // Location filter – match city label against location column
-      if (prefs.city) {
-        // Map city key to searchable term
-        const cityMap: Record<string, string> = {
-          'cairo': 'Cairo',
-          'new-cairo': 'New Cairo',
-          'october': 'October',
-          'new-capital': 'New Capital',
-          'north-coast': 'North Coast',
-          'ain-sokhna': 'Ain Sokhna',
-        };
-        const cityTerm = cityMap[prefs.city] || prefs.city;
-        query = query.ilike('location', `%${cityTerm}%`);
-      }
-
-      // Property type filter – match against property_type column
-      if (prefs.propertyType) {
-        query = query.eq('property_type', prefs.propertyType);
-      }
-
-      // Area filter – minimum area
-      if (prefs.areaSqm && prefs.areaSqm > 50) {
-        query = query.gte('area', prefs.areaSqm);
-      }
-
-      const { data, error: fetchError } = await query;
-
-      if (fetchError) {
-        console.error('FindProperty query error:', fetchError);
-        setError(fetchError.message);
-        setResults([]);
-      } else {
-        setResults(data || []);
-      }
+      const { properties } = await searchProperties({
+        minPrice: prefs.budgetMin || undefined,
+        maxPrice: prefs.budgetMax || undefined,
+        city: prefs.city || undefined,
+        area: prefs.district || undefined,
+        propertyType: prefs.propertyType || undefined,
+        // Only narrow by area once the user has moved past the minimum
+        minArea: prefs.areaSqm && prefs.areaSqm > 50 ? prefs.areaSqm : undefined,
+        sortBy: 'newest',
+        limit: 12,
+      });
+      setResults(properties);
     } catch (err) {
-      console.error('FindProperty unexpected error:', err);
-      setError('An unexpected error occurred');
+      console.error('FindProperty search error:', err);
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
       setResults([]);
     } finally {
       setIsLoading(false);
@@ -109,14 +63,6 @@ const FindProperty = () => {
     setIsUnlocked(true);
   };
 
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('en-EG', {
-      style: 'currency',
-      currency: 'EGP',
-      maximumFractionDigits: 0,
-    }).format(value);
-  };
-
   return (
     <Layout>
       <div className="min-h-screen py-12 md:py-20">
@@ -293,7 +239,7 @@ const FindProperty = () => {
                           !isUnlocked && "blur-sm"
                         )}>
                           <p className="text-xl font-semibold text-gold-gradient">
-                            {property.price ? formatCurrency(property.price) : '—'}
+                            {property.price ? formatPrice(property.price) : '—'}
                           </p>
                           {isUnlocked && (
                             <Button size="sm" variant="outline" className="border-primary/30 hover:bg-primary/10">
@@ -0,0 +1,321 @@
+/**
+ * Project Details
+ * Developer, delivery, construction progress, live unit availability and the project's listings
+ */
+
+import { useEffect, useState } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { motion } from 'framer-motion';
+import { AlertCircle, Building, Calendar, ChevronLeft, ExternalLink, MapPin, Tag } from 'lucide-react';
+import Layout from '@/components/layout/Layout';
+import PropertyCard from '@/components/property/PropertyCard';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useCurrency } from '@/hooks/useCurrency';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { supabase } from '@/integrations/supabase/client';
+import { localizeProperty, propertySlug } from '@/lib/propertyContent';
+import {
+  availabilityPercent,
+  emptySummary,
+  localizedDescription,
+  localizedName,
+  PROJECT_WITH_DEVELOPER,
+  ProjectSummary,
+  ProjectWithDeveloper,
+} from '@/lib/projects';
+
+interface ProjectUnit {
+  id: string;
+  title: string;
+  title_ar: string | null;
+  slug: string | null;
+  slug_ar: string | null;
+  location: string | null;
+  price: number | null;
+  beds: number | null;
+  baths: number | null;
+  area: number | null;
+  image_url: string | null;
+  status: string;
+}
+
+const ProjectDetails = () => {
+  const { id } = useParams<{ id: string }>();
+  const { t } = useTranslation();
+  const { language } = useLanguage();
+  const { formatPrice } = useCurrency();
+  const [project, setProject] = useState<ProjectWithDeveloper | null>(null);
+  const [summary, setSummary] = useState<ProjectSummary | null>(null);
+  const [units, setUnits] = useState<ProjectUnit[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchProject = async () => {
+      if (!id) return;
+      setLoading(true);
+      try {
+        const [{ data, error }, { data: summaryData }, { data: unitData }] = await Promise.all([
+          supabase.from('projects').select(PROJECT_WITH_DEVELOPER).eq('id', id).maybeSingle(),
+          supabase.rpc('project_summaries', { p_project_ids: [id] }),
+          supabase
+            .from('properties')
+            .select('id, title, title_ar, slug, slug_ar, location, price, beds, baths, area, image_url, status')
+            .eq('project_id', id)
+            .not('status', 'in', '(draft,pending_approval,archived)')
+            .order('price', { ascending: true, nullsFirst: false }),
+        ]);
+        if (error) throw error;
+        setProject(data as ProjectWithDeveloper | null);
+        setSummary(summaryData?.[0] ?? emptySummary(id));
+        setUnits(unitData || []);
+      } catch (err) {
+        console.error('Failed to fetch project:', err);
+        setProject(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchProject();
+  }, [id]);
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="container mx-auto px-6 py-8">
+          <Skeleton className="h-8 w-64 mb-4" />
+          <Skeleton className="aspect-[21/9] w-full rounded-2xl mb-8" />
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {Array.from({ length: 4 }).map((_, i) => (
+              <Skeleton key={i} className="h-24 rounded-xl" />
+            ))}
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!project || !summary) {
+    return (
+      <Layout>
+        <div className="min-h-[60vh] flex flex-col items-center justify-center gap-6 px-4">
+          <div className="w-16 h-16 rounded-full bg-destructive/10 flex items-center justify-center">
+            <AlertCircle className="w-8 h-8 text-destructive" />
+          </div>
+          <div className="text-center">
+            <h2 className="font-display text-2xl font-semibold text-foreground mb-2">
+              Project Not Found
+            </h2>
+            <p className="text-muted-foreground">The project you are looking for does not exist.</p>
+          </div>
+          <Link to="/projects">
+            <Button className="btn-gold gap-2">
+              <ChevronLeft className="w-4 h-4" />
+              Browse Projects
+            </Button>
+          </Link>
+        </div>
+      </Layout>
+    );
+  }
+
+  const name = localizedName(project, language);
+  const description = localizedDescription(project, language);
+  const developer = project.developer;
+  const availability = availabilityPercent(summary);
+  const unitBreakdown = [
+    { label: 'Available', value: summary.available_units, className: 'bg-success' },
+    { label: 'Reserved', value: summary.reserved_units, className: 'bg-warning' },
+    { label: 'Sold', value: summary.sold_units, className: 'bg-muted-foreground' },
+  ];
+
+  return (
+    <Layout>
+      {/* Breadcrumb */}
+      <div className="container mx-auto px-6 py-4">
+        <nav className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Link to="/" className="hover:text-primary">{t('nav.home')}</Link>
+          <span>/</span>
+          <Link to="/projects" className="hover:text-primary">{t('nav.projects')}</Link>
+          <span>/</span>
+          <span className="text-foreground">{name}</span>
+        </nav>
+      </div>
+
+      {/* Hero */}
+      <section className="container mx-auto px-6 pb-8">
+        <div className="relative rounded-2xl overflow-hidden">
+          <img src={project.image_url || '/placeholder.svg'} alt={name} className="w-full h-[50vh] object-cover" />
+          <div className="absolute inset-0 bg-gradient-to-t from-background via-background/30 to-transparent" />
+          <div className="absolute bottom-0 left-0 right-0 p-8">
+            <h1 dir="auto" className="font-display text-4xl md:text-5xl font-semibold text-foreground mb-2">
+              {name}
+            </h1>
+            {project.location && (
+              <div className="flex items-center gap-2 text-muted-foreground">
+                <MapPin className="w-4 h-4 text-primary" />
+                <span>{project.location}</span>
+              </div>
+            )}
+          </div>
+        </div>
+      </section>
+
+      <section className="container mx-auto px-6 pb-16 space-y-8">
+        {/* Key Facts */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {[
+            { icon: Building, label: 'Developer', value: developer ? localizedName(developer, language) : '—' },
+            { icon: Calendar, label: 'Delivery', value: project.delivery_year ?? '—' },
+            {
+              icon: Tag,
+              label: 'Starting From',
+              value: summary.starting_price != null ? formatPrice(summary.starting_price) : '—',
+            },
+            { icon: Building, label: 'Available Units', value: `${summary.available_units} of ${summary.total_units}` },
+          ].map(({ icon: Icon, label, value }) => (
+            <div key={label} className="glass-card p-5">
+              <Icon className="w-5 h-5 text-primary mb-2" />
+              <p className="text-sm text-muted-foreground mb-1">{label}</p>
+              <p className="font-medium text-foreground">{value}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <div className="lg:col-span-2 space-y-8">
+            {/* Progress */}
+            <div className="glass-card p-6">
+              <div className="flex justify-between text-sm mb-2">
+                <span className="text-muted-foreground">{t('projects.progress')}</span>
+                <span className="text-primary font-medium">{project.progress_percent}%</span>
+              </div>
+              <div className="progress-gold h-2">
+                <div className="progress-gold-fill" style={{ width: `${project.progress_percent}%` }} />
+              </div>
+            </div>
+
+            {/* Description */}
+            {description && (
+              <div className="glass-card p-6">
+                <h3 className="font-display text-xl font-semibold text-foreground mb-4">About the Project</h3>
+                <p dir="auto" className="text-muted-foreground whitespace-pre-line leading-relaxed">
+                  {description}
+                </p>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-8">
+            {/* Availability */}
+            <div className="glass-card p-6">
+              <div className="flex items-baseline justify-between mb-4">
+                <h3 className="font-display text-xl font-semibold text-foreground">Availability</h3>
+                <span className="text-sm text-muted-foreground">{availability}% available</span>
+              </div>
+              {summary.total_units > 0 ? (
+                <>
+                  <div className="flex h-2 rounded-full overflow-hidden bg-secondary mb-4">
+                    {unitBreakdown.map(({ label, value, className }) => (
+                      <div
+                        key={label}
+                        className={className}
+                        style={{ width: `${(value / summary.total_units) * 100}%` }}
+                      />
+                    ))}
+                  </div>
+                  <div className="space-y-2 text-sm">
+                    {unitBreakdown.map(({ label, value, className }) => (
+                      <div key={label} className="flex items-center justify-between">
+                        <span className="flex items-center gap-2 text-muted-foreground">
+                          <span className={`w-2 h-2 rounded-full ${className}`} />
+                          {label}
+                        </span>
+                        <span className="text-foreground font-medium">{value}</span>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">Units for this project haven't been released yet.</p>
+              )}
+            </div>
+
+            {/* Developer */}
+            {developer && (
+              <div className="glass-card p-6 flex items-center gap-4">
+                {developer.logo_url ? (
+                  <img src={developer.logo_url} alt={developer.name} className="w-14 h-14 rounded-xl object-contain bg-white p-1" />
+                ) : (
+                  <div className="w-14 h-14 rounded-xl bg-primary/10 border border-primary/20 flex items-center justify-center">
+                    <Building className="w-6 h-6 text-primary" />
+                  </div>
+                )}
+                <div className="min-w-0">
+                  <p className="text-sm text-muted-foreground">Developed by</p>
+                  <p dir="auto" className="font-medium text-foreground truncate">{localizedName(developer, language)}</p>
+                  {developer.website && (
+                    <a
+                      href={developer.website}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 text-sm text-primary hover:underline"
+                    >
+                      Website
+                      <ExternalLink className="w-3 h-3" />
+                    </a>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Units */}
+        <div>
+          <h2 className="font-display text-3xl font-semibold text-foreground mb-6">
+            {t('projects.units')} ({units.length})
+          </h2>
+          {units.length === 0 ? (
+            <div className="glass-card p-12 text-center text-muted-foreground">
+              No units are listed for this project yet.
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+              {units.map((unit, index) => {
+                const content = localizeProperty(unit, language);
+                return (
+                  <motion.div
+                    key={unit.id}
+                    initial={{ opacity: 0, y: 20 }}
+                    whileInView={{ opacity: 1, y: 0 }}
+                    viewport={{ once: true }}
+                    transition={{ delay: Math.min(index * 0.05, 0.3) }}
+                  >
+                    <PropertyCard
+                      id={unit.id}
+                      slug={propertySlug(unit, language)}
+                      title={content.title}
+                      translationMissing={content.titleFallback}
+                      location={unit.location || project.location || ''}
+                      price={unit.price || 0}
+                      beds={unit.beds || 0}
+                      baths={unit.baths || 0}
+                      area={unit.area || 0}
+                      image={unit.image_url || '/placeholder.svg'}
+                      status={unit.status === 'delivered' ? 'delivered' : 'under_construction'}
+                    />
+                  </motion.div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </section>
+    </Layout>
+  );
+};
+
+export default ProjectDetails;
@@ -1,75 +1,56 @@
+import { useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { motion } from 'framer-motion';
-import { ArrowRight, MapPin, Building, Calendar } from 'lucide-react';
+import { ArrowRight, MapPin, Building, Loader2 } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import Layout from '@/components/layout/Layout';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-
-const projects = [
-  {
-    id: '1',
-    name: 'Palm Hills New Cairo',
-    location: 'New Cairo, Egypt',
-    developer: 'Palm Hills Developments',
-    totalUnits: 1200,
-    availableUnits: 342,
-    startingPrice: 3500000,
-    deliveryYear: 2025,
-    progress: 85,
-    image: 'https://images.unsplash.com/photo-1600596542815-ffad4c1539a9?w=800&q=80',
-    featured: true,
-  },
-  {
-    id: '2',
-    name: 'Marina Bay Residences',
-    location: 'North Coast, Egypt',
-    developer: 'SODIC',
-    totalUnits: 800,
-    availableUnits: 156,
-    startingPrice: 5000000,
-    deliveryYear: 2024,
-    progress: 100,
-    image: 'https://images.unsplash.com/photo-1600607687939-ce8a6c25118c?w=800&q=80',
-    featured: true,
-  },
-  {
-    id: '3',
-    name: 'Zayed Heights',
-    location: 'Sheikh Zayed, Giza',
-    developer: 'Ora Developers',
-    totalUnits: 600,
-    availableUnits: 89,
-    startingPrice: 4200000,
-    deliveryYear: 2026,
-    progress: 45,
-    image: 'https://images.unsplash.com/photo-1600585154340-be6161a56a0c?w=800&q=80',
-    featured: false,
-  },
-  {
-    id: '4',
-    name: 'Capital Gardens',
-    location: 'New Administrative Capital',
-    developer: 'Mountain View',
-    totalUnits: 1500,
-    availableUnits: 678,
-    startingPrice: 2800000,
-    deliveryYear: 2027,
-    progress: 30,
-    image: 'https://images.unsplash.com/photo-1613490493576-7fde63acd811?w=800&q=80',
-    featured: false,
-  },
-];
-
-const formatPrice = (value: number) => {
-  if (value >= 1000000) {
-    return `${(value / 1000000).toFixed(1)}M`;
-  }
-  return new Intl.NumberFormat('en-EG').format(value);
-};
+import { useCurrency } from '@/hooks/useCurrency';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  emptySummary,
+  localizedName,
+  PROJECT_WITH_DEVELOPER,
+  ProjectSummary,
+  ProjectWithDeveloper,
+  summariesById,
+} from '@/lib/projects';
 
 const Projects = () => {
   const { t } = useTranslation();
+  const { language } = useLanguage();
+  const { formatPrice } = useCurrency();
+  const [projects, setProjects] = useState<ProjectWithDeveloper[]>([]);
+  const [summaries, setSummaries] = useState<Map<string, ProjectSummary>>(new Map());
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchProjects = async () => {
+      try {
+        const [{ data, error }, { data: summaryData }] = await Promise.all([
+          supabase
+            .from('projects')
+            .select(PROJECT_WITH_DEVELOPER)
+            .order('featured', { ascending: false })
+            .order('created_at', { ascending: false }),
+          supabase.rpc('project_summaries'),
+        ]);
+        if (error) throw error;
+        setProjects((data as ProjectWithDeveloper[]) || []);
+        setSummaries(summariesById(summaryData));
+      } catch (err) {
+        console.error('Failed to fetch projects:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchProjects();
+  }, []);
+
+  const summaryFor = (id: string) => summaries.get(id) ?? emptySummary(id);
 
   return (
     <Layout>
@@ -91,161 +72,194 @@ const Projects = () => {
         </div>
       </section>
 
-      {/* Featured Projects */}
-      <section className="py-16">
-        <div className="container mx-auto px-6">
-          <div className="space-y-8">
-            {projects.filter(p => p.featured).map((project, index) => (
-              <motion.div
-                key={project.id}
-                initial={{ opacity: 0, y: 30 }}
-                whileInView={{ opacity: 1, y: 0 }}
-                viewport={{ once: true }}
-                transition={{ delay: index * 0.1 }}
-                className="glass-card overflow-hidden"
-              >
-                <div className="grid grid-cols-1 lg:grid-cols-2">
-                  {/* Image */}
-                  <div className="relative aspect-[4/3] lg:aspect-auto overflow-hidden">
-                    <img
-                      src={project.image}
-                      alt={project.name}
-                      className="w-full h-full object-cover"
-                    />
-                    <div className="absolute inset-0 bg-gradient-to-r from-background/80 via-transparent to-transparent lg:hidden" />
-                    <Badge className="absolute top-4 left-4 bg-primary text-primary-foreground">
-                      Featured
-                    </Badge>
-                  </div>
-
-                  {/* Content */}
-                  <div className="p-8 lg:p-12 flex flex-col justify-center">
-                    <h2 className="font-display text-3xl font-semibold text-foreground mb-2">
-                      {project.name}
-                    </h2>
-                    <div className="flex items-center gap-2 text-muted-foreground mb-6">
-                      <MapPin className="w-4 h-4 text-primary" />
-                      <span>{project.location}</span>
-                    </div>
-
-                    <div className="grid grid-cols-2 gap-6 mb-8">
-                      <div>
-                        <p className="text-sm text-muted-foreground mb-1">Developer</p>
-                        <p className="font-medium text-foreground">{project.developer}</p>
-                      </div>
-                      <div>
-                        <p className="text-sm text-muted-foreground mb-1">Available Units</p>
-                        <p className="font-medium text-foreground">
-                          {project.availableUnits} of {project.totalUnits}
-                        </p>
-                      </div>
-                      <div>
-                        <p className="text-sm text-muted-foreground mb-1">Starting From</p>
-                        <p className="font-medium text-primary">
-                          {formatPrice(project.startingPrice)} EGP
-                        </p>
-                      </div>
-                      <div>
-                        <p className="text-sm text-muted-foreground mb-1">Delivery</p>
-                        <p className="font-medium text-foreground">{project.deliveryYear}</p>
-                      </div>
-                    </div>
-
-                    {/* Progress */}
-                    <div className="mb-8">
-                      <div className="flex justify-between text-sm mb-2">
-                        <span className="text-muted-foreground">{t('projects.progress')}</span>
-                        <span className="text-primary font-medium">{project.progress}%</span>
-                      </div>
-                      <div className="progress-gold h-2">
-                        <div
-                          className="progress-gold-fill"
-                          style={{ width: `${project.progress}%` }}
-                        />
-                      </div>
-                    </div>
-
-                    <Link to={`/projects/${project.id}`}>
-                      <Button className="btn-gold gap-2">
-                        {t('projects.viewProject')}
-                        <ArrowRight className="w-5 h-5" />
-                      </Button>
-                    </Link>
-                  </div>
-                </div>
-              </motion.div>
-            ))}
-          </div>
+      {loading ? (
+        <div className="flex items-center justify-center py-32">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
         </div>
-      </section>
+      ) : projects.length === 0 ? (
+        <section className="py-24">
+          <div className="container mx-auto px-6 text-center">
+            <Building className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">No projects have been published yet.</p>
+          </div>
+        </section>
+      ) : (
+        <>
+          {/* Featured Projects */}
+          {projects.some((p) => p.featured) && (
+            <section className="py-16">
+              <div className="container mx-auto px-6">
+                <div className="space-y-8">
+                  {projects.filter((p) => p.featured).map((project, index) => {
+                    const summary = summaryFor(project.id);
+                    const name = localizedName(project, language);
+                    return (
+                      <motion.div
+                        key={project.id}
+                        initial={{ opacity: 0, y: 30 }}
+                        whileInView={{ opacity: 1, y: 0 }}
+                        viewport={{ once: true }}
+                        transition={{ delay: index * 0.1 }}
+                        className="glass-card overflow-hidden"
+                      >
+                        <div className="grid grid-cols-1 lg:grid-cols-2">
+                          {/* Image */}
+                          <div className="relative aspect-[4/3] lg:aspect-auto overflow-hidden">
+                            <img
+                              src={project.image_url || '/placeholder.svg'}
+                              alt={name}
+                              className="w-full h-full object-cover"
+                            />
+                            <div className="absolute inset-0 bg-gradient-to-r from-background/80 via-transparent to-transparent lg:hidden" />
+                            <Badge className="absolute top-4 left-4 bg-primary text-primary-foreground">
+                              Featured
+                            </Badge>
+                          </div>
 
-      {/* All Projects Grid */}
-      <section className="py-16 bg-gradient-card">
-        <div className="container mx-auto px-6">
-          <h2 className="font-display text-3xl font-semibold text-foreground mb-12 text-center">
-            All Projects
-          </h2>
-          
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            {projects.map((project, index) => (
-              <motion.div
-                key={project.id}
-                initial={{ opacity: 0, y: 20 }}
-                whileInView={{ opacity: 1, y: 0 }}
-                viewport={{ once: true }}
-                transition={{ delay: index * 0.1 }}
-                className="glass-card overflow-hidden group hover:shadow-gold transition-all duration-500"
-              >
-                <div className="relative aspect-video overflow-hidden">
-                  <img
-                    src={project.image}
-                    alt={project.name}
-                    className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-110"
-                  />
-                  <div className="absolute inset-0 bg-gradient-to-t from-background via-transparent to-transparent" />
-                  
-                  {/* Progress Badge */}
-                  <div className="absolute bottom-4 left-4 right-4">
-                    <div className="flex justify-between text-xs text-foreground mb-1">
-                      <span>{t('projects.progress')}</span>
-                      <span>{project.progress}%</span>
-                    </div>
-                    <div className="progress-gold h-1.5">
-                      <div
-                        className="progress-gold-fill"
-                        style={{ width: `${project.progress}%` }}
-                      />
-                    </div>
-                  </div>
-                </div>
+                          {/* Content */}
+                          <div className="p-8 lg:p-12 flex flex-col justify-center">
+                            <h2 dir="auto" className="font-display text-3xl font-semibold text-foreground mb-2">
+                              {name}
+                            </h2>
+                            {project.location && (
+                              <div className="flex items-center gap-2 text-muted-foreground mb-6">
+                                <MapPin className="w-4 h-4 text-primary" />
+                                <span>{project.location}</span>
+                              </div>
+                            )}
+
+                            <div className="grid grid-cols-2 gap-6 mb-8">
+                              <div>
+                                <p className="text-sm text-muted-foreground mb-1">Developer</p>
+                                <p className="font-medium text-foreground">
+                                  {project.developer ? localizedName(project.developer, language) : '—'}
+                                </p>
+                              </div>
+                              <div>
+                                <p className="text-sm text-muted-foreground mb-1">Available Units</p>
+                                <p className="font-medium text-foreground">
+                                  {summary.available_units} of {summary.total_units}
+                                </p>
+                              </div>
+                              <div>
+                                <p className="text-sm text-muted-foreground mb-1">Starting From</p>
+                                <p className="font-medium text-primary">
+                                  {summary.starting_price != null ? formatPrice(summary.starting_price) : '—'}
+                                </p>
+                              </div>
+                              <div>
+                                <p className="text-sm text-muted-foreground mb-1">Delivery</p>
+                                <p className="font-medium text-foreground">{project.delivery_year ?? '—'}</p>
+                              </div>
+                            </div>
+
+                            {/* Progress */}
+                            <div className="mb-8">
+                              <div className="flex justify-between text-sm mb-2">
+                                <span className="text-muted-foreground">{t('projects.progress')}</span>
+                                <span className="text-primary font-medium">{project.progress_percent}%</span>
+                              </div>
+                              <div className="progress-gold h-2">
+                                <div
+                                  className="progress-gold-fill"
+                                  style={{ width: `${project.progress_percent}%` }}
+                                />
+                              </div>
+                            </div>
 
-                <div className="p-6">
-                  <h3 className="font-display text-xl font-semibold text-foreground mb-2 group-hover:text-primary transition-colors">
-                    {project.name}
-                  </h3>
-                  <div className="flex items-center gap-2 text-muted-foreground text-sm mb-4">
-                    <MapPin className="w-4 h-4 text-primary" />
-                    <span>{project.location}</span>
-                  </div>
-
-                  <div className="flex items-center justify-between">
-                    <div>
-                      <p className="text-sm text-muted-foreground">Starting from</p>
-                      <p className="text-primary font-semibold">
-                        {formatPrice(project.startingPrice)} EGP
-                      </p>
-                    </div>
-                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                      <Building className="w-4 h-4" />
-                      <span>{project.availableUnits} units</span>
-                    </div>
-                  </div>
+                            <Link to={`/projects/${project.id}`}>
+                              <Button className="btn-gold gap-2">
+                                {t('projects.viewProject')}
+                                <ArrowRight className="w-5 h-5" />
+                              </Button>
+                            </Link>
+                          </div>
+                        </div>
+                      </motion.div>
+                    );
+                  })}
                 </div>
-              </motion.div>
-            ))}
-          </div>
-        </div>
-      </section>
+              </div>
+            </section>
+          )}
+
+          {/* All Projects Grid */}
+          <section className="py-16 bg-gradient-card">
+            <div className="container mx-auto px-6">
+              <h2 className="font-display text-3xl font-semibold text-foreground mb-12 text-center">
+                All Projects
+              </h2>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {projects.map((project, index) => {
+                  const summary = summaryFor(project.id);
+                  const name = localizedName(project, language);
+                  return (
+                    <motion.div
+                      key={project.id}
+                      initial={{ opacity: 0, y: 20 }}
+                      whileInView={{ opacity: 1, y: 0 }}
+                      viewport={{ once: true }}
+                      transition={{ delay: index * 0.1 }}
+                      className="glass-card overflow-hidden group hover:shadow-gold transition-all duration-500"
+                    >
+                      <Link to={`/projects/${project.id}`} className="block">
+                        <div className="relative aspect-video overflow-hidden">
+                          <img
+                            src={project.image_url || '/placeholder.svg'}
+                            alt={name}
+                            className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-110"
+                          />
+                          <div className="absolute inset-0 bg-gradient-to-t from-background via-transparent to-transparent" />
+
+                          {/* Progress Badge */}
+                          <div className="absolute bottom-4 left-4 right-4">
+                            <div className="flex justify-between text-xs text-foreground mb-1">
+                              <span>{t('projects.progress')}</span>
+                              <span>{project.progress_percent}%</span>
+                            </div>
+                            <div className="progress-gold h-1.5">
+                              <div
+                                className="progress-gold-fill"
+                                style={{ width: `${project.progress_percent}%` }}
+                              />
+                            </div>
+                          </div>
+                        </div>
+
+                        <div className="p-6">
+                          <h3 dir="auto" className="font-display text-xl font-semibold text-foreground mb-2 group-hover:text-primary transition-colors">
+                            {name}
+                          </h3>
+                          {project.location && (
+                            <div className="flex items-center gap-2 text-muted-foreground text-sm mb-4">
+                              <MapPin className="w-4 h-4 text-primary" />
+                              <span>{project.location}</span>
+                            </div>
+                          )}
+
+                          <div className="flex items-center justify-between">
+                            <div>
+                              <p className="text-sm text-muted-foreground">Starting from</p>
+                              <p className="text-primary font-semibold">
+                                {summary.starting_price != null ? formatPrice(summary.starting_price) : '—'}
+                              </p>
+                            </div>
+                            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                              <Building className="w-4 h-4" />
+                              <span>{summary.available_units} {t('projects.units')}</span>
+                            </div>
+                          </div>
+                        </div>
+                      </Link>
+                    </motion.div>
+                  );
+                })}
+              </div>
+            </div>
+          </section>
+        </>
+      )}
     </Layout>
   );
 };
@@ -3,13 +3,16 @@
  * Production-grade with infinite scroll, URL-synced filters, and Supabase integration
  */
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
-import { useSearchParams } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Grid, List, Loader2, SlidersHorizontal, X, RefreshCw, Search } from 'lucide-react';
+import { Bookmark, Grid, List, Loader2, Map as MapIcon, SlidersHorizontal, X, RefreshCw, Search } from 'lucide-react';
 import Layout from '@/components/layout/Layout';
 import PropertyCard from '@/components/property/PropertyCard';
+import PropertyMap from '@/components/map/PropertyMap';
+import SavedSearchDialog from '@/components/property/SavedSearchDialog';
+import type { DrawnArea } from '@/components/map/AreaDrawControl';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
@@ -35,69 +38,56 @@ import {
 } from '@/components/ui/accordion';
 import { Slider } from '@/components/ui/slider';
 import { Label } from '@/components/ui/label';
-import { supabase } from '@/integrations/supabase/client';
+import { PropertyFilters } from '@/lib/api/types';
+import { searchProperties, fetchPropertyMapPoints, PropertyMapPoint, PropertySearchRow } from '@/lib/propertySearch';
+import { formatPolygonParam, formatRadiusParam, parsePolygonParam, parseRadiusParam } from '@/lib/geoSearch';
+import { toSavedFilters } from '@/lib/savedSearches';
+import { localizeProperty, propertySlug } from '@/lib/propertyContent';
+import { usePropertyFacets } from '@/hooks/usePropertyFacets';
+import { useApiAuth } from '@/contexts/ApiAuthContext';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useCurrency } from '@/hooks/useCurrency';
+import { toast } from 'sonner';
 import CompareBar from '@/components/compare/CompareBar';
 
 const ITEMS_PER_PAGE = 12;
 
-const LOCATIONS = ['New Cairo', 'North Coast', 'Sheikh Zayed', '6th of October', 'Ain Sokhna', 'Giza', 'Alexandria'];
-
 const DELIVERY_STATUSES = [
   { value: 'off_plan', label: 'Off Plan' },
   { value: 'ready_to_deliver', label: 'Ready to Deliver' },
   { value: 'ready_to_live', label: 'Ready to Live' },
 ];
 
-interface Filters {
-  search?: string;
-  location?: string;
-  minPrice?: number;
-  maxPrice?: number;
-  bedrooms?: number;
-  bathrooms?: number;
-  minArea?: number;
-  maxArea?: number;
-  deliveryStatus?: string;
-  sortBy?: 'price_asc' | 'price_desc' | 'newest' | 'area_asc' | 'area_desc';
-}
-
-interface DBProperty {
-  id: string;
-  title: string;
-  location: string | null;
-  price: number | null;
-  beds: number | null;
-  baths: number | null;
-  area: number | null;
-  image_url: string | null;
-  status: string;
-  progress_status: string | null;
-  created_at: string;
-}
-
 const Properties = () => {
   const { t } = useTranslation();
+  const { language } = useLanguage();
+  const { formatShortPrice } = useCurrency();
   const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { user } = useApiAuth();
 
-  const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
+  const [viewMode, setViewMode] = useState<'grid' | 'list' | 'map'>('grid');
   const [isFiltersOpen, setIsFiltersOpen] = useState(false);
+  const [isSaveSearchOpen, setIsSaveSearchOpen] = useState(false);
 
-  const [properties, setProperties] = useState<DBProperty[]>([]);
+  const [properties, setProperties] = useState<PropertySearchRow[]>([]);
   const [loading, setLoading] = useState(true);
   const [loadingMore, setLoadingMore] = useState(false);
   const [hasNextPage, setHasNextPage] = useState(true);
   const [page, setPage] = useState(1);
   const [totalCount, setTotalCount] = useState(0);
   const [error, setError] = useState<string | null>(null);
+  const [mapPoints, setMapPoints] = useState<PropertyMapPoint[]>([]);
+  const [mapLoading, setMapLoading] = useState(false);
 
   const sentinelRef = useRef<HTMLDivElement>(null);
   const loadingRef = useRef(false);
 
   // Parse filters from URL
-  const getFiltersFromURL = useCallback((): Filters => {
+  const getFiltersFromURL = useCallback((): PropertyFilters => {
     return {
       search: searchParams.get('search') || undefined,
-      location: searchParams.get('location') || undefined,
+      city: searchParams.get('city') || undefined,
       minPrice: searchParams.get('minPrice') ? Number(searchParams.get('minPrice')) : undefined,
       maxPrice: searchParams.get('maxPrice') ? Number(searchParams.get('maxPrice')) : undefined,
       bedrooms: searchParams.get('bedrooms') ? Number(searchParams.get('bedrooms')) : undefined,
@@ -105,21 +95,27 @@ const Properties = () => {
       minArea: searchParams.get('minArea') ? Number(searchParams.get('minArea')) : undefined,
       maxArea: searchParams.get('maxArea') ? Number(searchParams.get('maxArea')) : undefined,
       deliveryStatus: searchParams.get('deliveryStatus') || undefined,
-      sortBy: (searchParams.get('sortBy') as Filters['sortBy']) || 'newest',
+      propertyType: searchParams.get('propertyType') || undefined,
+      polygon: searchParams.get('polygon') || undefined,
+      radius: searchParams.get('radius') || undefined,
+      sortBy: (searchParams.get('sortBy') as PropertyFilters['sortBy']) || undefined,
     };
   }, [searchParams]);
 
-  const [filters, setFilters] = useState<Filters>(getFiltersFromURL);
+  const [filters, setFilters] = useState<PropertyFilters>(getFiltersFromURL);
+  const { facets, getLabel } = usePropertyFacets(filters);
+  const drawnPolygon = useMemo(() => parsePolygonParam(filters.polygon), [filters.polygon]);
+  const drawnRadius = useMemo(() => parseRadiusParam(filters.radius), [filters.radius]);
   const [searchInput, setSearchInput] = useState(filters.search || '');
 
   const [localPriceRange, setLocalPriceRange] = useState<[number, number]>([filters.minPrice || 0, filters.maxPrice || 20000000]);
   const [localAreaRange, setLocalAreaRange] = useState<[number, number]>([filters.minArea || 0, filters.maxArea || 500]);
 
   // Sync filters to URL
-  const syncFiltersToURL = useCallback((newFilters: Filters) => {
+  const syncFiltersToURL = useCallback((newFilters: PropertyFilters) => {
     const params = new URLSearchParams();
     if (newFilters.search) params.set('search', newFilters.search);
-    if (newFilters.location) params.set('location', newFilters.location);
+    if (newFilters.city) params.set('city', newFilters.city);
     if (newFilters.minPrice) params.set('minPrice', String(newFilters.minPrice));
     if (newFilters.maxPrice) params.set('maxPrice', String(newFilters.maxPrice));
     if (newFilters.bedrooms) params.set('bedrooms', String(newFilters.bedrooms));
@@ -127,12 +123,15 @@ const Properties = () => {
     if (newFilters.minArea) params.set('minArea', String(newFilters.minArea));
     if (newFilters.maxArea) params.set('maxArea', String(newFilters.maxArea));
     if (newFilters.deliveryStatus) params.set('deliveryStatus', newFilters.deliveryStatus);
-    if (newFilters.sortBy && newFilters.sortBy !== 'newest') params.set('sortBy', newFilters.sortBy);
+    if (newFilters.propertyType) params.set('propertyType', newFilters.propertyType);
+    if (newFilters.polygon) params.set('polygon', newFilters.polygon);
+    if (newFilters.radius) params.set('radius', newFilters.radius);
+    if (newFilters.sortBy) params.set('sortBy', newFilters.sortBy);
     setSearchParams(params, { replace: true });
   }, [setSearchParams]);
 
-  // Build and execute Supabase query
-  const fetchProperties = useCallback(async (pageNum: number, currentFilters: Filters, append = false) => {
+  // Run the search RPC for one page of results
+  const fetchProperties = useCallback(async (pageNum: number, currentFilters: PropertyFilters, append = false) => {
     if (loadingRef.current) return;
     loadingRef.current = true;
 
@@ -144,77 +143,22 @@ const Properties = () => {
     }
 
     try {
-      let query = supabase
-        .from('properties')
-        .select('id, title, location, price, beds, baths, area, image_url, status, progress_status, created_at', { count: 'exact' });
-
-      // Apply filters
-      if (currentFilters.search) {
-        query = query.or(`title.ilike.%${currentFilters.search}%,location.ilike.%${currentFilters.search}%`);
-      }
-      if (currentFilters.location) {
-        query = query.ilike('location', `%${currentFilters.location}%`);
-      }
-      if (currentFilters.minPrice) {
-        query = query.gte('price', currentFilters.minPrice);
-      }
-      if (currentFilters.maxPrice) {
-        query = query.lte('price', currentFilters.maxPrice);
-      }
-      if (currentFilters.bedrooms) {
-        query = query.gte('beds', currentFilters.bedrooms);
-      }
-      if (currentFilters.bathrooms) {
-        query = query.gte('baths', currentFilters.bathrooms);
-      }
-      if (currentFilters.minArea) {
-        query = query.gte('area', currentFilters.minArea);
-      }
-      if (currentFilters.maxArea) {
-        query = query.lte('area', currentFilters.maxArea);
-      }
-      if (currentFilters.deliveryStatus) {
-        query = query.eq('progress_status', currentFilters.deliveryStatus);
-      }
-
-      // Sorting
-      switch (currentFilters.sortBy) {
-        case 'price_asc':
-          query = query.order('price', { ascending: true, nullsFirst: false });
-          break;
-        case 'price_desc':
-          query = query.order('price', { ascending: false, nullsFirst: false });
-          break;
-        case 'area_asc':
-          query = query.order('area', { ascending: true, nullsFirst: false });
-          break;
-        case 'area_desc':
-          query = query.order('area', { ascending: false, nullsFirst: false });
-          break;
-        default:
-          query = query.order('created_at', { ascending: false });
-      }
+      const { properties: data, total } = await searchProperties({
+        ...currentFilters,
+        page: pageNum,
+        limit: ITEMS_PER_PAGE,
+      });
 
-      // Pagination
-      const from = (pageNum - 1) * ITEMS_PER_PAGE;
-      const to = from + ITEMS_PER_PAGE - 1;
-      query = query.range(from, to);
-
-      const { data, error: queryError, count } = await query;
-
-      if (queryError) throw queryError;
-
-      const total = count || 0;
       const totalPages = Math.ceil(total / ITEMS_PER_PAGE);
 
       if (append) {
         setProperties(prev => {
           const existingIds = new Set(prev.map(p => p.id));
-          const newProperties = (data || []).filter(p => !existingIds.has(p.id));
+          const newProperties = data.filter(p => !existingIds.has(p.id));
           return [...prev, ...newProperties];
         });
       } else {
-        setProperties(data || []);
+        setProperties(data);
       }
 
       setTotalCount(total);
@@ -241,6 +185,27 @@ const Properties = () => {
     fetchProperties(1, urlFilters, false);
   }, [searchParams, fetchProperties, getFiltersFromURL]);
 
+  // Map pins cover every geolocated match, not just the loaded pages
+  useEffect(() => {
+    if (viewMode !== 'map') return;
+
+    let cancelled = false;
+    setMapLoading(true);
+
+    fetchPropertyMapPoints(filters)
+      .then(({ points }) => {
+        if (!cancelled) setMapPoints(points);
+      })
+      .catch((err) => console.error('Failed to fetch map points:', err))
+      .finally(() => {
+        if (!cancelled) setMapLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [viewMode, filters]);
+
   // Infinite scroll
   useEffect(() => {
     if (!sentinelRef.current || loading) return;
@@ -257,7 +222,7 @@ const Properties = () => {
     return () => observer.disconnect();
   }, [hasNextPage, loadingMore, page, filters, fetchProperties, loading]);
 
-  const handleFilterChange = useCallback((newFilters: Partial<Filters>) => {
+  const handleFilterChange = useCallback((newFilters: Partial<PropertyFilters>) => {
     const updatedFilters = { ...filters, ...newFilters };
     setFilters(updatedFilters);
     syncFiltersToURL(updatedFilters);
@@ -269,9 +234,26 @@ const Properties = () => {
   }, [searchInput, handleFilterChange]);
 
   const handleSortChange = useCallback((sortBy: string) => {
-    handleFilterChange({ sortBy: sortBy as Filters['sortBy'] });
+    handleFilterChange({ sortBy: sortBy as PropertyFilters['sortBy'] });
   }, [handleFilterChange]);
 
+  const handleAreaChange = useCallback((area: DrawnArea | null) => {
+    handleFilterChange({
+      polygon: area?.polygon ? formatPolygonParam(area.polygon) : undefined,
+      radius: area?.radius ? formatRadiusParam(area.radius) : undefined,
+    });
+  }, [handleFilterChange]);
+
+  const handleSaveSearch = useCallback(() => {
+    if (!user) {
+      toast('Sign in to save searches and get alerts', {
+        action: { label: 'Sign in', onClick: () => navigate('/auth') },
+      });
+      return;
+    }
+    setIsSaveSearchOpen(true);
+  }, [user, navigate]);
+
   const clearFilters = useCallback(() => {
     setFilters({});
     setSearchInput('');
@@ -283,12 +265,14 @@ const Properties = () => {
   const getActiveFilterCount = () => {
     let count = 0;
     if (filters.search) count++;
-    if (filters.location) count++;
+    if (filters.city) count++;
+    if (filters.propertyType) count++;
     if (filters.minPrice || filters.maxPrice) count++;
     if (filters.bedrooms) count++;
     if (filters.bathrooms) count++;
     if (filters.minArea || filters.maxArea) count++;
     if (filters.deliveryStatus) count++;
+    if (filters.polygon || filters.radius) count++;
     return count;
   };
 
@@ -303,12 +287,6 @@ const Properties = () => {
     return 'available';
   };
 
-  const formatPrice = (value: number) => {
-    if (value >= 1000000) return `${(value / 1000000).toFixed(1)}M`;
-    if (value >= 1000) return `${(value / 1000).toFixed(0)}K`;
-    return value.toString();
-  };
-
   return (
     <Layout>
       {/* Page Header */}
@@ -386,10 +364,16 @@ const Properties = () => {
                       <button onClick={() => handleFilterChange({ search: undefined })}><X className="w-3 h-3" /></button>
                     </Badge>
                   )}
-                  {filters.location && (
+                  {filters.city && (
                     <Badge variant="secondary" className="gap-1">
-                      {filters.location}
-                      <button onClick={() => handleFilterChange({ location: undefined })}><X className="w-3 h-3" /></button>
+                      {filters.city}
+                      <button onClick={() => handleFilterChange({ city: undefined })}><X className="w-3 h-3" /></button>
+                    </Badge>
+                  )}
+                  {filters.propertyType && (
+                    <Badge variant="secondary" className="gap-1 capitalize">
+                      {filters.propertyType}
+                      <button onClick={() => handleFilterChange({ propertyType: undefined })}><X className="w-3 h-3" /></button>
                     </Badge>
                   )}
                   {filters.bedrooms && (
@@ -404,6 +388,12 @@ const Properties = () => {
                       <button onClick={() => handleFilterChange({ deliveryStatus: undefined })}><X className="w-3 h-3" /></button>
                     </Badge>
                   )}
+                  {(filters.polygon || filters.radius) && (
+                    <Badge variant="secondary" className="gap-1">
+                      Map area
+                      <button onClick={() => handleAreaChange(null)}><X className="w-3 h-3" /></button>
+                    </Badge>
+                  )}
                   {activeFilterCount > 2 && (
                     <Button
                       variant="ghost"
@@ -419,11 +409,12 @@ const Properties = () => {
             </div>
 
             <div className="flex items-center gap-3 w-full sm:w-auto">
-              <Select value={filters.sortBy || 'newest'} onValueChange={handleSortChange}>
+              <Select value={filters.sortBy || (filters.search ? 'relevance' : 'newest')} onValueChange={handleSortChange}>
                 <SelectTrigger className="w-full sm:w-[180px] input-luxury">
                   <SelectValue placeholder={t('search.sortBy')} />
                 </SelectTrigger>
                 <SelectContent className="glass-card border-border/50">
+                  {filters.search && <SelectItem value="relevance">Best Match</SelectItem>}
                   <SelectItem value="newest">Newest First</SelectItem>
                   <SelectItem value="price_asc">Price: Low to High</SelectItem>
                   <SelectItem value="price_desc">Price: High to Low</SelectItem>
@@ -432,6 +423,15 @@ const Properties = () => {
                 </SelectContent>
               </Select>
 
+              <Button
+                variant="outline"
+                onClick={handleSaveSearch}
+                className="h-10 px-3 border-border/50 hover:border-primary/50 gap-2 shrink-0"
+              >
+                <Bookmark className="w-4 h-4" />
+                <span className="hidden sm:inline">Save search</span>
+              </Button>
+
               <div className="hidden md:flex items-center gap-1 bg-secondary/50 rounded-lg p-1">
                 <Button
                   variant="ghost"
@@ -451,6 +451,15 @@ const Properties = () => {
                 >
                   <List className="w-4 h-4" />
                 </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className={viewMode === 'map' ? 'bg-background' : ''}
+                  onClick={() => setViewMode('map')}
+                  aria-label="Map view"
+                >
+                  <MapIcon className="w-4 h-4" />
+                </Button>
               </div>
 
               <Button
@@ -484,8 +493,24 @@ const Properties = () => {
             </motion.div>
           )}
 
-          {/* Loading State */}
-          {loading && !error ? (
+          {/* Map View */}
+          {viewMode === 'map' ? (
+            <div className="space-y-3">
+              <PropertyMap
+                points={mapPoints}
+                polygon={drawnPolygon}
+                radius={drawnRadius}
+                onAreaChange={handleAreaChange}
+                className="h-[65vh] min-h-[420px] w-full border border-border/30"
+              />
+              <p className="text-sm text-muted-foreground flex items-center gap-2">
+                {mapLoading && <Loader2 className="w-4 h-4 animate-spin text-primary" />}
+                {mapPoints.length < totalCount
+                  ? `${mapPoints.length} of ${totalCount} properties have a map location`
+                  : 'Draw an area or radius on the map to search within it'}
+              </p>
+            </div>
+          ) : loading && !error ? (
             <div className={
               viewMode === 'grid'
                 ? 'grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6'
@@ -534,28 +559,33 @@ const Properties = () => {
                 }
               >
                 <AnimatePresence mode="popLayout">
-                  {properties.map((property, index) => (
-                    <motion.div
-                      key={property.id}
-                      layout
-                      initial={{ opacity: 0, y: 20 }}
-                      animate={{ opacity: 1, y: 0 }}
-                      exit={{ opacity: 0, scale: 0.95 }}
-                      transition={{ delay: Math.min(index * 0.03, 0.3) }}
-                    >
-                      <PropertyCard
-                        id={property.id}
-                        title={property.title}
-                        location={property.location || 'Location not specified'}
-                        price={property.price || 0}
-                        beds={property.beds || 0}
-                        baths={property.baths || 0}
-                        area={property.area || 0}
-                        image={property.image_url || '/placeholder.svg'}
-                        status={mapStatus(property.status)}
-                      />
-                    </motion.div>
-                  ))}
+                  {properties.map((property, index) => {
+                    const content = localizeProperty(property, language);
+                    return (
+                      <motion.div
+                        key={property.id}
+                        layout
+                        initial={{ opacity: 0, y: 20 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, scale: 0.95 }}
+                        transition={{ delay: Math.min(index * 0.03, 0.3) }}
+                      >
+                        <PropertyCard
+                          id={property.id}
+                          slug={propertySlug(property, language)}
+                          title={content.title}
+                          translationMissing={content.titleFallback}
+                          location={property.location || 'Location not specified'}
+                          price={property.price || 0}
+                          beds={property.beds || 0}
+                          baths={property.baths || 0}
+                          area={property.area || 0}
+                          image={property.image_url || '/placeholder.svg'}
+                          status={mapStatus(property.status)}
+                        />
+                      </motion.div>
+                    );
+                  })}
                 </AnimatePresence>
               </div>
 
@@ -614,19 +644,23 @@ const Properties = () => {
                 </AccordionTrigger>
                 <AccordionContent className="pb-4">
                   <div className="flex flex-wrap gap-2">
-                    {LOCATIONS.map((loc) => (
-                      <button
-                        key={loc}
-                        onClick={() => handleFilterChange({ location: filters.location === loc ? undefined : loc })}
-                        className={`px-3 py-1.5 rounded-lg text-sm transition-all ${
-                          filters.location === loc
-                            ? 'bg-primary text-primary-foreground'
-                            : 'bg-secondary/50 text-foreground hover:bg-secondary'
-                        }`}
-                      >
-                        {loc}
-                      </button>
-                    ))}
+                    {facets.city.map((city) => {
+                      const isSelected = filters.city === city.value;
+                      return (
+                        <button
+                          key={city.value}
+                          onClick={() => handleFilterChange({ city: isSelected ? undefined : city.value })}
+                          disabled={city.count === 0 && !isSelected}
+                          className={`px-3 py-1.5 rounded-lg text-sm transition-all disabled:opacity-40 disabled:pointer-events-none ${
+                            isSelected
+                              ? 'bg-primary text-primary-foreground'
+                              : 'bg-secondary/50 text-foreground hover:bg-secondary'
+                          }`}
+                        >
+                          {getLabel(city)} <span className="opacity-70">({city.count})</span>
+                        </button>
+                      );
+                    })}
                   </div>
                 </AccordionContent>
               </AccordionItem>
@@ -639,8 +673,8 @@ const Properties = () => {
                 <AccordionContent className="pb-4">
                   <div className="space-y-4">
                     <div className="flex items-center justify-between text-sm">
-                      <span className="text-muted-foreground">{formatPrice(localPriceRange[0])} EGP</span>
-                      <span className="text-muted-foreground">{formatPrice(localPriceRange[1])} EGP</span>
+                      <span className="text-muted-foreground">{formatShortPrice(localPriceRange[0])}</span>
+                      <span className="text-muted-foreground">{formatShortPrice(localPriceRange[1])}</span>
                     </div>
                     <Slider
                       value={localPriceRange}
@@ -774,6 +808,12 @@ const Properties = () => {
         </SheetContent>
       </Sheet>
 
+      <SavedSearchDialog
+        open={isSaveSearchOpen}
+        onOpenChange={setIsSaveSearchOpen}
+        filters={toSavedFilters(filters)}
+      />
+
       <CompareBar />
     </Layout>
   );
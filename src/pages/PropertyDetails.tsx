@@ -3,8 +3,8 @@
  * Production-grade with Supabase integration, similar listings, mortgage calculator
  */
 
-import { useState, useEffect } from 'react';
-import { useParams, Link } from 'react-router-dom';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { useParams, Link, useNavigate, useLocation } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { motion } from 'framer-motion';
 import {
@@ -16,27 +16,55 @@ import {
   Share2,
   Phone,
   MessageCircle,
-  Download,
   ChevronLeft,
   Loader2,
   AlertCircle,
+  Languages,
 } from 'lucide-react';
 import Layout from '@/components/layout/Layout';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import CompareToggle from '@/components/compare/CompareToggle';
-import SimilarListings from '@/components/property/SimilarListings';
+import SimilarListings, { SimilarListing } from '@/components/property/SimilarListings';
+import PropertyGallery from '@/components/property/PropertyGallery';
+import PropertyMediaTabs from '@/components/property/PropertyMediaTabs';
 import MortgageCalculator from '@/components/property/MortgageCalculator';
+import AffordabilityCalculator from '@/components/property/AffordabilityCalculator';
+import BrochureDownloadButton from '@/components/property/BrochureDownloadButton';
+import PriceHistoryChart from '@/components/property/PriceHistoryChart';
+import PriceDeltaIndicator from '@/components/property/PriceDeltaIndicator';
 import CompareBar from '@/components/compare/CompareBar';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useApiAuth } from '@/contexts/ApiAuthContext';
+import { useCurrency } from '@/hooks/useCurrency';
 import { supabase } from '@/integrations/supabase/client';
-import { PropertyListItem } from '@/lib/api/types';
+import { isUuid, isValidSlug, localizeProperty, propertySlug } from '@/lib/propertyContent';
+import { groupMediaByType, PropertyMediaItem } from '@/lib/propertyMedia';
+import { PriceHistoryEntry, toChartPoints } from '@/lib/priceHistory';
+import { PaymentPlan } from '@/lib/paymentPlans';
+import {
+  describeSimilarity,
+  parseSimilarityWeights,
+  rankSimilar,
+  SIMILARITY_WEIGHTS_KEY,
+  SimilarityMatch,
+} from '@/lib/similarity';
 
 interface DBProperty {
   id: string;
   title: string;
   description: string | null;
+  title_ar: string | null;
+  description_ar: string | null;
+  slug: string | null;
+  slug_ar: string | null;
   location: string | null;
+  city: string | null;
+  district: string | null;
+  property_type: string | null;
+  project_id: string | null;
+  tags: string[] | null;
   price: number | null;
   beds: number | null;
   baths: number | null;
@@ -50,30 +78,77 @@ interface DBProperty {
   updated_at: string;
 }
 
+type SimilarProperty = Pick<
+  DBProperty,
+  | 'id'
+  | 'title'
+  | 'title_ar'
+  | 'slug'
+  | 'slug_ar'
+  | 'location'
+  | 'city'
+  | 'district'
+  | 'price'
+  | 'beds'
+  | 'baths'
+  | 'area'
+  | 'image_url'
+  | 'status'
+  | 'property_type'
+  | 'progress_status'
+  | 'tags'
+>;
+
+const SIMILAR_COLUMNS =
+  'id, title, title_ar, slug, slug_ar, location, city, district, price, beds, baths, area, image_url, status, property_type, progress_status, tags';
+
+// Candidates fetched per query before ranking
+const SIMILAR_CANDIDATES = 40;
+
 const PropertyDetails = () => {
-  const { t, i18n } = useTranslation();
-  const { id } = useParams<{ id: string }>();
+  const { t } = useTranslation();
+  const { language } = useLanguage();
+  const { user } = useApiAuth();
+  const { formatPrice, approximateNote } = useCurrency();
+  const navigate = useNavigate();
+  const { search } = useLocation();
+  const { slug } = useParams<{ slug: string }>();
   const [isFavorite, setIsFavorite] = useState(false);
 
   const [property, setProperty] = useState<DBProperty | null>(null);
-  const [similarProperties, setSimilarProperties] = useState<PropertyListItem[]>([]);
+  const [similarMatches, setSimilarMatches] = useState<SimilarityMatch<SimilarProperty>[]>([]);
+  const [media, setMedia] = useState<PropertyMediaItem[]>([]);
+  const [priceHistory, setPriceHistory] = useState<PriceHistoryEntry[]>([]);
+  const [paymentPlans, setPaymentPlans] = useState<PaymentPlan[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Lets the canonical-URL redirect below swap the slug without refetching
+  const loadedRef = useRef<DBProperty | null>(null);
 
   useEffect(() => {
     const fetchProperty = async () => {
-      if (!id) return;
+      if (!slug) return;
+
+      const loaded = loadedRef.current;
+      if (loaded && [loaded.id, loaded.slug, loaded.slug_ar].includes(slug)) return;
 
       setLoading(true);
       setError(null);
 
       try {
-        // Fetch property by UUID
-        const { data, error: queryError } = await supabase
-          .from('properties')
-          .select('*')
-          .eq('id', id)
-          .maybeSingle();
+        // Old links use the UUID; everything else is a slug in either language
+        let query = supabase.from('properties').select('*');
+        if (isUuid(slug)) {
+          query = query.eq('id', slug);
+        } else if (isValidSlug(slug)) {
+          query = query.or(`slug.eq.${slug},slug_ar.eq.${slug}`);
+        } else {
+          setError('Property not found');
+          setLoading(false);
+          return;
+        }
+
+        const { data, error: queryError } = await query.maybeSingle();
 
         if (queryError) throw queryError;
 
@@ -83,29 +158,93 @@ const PropertyDetails = () => {
           return;
         }
 
+        loadedRef.current = data;
         setProperty(data);
 
-        // Fetch similar properties (same location, exclude current)
-        let similarQuery = supabase
-          .from('properties')
-          .select('id, title, location, price, beds, baths, area, image_url, status')
-          .neq('id', id)
-          .limit(4);
-
-        if (data.location) {
-          // Try to match by location keyword
-          const locationKeyword = data.location.split(',')[0]?.trim();
-          if (locationKeyword) {
-            similarQuery = similarQuery.ilike('location', `%${locationKeyword}%`);
-          }
-        }
+        // Similar-listing candidates: same city, plus anything in a wide price band; ranked below
+        const candidateQuery = () =>
+          supabase
+            .from('properties')
+            .select(SIMILAR_COLUMNS)
+            .neq('id', data.id)
+            .not('status', 'in', '(draft,pending_approval,archived)')
+            .limit(SIMILAR_CANDIDATES);
+
+        // The listing's own payment plans, then those offered across its project
+        const planFilter = [`property_id.eq.${data.id}`, data.project_id && `project_id.eq.${data.project_id}`]
+          .filter(Boolean)
+          .join(',');
+
+        const [
+          { data: byCity },
+          { data: byPrice },
+          { data: weightSetting },
+          { data: mediaData },
+          { data: historyData },
+          { data: planData },
+        ] = await Promise.all([
+          data.city ? candidateQuery().eq('city', data.city) : Promise.resolve({ data: [] }),
+          data.price
+            ? candidateQuery().gte('price', data.price * 0.5).lte('price', data.price * 1.5)
+            : Promise.resolve({ data: [] }),
+          supabase.from('settings').select('value').eq('key', SIMILARITY_WEIGHTS_KEY).maybeSingle(),
+          supabase.from('property_media').select('*').eq('property_id', data.id),
+          supabase.from('property_price_history').select('*').eq('property_id', data.id).order('changed_at'),
+          supabase.from('payment_plans').select('*').or(planFilter).order('sort_order').order('created_at'),
+        ]);
+
+        const candidates = new Map([...(byCity || []), ...(byPrice || [])].map((p) => [p.id, p]));
+        setSimilarMatches(rankSimilar(data, [...candidates.values()], parseSimilarityWeights(weightSetting?.value)));
+        setMedia(mediaData || []);
+        setPriceHistory(historyData || []);
+        setPaymentPlans([...(planData || [])].sort((a, b) => Number(!!a.project_id) - Number(!!b.project_id)));
+      } catch (err) {
+        console.error('Failed to fetch property:', err);
+        setError('Failed to load property details');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchProperty();
+  }, [slug]);
 
-        const { data: similarData } = await similarQuery;
+  // Signed-in views feed the client's personalised recommendations
+  const userId = user?.id;
+  const propertyId = property?.id;
+  useEffect(() => {
+    if (!userId || !propertyId) return;
+    supabase.rpc('record_property_view', { p_property_id: propertyId }).then(({ error }) => {
+      if (error) console.error('Error recording property view:', error);
+    });
+  }, [userId, propertyId]);
+
+  // Redirect UUID links, and links in the other language, to the slug for the current language,
+  // keeping the query string (e.g. a shared calculator scenario)
+  useEffect(() => {
+    // Skip while a different property (e.g. a similar listing) is still loading
+    if (!property || !slug || ![property.id, property.slug, property.slug_ar].includes(slug)) return;
+    const canonical = propertySlug(property, language);
+    if (canonical !== slug) {
+      navigate(`/properties/${encodeURIComponent(canonical)}${search}`, { replace: true });
+    }
+  }, [property, language, slug, search, navigate]);
+
+  const content = useMemo(() => (property ? localizeProperty(property, language) : null), [property, language]);
+  const mediaByType = useMemo(() => groupMediaByType(media), [media]);
+  const pricePoints = useMemo(
+    () => toChartPoints(priceHistory, property?.price ?? null),
+    [priceHistory, property?.price]
+  );
 
-        const mapped: PropertyListItem[] = (similarData || []).map((p) => ({
+  const similarProperties = useMemo<SimilarListing[]>(
+    () =>
+      similarMatches.map(({ listing: p, reasons }) => {
+        const localized = localizeProperty(p, language);
+        return {
           id: p.id,
-          title: p.title,
-          slug: p.id,
+          title: localized.title,
+          slug: propertySlug(p, language),
           price: p.price || 0,
           currency: 'EGP',
           location: p.location || '',
@@ -115,27 +254,12 @@ const PropertyDetails = () => {
           imageUrl: p.image_url || '/placeholder.svg',
           status: 'published' as const,
           tags: [],
-        }));
-
-        setSimilarProperties(mapped);
-      } catch (err) {
-        console.error('Failed to fetch property:', err);
-        setError('Failed to load property details');
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchProperty();
-  }, [id]);
-
-  const formatPrice = (value: number) => {
-    return new Intl.NumberFormat('en-EG', {
-      style: 'decimal',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(value);
-  };
+          translationMissing: localized.titleFallback,
+          similarityReason: describeSimilarity(reasons, language),
+        };
+      }),
+    [similarMatches, language]
+  );
 
   const getWhatsAppLink = () => {
     if (!property) return '#';
@@ -171,7 +295,7 @@ const PropertyDetails = () => {
   }
 
   // Error state
-  if (error || !property) {
+  if (error || !property || !content) {
     return (
       <Layout>
         <div className="min-h-[60vh] flex flex-col items-center justify-center gap-6 px-4">
@@ -206,19 +330,13 @@ const PropertyDetails = () => {
           <span>/</span>
           <Link to="/properties" className="hover:text-primary">{t('nav.properties')}</Link>
           <span>/</span>
-          <span className="text-foreground">{property.title}</span>
+          <span className="text-foreground">{content.title}</span>
         </nav>
       </div>
 
       {/* Gallery */}
       <section className="container mx-auto px-6 pb-8">
-        <div className="relative rounded-2xl overflow-hidden">
-          <img
-            src={image}
-            alt={property.title}
-            className="w-full h-[60vh] object-cover"
-          />
-
+        <PropertyGallery images={mediaByType.image} fallbackImage={image} title={content.title}>
           {/* Status Badge */}
           <div className="absolute top-4 left-4">
             <Badge className="badge-available text-sm px-4 py-1">
@@ -240,7 +358,7 @@ const PropertyDetails = () => {
               <Share2 className="w-5 h-5" />
             </button>
           </div>
-        </div>
+        </PropertyGallery>
       </section>
 
       {/* Content */}
@@ -250,8 +368,8 @@ const PropertyDetails = () => {
           <div className="lg:col-span-2 space-y-8">
             {/* Header */}
             <div>
-              <h1 className="font-display text-3xl md:text-4xl font-semibold text-foreground mb-2">
-                {property.title}
+              <h1 dir="auto" className="font-display text-3xl md:text-4xl font-semibold text-foreground mb-2">
+                {content.title}
               </h1>
               {property.location && (
                 <div className="flex items-center gap-2 text-muted-foreground">
@@ -259,6 +377,12 @@ const PropertyDetails = () => {
                   <span>{property.location}</span>
                 </div>
               )}
+              {(content.titleFallback || content.descriptionFallback) && (
+                <p className="flex items-center gap-2 text-sm text-muted-foreground mt-3">
+                  <Languages className="w-4 h-4 text-primary shrink-0" />
+                  {t('property.translationFallback')}
+                </p>
+              )}
             </div>
 
             {/* Quick Stats */}
@@ -287,22 +411,46 @@ const PropertyDetails = () => {
             </div>
 
             {/* Description */}
-            {property.description && (
+            {content.description && (
               <div className="glass-card p-6">
                 <h3 className="font-display text-xl font-semibold text-foreground mb-4">Description</h3>
-                <p className="text-muted-foreground whitespace-pre-line leading-relaxed">
-                  {property.description}
+                <p dir="auto" className="text-muted-foreground whitespace-pre-line leading-relaxed">
+                  {content.description}
                 </p>
               </div>
             )}
 
+            {/* Floor Plans, Video & 360° */}
+            <PropertyMediaTabs
+              floorPlans={mediaByType.floor_plan}
+              videos={mediaByType.video}
+              panoramas={mediaByType['360_view']}
+              title={content.title}
+            />
+
+            {/* Price History - only once the price has actually changed */}
+            {priceHistory.length > 1 && (
+              <div className="glass-card p-6">
+                <div className="flex items-center justify-between gap-4 mb-4">
+                  <h3 className="font-display text-xl font-semibold text-foreground">{t('property.priceHistory')}</h3>
+                  <PriceDeltaIndicator percent={property.price_delta_percent} />
+                </div>
+                <PriceHistoryChart points={pricePoints} />
+              </div>
+            )}
+
             {/* Mortgage Calculator */}
             {property.price && (
               <MortgageCalculator
                 price={property.price}
+                propertyId={property.id}
                 currency="EGP"
+                plans={paymentPlans}
               />
             )}
+
+            {/* Affordability - for buyers who don't know their budget yet */}
+            <AffordabilityCalculator plans={paymentPlans} />
           </div>
 
           {/* Sidebar */}
@@ -311,9 +459,13 @@ const PropertyDetails = () => {
             <div className="glass-card p-6 sticky top-28">
               <div className="mb-6">
                 {property.price ? (
-                  <p className="text-gold font-display text-3xl font-semibold">
-                    {formatPrice(property.price)} {t('common.currency')}
-                  </p>
+                  <>
+                    <p className="text-gold font-display text-3xl font-semibold">
+                      {formatPrice(property.price)}
+                    </p>
+                    {approximateNote && <p className="text-xs text-muted-foreground mt-1">{approximateNote}</p>}
+                    <PriceDeltaIndicator percent={property.price_delta_percent} className="mt-1" />
+                  </>
                 ) : (
                   <p className="text-muted-foreground text-lg">Price on request</p>
                 )}
@@ -332,10 +484,7 @@ const PropertyDetails = () => {
                   <Phone className="w-5 h-5" />
                   {t('property.call')}
                 </Button>
-                <Button variant="outline" className="w-full h-12 text-base gap-2 border-border/50 hover:border-primary/50">
-                  <Download className="w-5 h-5" />
-                  {t('property.brochure')}
-                </Button>
+                <BrochureDownloadButton propertyId={property.id} />
               </div>
             </div>
           </div>
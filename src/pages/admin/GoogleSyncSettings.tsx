@@ -3,7 +3,7 @@
  * Admin configuration for Google Sheets and Drive integration
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { motion } from 'framer-motion';
 import {
   Settings,
@@ -19,6 +19,9 @@ import {
   Columns,
   Link2,
   TestTube,
+  Eye,
+  ChevronLeft,
+  ChevronRight,
 } from 'lucide-react';
 import PortalLayout from '@/components/portal/PortalLayout';
 import { Button } from '@/components/ui/button';
@@ -59,19 +62,18 @@ import {
 } from '@/components/ui/dialog';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-
-interface SyncLogRow {
-  id: string;
-  type: string;
-  source: string;
-  status: string;
-  started_at: string;
-  finished_at: string | null;
-  rows_processed: number;
-  rows_updated: number;
-  rows_failed: number;
-  errors: string[] | null;
-  created_at: string;
+import { callEdgeFunction } from '@/lib/edgeFunctions';
+import PropertiesImportDialog from '@/components/sync/PropertiesImportDialog';
+import SyncLogDetailDialog, { type SyncLogRow } from '@/components/sync/SyncLogDetailDialog';
+import type { PropertiesImportPreview, PropertyRowSelection, SyncRowError } from '@/lib/api/types';
+
+interface SyncRunResult {
+  logId: string;
+  status: 'completed' | 'failed' | 'skipped';
+  rowsProcessed: number;
+  rowsUpdated: number;
+  rowsFailed: number;
+  errors: SyncRowError[];
 }
 
 const SYNC_FREQUENCIES = [
@@ -82,6 +84,14 @@ const SYNC_FREQUENCIES = [
   { value: '1hour', label: 'Every hour' },
 ];
 
+// Must match the intervals used by the scheduled-sync edge function
+const SYNC_INTERVAL_MINUTES: Record<string, number> = {
+  '5min': 5,
+  '10min': 10,
+  '30min': 30,
+  '1hour': 60,
+};
+
 const INVENTORY_COLUMNS = [
   { key: 'property_external_id', label: 'Property ID', required: true },
   { key: 'total_units', label: 'Total Units', required: true },
@@ -91,6 +101,157 @@ const INVENTORY_COLUMNS = [
   { key: 'updated_at', label: 'Last Updated', required: false },
 ];
 
+// Unmapped optional columns are left untouched by the import
+const PROPERTY_COLUMNS = [
+  { key: 'external_id', label: 'Property ID', required: true },
+  { key: 'title', label: 'Title', required: true },
+  { key: 'location', label: 'Location', required: false },
+  { key: 'price', label: 'Price', required: false },
+  { key: 'beds', label: 'Beds', required: false },
+  { key: 'baths', label: 'Baths', required: false },
+  { key: 'area', label: 'Area (sqm)', required: false },
+  { key: 'property_type', label: 'Property Type', required: false },
+  { key: 'tags', label: 'Tags (comma separated)', required: false },
+  { key: 'progress_status', label: 'Progress Status', required: false },
+];
+
+interface ColumnMappingDialogProps {
+  columns: { key: string; label: string; required: boolean }[];
+  mappings: Record<string, string>;
+  onChange: (mappings: Record<string, string>) => void;
+}
+
+const ColumnMappingDialog = ({ columns, mappings, onChange }: ColumnMappingDialogProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-1">
+          <Columns className="w-4 h-4" />
+          Configure
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="glass-card border-border/30 max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-display">Column Mapping</DialogTitle>
+          <DialogDescription>
+            Map spreadsheet columns to database fields
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3 py-4">
+          {columns.map((col) => (
+            <div key={col.key} className="flex items-center gap-3">
+              <div className="flex-1">
+                <Label className="text-xs text-muted-foreground">
+                  {col.label} {col.required && '*'}
+                </Label>
+              </div>
+              <Input
+                value={mappings[col.key] || ''}
+                onChange={(e) => onChange({
+                  ...mappings,
+                  [col.key]: e.target.value.toUpperCase(),
+                })}
+                placeholder="A"
+                className="w-20 text-center"
+                maxLength={2}
+              />
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button onClick={() => setIsOpen(false)} className="btn-gold">
+            Save Mapping
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const LOGS_PER_PAGE = 20;
+
+interface SyncLogFilters {
+  type: string;
+  source: string;
+  status: string;
+}
+
+const LOG_FILTER_OPTIONS: { key: keyof SyncLogFilters; label: string; options: { value: string; label: string }[] }[] = [
+  {
+    key: 'type',
+    label: 'All types',
+    options: [
+      { value: 'inventory', label: 'Inventory' },
+      { value: 'properties', label: 'Properties' },
+      { value: 'documents', label: 'Documents' },
+    ],
+  },
+  {
+    key: 'source',
+    label: 'All sources',
+    options: [
+      { value: 'google_sheets', label: 'Google Sheets' },
+      { value: 'google_drive', label: 'Google Drive' },
+    ],
+  },
+  {
+    key: 'status',
+    label: 'All statuses',
+    options: [
+      { value: 'pending', label: 'Pending' },
+      { value: 'running', label: 'Running' },
+      { value: 'completed', label: 'Completed' },
+      { value: 'failed', label: 'Failed' },
+      { value: 'skipped', label: 'Skipped' },
+    ],
+  },
+];
+
+const fetchSyncLogs = async (
+  filters: SyncLogFilters,
+  page: number
+): Promise<{ logs: SyncLogRow[]; total: number }> => {
+  let query = supabase
+    .from('sync_logs')
+    .select('*', { count: 'exact' })
+    .order('started_at', { ascending: false });
+
+  if (filters.type !== 'all') query = query.eq('type', filters.type);
+  if (filters.source !== 'all') query = query.eq('source', filters.source);
+  if (filters.status !== 'all') query = query.eq('status', filters.status);
+
+  const from = (page - 1) * LOGS_PER_PAGE;
+  const { data: logs, error, count } = await query.range(from, from + LOGS_PER_PAGE - 1);
+
+  if (error) throw error;
+
+  return {
+    logs: (logs || []).map((log) => ({
+      ...log,
+      errors: Array.isArray(log.errors) ? (log.errors as unknown as SyncRowError[]) : [],
+    })),
+    total: count || 0,
+  };
+};
+
+// Most recent scheduled run that actually started; skipped ticks don't move the schedule
+const fetchLastScheduledRun = async (): Promise<string | null> => {
+  const { data, error } = await supabase
+    .from('sync_logs')
+    .select('started_at')
+    .eq('type', 'inventory')
+    .eq('trigger', 'scheduled')
+    .neq('status', 'skipped')
+    .order('started_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.started_at ?? null;
+};
+
 const GoogleSyncSettings = () => {
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(true);
@@ -99,13 +260,21 @@ const GoogleSyncSettings = () => {
   const [isTesting, setIsTesting] = useState(false);
   
   const [syncLogs, setSyncLogs] = useState<SyncLogRow[]>([]);
+  const [logTotal, setLogTotal] = useState(0);
+  const [logPage, setLogPage] = useState(1);
+  const [logFilters, setLogFilters] = useState<SyncLogFilters>({ type: 'all', source: 'all', status: 'all' });
+  const [selectedLog, setSelectedLog] = useState<SyncLogRow | null>(null);
+  const [isRetrying, setIsRetrying] = useState(false);
+  const [lastScheduledRunAt, setLastScheduledRunAt] = useState<string | null>(null);
   
   // Config state
   const [sheetsEnabled, setSheetsEnabled] = useState(false);
   const [driveEnabled, setDriveEnabled] = useState(false);
   const [inventorySheetId, setInventorySheetId] = useState('');
+  const [propertiesSheetId, setPropertiesSheetId] = useState('');
   const [syncFrequency, setSyncFrequency] = useState('manual');
   const [contractsFolderId, setContractsFolderId] = useState('');
+  const [contractsMappingSheetId, setContractsMappingSheetId] = useState('');
   const [mediaFolderId, setMediaFolderId] = useState('');
   
   // Column mapping
@@ -117,8 +286,15 @@ const GoogleSyncSettings = () => {
     sold_units: 'E',
     updated_at: 'F',
   });
-  
-  const [isMappingDialogOpen, setIsMappingDialogOpen] = useState(false);
+  const [propertiesColumnMappings, setPropertiesColumnMappings] = useState<Record<string, string>>({
+    external_id: 'A',
+    title: 'B',
+  });
+
+  // Properties import preview
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isCommitting, setIsCommitting] = useState(false);
+  const [propertiesPreview, setPropertiesPreview] = useState<PropertiesImportPreview | null>(null);
 
   useEffect(() => {
     fetchData();
@@ -127,25 +303,13 @@ const GoogleSyncSettings = () => {
   const fetchData = async () => {
     setIsLoading(true);
     try {
-      // Fetch sync logs from Supabase
-      const { data: logs, error } = await supabase
-        .from('sync_logs')
-        .select('*')
-        .order('started_at', { ascending: false })
-        .limit(20);
-
-      if (error) throw error;
-
-      setSyncLogs((logs || []).map((log: any) => ({
-        ...log,
-        errors: Array.isArray(log.errors) ? log.errors : [],
-      })));
+      setLastScheduledRunAt(await fetchLastScheduledRun());
 
       // Load config from settings table
       const { data: settings } = await supabase
         .from('settings')
         .select('key, value')
-        .in('key', ['sync_sheets_enabled', 'sync_drive_enabled', 'sync_inventory_sheet_id', 'sync_frequency', 'sync_contracts_folder_id', 'sync_media_folder_id', 'sync_column_mappings']);
+        .in('key', ['sync_sheets_enabled', 'sync_drive_enabled', 'sync_inventory_sheet_id', 'sync_properties_sheet_id', 'sync_frequency', 'sync_contracts_folder_id', 'sync_contracts_mapping_sheet_id', 'sync_media_folder_id', 'sync_column_mappings', 'sync_properties_column_mappings']);
 
       if (settings) {
         for (const s of settings) {
@@ -153,12 +317,17 @@ const GoogleSyncSettings = () => {
             case 'sync_sheets_enabled': setSheetsEnabled(s.value === 'true'); break;
             case 'sync_drive_enabled': setDriveEnabled(s.value === 'true'); break;
             case 'sync_inventory_sheet_id': setInventorySheetId(s.value || ''); break;
+            case 'sync_properties_sheet_id': setPropertiesSheetId(s.value || ''); break;
             case 'sync_frequency': setSyncFrequency(s.value || 'manual'); break;
             case 'sync_contracts_folder_id': setContractsFolderId(s.value || ''); break;
+            case 'sync_contracts_mapping_sheet_id': setContractsMappingSheetId(s.value || ''); break;
             case 'sync_media_folder_id': setMediaFolderId(s.value || ''); break;
             case 'sync_column_mappings':
               try { setColumnMappings(JSON.parse(s.value || '{}')); } catch {}
               break;
+            case 'sync_properties_column_mappings':
+              try { setPropertiesColumnMappings(JSON.parse(s.value || '{}')); } catch { /* keep default mapping */ }
+              break;
           }
         }
       }
@@ -169,6 +338,25 @@ const GoogleSyncSettings = () => {
     }
   };
 
+  const loadLogs = useCallback(async () => {
+    try {
+      const { logs, total } = await fetchSyncLogs(logFilters, logPage);
+      setSyncLogs(logs);
+      setLogTotal(total);
+    } catch (err) {
+      console.error('Error fetching sync logs:', err);
+    }
+  }, [logFilters, logPage]);
+
+  useEffect(() => {
+    loadLogs();
+  }, [loadLogs]);
+
+  const handleLogFilterChange = (key: keyof SyncLogFilters, value: string) => {
+    setLogFilters((prev) => ({ ...prev, [key]: value }));
+    setLogPage(1);
+  };
+
   const handleTestConnection = async () => {
     if (!inventorySheetId) {
       toast({
@@ -181,16 +369,18 @@ const GoogleSyncSettings = () => {
 
     setIsTesting(true);
     try {
-      // Simulate connection test (would call an edge function in production)
-      await new Promise((resolve) => setTimeout(resolve, 1500));
+      const result = await callEdgeFunction<{ header: string[]; rowCount: number }>('google-sheets-sync', {
+        action: 'test',
+        sheetId: inventorySheetId,
+      });
       toast({
         title: 'Connection Successful',
-        description: 'Successfully connected to Google Sheets',
+        description: `Found ${result.rowCount} data rows and ${result.header.length} columns`,
       });
     } catch (err) {
       toast({
         title: 'Connection Failed',
-        description: 'Could not connect to Google Sheets. Check your credentials.',
+        description: err instanceof Error ? err.message : 'Could not connect to Google Sheets. Check your credentials.',
         variant: 'destructive',
       });
     } finally {
@@ -198,32 +388,36 @@ const GoogleSyncSettings = () => {
     }
   };
 
-  const handleRunSync = async (type: 'inventory' | 'properties' | 'documents') => {
-    setIsSyncing(true);
-    try {
-      // Insert a new sync log entry
-      const { data: newLog, error } = await supabase
-        .from('sync_logs')
-        .insert({
-          type,
-          source: type === 'documents' ? 'google_drive' : 'google_sheets',
-          status: 'completed',
-          started_at: new Date().toISOString(),
-          finished_at: new Date().toISOString(),
-          rows_processed: Math.floor(Math.random() * 50) + 10,
-          rows_updated: Math.floor(Math.random() * 20),
-          rows_failed: 0,
-        })
-        .select()
-        .single();
-
-      if (error) throw error;
-
-      setSyncLogs([{ ...newLog, errors: [] } as SyncLogRow, ...syncLogs]);
+  const showRunResult = (result: SyncRunResult) => {
+    if (result.status === 'skipped') {
+      toast({
+        title: 'Sync Skipped',
+        description: 'A previous sync is still running. Try again once it finishes.',
+      });
+    } else if (result.status === 'failed') {
+      toast({
+        title: 'Sync Failed',
+        description: result.errors[0]?.message || 'An error occurred during sync',
+        variant: 'destructive',
+      });
+    } else {
       toast({
         title: 'Sync Complete',
-        description: `Successfully synced ${newLog.rows_updated} records`,
+        description: `${result.rowsProcessed} rows processed, ${result.rowsUpdated} updated, ${result.rowsFailed} failed`,
+        variant: result.rowsFailed > 0 ? 'destructive' : 'default',
       });
+    }
+  };
+
+  const handleRunSync = async (type: 'inventory' | 'documents') => {
+    setIsSyncing(true);
+    try {
+      // Runs against the saved configuration, not unsaved edits on this page
+      const result = type === 'documents'
+        ? await callEdgeFunction<SyncRunResult>('google-drive-import')
+        : await callEdgeFunction<SyncRunResult>('google-sheets-sync', { type });
+      await loadLogs();
+      showRunResult(result);
     } catch (err: any) {
       toast({
         title: 'Sync Failed',
@@ -235,6 +429,69 @@ const GoogleSyncSettings = () => {
     }
   };
 
+  const handlePreviewProperties = async () => {
+    setIsPreviewing(true);
+    try {
+      // Dry run against the saved configuration; nothing is written until the admin commits
+      const preview = await callEdgeFunction<PropertiesImportPreview>('google-sheets-sync', {
+        type: 'properties',
+        action: 'preview',
+      });
+      setPropertiesPreview(preview);
+    } catch (err) {
+      toast({
+        title: 'Preview Failed',
+        description: err instanceof Error ? err.message : 'Could not read the properties sheet',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleCommitProperties = async (rows: PropertyRowSelection[]) => {
+    setIsCommitting(true);
+    try {
+      const result = await callEdgeFunction<SyncRunResult>('google-sheets-sync', {
+        type: 'properties',
+        action: 'run',
+        rows,
+      });
+      await loadLogs();
+      setPropertiesPreview(null);
+      showRunResult(result);
+    } catch (err) {
+      toast({
+        title: 'Import Failed',
+        description: err instanceof Error ? err.message : 'An error occurred during import',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsCommitting(false);
+    }
+  };
+
+  const handleRetryLog = async (log: SyncLogRow) => {
+    setIsRetrying(true);
+    try {
+      // The server reads the failed rows from the log itself and re-runs just those
+      const result = log.type === 'documents'
+        ? await callEdgeFunction<SyncRunResult>('google-drive-import', { logId: log.id })
+        : await callEdgeFunction<SyncRunResult>('google-sheets-sync', { action: 'retry', logId: log.id });
+      setSelectedLog(null);
+      await loadLogs();
+      showRunResult(result);
+    } catch (err) {
+      toast({
+        title: 'Retry Failed',
+        description: err instanceof Error ? err.message : 'An error occurred during retry',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
   const upsertSetting = async (key: string, value: string) => {
     const { error } = await supabase
       .from('settings')
@@ -249,10 +506,13 @@ const GoogleSyncSettings = () => {
         upsertSetting('sync_sheets_enabled', String(sheetsEnabled)),
         upsertSetting('sync_drive_enabled', String(driveEnabled)),
         upsertSetting('sync_inventory_sheet_id', inventorySheetId),
+        upsertSetting('sync_properties_sheet_id', propertiesSheetId),
         upsertSetting('sync_frequency', syncFrequency),
         upsertSetting('sync_contracts_folder_id', contractsFolderId),
+        upsertSetting('sync_contracts_mapping_sheet_id', contractsMappingSheetId),
         upsertSetting('sync_media_folder_id', mediaFolderId),
         upsertSetting('sync_column_mappings', JSON.stringify(columnMappings)),
+        upsertSetting('sync_properties_column_mappings', JSON.stringify(propertiesColumnMappings)),
       ]);
       toast({
         title: 'Settings Saved',
@@ -278,12 +538,22 @@ const GoogleSyncSettings = () => {
     });
   };
 
+  const getNextScheduledRun = (): string => {
+    const intervalMinutes = SYNC_INTERVAL_MINUTES[syncFrequency];
+    if (!sheetsEnabled || !intervalMinutes) return 'Scheduled sync is off';
+    if (!lastScheduledRunAt) return 'Within the next minute';
+
+    const next = new Date(lastScheduledRunAt).getTime() + intervalMinutes * 60_000;
+    return next <= Date.now() ? 'Within the next minute' : formatDate(new Date(next).toISOString());
+  };
+
   const getStatusBadge = (status: string) => {
     const config: Record<string, { color: string; icon: typeof Clock }> = {
       pending: { color: 'bg-secondary', icon: Clock },
       running: { color: 'bg-primary/20 text-primary', icon: RefreshCw },
       completed: { color: 'bg-success/20 text-success', icon: Check },
       failed: { color: 'bg-destructive/20 text-destructive', icon: X },
+      skipped: { color: 'bg-warning/20 text-warning', icon: AlertTriangle },
     };
     const { color, icon: Icon } = config[status] || config.pending;
     return (
@@ -332,7 +602,7 @@ const GoogleSyncSettings = () => {
                 />
               </div>
               <CardDescription>
-                Sync inventory data from Google Sheets
+                Sync inventory and import properties from Google Sheets
               </CardDescription>
             </CardHeader>
             <CardContent className={`space-y-4 ${!sheetsEnabled ? 'opacity-50 pointer-events-none' : ''}`}>
@@ -381,54 +651,21 @@ const GoogleSyncSettings = () => {
                     ))}
                   </SelectContent>
                 </Select>
+                <p className="text-xs text-muted-foreground mt-1 flex items-center gap-1">
+                  <Clock className="w-3 h-3" />
+                  Next scheduled run: {getNextScheduledRun()}
+                </p>
               </div>
 
               {/* Column Mapping */}
               <div>
                 <div className="flex items-center justify-between mb-2">
                   <Label>Column Mapping</Label>
-                  <Dialog open={isMappingDialogOpen} onOpenChange={setIsMappingDialogOpen}>
-                    <DialogTrigger asChild>
-                      <Button variant="outline" size="sm" className="gap-1">
-                        <Columns className="w-4 h-4" />
-                        Configure
-                      </Button>
-                    </DialogTrigger>
-                    <DialogContent className="glass-card border-border/30 max-w-md">
-                      <DialogHeader>
-                        <DialogTitle className="font-display">Column Mapping</DialogTitle>
-                        <DialogDescription>
-                          Map spreadsheet columns to database fields
-                        </DialogDescription>
-                      </DialogHeader>
-                      <div className="space-y-3 py-4">
-                        {INVENTORY_COLUMNS.map((col) => (
-                          <div key={col.key} className="flex items-center gap-3">
-                            <div className="flex-1">
-                              <Label className="text-xs text-muted-foreground">
-                                {col.label} {col.required && '*'}
-                              </Label>
-                            </div>
-                            <Input
-                              value={columnMappings[col.key] || ''}
-                              onChange={(e) => setColumnMappings({
-                                ...columnMappings,
-                                [col.key]: e.target.value.toUpperCase(),
-                              })}
-                              placeholder="A"
-                              className="w-20 text-center"
-                              maxLength={2}
-                            />
-                          </div>
-                        ))}
-                      </div>
-                      <DialogFooter>
-                        <Button onClick={() => setIsMappingDialogOpen(false)} className="btn-gold">
-                          Save Mapping
-                        </Button>
-                      </DialogFooter>
-                    </DialogContent>
-                  </Dialog>
+                  <ColumnMappingDialog
+                    columns={INVENTORY_COLUMNS}
+                    mappings={columnMappings}
+                    onChange={setColumnMappings}
+                  />
                 </div>
                 <p className="text-xs text-muted-foreground">
                   Current: {Object.values(columnMappings).filter(Boolean).length} columns mapped
@@ -450,6 +687,50 @@ const GoogleSyncSettings = () => {
                   Run Sync Now
                 </Button>
               </div>
+
+              {/* Properties Import */}
+              <div className="pt-4 border-t border-border/20 space-y-4">
+                <div>
+                  <Label>Properties Sheet ID</Label>
+                  <Input
+                    value={propertiesSheetId}
+                    onChange={(e) => setPropertiesSheetId(e.target.value)}
+                    placeholder="Sheet with one row per property"
+                    className="input-luxury mt-1"
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Rows are matched on Property ID; empty cells keep the current value
+                  </p>
+                </div>
+
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <Label>Properties Column Mapping</Label>
+                    <ColumnMappingDialog
+                      columns={PROPERTY_COLUMNS}
+                      mappings={propertiesColumnMappings}
+                      onChange={setPropertiesColumnMappings}
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Current: {Object.values(propertiesColumnMappings).filter(Boolean).length} columns mapped
+                  </p>
+                </div>
+
+                <Button
+                  variant="outline"
+                  onClick={handlePreviewProperties}
+                  disabled={isPreviewing || !propertiesSheetId}
+                  className="w-full"
+                >
+                  {isPreviewing ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Eye className="w-4 h-4 mr-2" />
+                  )}
+                  Preview Properties Import
+                </Button>
+              </div>
             </CardContent>
           </Card>
 
@@ -481,7 +762,21 @@ const GoogleSyncSettings = () => {
                   className="input-luxury mt-1"
                 />
                 <p className="text-xs text-muted-foreground mt-1">
-                  Files will be imported as private documents
+                  Name files "PROPERTY-ID_Document name.pdf" to attach them to a property
+                </p>
+              </div>
+
+              {/* Contracts Mapping Sheet */}
+              <div>
+                <Label>Contracts Mapping Sheet ID (Optional)</Label>
+                <Input
+                  value={contractsMappingSheetId}
+                  onChange={(e) => setContractsMappingSheetId(e.target.value)}
+                  placeholder="Sheet with file name/ID in column A, property ID in column B"
+                  className="input-luxury mt-1"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Takes precedence over the file name convention
                 </p>
               </div>
 
@@ -500,7 +795,7 @@ const GoogleSyncSettings = () => {
               <div className="flex gap-2 pt-2">
                 <Button
                   onClick={() => handleRunSync('documents')}
-                  disabled={isSyncing || (!contractsFolderId && !mediaFolderId)}
+                  disabled={isSyncing || !contractsFolderId}
                   className="btn-gold flex-1"
                 >
                   {isSyncing ? (
@@ -535,12 +830,36 @@ const GoogleSyncSettings = () => {
               Sync History
             </CardTitle>
             <CardDescription>
-              Recent sync operations and their results
+              Sync operations and their results. Select a run to see its row errors.
             </CardDescription>
           </CardHeader>
-          <CardContent>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {LOG_FILTER_OPTIONS.map((filter) => (
+                <Select
+                  key={filter.key}
+                  value={logFilters[filter.key]}
+                  onValueChange={(value) => handleLogFilterChange(filter.key, value)}
+                >
+                  <SelectTrigger className="input-luxury w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="glass-card border-border/50">
+                    <SelectItem value="all">{filter.label}</SelectItem>
+                    {filter.options.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ))}
+            </div>
+
             {syncLogs.length === 0 ? (
-              <p className="text-center py-8 text-muted-foreground">No sync history yet.</p>
+              <p className="text-center py-8 text-muted-foreground">
+                {Object.values(logFilters).every((v) => v === 'all') ? 'No sync history yet.' : 'No runs match these filters.'}
+              </p>
             ) : (
               <Table>
                 <TableHeader>
@@ -552,14 +871,34 @@ const GoogleSyncSettings = () => {
                     <TableHead>Updated</TableHead>
                     <TableHead>Failed</TableHead>
                     <TableHead>Started</TableHead>
+                    <TableHead className="w-8" />
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {syncLogs.map((log) => (
-                    <TableRow key={log.id} className="border-border/10">
-                      <TableCell className="capitalize">{log.type}</TableCell>
+                    <TableRow
+                      key={log.id}
+                      className="border-border/10 cursor-pointer"
+                      onClick={() => setSelectedLog(log)}
+                    >
+                      <TableCell className="capitalize">
+                        {log.type}
+                        {log.trigger === 'scheduled' && (
+                          <span className="block text-xs text-muted-foreground normal-case">Scheduled</span>
+                        )}
+                        {log.retry_of && (
+                          <span className="block text-xs text-muted-foreground normal-case">Retry</span>
+                        )}
+                      </TableCell>
                       <TableCell className="capitalize">{log.source.replace('_', ' ')}</TableCell>
-                      <TableCell>{getStatusBadge(log.status)}</TableCell>
+                      <TableCell>
+                        {getStatusBadge(log.status)}
+                        {log.status === 'skipped' && (
+                          <span className="block text-xs text-muted-foreground mt-1">
+                            Previous run still active
+                          </span>
+                        )}
+                      </TableCell>
                       <TableCell>{log.rows_processed}</TableCell>
                       <TableCell className="text-success">{log.rows_updated}</TableCell>
                       <TableCell className="text-destructive">
@@ -568,14 +907,58 @@ const GoogleSyncSettings = () => {
                       <TableCell className="text-muted-foreground">
                         {formatDate(log.started_at)}
                       </TableCell>
+                      <TableCell>
+                        <ChevronRight className="w-4 h-4 text-muted-foreground" />
+                      </TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
               </Table>
             )}
+
+            {logTotal > LOGS_PER_PAGE && (
+              <div className="flex items-center justify-between text-sm text-muted-foreground">
+                <span>
+                  {(logPage - 1) * LOGS_PER_PAGE + 1}–{Math.min(logPage * LOGS_PER_PAGE, logTotal)} of {logTotal}
+                </span>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setLogPage((p) => p - 1)}
+                    disabled={logPage === 1}
+                  >
+                    <ChevronLeft className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setLogPage((p) => p + 1)}
+                    disabled={logPage * LOGS_PER_PAGE >= logTotal}
+                  >
+                    <ChevronRight className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
           </CardContent>
         </Card>
       </div>
+
+      <PropertiesImportDialog
+        open={propertiesPreview !== null}
+        onOpenChange={(open) => !open && setPropertiesPreview(null)}
+        preview={propertiesPreview}
+        isCommitting={isCommitting}
+        onCommit={handleCommitProperties}
+      />
+
+      <SyncLogDetailDialog
+        log={selectedLog}
+        onOpenChange={(open) => !open && setSelectedLog(null)}
+        onRetry={handleRetryLog}
+        isRetrying={isRetrying}
+      />
     </PortalLayout>
   );
 };
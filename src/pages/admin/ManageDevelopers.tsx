@@ -0,0 +1,384 @@
+/**
+ * Admin - Manage Developers
+ * CRUD for the real-estate developers that projects belong to
+ */
+
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { HardHat, Plus, Search, Loader2, Edit, Trash2, ExternalLink, Building } from 'lucide-react';
+import PortalLayout from '@/components/portal/PortalLayout';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { supabase } from '@/integrations/supabase/client';
+import type { Developer } from '@/lib/projects';
+import { toast } from 'sonner';
+
+type DeveloperRow = Developer & { projects: { count: number }[] };
+
+const emptyForm = {
+  name: '',
+  name_ar: '',
+  description: '',
+  description_ar: '',
+  logo_url: '',
+  website: '',
+};
+
+const ManageDevelopers = () => {
+  const [developers, setDevelopers] = useState<DeveloperRow[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<DeveloperRow | null>(null);
+  const [deleting, setDeleting] = useState<DeveloperRow | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const fetchDevelopers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('developers')
+        .select('*, projects(count)')
+        .order('name');
+      if (error) throw error;
+      setDevelopers((data as DeveloperRow[]) || []);
+    } catch (err) {
+      console.error('Error fetching developers:', err);
+      toast.error('Failed to load developers');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchDevelopers();
+  }, []);
+
+  const resetForm = () => {
+    setFormData(emptyForm);
+    setEditing(null);
+  };
+
+  const handleOpenEdit = (developer: DeveloperRow) => {
+    setEditing(developer);
+    setFormData({
+      name: developer.name,
+      name_ar: developer.name_ar || '',
+      description: developer.description || '',
+      description_ar: developer.description_ar || '',
+      logo_url: developer.logo_url || '',
+      website: developer.website || '',
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!formData.name.trim()) {
+      toast.error('Name is required');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const developerData = {
+        name: formData.name.trim(),
+        name_ar: formData.name_ar.trim() || null,
+        description: formData.description.trim() || null,
+        description_ar: formData.description_ar.trim() || null,
+        logo_url: formData.logo_url.trim() || null,
+        website: formData.website.trim() || null,
+      };
+
+      const { error } = editing
+        ? await supabase.from('developers').update(developerData).eq('id', editing.id)
+        : await supabase.from('developers').insert(developerData);
+
+      if (error) {
+        // Unique index on lower(name)
+        if (error.code === '23505') {
+          toast.error('A developer with this name already exists');
+          return;
+        }
+        throw error;
+      }
+
+      toast.success(editing ? 'Developer updated successfully' : 'Developer created successfully');
+      setIsDialogOpen(false);
+      resetForm();
+      fetchDevelopers();
+    } catch (err) {
+      console.error('Error saving developer:', err);
+      toast.error('Failed to save developer');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    try {
+      const { error } = await supabase.from('developers').delete().eq('id', deleting.id);
+      if (error) throw error;
+
+      setDevelopers((prev) => prev.filter((d) => d.id !== deleting.id));
+      toast.success('Developer deleted');
+    } catch (err) {
+      console.error('Error deleting developer:', err);
+      toast.error('Failed to delete developer');
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  const filteredDevelopers = developers.filter((developer) => {
+    const query = searchQuery.toLowerCase();
+    return developer.name.toLowerCase().includes(query) || developer.name_ar?.toLowerCase().includes(query);
+  });
+
+  if (isLoading) {
+    return (
+      <PortalLayout title="Manage Developers" subtitle="Developers behind the projects on the platform">
+        <div className="flex items-center justify-center py-20">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      </PortalLayout>
+    );
+  }
+
+  return (
+    <PortalLayout title="Manage Developers" subtitle="Developers behind the projects on the platform">
+      {/* Header Actions */}
+      <div className="flex flex-col sm:flex-row gap-4 mb-6">
+        <div className="relative flex-1">
+          <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
+          <Input
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="Search developers..."
+            className="input-luxury pl-12"
+          />
+        </div>
+
+        <Dialog open={isDialogOpen} onOpenChange={(open) => { setIsDialogOpen(open); if (!open) resetForm(); }}>
+          <DialogTrigger asChild>
+            <Button className="btn-gold gap-2">
+              <Plus className="w-5 h-5" />
+              Add Developer
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="glass-card border-border/30 sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle className="font-display text-xl">
+                {editing ? 'Edit Developer' : 'Add New Developer'}
+              </DialogTitle>
+              <DialogDescription>
+                {editing ? 'Update developer details' : 'Add a developer so projects can be linked to it'}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+              <div>
+                <Label>Name (English)</Label>
+                <Input
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="e.g., Palm Hills Developments"
+                  className="input-luxury mt-1"
+                />
+              </div>
+
+              <div>
+                <Label>Name (Arabic)</Label>
+                <Input
+                  dir="rtl"
+                  value={formData.name_ar}
+                  onChange={(e) => setFormData({ ...formData, name_ar: e.target.value })}
+                  className="input-luxury mt-1"
+                />
+              </div>
+
+              <div className="md:col-span-2">
+                <Label>Description (English)</Label>
+                <Textarea
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  rows={3}
+                  className="input-luxury mt-1"
+                />
+              </div>
+
+              <div className="md:col-span-2">
+                <Label>Description (Arabic)</Label>
+                <Textarea
+                  dir="rtl"
+                  value={formData.description_ar}
+                  onChange={(e) => setFormData({ ...formData, description_ar: e.target.value })}
+                  rows={3}
+                  className="input-luxury mt-1"
+                />
+              </div>
+
+              <div>
+                <Label>Logo URL</Label>
+                <Input
+                  value={formData.logo_url}
+                  onChange={(e) => setFormData({ ...formData, logo_url: e.target.value })}
+                  placeholder="https://..."
+                  className="input-luxury mt-1"
+                />
+              </div>
+
+              <div>
+                <Label>Website</Label>
+                <Input
+                  type="url"
+                  value={formData.website}
+                  onChange={(e) => setFormData({ ...formData, website: e.target.value })}
+                  placeholder="https://..."
+                  className="input-luxury mt-1"
+                />
+              </div>
+
+              <div className="md:col-span-2">
+                <Button onClick={handleSave} disabled={isSaving} className="w-full btn-gold">
+                  {isSaving ? (
+                    <>
+                      <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                      Saving...
+                    </>
+                  ) : (
+                    editing ? 'Update Developer' : 'Create Developer'
+                  )}
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {/* Developers List */}
+      {filteredDevelopers.length === 0 ? (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="glass-card p-12 border border-border/20 text-center"
+        >
+          <HardHat className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+          <h3 className="font-display text-xl font-semibold text-foreground mb-2">
+            No Developers Found
+          </h3>
+          <p className="text-muted-foreground">
+            {searchQuery ? 'Try a different search term' : 'Add your first developer to get started'}
+          </p>
+        </motion.div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+          {filteredDevelopers.map((developer, index) => (
+            <motion.div
+              key={developer.id}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: index * 0.05 }}
+              className="glass-card border border-border/20 p-5 hover:border-primary/30 transition-all"
+            >
+              <div className="flex items-start gap-4">
+                {developer.logo_url ? (
+                  <img
+                    src={developer.logo_url}
+                    alt={developer.name}
+                    className="w-14 h-14 rounded-xl object-contain bg-white p-1 shrink-0"
+                  />
+                ) : (
+                  <div className="w-14 h-14 rounded-xl bg-primary/10 border border-primary/20 flex items-center justify-center shrink-0">
+                    <HardHat className="w-6 h-6 text-primary" />
+                  </div>
+                )}
+                <div className="flex-1 min-w-0">
+                  <h3 className="font-display text-lg font-semibold text-foreground truncate">{developer.name}</h3>
+                  {developer.name_ar && (
+                    <p dir="rtl" className="text-sm text-muted-foreground truncate">{developer.name_ar}</p>
+                  )}
+                  <div className="flex items-center gap-3 mt-2 text-sm text-muted-foreground">
+                    <span className="flex items-center gap-1">
+                      <Building className="w-3 h-3" />
+                      {developer.projects[0]?.count ?? 0} projects
+                    </span>
+                    {developer.website && (
+                      <a
+                        href={developer.website}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-1 text-primary hover:underline"
+                      >
+                        Website
+                        <ExternalLink className="w-3 h-3" />
+                      </a>
+                    )}
+                  </div>
+                </div>
+                <div className="flex shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleOpenEdit(developer)}
+                    className="text-muted-foreground hover:text-foreground"
+                  >
+                    <Edit className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setDeleting(developer)}
+                    className="text-muted-foreground hover:text-destructive"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            </motion.div>
+          ))}
+        </div>
+      )}
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent className="glass-card border-border/30">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete developer?</AlertDialogTitle>
+            <AlertDialogDescription>
+              “{deleting?.name}” will be removed. Its projects are kept but will no longer show a developer.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </PortalLayout>
+  );
+};
+
+export default ManageDevelopers;
@@ -5,8 +5,9 @@
 
 import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { Package, RefreshCw, Edit2, Save, X, TrendingUp, TrendingDown } from 'lucide-react';
+import { Package, RefreshCw, Edit2, Save, X, TrendingUp, TrendingDown, History, AlertTriangle } from 'lucide-react';
 import PortalLayout from '@/components/portal/PortalLayout';
+import InventoryHistoryDialog from '@/components/inventory/InventoryHistoryDialog';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -21,6 +22,7 @@ import {
 } from '@/components/ui/table';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import type { InventoryUnitCounts } from '@/lib/api/types';
 
 interface InventoryRow {
   id: string;
@@ -36,12 +38,29 @@ interface InventoryRow {
   propertyTitle?: string;
 }
 
+interface InventoryConflict {
+  id: string;
+  inventory_id: string;
+  sheet_counts: InventoryUnitCounts;
+  created_at: string;
+}
+
+const COUNT_FIELDS: { key: keyof InventoryUnitCounts; label: string }[] = [
+  { key: 'total_units', label: 'Total' },
+  { key: 'available_units', label: 'Available' },
+  { key: 'reserved_units', label: 'Reserved' },
+  { key: 'sold_units', label: 'Sold' },
+];
+
 const ManageInventory = () => {
   const { toast } = useToast();
   const [inventory, setInventory] = useState<InventoryRow[]>([]);
   const [loading, setLoading] = useState(true);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editData, setEditData] = useState<Partial<InventoryRow>>({});
+  const [conflicts, setConflicts] = useState<InventoryConflict[]>([]);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [historyItem, setHistoryItem] = useState<InventoryRow | null>(null);
 
   useEffect(() => {
     fetchInventory();
@@ -77,6 +96,18 @@ const ManageInventory = () => {
           propertyTitle: propertyMap.get(row.property_id) || 'Unknown Property',
         }))
       );
+
+      // Sheet values held back by the sync because they would overwrite a manual edit
+      const { data: conflictData, error: conflictErr } = await supabase
+        .from('inventory_conflicts')
+        .select('id, inventory_id, sheet_counts, created_at')
+        .eq('status', 'open')
+        .order('created_at', { ascending: false });
+
+      if (conflictErr) throw conflictErr;
+      setConflicts(
+        (conflictData || []).map((c) => ({ ...c, sheet_counts: c.sheet_counts as InventoryUnitCounts }))
+      );
     } catch (error) {
       console.error('Error fetching inventory:', error);
       toast({
@@ -111,6 +142,7 @@ const ManageInventory = () => {
           available_units: editData.available_units,
           reserved_units: editData.reserved_units,
           sold_units: editData.sold_units,
+          sync_source: 'manual',
         })
         .eq('id', id);
 
@@ -124,6 +156,7 @@ const ManageInventory = () => {
                 available_units: editData.available_units ?? i.available_units,
                 reserved_units: editData.reserved_units ?? i.reserved_units,
                 sold_units: editData.sold_units ?? i.sold_units,
+                sync_source: 'manual',
               }
             : i
         )
@@ -144,6 +177,33 @@ const ManageInventory = () => {
     }
   };
 
+  const resolveConflict = async (conflict: InventoryConflict, resolution: 'kept_manual' | 'applied_sheet') => {
+    setResolvingId(conflict.id);
+    try {
+      const { error } = await supabase.rpc('resolve_inventory_conflict', {
+        p_conflict_id: conflict.id,
+        p_resolution: resolution,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Conflict resolved',
+        description: resolution === 'applied_sheet' ? 'Sheet values applied' : 'Manual values kept',
+      });
+      await fetchInventory();
+    } catch (error) {
+      console.error('Error resolving conflict:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to resolve conflict',
+        variant: 'destructive',
+      });
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
   const getOccupancyRate = (item: InventoryRow) => {
     if (item.total_units === 0) return 0;
     return Math.round(((item.sold_units + item.reserved_units) / item.total_units) * 100);
@@ -235,6 +295,67 @@ const ManageInventory = () => {
           </Card>
         </div>
 
+        {/* Sync Conflicts */}
+        {conflicts.length > 0 && (
+          <Card className="glass-card border-warning/40">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <AlertTriangle className="w-5 h-5 text-warning" />
+                Sync Conflicts ({conflicts.length})
+              </CardTitle>
+              <p className="text-sm text-muted-foreground">
+                The sheet sync would overwrite counts that were edited here since the last sync.
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {conflicts.map((conflict) => {
+                const item = inventory.find((i) => i.id === conflict.inventory_id);
+                if (!item) return null;
+                return (
+                  <div
+                    key={conflict.id}
+                    className="flex flex-col lg:flex-row lg:items-center justify-between gap-3 p-3 rounded-lg border border-border/30"
+                  >
+                    <div className="space-y-1">
+                      <p className="font-medium text-foreground">{item.propertyTitle}</p>
+                      <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+                        {COUNT_FIELDS.map(({ key, label }) => (
+                          <span
+                            key={key}
+                            className={item[key] !== conflict.sheet_counts[key] ? 'text-warning' : 'text-muted-foreground'}
+                          >
+                            {label}: {item[key]} → {conflict.sheet_counts[key]}
+                          </span>
+                        ))}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Current (manual) → sheet · detected {new Date(conflict.created_at).toLocaleString()}
+                      </p>
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={resolvingId === conflict.id}
+                        onClick={() => resolveConflict(conflict, 'kept_manual')}
+                      >
+                        Keep Manual
+                      </Button>
+                      <Button
+                        size="sm"
+                        disabled={resolvingId === conflict.id}
+                        onClick={() => resolveConflict(conflict, 'applied_sheet')}
+                      >
+                        Apply Sheet
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Inventory Table */}
         <Card className="glass-card border-border/30">
           <CardHeader>
@@ -329,6 +450,12 @@ const ManageInventory = () => {
                         <Badge variant="outline" className="border-border/50">
                           {item.sync_source || 'manual'}
                         </Badge>
+                        {conflicts.some((c) => c.inventory_id === item.id) && (
+                          <Badge variant="outline" className="ml-1 border-warning/50 text-warning gap-1">
+                            <AlertTriangle className="w-3 h-3" />
+                            Conflict
+                          </Badge>
+                        )}
                       </TableCell>
                       <TableCell className="text-right">
                         {editingId === item.id ? (
@@ -341,9 +468,14 @@ const ManageInventory = () => {
                             </Button>
                           </div>
                         ) : (
-                          <Button size="sm" variant="ghost" onClick={() => startEdit(item)}>
-                            <Edit2 className="w-4 h-4" />
-                          </Button>
+                          <div className="flex justify-end gap-1">
+                            <Button size="sm" variant="ghost" onClick={() => setHistoryItem(item)}>
+                              <History className="w-4 h-4" />
+                            </Button>
+                            <Button size="sm" variant="ghost" onClick={() => startEdit(item)}>
+                              <Edit2 className="w-4 h-4" />
+                            </Button>
+                          </div>
                         )}
                       </TableCell>
                     </TableRow>
@@ -354,6 +486,12 @@ const ManageInventory = () => {
           </CardContent>
         </Card>
       </div>
+
+      <InventoryHistoryDialog
+        propertyId={historyItem?.property_id ?? null}
+        propertyTitle={historyItem?.propertyTitle}
+        onOpenChange={(open) => !open && setHistoryItem(null)}
+      />
     </PortalLayout>
   );
 };
@@ -17,6 +17,7 @@ import {
   UserCheck,
 } from 'lucide-react';
 import PortalLayout from '@/components/portal/PortalLayout';
+import LeadExportDialog from '@/components/leads/LeadExportDialog';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -295,6 +296,11 @@ const ManageLeads = () => {
                   ))}
                 </SelectContent>
               </Select>
+              <LeadExportDialog
+                status={statusFilter}
+                search={searchQuery}
+                statusLabel={statusFilter === 'all' ? 'All Statuses' : statusConfig[statusFilter].label}
+              />
             </div>
           </CardContent>
         </Card>
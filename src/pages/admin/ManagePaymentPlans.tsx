@@ -0,0 +1,476 @@
+/**
+ * Admin - Manage Payment Plans
+ * Developer payment plans offered on a listing or on every unit of a project
+ */
+
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { CalendarClock, Plus, Search, Loader2, Edit, Trash2, Building, Building2 } from 'lucide-react';
+import PortalLayout from '@/components/portal/PortalLayout';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { formatAmount } from '@/lib/currency';
+import {
+  frequencyMonths,
+  INSTALLMENT_FREQUENCIES,
+  InstallmentFrequency,
+  PaymentPlan,
+  validatePaymentPlan,
+} from '@/lib/paymentPlans';
+import { toast } from 'sonner';
+
+type PlanRow = PaymentPlan & {
+  property: { id: string; title: string } | null;
+  project: { id: string; name: string } | null;
+};
+
+type TargetType = 'property' | 'project';
+
+const emptyForm = {
+  target_type: 'project' as TargetType,
+  target_id: '',
+  name: '',
+  name_ar: '',
+  down_payment_percent: '10',
+  installment_years: '8',
+  installment_frequency: 'quarterly' as InstallmentFrequency,
+  delivery_payment_percent: '0',
+  delivery_months: '36',
+  maintenance_deposit_percent: '8',
+  club_fees: '0',
+  sort_order: '0',
+};
+
+const planSummary = (plan: PaymentPlan) => {
+  const count = Math.floor((plan.installment_years * 12) / frequencyMonths(plan.installment_frequency));
+  const frequency = INSTALLMENT_FREQUENCIES.find((f) => f.value === plan.installment_frequency)?.label.toLowerCase();
+  const parts = [`${plan.down_payment_percent}% down`];
+  if (count > 0) parts.push(`${count} ${frequency} installments over ${plan.installment_years} years`);
+  if (plan.delivery_payment_percent > 0) parts.push(`${plan.delivery_payment_percent}% at delivery`);
+  if (plan.maintenance_deposit_percent > 0) parts.push(`${plan.maintenance_deposit_percent}% maintenance`);
+  if (plan.club_fees > 0) parts.push(`${formatAmount(plan.club_fees)} EGP club fees`);
+  return parts.join(' · ');
+};
+
+const ManagePaymentPlans = () => {
+  const [plans, setPlans] = useState<PlanRow[]>([]);
+  const [properties, setProperties] = useState<{ id: string; title: string }[]>([]);
+  const [projects, setProjects] = useState<{ id: string; name: string }[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<PlanRow | null>(null);
+  const [deleting, setDeleting] = useState<PlanRow | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const fetchPlans = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('payment_plans')
+        .select('*, property:properties(id, title), project:projects(id, name)')
+        .order('sort_order')
+        .order('created_at');
+      if (error) throw error;
+      setPlans((data as PlanRow[]) || []);
+    } catch (err) {
+      console.error('Error fetching payment plans:', err);
+      toast.error('Failed to load payment plans');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    const fetchTargets = async () => {
+      const [{ data: propertyData }, { data: projectData }] = await Promise.all([
+        supabase.from('properties').select('id, title').order('title'),
+        supabase.from('projects').select('id, name').order('name'),
+      ]);
+      setProperties(propertyData || []);
+      setProjects(projectData || []);
+    };
+
+    fetchPlans();
+    fetchTargets();
+  }, []);
+
+  const resetForm = () => {
+    setFormData(emptyForm);
+    setEditing(null);
+  };
+
+  const handleOpenEdit = (plan: PlanRow) => {
+    setEditing(plan);
+    setFormData({
+      target_type: plan.project_id ? 'project' : 'property',
+      target_id: plan.project_id || plan.property_id || '',
+      name: plan.name,
+      name_ar: plan.name_ar || '',
+      down_payment_percent: String(plan.down_payment_percent),
+      installment_years: String(plan.installment_years),
+      installment_frequency: plan.installment_frequency as InstallmentFrequency,
+      delivery_payment_percent: String(plan.delivery_payment_percent),
+      delivery_months: String(plan.delivery_months),
+      maintenance_deposit_percent: String(plan.maintenance_deposit_percent),
+      club_fees: String(plan.club_fees),
+      sort_order: String(plan.sort_order),
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!formData.target_id) {
+      toast.error(`Select a ${formData.target_type}`);
+      return;
+    }
+    if (!formData.name.trim()) {
+      toast.error('Name is required');
+      return;
+    }
+
+    const planData = {
+      property_id: formData.target_type === 'property' ? formData.target_id : null,
+      project_id: formData.target_type === 'project' ? formData.target_id : null,
+      name: formData.name.trim(),
+      name_ar: formData.name_ar.trim() || null,
+      down_payment_percent: Number(formData.down_payment_percent),
+      installment_years: Number(formData.installment_years),
+      installment_frequency: formData.installment_frequency,
+      delivery_payment_percent: Number(formData.delivery_payment_percent),
+      delivery_months: Number(formData.delivery_months),
+      maintenance_deposit_percent: Number(formData.maintenance_deposit_percent),
+      club_fees: Number(formData.club_fees),
+      sort_order: parseInt(formData.sort_order) || 0,
+    };
+
+    const invalid = validatePaymentPlan(planData);
+    if (invalid) {
+      toast.error(invalid);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { error } = editing
+        ? await supabase.from('payment_plans').update(planData).eq('id', editing.id)
+        : await supabase.from('payment_plans').insert(planData);
+      if (error) throw error;
+
+      toast.success(editing ? 'Payment plan updated successfully' : 'Payment plan created successfully');
+      setIsDialogOpen(false);
+      resetForm();
+      fetchPlans();
+    } catch (err) {
+      console.error('Error saving payment plan:', err);
+      toast.error('Failed to save payment plan');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    try {
+      const { error } = await supabase.from('payment_plans').delete().eq('id', deleting.id);
+      if (error) throw error;
+
+      setPlans((prev) => prev.filter((p) => p.id !== deleting.id));
+      toast.success('Payment plan deleted');
+    } catch (err) {
+      console.error('Error deleting payment plan:', err);
+      toast.error('Failed to delete payment plan');
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  const targetName = (plan: PlanRow) => plan.project?.name || plan.property?.title || 'Unknown';
+
+  const filteredPlans = plans.filter((plan) => {
+    const query = searchQuery.toLowerCase();
+    return (
+      plan.name.toLowerCase().includes(query) ||
+      plan.name_ar?.toLowerCase().includes(query) ||
+      targetName(plan).toLowerCase().includes(query)
+    );
+  });
+
+  const targets = formData.target_type === 'project'
+    ? projects.map((p) => ({ id: p.id, label: p.name }))
+    : properties.map((p) => ({ id: p.id, label: p.title }));
+
+  const numberField = (key: keyof typeof emptyForm, label: string, step = '1') => (
+    <div>
+      <Label>{label}</Label>
+      <Input
+        type="number"
+        min="0"
+        step={step}
+        value={formData[key]}
+        onChange={(e) => setFormData({ ...formData, [key]: e.target.value })}
+        className="input-luxury mt-1"
+      />
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <PortalLayout title="Payment Plans" subtitle="Developer payment plans shown in the payment calculator">
+        <div className="flex items-center justify-center py-20">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      </PortalLayout>
+    );
+  }
+
+  return (
+    <PortalLayout title="Payment Plans" subtitle="Developer payment plans shown in the payment calculator">
+      {/* Header Actions */}
+      <div className="flex flex-col sm:flex-row gap-4 mb-6">
+        <div className="relative flex-1">
+          <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
+          <Input
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="Search plans, projects or properties..."
+            className="input-luxury pl-12"
+          />
+        </div>
+
+        <Dialog open={isDialogOpen} onOpenChange={(open) => { setIsDialogOpen(open); if (!open) resetForm(); }}>
+          <DialogTrigger asChild>
+            <Button className="btn-gold gap-2">
+              <Plus className="w-5 h-5" />
+              Add Payment Plan
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="glass-card border-border/30 sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle className="font-display text-xl">
+                {editing ? 'Edit Payment Plan' : 'Add New Payment Plan'}
+              </DialogTitle>
+              <DialogDescription>
+                Down, installment and delivery payments cover the price; the maintenance deposit and club fees are
+                due on top at delivery
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+              <div>
+                <Label>Applies To</Label>
+                <Select
+                  value={formData.target_type}
+                  onValueChange={(value) => setFormData({ ...formData, target_type: value as TargetType, target_id: '' })}
+                >
+                  <SelectTrigger className="input-luxury mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="project">Every unit in a project</SelectItem>
+                    <SelectItem value="property">A single property</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label>{formData.target_type === 'project' ? 'Project' : 'Property'}</Label>
+                <Select
+                  value={formData.target_id}
+                  onValueChange={(value) => setFormData({ ...formData, target_id: value })}
+                >
+                  <SelectTrigger className="input-luxury mt-1">
+                    <SelectValue placeholder={`Select ${formData.target_type}...`} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {targets.map((target) => (
+                      <SelectItem key={target.id} value={target.id}>
+                        {target.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label>Name (English)</Label>
+                <Input
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="e.g., 10% down over 8 years"
+                  className="input-luxury mt-1"
+                />
+              </div>
+
+              <div>
+                <Label>Name (Arabic)</Label>
+                <Input
+                  dir="rtl"
+                  value={formData.name_ar}
+                  onChange={(e) => setFormData({ ...formData, name_ar: e.target.value })}
+                  className="input-luxury mt-1"
+                />
+              </div>
+
+              {numberField('down_payment_percent', 'Down Payment (%)', '0.5')}
+              {numberField('installment_years', 'Installment Years')}
+
+              <div>
+                <Label>Installment Frequency</Label>
+                <Select
+                  value={formData.installment_frequency}
+                  onValueChange={(value) => setFormData({ ...formData, installment_frequency: value as InstallmentFrequency })}
+                >
+                  <SelectTrigger className="input-luxury mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {INSTALLMENT_FREQUENCIES.map((f) => (
+                      <SelectItem key={f.value} value={f.value}>
+                        {f.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {numberField('delivery_months', 'Delivery (months after contract)')}
+              {numberField('delivery_payment_percent', 'Delivery Payment (%)', '0.5')}
+              {numberField('maintenance_deposit_percent', 'Maintenance Deposit (%)', '0.5')}
+              {numberField('club_fees', 'Club Fees (EGP)', '1000')}
+              {numberField('sort_order', 'Sort Order')}
+
+              <div className="md:col-span-2">
+                <Button onClick={handleSave} disabled={isSaving} className="w-full btn-gold">
+                  {isSaving ? (
+                    <>
+                      <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                      Saving...
+                    </>
+                  ) : (
+                    editing ? 'Update Payment Plan' : 'Create Payment Plan'
+                  )}
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {/* Plans List */}
+      {filteredPlans.length === 0 ? (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="glass-card p-12 border border-border/20 text-center"
+        >
+          <CalendarClock className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+          <h3 className="font-display text-xl font-semibold text-foreground mb-2">
+            No Payment Plans Found
+          </h3>
+          <p className="text-muted-foreground">
+            {searchQuery ? 'Try a different search term' : 'Add a plan to show its schedule in the payment calculator'}
+          </p>
+        </motion.div>
+      ) : (
+        <div className="space-y-3">
+          {filteredPlans.map((plan, index) => (
+            <motion.div
+              key={plan.id}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: index * 0.05 }}
+              className="glass-card border border-border/20 p-5 hover:border-primary/30 transition-all"
+            >
+              <div className="flex items-start gap-4">
+                <div className="w-12 h-12 rounded-xl bg-primary/10 border border-primary/20 flex items-center justify-center shrink-0">
+                  <CalendarClock className="w-5 h-5 text-primary" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <h3 className="font-display text-lg font-semibold text-foreground">{plan.name}</h3>
+                    <Badge variant="outline" className="gap-1">
+                      {plan.project_id ? <Building className="w-3 h-3" /> : <Building2 className="w-3 h-3" />}
+                      {targetName(plan)}
+                    </Badge>
+                  </div>
+                  {plan.name_ar && (
+                    <p dir="rtl" className="text-sm text-muted-foreground">{plan.name_ar}</p>
+                  )}
+                  <p className="text-sm text-muted-foreground mt-2">{planSummary(plan)}</p>
+                  <p className="text-xs text-muted-foreground mt-1">Delivery {plan.delivery_months} months after contract</p>
+                </div>
+                <div className="flex shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleOpenEdit(plan)}
+                    className="text-muted-foreground hover:text-foreground"
+                  >
+                    <Edit className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setDeleting(plan)}
+                    className="text-muted-foreground hover:text-destructive"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            </motion.div>
+          ))}
+        </div>
+      )}
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent className="glass-card border-border/30">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete payment plan?</AlertDialogTitle>
+            <AlertDialogDescription>
+              “{deleting?.name}” will no longer be offered in the payment calculator.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </PortalLayout>
+  );
+};
+
+export default ManagePaymentPlans;
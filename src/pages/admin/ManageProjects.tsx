@@ -0,0 +1,516 @@
+/**
+ * Admin - Manage Projects
+ * CRUD for projects; unit counts and starting price come live from the linked properties
+ */
+
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { Building, Plus, Search, Loader2, MapPin, Edit, Trash2, Star, HardHat, ExternalLink } from 'lucide-react';
+import PortalLayout from '@/components/portal/PortalLayout';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { Developer, emptySummary, Project, ProjectSummary, summariesById } from '@/lib/projects';
+import { toast } from 'sonner';
+
+type ProjectRow = Project & { developer: Pick<Developer, 'name'> | null };
+
+const emptyForm = {
+  name: '',
+  name_ar: '',
+  description: '',
+  description_ar: '',
+  developer_id: '',
+  location: '',
+  city: '',
+  image_url: '',
+  delivery_year: '',
+  progress_percent: 0,
+  featured: false,
+};
+
+const ManageProjects = () => {
+  const [projects, setProjects] = useState<ProjectRow[]>([]);
+  const [developers, setDevelopers] = useState<Pick<Developer, 'id' | 'name'>[]>([]);
+  const [summaries, setSummaries] = useState<Map<string, ProjectSummary>>(new Map());
+  const [searchQuery, setSearchQuery] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<ProjectRow | null>(null);
+  const [deleting, setDeleting] = useState<ProjectRow | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const fetchData = async () => {
+    try {
+      const [{ data: projectData, error }, { data: developerData }, { data: summaryData }] = await Promise.all([
+        supabase.from('projects').select('*, developer:developers(name)').order('created_at', { ascending: false }),
+        supabase.from('developers').select('id, name').order('name'),
+        supabase.rpc('project_summaries'),
+      ]);
+      if (error) throw error;
+      setProjects((projectData as ProjectRow[]) || []);
+      setDevelopers(developerData || []);
+      setSummaries(summariesById(summaryData));
+    } catch (err) {
+      console.error('Error fetching projects:', err);
+      toast.error('Failed to load projects');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const resetForm = () => {
+    setFormData(emptyForm);
+    setEditing(null);
+  };
+
+  const handleOpenEdit = (project: ProjectRow) => {
+    setEditing(project);
+    setFormData({
+      name: project.name,
+      name_ar: project.name_ar || '',
+      description: project.description || '',
+      description_ar: project.description_ar || '',
+      developer_id: project.developer_id || '',
+      location: project.location || '',
+      city: project.city || '',
+      image_url: project.image_url || '',
+      delivery_year: project.delivery_year?.toString() || '',
+      progress_percent: project.progress_percent,
+      featured: project.featured,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!formData.name.trim()) {
+      toast.error('Name is required');
+      return;
+    }
+    const deliveryYear = formData.delivery_year ? parseInt(formData.delivery_year) : null;
+    if (deliveryYear !== null && (isNaN(deliveryYear) || deliveryYear < 2000 || deliveryYear > 2100)) {
+      toast.error('Delivery year must be between 2000 and 2100');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const projectData = {
+        name: formData.name.trim(),
+        name_ar: formData.name_ar.trim() || null,
+        description: formData.description.trim() || null,
+        description_ar: formData.description_ar.trim() || null,
+        developer_id: formData.developer_id || null,
+        location: formData.location.trim() || null,
+        city: formData.city.trim() || null,
+        image_url: formData.image_url.trim() || null,
+        delivery_year: deliveryYear,
+        progress_percent: formData.progress_percent,
+        featured: formData.featured,
+      };
+
+      const { error } = editing
+        ? await supabase.from('projects').update(projectData).eq('id', editing.id)
+        : await supabase.from('projects').insert(projectData);
+      if (error) throw error;
+
+      toast.success(editing ? 'Project updated successfully' : 'Project created successfully');
+      setIsDialogOpen(false);
+      resetForm();
+      fetchData();
+    } catch (err) {
+      console.error('Error saving project:', err);
+      toast.error('Failed to save project');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    try {
+      const { error } = await supabase.from('projects').delete().eq('id', deleting.id);
+      if (error) throw error;
+
+      setProjects((prev) => prev.filter((p) => p.id !== deleting.id));
+      toast.success('Project deleted');
+    } catch (err) {
+      console.error('Error deleting project:', err);
+      toast.error('Failed to delete project');
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  const filteredProjects = projects.filter((project) => {
+    const query = searchQuery.toLowerCase();
+    return (
+      project.name.toLowerCase().includes(query) ||
+      project.name_ar?.toLowerCase().includes(query) ||
+      project.location?.toLowerCase().includes(query) ||
+      project.developer?.name.toLowerCase().includes(query)
+    );
+  });
+
+  if (isLoading) {
+    return (
+      <PortalLayout title="Manage Projects" subtitle="Projects and the units listed in them">
+        <div className="flex items-center justify-center py-20">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      </PortalLayout>
+    );
+  }
+
+  return (
+    <PortalLayout title="Manage Projects" subtitle="Projects and the units listed in them">
+      {/* Header Actions */}
+      <div className="flex flex-col sm:flex-row gap-4 mb-6">
+        <div className="relative flex-1">
+          <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
+          <Input
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="Search projects..."
+            className="input-luxury pl-12"
+          />
+        </div>
+
+        <Dialog open={isDialogOpen} onOpenChange={(open) => { setIsDialogOpen(open); if (!open) resetForm(); }}>
+          <DialogTrigger asChild>
+            <Button className="btn-gold gap-2">
+              <Plus className="w-5 h-5" />
+              Add Project
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="glass-card border-border/30 sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle className="font-display text-xl">
+                {editing ? 'Edit Project' : 'Add New Project'}
+              </DialogTitle>
+              <DialogDescription>
+                Units are linked from the property form; availability and starting price update automatically.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+              <div>
+                <Label>Name (English)</Label>
+                <Input
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="e.g., Palm Hills New Cairo"
+                  className="input-luxury mt-1"
+                />
+              </div>
+
+              <div>
+                <Label>Name (Arabic)</Label>
+                <Input
+                  dir="rtl"
+                  value={formData.name_ar}
+                  onChange={(e) => setFormData({ ...formData, name_ar: e.target.value })}
+                  className="input-luxury mt-1"
+                />
+              </div>
+
+              <div className="md:col-span-2">
+                <Label>Description (English)</Label>
+                <Textarea
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  rows={3}
+                  className="input-luxury mt-1"
+                />
+              </div>
+
+              <div className="md:col-span-2">
+                <Label>Description (Arabic)</Label>
+                <Textarea
+                  dir="rtl"
+                  value={formData.description_ar}
+                  onChange={(e) => setFormData({ ...formData, description_ar: e.target.value })}
+                  rows={3}
+                  className="input-luxury mt-1"
+                />
+              </div>
+
+              <div>
+                <Label>Developer</Label>
+                <Select
+                  value={formData.developer_id || 'none'}
+                  onValueChange={(value) => setFormData({ ...formData, developer_id: value === 'none' ? '' : value })}
+                >
+                  <SelectTrigger className="input-luxury mt-1">
+                    <SelectValue placeholder="Select developer..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No developer</SelectItem>
+                    {developers.map((d) => (
+                      <SelectItem key={d.id} value={d.id}>
+                        {d.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label>Delivery Year</Label>
+                <Input
+                  type="number"
+                  value={formData.delivery_year}
+                  onChange={(e) => setFormData({ ...formData, delivery_year: e.target.value })}
+                  placeholder={String(new Date().getFullYear() + 2)}
+                  className="input-luxury mt-1"
+                />
+              </div>
+
+              <div>
+                <Label>Location</Label>
+                <Input
+                  value={formData.location}
+                  onChange={(e) => setFormData({ ...formData, location: e.target.value })}
+                  placeholder="e.g., New Cairo, Egypt"
+                  className="input-luxury mt-1"
+                />
+              </div>
+
+              <div>
+                <Label>City</Label>
+                <Input
+                  value={formData.city}
+                  onChange={(e) => setFormData({ ...formData, city: e.target.value })}
+                  placeholder="e.g., New Cairo"
+                  className="input-luxury mt-1"
+                />
+              </div>
+
+              <div className="md:col-span-2">
+                <Label>Image URL</Label>
+                <Input
+                  value={formData.image_url}
+                  onChange={(e) => setFormData({ ...formData, image_url: e.target.value })}
+                  placeholder="https://..."
+                  className="input-luxury mt-1"
+                />
+              </div>
+
+              <div className="md:col-span-2">
+                <Label>Construction Progress: {formData.progress_percent}%</Label>
+                <Slider
+                  value={[formData.progress_percent]}
+                  onValueChange={(value) => setFormData({ ...formData, progress_percent: value[0] })}
+                  max={100}
+                  step={5}
+                  className="mt-2"
+                />
+              </div>
+
+              <div className="md:col-span-2 flex items-center justify-between rounded-xl border border-border/30 p-4">
+                <div>
+                  <Label>Featured</Label>
+                  <p className="text-sm text-muted-foreground">Show in the highlighted section of the Projects page</p>
+                </div>
+                <Switch
+                  checked={formData.featured}
+                  onCheckedChange={(featured) => setFormData({ ...formData, featured })}
+                />
+              </div>
+
+              <div className="md:col-span-2">
+                <Button onClick={handleSave} disabled={isSaving} className="w-full btn-gold">
+                  {isSaving ? (
+                    <>
+                      <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                      Saving...
+                    </>
+                  ) : (
+                    editing ? 'Update Project' : 'Create Project'
+                  )}
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {/* Projects List */}
+      {filteredProjects.length === 0 ? (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="glass-card p-12 border border-border/20 text-center"
+        >
+          <Building className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+          <h3 className="font-display text-xl font-semibold text-foreground mb-2">
+            No Projects Found
+          </h3>
+          <p className="text-muted-foreground">
+            {searchQuery ? 'Try a different search term' : 'Add your first project to get started'}
+          </p>
+        </motion.div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {filteredProjects.map((project, index) => {
+            const summary = summaries.get(project.id) ?? emptySummary(project.id);
+            return (
+              <motion.div
+                key={project.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.05 }}
+                className="glass-card border border-border/20 overflow-hidden hover:border-primary/30 transition-all"
+              >
+                {/* Image */}
+                <div className="relative h-40 overflow-hidden">
+                  {project.image_url ? (
+                    <img src={project.image_url} alt={project.name} className="w-full h-full object-cover" />
+                  ) : (
+                    <div className="w-full h-full bg-gradient-to-br from-secondary to-background flex items-center justify-center">
+                      <Building className="w-12 h-12 text-muted-foreground" />
+                    </div>
+                  )}
+                  {project.featured && (
+                    <Badge className="absolute top-3 left-3 bg-primary text-primary-foreground gap-1">
+                      <Star className="w-3 h-3" />
+                      Featured
+                    </Badge>
+                  )}
+                </div>
+
+                {/* Content */}
+                <div className="p-5">
+                  <div className="flex items-start justify-between mb-3">
+                    <div className="min-w-0">
+                      <h3 className="font-display text-lg font-semibold text-foreground">{project.name}</h3>
+                      {project.location && (
+                        <p className="text-sm text-muted-foreground flex items-center gap-1 mt-1">
+                          <MapPin className="w-3 h-3" />
+                          {project.location}
+                        </p>
+                      )}
+                      {project.developer && (
+                        <p className="text-sm text-muted-foreground flex items-center gap-1 mt-1">
+                          <HardHat className="w-3 h-3" />
+                          {project.developer.name}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex shrink-0">
+                      <Button variant="ghost" size="icon" asChild className="text-muted-foreground hover:text-foreground">
+                        <Link to={`/projects/${project.id}`} target="_blank">
+                          <ExternalLink className="w-4 h-4" />
+                        </Link>
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleOpenEdit(project)}
+                        className="text-muted-foreground hover:text-foreground"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setDeleting(project)}
+                        className="text-muted-foreground hover:text-destructive"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  <div className="space-y-1">
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Progress</span>
+                      <span className="text-primary font-medium">{project.progress_percent}%</span>
+                    </div>
+                    <Progress value={project.progress_percent} className="h-2" />
+                  </div>
+
+                  <div className="mt-3 pt-3 border-t border-border/30 grid grid-cols-3 gap-2 text-sm">
+                    <div>
+                      <p className="text-muted-foreground">Listings</p>
+                      <p className="font-medium text-foreground">{summary.listings}</p>
+                    </div>
+                    <div>
+                      <p className="text-muted-foreground">Available</p>
+                      <p className="font-medium text-foreground">
+                        {summary.available_units} / {summary.total_units}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-muted-foreground">From</p>
+                      <p className="font-medium text-primary">
+                        {summary.starting_price != null ? `EGP ${summary.starting_price.toLocaleString()}` : '—'}
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              </motion.div>
+            );
+          })}
+        </div>
+      )}
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent className="glass-card border-border/30">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete project?</AlertDialogTitle>
+            <AlertDialogDescription>
+              “{deleting?.name}” will be removed. Its units stay listed but are no longer grouped under a project.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </PortalLayout>
+  );
+};
+
+export default ManageProjects;
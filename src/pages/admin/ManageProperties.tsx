@@ -12,12 +12,15 @@ import {
 } from 'lucide-react';
 import PriceDeltaIndicator from '@/components/property/PriceDeltaIndicator';
 import PropertyPhotoUpload from '@/components/property/PropertyPhotoUpload';
+import PropertyMediaManager from '@/components/property/PropertyMediaManager';
+import PropertyBulkImportDialog from '@/components/property/PropertyBulkImportDialog';
+import PropertyTranslationFields from '@/components/property/PropertyTranslationFields';
+import CoordinatePicker from '@/components/map/CoordinatePicker';
 import PortalLayout from '@/components/portal/PortalLayout';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
-import { Textarea } from '@/components/ui/textarea';
 import { Progress } from '@/components/ui/progress';
 import {
   Dialog,
@@ -37,13 +40,24 @@ import {
 import { Slider } from '@/components/ui/slider';
 import { supabase } from '@/integrations/supabase/client';
 import { useApiAuth } from '@/contexts/ApiAuthContext';
+import type { LatLng } from '@/lib/geoSearch';
+import { toTranslationColumns, toTranslationValues } from '@/lib/propertyContent';
 import { toast } from 'sonner';
 
 interface Property {
   id: string;
   title: string;
   description: string | null;
+  title_ar: string | null;
+  description_ar: string | null;
+  slug: string | null;
+  slug_ar: string | null;
   location: string | null;
+  city: string | null;
+  district: string | null;
+  finishing: string | null;
+  latitude: number | null;
+  longitude: number | null;
   price: number | null;
   beds: number | null;
   baths: number | null;
@@ -54,9 +68,16 @@ interface Property {
   assigned_user_id: string | null;
   created_at: string;
   price_delta_percent: number | null;
+  purchased_at: string | null;
+  project_id: string | null;
   assignedUser?: { full_name: string | null; email: string | null } | null;
 }
 
+interface ProjectOption {
+  id: string;
+  name: string;
+}
+
 interface UserOption {
   user_id: string;
   full_name: string | null;
@@ -67,6 +88,7 @@ const ManageProperties = () => {
   const { user } = useApiAuth();
   const [properties, setProperties] = useState<Property[]>([]);
   const [users, setUsers] = useState<UserOption[]>([]);
+  const [projects, setProjects] = useState<ProjectOption[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [isLoading, setIsLoading] = useState(true);
   const [isCreating, setIsCreating] = useState(false);
@@ -74,9 +96,12 @@ const ManageProperties = () => {
   const [editingProperty, setEditingProperty] = useState<Property | null>(null);
   
   const [formData, setFormData] = useState({
-    title: '',
-    description: '',
+    content: toTranslationValues(),
     location: '',
+    city: '',
+    district: '',
+    finishing: '',
+    coordinates: null as LatLng | null,
     price: '',
     beds: '',
     baths: '',
@@ -85,12 +110,13 @@ const ManageProperties = () => {
     status: 'under_construction' as 'under_construction' | 'delivered',
     progress_percent: 0,
     assigned_user_id: '',
-    price_delta_percent: '',
+    purchased_at: '',
+    project_id: '',
   });
 
   const fetchData = async () => {
     try {
-      const [{ data: propertiesData }, { data: usersData }] = await Promise.all([
+      const [{ data: propertiesData }, { data: usersData }, { data: projectsData }] = await Promise.all([
         supabase
           .from('properties')
           .select('*')
@@ -98,6 +124,10 @@ const ManageProperties = () => {
         supabase
           .from('profiles')
           .select('user_id, full_name, email'),
+        supabase
+          .from('projects')
+          .select('id, name')
+          .order('name'),
       ]);
 
       // Fetch assigned user info for each property
@@ -117,6 +147,7 @@ const ManageProperties = () => {
 
       setProperties(propertiesWithUsers);
       setUsers(usersData || []);
+      setProjects(projectsData || []);
     } catch (err) {
       console.error('Error fetching data:', err);
       toast.error('Failed to load properties');
@@ -131,9 +162,12 @@ const ManageProperties = () => {
 
   const resetForm = () => {
     setFormData({
-      title: '',
-      description: '',
+      content: toTranslationValues(),
       location: '',
+      city: '',
+      district: '',
+      finishing: '',
+      coordinates: null,
       price: '',
       beds: '',
       baths: '',
@@ -142,7 +176,8 @@ const ManageProperties = () => {
       status: 'under_construction',
       progress_percent: 0,
       assigned_user_id: '',
-      price_delta_percent: '',
+      purchased_at: '',
+      project_id: '',
     });
     setEditingProperty(null);
   };
@@ -150,9 +185,15 @@ const ManageProperties = () => {
   const handleOpenEdit = (property: Property) => {
     setEditingProperty(property);
     setFormData({
-      title: property.title,
-      description: property.description || '',
+      content: toTranslationValues(property),
       location: property.location || '',
+      city: property.city || '',
+      district: property.district || '',
+      finishing: property.finishing || '',
+      coordinates:
+        property.latitude != null && property.longitude != null
+          ? { lat: property.latitude, lng: property.longitude }
+          : null,
       price: property.price?.toString() || '',
       beds: property.beds?.toString() || '',
       baths: property.baths?.toString() || '',
@@ -161,13 +202,14 @@ const ManageProperties = () => {
       status: property.status as 'under_construction' | 'delivered',
       progress_percent: property.progress_percent || 0,
       assigned_user_id: property.assigned_user_id || '',
-      price_delta_percent: property.price_delta_percent?.toString() || '',
+      purchased_at: property.purchased_at?.slice(0, 10) || '',
+      project_id: property.project_id || '',
     });
     setIsDialogOpen(true);
   };
 
   const handleSaveProperty = async () => {
-    if (!formData.title.trim()) {
+    if (!formData.content.title.trim()) {
       toast.error('Title is required');
       return;
     }
@@ -175,9 +217,13 @@ const ManageProperties = () => {
     setIsCreating(true);
     try {
       const propertyData = {
-        title: formData.title,
-        description: formData.description || null,
+        ...toTranslationColumns(formData.content),
         location: formData.location || null,
+        city: formData.city.trim() || null,
+        district: formData.district.trim() || null,
+        finishing: formData.finishing || null,
+        latitude: formData.coordinates?.lat ?? null,
+        longitude: formData.coordinates?.lng ?? null,
         price: formData.price ? parseFloat(formData.price) : null,
         beds: formData.beds ? parseInt(formData.beds) : null,
         baths: formData.baths ? parseInt(formData.baths) : null,
@@ -186,8 +232,12 @@ const ManageProperties = () => {
         status: formData.status,
         progress_percent: formData.progress_percent,
         assigned_user_id: formData.assigned_user_id || null,
+        project_id: formData.project_id || null,
         created_by: user?.id || null,
-        price_delta_percent: formData.price_delta_percent ? parseFloat(formData.price_delta_percent) : null,
+        // Left out when untouched so the database stamps the date on (re)assignment
+        ...(formData.purchased_at !== (editingProperty?.purchased_at?.slice(0, 10) || '') && {
+          purchased_at: formData.purchased_at ? new Date(formData.purchased_at).toISOString() : null,
+        }),
       };
 
       if (editingProperty) {
@@ -220,6 +270,7 @@ const ManageProperties = () => {
     const query = searchQuery.toLowerCase();
     return (
       prop.title.toLowerCase().includes(query) ||
+      prop.title_ar?.toLowerCase().includes(query) ||
       prop.location?.toLowerCase().includes(query)
     );
   });
@@ -255,6 +306,8 @@ const ManageProperties = () => {
             className="input-luxury pl-12"
           />
         </div>
+
+        <PropertyBulkImportDialog onImported={fetchData} />
         
         <Dialog open={isDialogOpen} onOpenChange={(open) => { setIsDialogOpen(open); if (!open) resetForm(); }}>
           <DialogTrigger asChild>
@@ -275,22 +328,9 @@ const ManageProperties = () => {
             
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
               <div className="md:col-span-2">
-                <Label>Title *</Label>
-                <Input
-                  value={formData.title}
-                  onChange={(e) => setFormData({ ...formData, title: e.target.value })}
-                  placeholder="Property title"
-                  className="input-luxury mt-1"
-                />
-              </div>
-
-              <div className="md:col-span-2">
-                <Label>Description</Label>
-                <Textarea
-                  value={formData.description}
-                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                  placeholder="Property description"
-                  className="input-luxury mt-1 min-h-20"
+                <PropertyTranslationFields
+                  value={formData.content}
+                  onChange={(content) => setFormData({ ...formData, content })}
                 />
               </div>
 
@@ -304,6 +344,71 @@ const ManageProperties = () => {
                 />
               </div>
 
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label>City</Label>
+                  <Input
+                    value={formData.city}
+                    onChange={(e) => setFormData({ ...formData, city: e.target.value })}
+                    placeholder="e.g., New Cairo"
+                    className="input-luxury mt-1"
+                  />
+                </div>
+                <div>
+                  <Label>District</Label>
+                  <Input
+                    value={formData.district}
+                    onChange={(e) => setFormData({ ...formData, district: e.target.value })}
+                    placeholder="e.g., Fifth Settlement"
+                    className="input-luxury mt-1"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <Label>Project</Label>
+                <Select
+                  value={formData.project_id || 'none'}
+                  onValueChange={(value) => setFormData({ ...formData, project_id: value === 'none' ? '' : value })}
+                >
+                  <SelectTrigger className="input-luxury mt-1">
+                    <SelectValue placeholder="Select project..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Not part of a project</SelectItem>
+                    {projects.map((p) => (
+                      <SelectItem key={p.id} value={p.id}>
+                        {p.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label>Finishing</Label>
+                <Select
+                  value={formData.finishing || 'none'}
+                  onValueChange={(value) => setFormData({ ...formData, finishing: value === 'none' ? '' : value })}
+                >
+                  <SelectTrigger className="input-luxury mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Not specified</SelectItem>
+                    <SelectItem value="core_shell">Core &amp; Shell</SelectItem>
+                    <SelectItem value="semi_finished">Semi-Finished</SelectItem>
+                    <SelectItem value="fully_finished">Fully Finished</SelectItem>
+                    <SelectItem value="furnished">Furnished</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <CoordinatePicker
+                value={formData.coordinates}
+                onChange={(coordinates) => setFormData((prev) => ({ ...prev, coordinates }))}
+              />
+
               <div>
                 <Label>Price (EGP)</Label>
                 <Input
@@ -397,14 +502,17 @@ const ManageProperties = () => {
               </div>
 
               <div>
-                <Label>Price Delta (%)</Label>
+                <Label>Purchase Date</Label>
                 <Input
-                  type="number"
-                  value={formData.price_delta_percent}
-                  onChange={(e) => setFormData({ ...formData, price_delta_percent: e.target.value })}
-                  placeholder="e.g. 5 or -3"
+                  type="date"
+                  value={formData.purchased_at}
+                  onChange={(e) => setFormData({ ...formData, purchased_at: e.target.value })}
+                  disabled={!formData.assigned_user_id}
                   className="input-luxury mt-1"
                 />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Defaults to the day the unit is assigned to a client.
+                </p>
               </div>
 
               <div className="md:col-span-2">
@@ -418,7 +526,21 @@ const ManageProperties = () => {
                 />
               </div>
 
-              {/* Live Photos - only shown when editing */}
+              {/* Gallery and Live Photos - only shown when editing */}
+              {editingProperty && (
+                <div className="md:col-span-2 border-t border-border/20 pt-4">
+                  <PropertyMediaManager
+                    propertyId={editingProperty.id}
+                    onCoverChange={(url, previousUrl) =>
+                      setFormData((prev) => {
+                        if (url) return prev.image_url === url ? prev : { ...prev, image_url: url };
+                        return prev.image_url === previousUrl ? { ...prev, image_url: '' } : prev;
+                      })
+                    }
+                  />
+                </div>
+              )}
+
               {editingProperty && (
                 <div className="md:col-span-2 border-t border-border/20 pt-4">
                   <PropertyPhotoUpload propertyId={editingProperty.id} />
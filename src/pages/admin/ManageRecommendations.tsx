@@ -11,6 +11,11 @@ import {
   ExternalLink,
   ToggleLeft,
   ToggleRight,
+  Pin,
+  PinOff,
+  Eye,
+  EyeOff,
+  Wand2,
 } from 'lucide-react';
 import PortalLayout from '@/components/portal/PortalLayout';
 import { Button } from '@/components/ui/button';
@@ -35,6 +40,7 @@ import {
 } from '@/components/ui/select';
 import { supabase } from '@/integrations/supabase/client';
 import { useApiAuth } from '@/contexts/ApiAuthContext';
+import { propertyPath } from '@/lib/propertyContent';
 import { toast } from 'sonner';
 
 interface Recommendation {
@@ -47,15 +53,36 @@ interface Recommendation {
   is_active: boolean;
   sort_order: number;
   created_at: string;
+  property_id: string | null;
+  source: string;
+  score: number | null;
+  is_pinned: boolean;
+  is_suppressed: boolean;
   userName?: string;
 }
 
+interface Suggestion {
+  property_id: string;
+  title: string;
+  image_url: string | null;
+  slug: string | null;
+  price: number | null;
+  score: number;
+  reasons: string[];
+}
+
 interface UserOption {
   user_id: string;
   full_name: string | null;
   email: string | null;
 }
 
+// Generated rows start at 100 so hand-written ones (default 0) come first; pinned ones sit in between
+const PINNED_SORT_ORDER = 50;
+const PREVIEW_LIMIT = 10;
+
+const formatScore = (score: number | null) => (score === null ? null : `${Math.round(score * 100)}% match`);
+
 const ManageRecommendations = () => {
   const { user } = useApiAuth();
   const [recommendations, setRecommendations] = useState<Recommendation[]>([]);
@@ -65,6 +92,11 @@ const ManageRecommendations = () => {
   const [isSaving, setIsSaving] = useState(false);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingRec, setEditingRec] = useState<Recommendation | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+  const [previewUserId, setPreviewUserId] = useState('');
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [isPreviewLoading, setIsPreviewLoading] = useState(false);
 
   const [formData, setFormData] = useState({
     user_id: '',
@@ -142,6 +174,8 @@ const ManageRecommendations = () => {
         link: formData.link || null,
         sort_order: parseInt(formData.sort_order) || 0,
         created_by: user?.id || null,
+        // Hand edits to a generated suggestion would otherwise be lost on the next run
+        ...(editingRec?.source === 'auto' && { is_pinned: true }),
       };
 
       if (editingRec) {
@@ -187,6 +221,101 @@ const ManageRecommendations = () => {
     }
   };
 
+  const togglePinned = async (rec: Recommendation) => {
+    const { error } = await supabase
+      .from('recommendations')
+      .update(rec.is_pinned ? { is_pinned: false } : { is_pinned: true, sort_order: PINNED_SORT_ORDER })
+      .eq('id', rec.id);
+    if (error) {
+      toast.error('Failed to update suggestion');
+    } else {
+      toast.success(rec.is_pinned ? 'Suggestion unpinned' : 'Suggestion pinned');
+      fetchData();
+    }
+  };
+
+  const toggleSuppressed = async (rec: Recommendation) => {
+    const { error } = await supabase
+      .from('recommendations')
+      .update({ is_suppressed: !rec.is_suppressed, is_active: rec.is_suppressed, is_pinned: false })
+      .eq('id', rec.id);
+    if (error) {
+      toast.error('Failed to update suggestion');
+    } else {
+      toast.success(rec.is_suppressed ? 'Suggestion restored' : 'Suggestion suppressed');
+      fetchData();
+    }
+  };
+
+  const handleGenerate = async (userId?: string) => {
+    setIsGenerating(true);
+    try {
+      const { data, error } = await supabase.rpc('generate_recommendations', userId ? { p_user_id: userId } : {});
+      if (error) throw error;
+      toast.success(`Generated ${data ?? 0} suggestion${data === 1 ? '' : 's'}`);
+      fetchData();
+      if (userId) loadPreview(userId);
+    } catch (err) {
+      console.error(err);
+      toast.error('Failed to generate recommendations');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const loadPreview = async (userId: string) => {
+    setPreviewUserId(userId);
+    setIsPreviewLoading(true);
+    try {
+      const { data, error } = await supabase.rpc('recommendation_candidates', {
+        p_user_id: userId,
+        p_limit: PREVIEW_LIMIT,
+      });
+      if (error) throw error;
+      setSuggestions(data || []);
+    } catch (err) {
+      console.error(err);
+      toast.error('Failed to load suggestions');
+    } finally {
+      setIsPreviewLoading(false);
+    }
+  };
+
+  // Pinning or suppressing from the preview updates the generated row if the last run created one
+  const handleSuggestion = async (suggestion: Suggestion, action: 'pin' | 'suppress') => {
+    const flags = action === 'pin'
+      ? { is_pinned: true, is_suppressed: false, is_active: true, sort_order: PINNED_SORT_ORDER }
+      : { is_pinned: false, is_suppressed: true, is_active: false };
+    const existing = recommendations.find(
+      (r) => r.user_id === previewUserId && r.source === 'auto' && r.property_id === suggestion.property_id
+    );
+
+    const { error } = existing
+      ? await supabase.from('recommendations').update(flags).eq('id', existing.id)
+      : await supabase.from('recommendations').insert({
+          user_id: previewUserId,
+          property_id: suggestion.property_id,
+          source: 'auto',
+          title: suggestion.title,
+          description: suggestion.reasons.join(' · ') || null,
+          image_url: suggestion.image_url,
+          link: propertyPath({ id: suggestion.property_id, slug: suggestion.slug, slug_ar: null }, 'en'),
+          score: suggestion.score,
+          generated_at: new Date().toISOString(),
+          created_by: user?.id || null,
+          ...flags,
+        });
+
+    if (error) {
+      console.error(error);
+      toast.error('Failed to update suggestion');
+      return;
+    }
+    toast.success(action === 'pin' ? 'Suggestion pinned' : 'Suggestion suppressed');
+    setSuggestions((prev) => prev.filter((s) => s.property_id !== suggestion.property_id));
+    fetchData();
+  };
+
   const filtered = recommendations.filter(r => {
     const q = searchQuery.toLowerCase();
     return r.title.toLowerCase().includes(q) || r.userName?.toLowerCase().includes(q);
@@ -215,6 +344,112 @@ const ManageRecommendations = () => {
             className="input-luxury pl-12"
           />
         </div>
+        <Button variant="outline" onClick={() => handleGenerate()} disabled={isGenerating} className="gap-2">
+          {isGenerating ? <Loader2 className="w-5 h-5 animate-spin" /> : <Wand2 className="w-5 h-5" />}
+          Generate Now
+        </Button>
+        <Dialog
+          open={isPreviewOpen}
+          onOpenChange={(open) => {
+            setIsPreviewOpen(open);
+            if (!open) {
+              setPreviewUserId('');
+              setSuggestions([]);
+            }
+          }}
+        >
+          <DialogTrigger asChild>
+            <Button variant="outline" className="gap-2">
+              <Eye className="w-5 h-5" />
+              Preview Suggestions
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="glass-card border-border/30 sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle className="font-display text-xl">Preview Suggestions</DialogTitle>
+              <DialogDescription>
+                What the next run would suggest, based on the client's assets, leads and browsing history
+              </DialogDescription>
+            </DialogHeader>
+            <div className="grid gap-4 mt-4">
+              <div className="flex gap-2">
+                <Select value={previewUserId || 'none'} onValueChange={(v) => v !== 'none' && loadPreview(v)}>
+                  <SelectTrigger className="input-luxury flex-1">
+                    <SelectValue placeholder="Select client..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none" disabled>Select client...</SelectItem>
+                    {users.map((u) => (
+                      <SelectItem key={u.user_id} value={u.user_id}>
+                        {u.full_name || u.email || 'Unknown'}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  onClick={() => handleGenerate(previewUserId)}
+                  disabled={!previewUserId || isGenerating}
+                  className="gap-2"
+                >
+                  {isGenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Wand2 className="w-4 h-4" />}
+                  Generate
+                </Button>
+              </div>
+
+              {isPreviewLoading ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="w-6 h-6 animate-spin text-primary" />
+                </div>
+              ) : previewUserId && suggestions.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-8">
+                  Not enough to go on for this client yet, or every match is already pinned, suppressed or recommended by hand
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {suggestions.map((suggestion) => (
+                    <div
+                      key={suggestion.property_id}
+                      className="flex items-center gap-3 p-3 rounded-lg border border-border/20 bg-secondary/20"
+                    >
+                      {suggestion.image_url ? (
+                        <img src={suggestion.image_url} alt="" className="w-12 h-12 rounded-lg object-cover flex-shrink-0" />
+                      ) : (
+                        <div className="w-12 h-12 rounded-lg bg-primary/10 flex items-center justify-center flex-shrink-0">
+                          <Sparkles className="w-5 h-5 text-primary" />
+                        </div>
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium text-foreground truncate">{suggestion.title}</p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {[formatScore(suggestion.score), ...suggestion.reasons].join(' · ')}
+                        </p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Pin"
+                        onClick={() => handleSuggestion(suggestion, 'pin')}
+                        className="text-muted-foreground hover:text-primary"
+                      >
+                        <Pin className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Suppress"
+                        onClick={() => handleSuggestion(suggestion, 'suppress')}
+                        className="text-muted-foreground hover:text-destructive"
+                      >
+                        <EyeOff className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </DialogContent>
+        </Dialog>
         <Dialog open={isDialogOpen} onOpenChange={(open) => { setIsDialogOpen(open); if (!open) resetForm(); }}>
           <DialogTrigger asChild>
             <Button className="btn-gold gap-2">
@@ -319,7 +554,7 @@ const ManageRecommendations = () => {
         >
           <Sparkles className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
           <h3 className="font-display text-xl font-semibold text-foreground mb-2">No Recommendations</h3>
-          <p className="text-muted-foreground">Create your first recommendation to get started</p>
+          <p className="text-muted-foreground">Create your first recommendation or generate suggestions to get started</p>
         </motion.div>
       ) : (
         <div className="space-y-3">
@@ -339,7 +574,10 @@ const ManageRecommendations = () => {
                 </div>
               )}
               <div className="flex-1 min-w-0">
-                <p className="font-medium text-foreground truncate">{rec.title}</p>
+                <p className="font-medium text-foreground truncate flex items-center gap-2">
+                  {rec.title}
+                  {rec.is_pinned && <Pin className="w-3.5 h-3.5 text-primary flex-shrink-0" />}
+                </p>
                 <p className="text-sm text-muted-foreground flex items-center gap-1">
                   <User className="w-3 h-3" />
                   {rec.userName}
@@ -351,16 +589,49 @@ const ManageRecommendations = () => {
                   </p>
                 )}
               </div>
-              <Badge className={rec.is_active
-                ? 'bg-success/20 text-success border-success/30'
-                : 'bg-secondary text-muted-foreground border-border/30'
-              }>
-                {rec.is_active ? 'Active' : 'Inactive'}
-              </Badge>
+              {rec.source === 'auto' && (
+                <Badge variant="outline" className="border-primary/30 text-primary">
+                  {formatScore(rec.score) ?? 'Auto'}
+                </Badge>
+              )}
+              {rec.is_suppressed ? (
+                <Badge className="bg-destructive/10 text-destructive border-destructive/30">Suppressed</Badge>
+              ) : (
+                <Badge className={rec.is_active
+                  ? 'bg-success/20 text-success border-success/30'
+                  : 'bg-secondary text-muted-foreground border-border/30'
+                }>
+                  {rec.is_active ? 'Active' : 'Inactive'}
+                </Badge>
+              )}
               <div className="flex items-center gap-1">
-                <Button variant="ghost" size="icon" onClick={() => toggleActive(rec)} className="text-muted-foreground hover:text-foreground">
-                  {rec.is_active ? <ToggleRight className="w-4 h-4 text-success" /> : <ToggleLeft className="w-4 h-4" />}
-                </Button>
+                {rec.source === 'auto' && !rec.is_suppressed && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title={rec.is_pinned ? 'Unpin' : 'Pin'}
+                    onClick={() => togglePinned(rec)}
+                    className="text-muted-foreground hover:text-foreground"
+                  >
+                    {rec.is_pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+                  </Button>
+                )}
+                {rec.source === 'auto' && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title={rec.is_suppressed ? 'Restore' : 'Suppress'}
+                    onClick={() => toggleSuppressed(rec)}
+                    className="text-muted-foreground hover:text-foreground"
+                  >
+                    {rec.is_suppressed ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+                  </Button>
+                )}
+                {!rec.is_suppressed && (
+                  <Button variant="ghost" size="icon" onClick={() => toggleActive(rec)} className="text-muted-foreground hover:text-foreground">
+                    {rec.is_active ? <ToggleRight className="w-4 h-4 text-success" /> : <ToggleLeft className="w-4 h-4" />}
+                  </Button>
+                )}
                 <Button variant="ghost" size="icon" onClick={() => handleOpenEdit(rec)} className="text-muted-foreground hover:text-foreground">
                   <Edit className="w-4 h-4" />
                 </Button>
@@ -1,15 +1,178 @@
 import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { Settings as SettingsIcon, Phone, Save, Loader2 } from 'lucide-react';
+import {
+  Settings as SettingsIcon,
+  Phone,
+  Save,
+  Loader2,
+  TrendingUp,
+  Sparkles,
+  RotateCcw,
+  ArrowLeftRight,
+  Plus,
+  Trash2,
+} from 'lucide-react';
 import PortalLayout from '@/components/portal/PortalLayout';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import {
+  DEFAULT_SIMILARITY_WEIGHTS,
+  MAX_SIMILARITY_WEIGHT,
+  parseSimilarityWeights,
+  SIMILARITY_FACTORS,
+  SIMILARITY_WEIGHTS_KEY,
+  SimilarityFactor,
+} from '@/lib/similarity';
+import { ExchangeRate, ratesOn } from '@/lib/currency';
+
+const toWeightInputs = (weights: Record<SimilarityFactor, number>) =>
+  Object.fromEntries(Object.entries(weights).map(([key, weight]) => [key, String(weight)])) as Record<
+    SimilarityFactor,
+    string
+  >;
+
+type ExchangeRateRow = ExchangeRate & { id: string };
+
+/** Dated EGP-per-USD rates; the latest one that has taken effect converts prices on the site. */
+const ExchangeRates = () => {
+  const [rates, setRates] = useState<ExchangeRateRow[]>([]);
+  const [rate, setRate] = useState('');
+  const [effectiveDate, setEffectiveDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchRates = async () => {
+    const { data, error } = await supabase
+      .from('exchange_rates')
+      .select('id, currency, rate, effective_date')
+      .order('effective_date', { ascending: false });
+    if (error) {
+      console.error('Error fetching exchange rates:', error);
+      toast.error('Failed to load exchange rates');
+      return;
+    }
+    setRates((data || []) as ExchangeRateRow[]);
+  };
+
+  useEffect(() => {
+    fetchRates();
+  }, []);
+
+  const currentId = (ratesOn(rates).USD as ExchangeRateRow | undefined)?.id;
+
+  const handleAdd = async () => {
+    const value = Number(rate);
+    if (!(value > 0) || !effectiveDate) {
+      toast.error('Enter a positive rate and an effective date');
+      return;
+    }
+
+    setIsSaving(true);
+    const { error } = await supabase
+      .from('exchange_rates')
+      .upsert({ currency: 'USD', rate: value, effective_date: effectiveDate }, { onConflict: 'currency,effective_date' });
+    setIsSaving(false);
+
+    if (error) {
+      console.error('Error saving exchange rate:', error);
+      toast.error('Failed to save exchange rate');
+      return;
+    }
+    toast.success('Exchange rate saved');
+    setRate('');
+    fetchRates();
+  };
+
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase.from('exchange_rates').delete().eq('id', id);
+    if (error) {
+      toast.error('Failed to delete exchange rate');
+    } else {
+      fetchRates();
+    }
+  };
+
+  return (
+    <div className="glass-card p-8 border border-border/20 mt-6">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="w-12 h-12 rounded-xl bg-primary/10 border border-primary/20 flex items-center justify-center">
+          <ArrowLeftRight className="w-6 h-6 text-primary" />
+        </div>
+        <div>
+          <h2 className="font-display text-xl font-semibold text-foreground">
+            Exchange Rates
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            Visitors who switch to USD see prices converted at the latest rate in effect, marked as approximate
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-[1fr_1fr_auto] gap-3 items-end">
+        <div>
+          <Label>EGP per 1 USD</Label>
+          <Input
+            type="number"
+            min={0}
+            step={0.01}
+            value={rate}
+            onChange={(e) => setRate(e.target.value)}
+            placeholder="48.50"
+            className="input-luxury mt-1"
+          />
+        </div>
+        <div>
+          <Label>Effective from</Label>
+          <Input
+            type="date"
+            value={effectiveDate}
+            onChange={(e) => setEffectiveDate(e.target.value)}
+            className="input-luxury mt-1"
+          />
+        </div>
+        <Button onClick={handleAdd} disabled={isSaving} className="btn-gold gap-2">
+          {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+          Add Rate
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground mt-2">
+        Adding a rate for a date that already has one replaces it
+      </p>
+
+      {rates.length > 0 && (
+        <div className="mt-6 divide-y divide-border/30">
+          {rates.map((row) => (
+            <div key={row.id} className="flex items-center justify-between py-3">
+              <div className="flex items-center gap-3">
+                <span className="font-medium text-foreground">{row.rate} EGP / {row.currency}</span>
+                <span className="text-sm text-muted-foreground">from {row.effective_date}</span>
+                {row.id === currentId && (
+                  <Badge className="bg-success/20 text-success border-success/30">Current</Badge>
+                )}
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => handleDelete(row.id)}
+                className="text-muted-foreground hover:text-destructive"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
 
 const Settings = () => {
   const [whatsappNumber, setWhatsappNumber] = useState('');
+  const [priceDeltaWindow, setPriceDeltaWindow] = useState('90');
+  const [similarityWeights, setSimilarityWeights] = useState(() => toWeightInputs(DEFAULT_SIMILARITY_WEIGHTS));
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
 
@@ -18,12 +181,14 @@ const Settings = () => {
       try {
         const { data, error } = await supabase
           .from('settings')
-          .select('value')
-          .eq('key', 'whatsapp_number')
-          .maybeSingle();
+          .select('key, value')
+          .in('key', ['whatsapp_number', 'price_delta_window_days', SIMILARITY_WEIGHTS_KEY]);
 
         if (error) throw error;
-        setWhatsappNumber(data?.value || '');
+        const values = new Map((data || []).map((row) => [row.key, row.value]));
+        setWhatsappNumber(values.get('whatsapp_number') || '');
+        setPriceDeltaWindow(values.get('price_delta_window_days') || '90');
+        setSimilarityWeights(toWeightInputs(parseSimilarityWeights(values.get(SIMILARITY_WEIGHTS_KEY))));
       } catch (err) {
         console.error('Error fetching settings:', err);
       } finally {
@@ -35,14 +200,34 @@ const Settings = () => {
   }, []);
 
   const handleSave = async () => {
+    const windowDays = Number(priceDeltaWindow);
+    if (!Number.isInteger(windowDays) || windowDays < 1 || windowDays > 3650) {
+      toast.error('Price change window must be between 1 and 3650 days');
+      return;
+    }
+
+    const weights = Object.fromEntries(
+      SIMILARITY_FACTORS.map(({ key }) => [key, Number(similarityWeights[key])])
+    ) as Record<SimilarityFactor, number>;
+    const weightValues = Object.values(weights);
+    if (weightValues.some((w) => !isFinite(w) || w < 0 || w > MAX_SIMILARITY_WEIGHT)) {
+      toast.error(`Similarity weights must be between 0 and ${MAX_SIMILARITY_WEIGHT}`);
+      return;
+    }
+    if (weightValues.every((w) => w === 0)) {
+      toast.error('At least one similarity weight must be above 0');
+      return;
+    }
+
     setIsSaving(true);
     try {
       const { error } = await supabase
         .from('settings')
-        .upsert({
-          key: 'whatsapp_number',
-          value: whatsappNumber,
-        }, {
+        .upsert([
+          { key: 'whatsapp_number', value: whatsappNumber },
+          { key: 'price_delta_window_days', value: String(windowDays) },
+          { key: SIMILARITY_WEIGHTS_KEY, value: JSON.stringify(weights) },
+        ], {
           onConflict: 'key',
         });
 
@@ -108,6 +293,67 @@ const Settings = () => {
               </p>
             </div>
 
+            <div>
+              <Label className="flex items-center gap-2">
+                <TrendingUp className="w-4 h-4 text-primary" />
+                Price Change Window (days)
+              </Label>
+              <p className="text-sm text-muted-foreground mt-1 mb-2">
+                Price change badges compare each listing's current price with its price this many days ago
+              </p>
+              <Input
+                type="number"
+                min={1}
+                max={3650}
+                value={priceDeltaWindow}
+                onChange={(e) => setPriceDeltaWindow(e.target.value)}
+                className="input-luxury"
+              />
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between gap-4">
+                <Label className="flex items-center gap-2">
+                  <Sparkles className="w-4 h-4 text-primary" />
+                  Similar Listings Weights
+                </Label>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="gap-1.5 text-muted-foreground"
+                  onClick={() => setSimilarityWeights(toWeightInputs(DEFAULT_SIMILARITY_WEIGHTS))}
+                >
+                  <RotateCcw className="w-3.5 h-3.5" />
+                  Reset to defaults
+                </Button>
+              </div>
+              <p className="text-sm text-muted-foreground mt-1 mb-3">
+                How much each factor counts when ranking the similar listings shown on a property page (0 ignores it, {MAX_SIMILARITY_WEIGHT} is the most)
+              </p>
+              <div className="grid gap-3 sm:grid-cols-2">
+                {SIMILARITY_FACTORS.map(({ key, label, description }) => (
+                  <div key={key} className="flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-foreground">{label}</p>
+                      <p className="text-xs text-muted-foreground truncate" title={description}>
+                        {description}
+                      </p>
+                    </div>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={MAX_SIMILARITY_WEIGHT}
+                      step={0.5}
+                      value={similarityWeights[key]}
+                      onChange={(e) => setSimilarityWeights((prev) => ({ ...prev, [key]: e.target.value }))}
+                      className="input-luxury w-20 shrink-0"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
             <Button
               onClick={handleSave}
               disabled={isSaving}
@@ -127,6 +373,8 @@ const Settings = () => {
             </Button>
           </div>
         </div>
+
+        <ExchangeRates />
       </motion.div>
     </PortalLayout>
   );
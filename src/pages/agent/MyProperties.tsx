@@ -4,6 +4,7 @@
  */
 
 import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import {
   Building2,
@@ -13,8 +14,11 @@ import {
   Send,
   Eye,
   Filter,
+  Languages,
+  Loader2,
 } from 'lucide-react';
 import PortalLayout from '@/components/portal/PortalLayout';
+import PropertyTranslationFields from '@/components/property/PropertyTranslationFields';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -36,10 +40,21 @@ import {
 } from '@/components/ui/dialog';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import {
+  PropertyTranslationValues,
+  propertyPath,
+  toTranslationColumns,
+  toTranslationValues,
+} from '@/lib/propertyContent';
 
 interface AgentPropertyItem {
   id: string;
   title: string;
+  description: string | null;
+  title_ar: string | null;
+  description_ar: string | null;
+  slug: string | null;
+  slug_ar: string | null;
   location: string | null;
   price: number | null;
   beds: number | null;
@@ -49,6 +64,9 @@ interface AgentPropertyItem {
   status: string;
 }
 
+const PROPERTY_COLUMNS =
+  'id, title, description, title_ar, description_ar, slug, slug_ar, location, price, beds, baths, area, image_url, status';
+
 const statusConfig: Record<string, { label: string; color: string }> = {
   draft: { label: 'Draft', color: 'bg-secondary/50 text-foreground border-border/50' },
   pending_approval: { label: 'Pending', color: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30' },
@@ -65,6 +83,9 @@ const AgentProperties = () => {
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [submitDialogOpen, setSubmitDialogOpen] = useState(false);
   const [selectedProperty, setSelectedProperty] = useState<AgentPropertyItem | null>(null);
+  const [editingProperty, setEditingProperty] = useState<AgentPropertyItem | null>(null);
+  const [content, setContent] = useState<PropertyTranslationValues>(toTranslationValues());
+  const [savingContent, setSavingContent] = useState(false);
 
   useEffect(() => {
     fetchProperties();
@@ -78,7 +99,7 @@ const AgentProperties = () => {
 
       const { data, error } = await supabase
         .from('properties')
-        .select('id, title, location, price, beds, baths, area, image_url, status')
+        .select(PROPERTY_COLUMNS)
         .eq('created_by', user.id)
         .order('created_at', { ascending: false });
 
@@ -126,8 +147,54 @@ const AgentProperties = () => {
     }
   };
 
+  const openEdit = (property: AgentPropertyItem) => {
+    setEditingProperty(property);
+    setContent(toTranslationValues(property));
+  };
+
+  const saveContent = async () => {
+    if (!editingProperty) return;
+    if (!content.title.trim()) {
+      toast({
+        title: 'Error',
+        description: 'English title is required',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSavingContent(true);
+    try {
+      const { data, error } = await supabase
+        .from('properties')
+        .update(toTranslationColumns(content))
+        .eq('id', editingProperty.id)
+        .select(PROPERTY_COLUMNS)
+        .single();
+
+      if (error) throw error;
+
+      setProperties(properties.map((p) => (p.id === data.id ? data : p)));
+      setEditingProperty(null);
+      toast({
+        title: 'Success',
+        description: 'Listing text updated',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to update listing text',
+        variant: 'destructive',
+      });
+    } finally {
+      setSavingContent(false);
+    }
+  };
+
   const filteredProperties = properties.filter((property) => {
-    const matchesSearch = property.title.toLowerCase().includes(searchQuery.toLowerCase());
+    const query = searchQuery.toLowerCase();
+    const matchesSearch =
+      property.title.toLowerCase().includes(query) || !!property.title_ar?.toLowerCase().includes(query);
     const matchesStatus = statusFilter === 'all' || property.status === statusFilter;
     return matchesSearch && matchesStatus;
   });
@@ -230,9 +297,16 @@ const AgentProperties = () => {
                       </Badge>
                     </div>
                     <CardContent className="p-4">
-                      <h3 className="font-medium text-foreground mb-1 line-clamp-1">
-                        {property.title}
-                      </h3>
+                      <div className="flex items-start justify-between gap-2 mb-1">
+                        <h3 className="font-medium text-foreground line-clamp-1">
+                          {property.title}
+                        </h3>
+                        {!property.title_ar && (
+                          <Badge variant="outline" className="shrink-0 text-xs font-normal">
+                            No Arabic
+                          </Badge>
+                        )}
+                      </div>
                       <p className="text-sm text-muted-foreground mb-2">{property.location || 'No location'}</p>
                       <p className="text-primary font-semibold mb-4">
                         {property.price ? formatPrice(property.price) : 'Price TBD'}
@@ -245,7 +319,13 @@ const AgentProperties = () => {
                         <span>{property.area ?? 0} sqm</span>
                       </div>
                       <div className="flex gap-2">
-                        <Button size="sm" variant="outline" className="flex-1 border-border/50">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="flex-1 border-border/50"
+                          disabled={property.status === 'pending_approval'}
+                          onClick={() => openEdit(property)}
+                        >
                           <Edit2 className="w-4 h-4 mr-1" />
                           Edit
                         </Button>
@@ -263,9 +343,11 @@ const AgentProperties = () => {
                           </Button>
                         )}
                         {property.status === 'published' && (
-                          <Button size="sm" variant="outline" className="flex-1 border-border/50">
-                            <Eye className="w-4 h-4 mr-1" />
-                            View
+                          <Button asChild size="sm" variant="outline" className="flex-1 border-border/50">
+                            <Link to={propertyPath(property, 'en')}>
+                              <Eye className="w-4 h-4 mr-1" />
+                              View
+                            </Link>
                           </Button>
                         )}
                       </div>
@@ -277,6 +359,31 @@ const AgentProperties = () => {
           </div>
         )}
 
+        {/* Edit Listing Text Dialog */}
+        <Dialog open={!!editingProperty} onOpenChange={(open) => !open && setEditingProperty(null)}>
+          <DialogContent className="glass-card border-border/50 sm:max-w-xl">
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <Languages className="w-5 h-5 text-primary" />
+                Edit Listing Text
+              </DialogTitle>
+              <DialogDescription>
+                Title, description and link for English and Arabic visitors.
+              </DialogDescription>
+            </DialogHeader>
+            <PropertyTranslationFields value={content} onChange={setContent} />
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setEditingProperty(null)}>
+                Cancel
+              </Button>
+              <Button onClick={saveContent} disabled={savingContent}>
+                {savingContent && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save Changes
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
         {/* Submit for Approval Dialog */}
         <Dialog open={submitDialogOpen} onOpenChange={setSubmitDialogOpen}>
           <DialogContent className="glass-card border-border/50">
@@ -8,7 +8,9 @@ import { Badge } from '@/components/ui/badge';
 import { useApiAuth } from '@/contexts/ApiAuthContext';
 import PriceDeltaIndicator from '@/components/property/PriceDeltaIndicator';
 import LivePhotosGallery from '@/components/property/LivePhotosGallery';
+import PriceHistoryChart from '@/components/property/PriceHistoryChart';
 import { supabase } from '@/integrations/supabase/client';
+import { PriceHistoryEntry, toChartPoints, valueSincePurchase } from '@/lib/priceHistory';
 
 interface Property {
   id: string;
@@ -22,11 +24,13 @@ interface Property {
   baths: number | null;
   area: number | null;
   price_delta_percent: number | null;
+  purchased_at: string | null;
 }
 
 const MyAssets = () => {
   const { user } = useApiAuth();
   const [properties, setProperties] = useState<Property[]>([]);
+  const [priceHistory, setPriceHistory] = useState<PriceHistoryEntry[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
@@ -44,6 +48,16 @@ const MyAssets = () => {
 
         if (fetchError) throw fetchError;
         setProperties(data || []);
+
+        if (data && data.length > 0) {
+          const { data: historyData, error: historyError } = await supabase
+            .from('property_price_history')
+            .select('*')
+            .in('property_id', data.map((p) => p.id))
+            .order('changed_at');
+          if (historyError) throw historyError;
+          setPriceHistory(historyData || []);
+        }
       } catch (err) {
         console.error('Error fetching properties:', err);
         setError('Failed to load your properties');
@@ -73,6 +87,14 @@ const MyAssets = () => {
     }
   };
 
+  const historyByProperty = useMemo(() => {
+    const grouped = new Map<string, PriceHistoryEntry[]>();
+    for (const entry of priceHistory) {
+      grouped.set(entry.property_id, [...(grouped.get(entry.property_id) || []), entry]);
+    }
+    return grouped;
+  }, [priceHistory]);
+
   const filteredProperties = useMemo(() => {
     if (!searchQuery.trim()) return properties;
     const q = searchQuery.toLowerCase();
@@ -132,87 +154,102 @@ const MyAssets = () => {
         </motion.div>
       ) : (
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          {filteredProperties.map((property, index) => (
-            <motion.div
-              key={property.id}
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ duration: 0.4, delay: index * 0.1 }}
-              className="glass-card border border-border/20 overflow-hidden hover:border-primary/30 transition-all duration-300"
-            >
-              {/* Property Image */}
-              <div className="relative h-48 overflow-hidden">
-                {property.image_url ? (
-                  <img
-                    src={property.image_url}
-                    alt={property.title}
-                    className="w-full h-full object-cover"
-                  />
-                ) : (
-                  <div className="w-full h-full bg-gradient-to-br from-secondary to-background flex items-center justify-center">
-                    <Building2 className="w-16 h-16 text-muted-foreground" />
+          {filteredProperties.map((property, index) => {
+            const history = historyByProperty.get(property.id) || [];
+            const change = valueSincePurchase(history, property.purchased_at, property.price);
+            return (
+              <motion.div
+                key={property.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ duration: 0.4, delay: index * 0.1 }}
+                className="glass-card border border-border/20 overflow-hidden hover:border-primary/30 transition-all duration-300"
+              >
+                {/* Property Image */}
+                <div className="relative h-48 overflow-hidden">
+                  {property.image_url ? (
+                    <img
+                      src={property.image_url}
+                      alt={property.title}
+                      className="w-full h-full object-cover"
+                    />
+                  ) : (
+                    <div className="w-full h-full bg-gradient-to-br from-secondary to-background flex items-center justify-center">
+                      <Building2 className="w-16 h-16 text-muted-foreground" />
+                    </div>
+                  )}
+                  
+                  {/* Status Badge */}
+                  <div className="absolute top-4 right-4">
+                    {getStatusBadge(property.status)}
                   </div>
-                )}
-                
-                {/* Status Badge */}
-                <div className="absolute top-4 right-4">
-                  {getStatusBadge(property.status)}
                 </div>
-              </div>
-
-              {/* Content */}
-              <div className="p-6">
-                <h3 className="font-display text-xl font-semibold text-foreground mb-2">
-                  {property.title}
-                </h3>
-
-                {property.location && (
-                  <div className="flex items-center gap-2 text-muted-foreground mb-4">
-                    <MapPin className="w-4 h-4" />
-                    <span className="text-sm">{property.location}</span>
-                  </div>
-                )}
 
-                {/* Property Details */}
-                <div className="flex items-center gap-4 text-sm text-muted-foreground mb-4">
-                  {property.beds && <span>{property.beds} Beds</span>}
-                  {property.baths && <span>{property.baths} Baths</span>}
-                  {property.area && <span>{property.area} m²</span>}
-                </div>
+                {/* Content */}
+                <div className="p-6">
+                  <h3 className="font-display text-xl font-semibold text-foreground mb-2">
+                    {property.title}
+                  </h3>
 
-                {/* Progress */}
-                {property.status === 'under_construction' && property.progress_percent !== null && (
-                  <div className="space-y-2">
-                    <div className="flex justify-between items-center text-sm">
-                      <span className="text-muted-foreground">Construction Progress</span>
-                      <span className="text-primary font-medium">{property.progress_percent}%</span>
+                  {property.location && (
+                    <div className="flex items-center gap-2 text-muted-foreground mb-4">
+                      <MapPin className="w-4 h-4" />
+                      <span className="text-sm">{property.location}</span>
                     </div>
-                    <Progress value={property.progress_percent} className="h-2" />
-                    <div className="pt-1">
-                      <LivePhotosGallery propertyId={property.id} propertyTitle={property.title} />
-                    </div>
-                  </div>
-                )}
+                  )}
 
-                {property.status === 'delivered' && (
-                  <div className="flex items-center gap-2 text-success">
-                    <div className="w-2 h-2 rounded-full bg-success animate-pulse" />
-                    <span className="text-sm font-medium">Property Delivered</span>
+                  {/* Property Details */}
+                  <div className="flex items-center gap-4 text-sm text-muted-foreground mb-4">
+                    {property.beds && <span>{property.beds} Beds</span>}
+                    {property.baths && <span>{property.baths} Baths</span>}
+                    {property.area && <span>{property.area} m²</span>}
                   </div>
-                )}
-
-                {/* Price */}
-                {property.price && (
-                  <div className="mt-4 pt-4 border-t border-border/30 flex items-center gap-3">
-                    <span className="text-2xl font-display font-semibold text-gold-gradient">
-                      EGP {property.price.toLocaleString()}
-                    </span>
-                    <PriceDeltaIndicator percent={property.price_delta_percent} />
-                  </div>
-                )}
-              </div>
-            </motion.div>
-          ))}
+
+                  {/* Progress */}
+                  {property.status === 'under_construction' && property.progress_percent !== null && (
+                    <div className="space-y-2">
+                      <div className="flex justify-between items-center text-sm">
+                        <span className="text-muted-foreground">Construction Progress</span>
+                        <span className="text-primary font-medium">{property.progress_percent}%</span>
+                      </div>
+                      <Progress value={property.progress_percent} className="h-2" />
+                      <div className="pt-1">
+                        <LivePhotosGallery propertyId={property.id} propertyTitle={property.title} />
+                      </div>
+                    </div>
+                  )}
+
+                  {property.status === 'delivered' && (
+                    <div className="flex items-center gap-2 text-success">
+                      <div className="w-2 h-2 rounded-full bg-success animate-pulse" />
+                      <span className="text-sm font-medium">Property Delivered</span>
+                    </div>
+                  )}
+
+                  {/* Price & value since purchase */}
+                  {property.price && (
+                    <div className="mt-4 pt-4 border-t border-border/30 space-y-3">
+                      <div className="flex items-center gap-3">
+                        <span className="text-2xl font-display font-semibold text-gold-gradient">
+                          EGP {property.price.toLocaleString()}
+                        </span>
+                        <PriceDeltaIndicator percent={change.percent} />
+                      </div>
+                      {change.purchasePrice !== null && change.purchasePrice !== property.price && (
+                        <p className="text-sm text-muted-foreground">
+                          Valued at EGP {change.purchasePrice.toLocaleString()} when purchased
+                          {property.purchased_at && ` on ${new Date(property.purchased_at).toLocaleDateString()}`}
+                        </p>
+                      )}
+                      {history.length > 1 && (
+                        <PriceHistoryChart points={toChartPoints(history, property.price)} compact />
+                      )}
+                    </div>
+                  )}
+                </div>
+              </motion.div>
+            );
+          })}
         </div>
       )}
     </PortalLayout>
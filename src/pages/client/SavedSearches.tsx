@@ -0,0 +1,284 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { formatDistanceToNow } from 'date-fns';
+import { Bell, BellOff, Bookmark, ExternalLink, Loader2, Pencil, Search, Trash2 } from 'lucide-react';
+import PortalLayout from '@/components/portal/PortalLayout';
+import SavedSearchDialog from '@/components/property/SavedSearchDialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useApiAuth } from '@/contexts/ApiAuthContext';
+import { useCurrency } from '@/hooks/useCurrency';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  ALERT_FREQUENCIES,
+  AlertFrequency,
+  describeSavedFilters,
+  SavedSearch,
+  SavedSearchFilters,
+  savedSearchPath,
+} from '@/lib/savedSearches';
+import { toast } from 'sonner';
+
+const SavedSearches = () => {
+  const { user } = useApiAuth();
+  const { convert, currencyLabel } = useCurrency();
+  const prices = { convert: (amount: number) => convert(amount).amount, label: currencyLabel(convert(0).currency) };
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editing, setEditing] = useState<SavedSearch | null>(null);
+  const [deleting, setDeleting] = useState<SavedSearch | null>(null);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSearches = async () => {
+      if (!user) return;
+
+      try {
+        const { data, error } = await supabase
+          .from('saved_searches')
+          .select('*')
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        setSearches(data || []);
+      } catch (err) {
+        console.error('Error fetching saved searches:', err);
+        toast.error('Failed to load saved searches');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchSearches();
+  }, [user]);
+
+  const replaceSearch = (updated: SavedSearch) => {
+    setSearches((prev) => prev.map((s) => (s.id === updated.id ? updated : s)));
+  };
+
+  const updateSearch = async (
+    search: SavedSearch,
+    changes: { is_active?: boolean; alert_frequency?: AlertFrequency },
+    successMessage: string
+  ) => {
+    setPendingId(search.id);
+    try {
+      const { data, error } = await supabase
+        .from('saved_searches')
+        .update(changes)
+        .eq('id', search.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      replaceSearch(data);
+      toast.success(successMessage);
+    } catch (err) {
+      console.error('Error updating saved search:', err);
+      toast.error('Failed to update saved search');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    try {
+      const { error } = await supabase.from('saved_searches').delete().eq('id', deleting.id);
+      if (error) throw error;
+
+      setSearches((prev) => prev.filter((s) => s.id !== deleting.id));
+      toast.success('Saved search deleted');
+    } catch (err) {
+      console.error('Error deleting saved search:', err);
+      toast.error('Failed to delete saved search');
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <PortalLayout title="Saved Searches" subtitle="Get alerted when new properties match your criteria">
+        <div className="flex items-center justify-center py-20">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      </PortalLayout>
+    );
+  }
+
+  return (
+    <PortalLayout title="Saved Searches" subtitle="Get alerted when new properties match your criteria">
+      {searches.length === 0 ? (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="glass-card p-12 text-center border border-border/20"
+        >
+          <div className="w-16 h-16 rounded-full bg-secondary/50 flex items-center justify-center mx-auto mb-4">
+            <Bookmark className="w-8 h-8 text-muted-foreground" />
+          </div>
+          <h3 className="font-display text-xl font-semibold text-foreground mb-2">No saved searches yet</h3>
+          <p className="text-muted-foreground mb-6 max-w-md mx-auto">
+            Set your filters on the properties page and choose “Save search” to be notified about new matches.
+          </p>
+          <Button asChild className="btn-gold gap-2">
+            <Link to="/properties">
+              <Search className="w-4 h-4" />
+              Browse Properties
+            </Link>
+          </Button>
+        </motion.div>
+      ) : (
+        <div className="space-y-4">
+          {searches.map((search, index) => {
+            const filters = search.filters as SavedSearchFilters;
+            const chips = describeSavedFilters(filters, prices);
+            const isPending = pendingId === search.id;
+
+            return (
+              <motion.div
+                key={search.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: Math.min(index * 0.05, 0.3) }}
+                className={`glass-card p-6 border border-border/20 ${search.is_active ? '' : 'opacity-70'}`}
+              >
+                <div className="flex flex-col lg:flex-row lg:items-center gap-4">
+                  <div className="flex-1 min-w-0 space-y-2">
+                    <div className="flex items-center gap-2">
+                      {search.is_active ? (
+                        <Bell className="w-4 h-4 text-primary shrink-0" />
+                      ) : (
+                        <BellOff className="w-4 h-4 text-muted-foreground shrink-0" />
+                      )}
+                      <h3 className="font-display text-lg font-semibold text-foreground truncate">{search.name}</h3>
+                      {!search.is_active && <Badge variant="outline">Paused</Badge>}
+                    </div>
+                    <div className="flex flex-wrap gap-1.5">
+                      {chips.length > 0 ? (
+                        chips.map((chip) => (
+                          <Badge key={chip} variant="secondary" className="capitalize">
+                            {chip}
+                          </Badge>
+                        ))
+                      ) : (
+                        <span className="text-sm text-muted-foreground">All properties</span>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {search.last_notified_at
+                        ? `Last alert ${formatDistanceToNow(new Date(search.last_notified_at), { addSuffix: true })}`
+                        : 'No alerts sent yet'}
+                    </p>
+                  </div>
+
+                  <div className="flex flex-wrap items-center gap-3">
+                    <Select
+                      value={search.alert_frequency}
+                      onValueChange={(value) =>
+                        updateSearch(search, { alert_frequency: value as AlertFrequency }, 'Alert frequency updated')
+                      }
+                      disabled={isPending}
+                    >
+                      <SelectTrigger className="w-[130px] input-luxury">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="glass-card border-border/50">
+                        {ALERT_FREQUENCIES.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        id={`active-${search.id}`}
+                        checked={search.is_active}
+                        disabled={isPending}
+                        onCheckedChange={(checked) =>
+                          updateSearch(search, { is_active: checked }, checked ? 'Alerts resumed' : 'Alerts paused')
+                        }
+                      />
+                      <label htmlFor={`active-${search.id}`} className="text-sm text-muted-foreground">
+                        {search.is_active ? 'Active' : 'Paused'}
+                      </label>
+                    </div>
+
+                    <Button asChild variant="outline" size="sm" className="gap-1.5">
+                      <Link to={savedSearchPath(filters)}>
+                        <ExternalLink className="w-4 h-4" />
+                        Results
+                      </Link>
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => setEditing(search)} aria-label="Edit saved search">
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setDeleting(search)}
+                      className="text-muted-foreground hover:text-destructive"
+                      aria-label="Delete saved search"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              </motion.div>
+            );
+          })}
+        </div>
+      )}
+
+      <SavedSearchDialog
+        open={!!editing}
+        onOpenChange={(open) => !open && setEditing(null)}
+        savedSearch={editing ?? undefined}
+        onSaved={replaceSearch}
+      />
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent className="glass-card border-border/30">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete saved search?</AlertDialogTitle>
+            <AlertDialogDescription>
+              “{deleting?.name}” and its alerts will be removed. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </PortalLayout>
+  );
+};
+
+export default SavedSearches;
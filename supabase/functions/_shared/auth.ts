@@ -0,0 +1,64 @@
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { jsonResponse } from "./cors.ts";
+
+export interface AdminContext {
+  adminClient: SupabaseClient;
+  userId: string;
+}
+
+export interface UserContext extends AdminContext {
+  /** Client acting as the caller, so row level security applies to its queries. */
+  callerClient: SupabaseClient;
+  role: string | null;
+}
+
+/**
+ * Verifies the caller's token and looks up their role.
+ * Returns an error Response when the token is missing or invalid.
+ */
+export const authenticate = async (req: Request): Promise<UserContext | Response> => {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+  const callerClient = createClient(supabaseUrl, supabaseAnonKey, {
+    global: { headers: { Authorization: authHeader } },
+  });
+
+  const token = authHeader.replace("Bearer ", "");
+  const { data: claimsData, error: claimsErr } = await callerClient.auth.getClaims(token);
+  if (claimsErr || !claimsData?.claims) {
+    return jsonResponse({ error: "Invalid token" }, 401);
+  }
+
+  const userId = claimsData.claims.sub as string;
+  const adminClient = createClient(supabaseUrl, serviceRoleKey);
+
+  const { data: callerRole } = await adminClient
+    .from("user_roles")
+    .select("role")
+    .eq("user_id", userId)
+    .single();
+
+  return { adminClient, callerClient, userId, role: callerRole?.role ?? null };
+};
+
+/**
+ * Verifies the caller is an admin and returns a service-role client.
+ * Returns an error Response when the caller is not allowed.
+ */
+export const authorizeAdmin = async (req: Request): Promise<AdminContext | Response> => {
+  const auth = await authenticate(req);
+  if (auth instanceof Response) return auth;
+
+  if (auth.role !== "admin") {
+    return jsonResponse({ error: "Forbidden – admin role required" }, 403);
+  }
+
+  return { adminClient: auth.adminClient, userId: auth.userId };
+};
@@ -0,0 +1,24 @@
+export const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+export const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+/**
+ * Headers for a file download. Header values must be ASCII, so names with Arabic or other
+ * non-ASCII characters get an ASCII fallback plus the UTF-8 name in RFC 5987 form.
+ */
+export const attachmentHeaders = (fileName: string) => {
+  const fallback = fileName.replace(/[^\x20-\x7e]/g, "_").replace(/["\\]/g, "_");
+  const encoded = encodeURIComponent(fileName).replace(/['()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return {
+    "Access-Control-Expose-Headers": "Content-Disposition",
+    "Content-Disposition": `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`,
+  };
+};
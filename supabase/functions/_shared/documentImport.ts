@@ -0,0 +1,142 @@
+/**
+ * Contracts import from a Google Drive folder into the documents table.
+ *
+ * Each file is matched to a property by, in order:
+ *   1. the optional mapping sheet (column A: Drive file ID or file name, column B: property ID)
+ *   2. the file name convention "<property ID>_<document name>.<ext>" or "<property ID> - <document name>.<ext>"
+ * where the property ID is the property's external_id or UUID.
+ * Files already imported (by Drive file ID) are skipped, so re-runs are safe.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { DriveClient, DriveFile } from "./drive.ts";
+import { resolvePropertyRefs } from "./properties.ts";
+import { SheetFetcher } from "./sheets.ts";
+import { loadSettings, runSync, SyncCounts, SyncRowError, SyncTrigger } from "./syncRun.ts";
+
+interface FileMatch {
+  ref: string;
+  name: string;
+}
+
+const stripExtension = (name: string) => {
+  const dot = name.lastIndexOf(".");
+  return dot > 0 ? name.slice(0, dot) : name;
+};
+
+/**
+ * Splits "<ref> - <name>" or "<ref>_<name>"; a bare "<ref>" is treated as the contract itself.
+ * " - " wins when present; otherwise the last "_" separates, since refs such as UNIT_A12 contain one.
+ */
+const parseFileName = (fileName: string): FileMatch => {
+  const base = stripExtension(fileName).trim();
+  const match = base.match(/^(.+?)\s+-\s+(.+)$/) ?? base.match(/^(.+)_(.+)$/);
+  if (match) return { ref: match[1].trim(), name: match[2].trim() };
+  return { ref: base, name: "Contract" };
+};
+
+const loadMappingSheet = async (fetcher: SheetFetcher, sheetId: string) => {
+  const mapping = new Map<string, string>();
+  const rows = await fetcher.fetchRows(sheetId, "A:B");
+  for (const [file, ref] of rows.slice(1)) {
+    if (file?.trim() && ref?.trim()) mapping.set(file.trim(), ref.trim());
+  }
+  return mapping;
+};
+
+const importFile = async (
+  client: SupabaseClient,
+  drive: DriveClient,
+  file: DriveFile,
+  propertyId: string,
+  name: string,
+  userId: string | null
+) => {
+  const download = await drive.download(file);
+  const filePath = `${propertyId}/drive-${file.id}.${download.extension}`;
+
+  const { error: uploadError } = await client.storage
+    .from("documents")
+    .upload(filePath, download.data, { contentType: download.contentType, upsert: true });
+  if (uploadError) throw uploadError;
+
+  const { error: insertError } = await client.from("documents").insert({
+    name,
+    file_path: filePath,
+    file_type: download.contentType,
+    property_id: propertyId,
+    drive_file_id: file.id,
+    uploaded_by: userId,
+  });
+  if (insertError) throw insertError;
+};
+
+const importContracts = async (
+  client: SupabaseClient,
+  drive: DriveClient,
+  sheets: SheetFetcher,
+  userId: string | null,
+  onlyFileIds?: string[]
+): Promise<SyncCounts> => {
+  const settings = await loadSettings(client, ["sync_contracts_folder_id", "sync_contracts_mapping_sheet_id"]);
+  const folderId = settings.sync_contracts_folder_id;
+  if (!folderId) throw new Error("No contracts folder configured");
+
+  const mapping = settings.sync_contracts_mapping_sheet_id
+    ? await loadMappingSheet(sheets, settings.sync_contracts_mapping_sheet_id)
+    : new Map<string, string>();
+
+  const listed = await drive.listFiles(folderId);
+  // A retry re-processes only the files that failed last time
+  const files = onlyFileIds ? listed.filter((f) => onlyFileIds.includes(f.id)) : listed;
+  const errors: SyncRowError[] = [];
+
+  const { data: existing, error: existingErr } = await client
+    .from("documents")
+    .select("drive_file_id")
+    .in("drive_file_id", files.map((f) => f.id));
+  if (existingErr) throw existingErr;
+  const imported = new Set((existing || []).map((d) => d.drive_file_id));
+
+  const pending = files
+    .map((file, i) => ({ file, row: i + 1 }))
+    .filter(({ file }) => !imported.has(file.id))
+    .map((item) => {
+      const parsed = parseFileName(item.file.name);
+      const mappedRef = mapping.get(item.file.id) ?? mapping.get(item.file.name);
+      return { ...item, ref: mappedRef ?? parsed.ref, name: mappedRef ? stripExtension(item.file.name) : parsed.name };
+    });
+
+  const propertyMap = await resolvePropertyRefs(client, [...new Set(pending.map((p) => p.ref))]);
+  let rowsUpdated = 0;
+
+  for (const { file, row, ref, name } of pending) {
+    const values = { file_id: file.id, file_name: file.name, property_ref: ref };
+    const propertyId = propertyMap.get(ref);
+    if (!propertyId) {
+      errors.push({ row, values, message: "No property matches the file name or mapping sheet" });
+      continue;
+    }
+
+    try {
+      await importFile(client, drive, file, propertyId, name, userId);
+      rowsUpdated++;
+    } catch (err) {
+      errors.push({ row, values, message: err instanceof Error ? err.message : "Import failed" });
+    }
+  }
+
+  return { rowsProcessed: files.length, rowsUpdated, rowsFailed: errors.length, errors };
+};
+
+export const runDocumentImport = (
+  client: SupabaseClient,
+  drive: DriveClient,
+  sheets: SheetFetcher,
+  options: { userId?: string; trigger?: SyncTrigger; fileIds?: string[]; retryOf?: string } = {}
+) =>
+  runSync(
+    client,
+    { type: "documents", source: "google_drive", trigger: options.trigger, retryOf: options.retryOf },
+    () => importContracts(client, drive, sheets, options.userId ?? null, options.fileIds)
+  );
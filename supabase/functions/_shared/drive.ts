@@ -0,0 +1,113 @@
+/**
+ * Google Drive clients for import functions.
+ *
+ * DRIVE_SOURCE selects the implementation:
+ *   - "google" (default): Drive API using the service account
+ *   - "http": reads `{DRIVE_HTTP_URL}/{folderId}/index.json` for listings and
+ *     `{DRIVE_HTTP_URL}/files/{fileId}` for content, so a local server can stand in offline
+ */
+
+import { getGoogleAccessToken } from "./google.ts";
+
+export interface DriveFile {
+  id: string;
+  name: string;
+  mimeType: string;
+}
+
+export interface DriveDownload {
+  data: Blob;
+  contentType: string;
+  extension: string;
+}
+
+export interface DriveClient {
+  listFiles: (folderId: string) => Promise<DriveFile[]>;
+  download: (file: DriveFile) => Promise<DriveDownload>;
+}
+
+const DRIVE_API = "https://www.googleapis.com/drive/v3";
+const FOLDER_MIME = "application/vnd.google-apps.folder";
+const NATIVE_PREFIX = "application/vnd.google-apps.";
+
+const extensionOf = (name: string) => {
+  const dot = name.lastIndexOf(".");
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : "";
+};
+
+export const createGoogleDriveClient = (): DriveClient => {
+  const authHeaders = async () => ({
+    Authorization: `Bearer ${await getGoogleAccessToken(["https://www.googleapis.com/auth/drive.readonly"])}`,
+  });
+
+  return {
+    listFiles: async (folderId) => {
+      const files: DriveFile[] = [];
+      let pageToken: string | undefined;
+
+      do {
+        const params = new URLSearchParams({
+          q: `'${folderId.replace(/'/g, "\\'")}' in parents and trashed = false`,
+          fields: "nextPageToken, files(id, name, mimeType)",
+          pageSize: "1000",
+          supportsAllDrives: "true",
+          includeItemsFromAllDrives: "true",
+        });
+        if (pageToken) params.set("pageToken", pageToken);
+
+        const res = await fetch(`${DRIVE_API}/files?${params}`, { headers: await authHeaders() });
+        const result = await res.json();
+        if (!res.ok) throw new Error(result.error?.message || `Drive request failed (${res.status})`);
+
+        files.push(...(result.files as DriveFile[]).filter((f) => f.mimeType !== FOLDER_MIME));
+        pageToken = result.nextPageToken;
+      } while (pageToken);
+
+      return files;
+    },
+
+    download: async (file) => {
+      // Google Docs/Sheets have no binary content and must be exported
+      const isNative = file.mimeType.startsWith(NATIVE_PREFIX);
+      const url = isNative
+        ? `${DRIVE_API}/files/${file.id}/export?mimeType=application/pdf`
+        : `${DRIVE_API}/files/${file.id}?alt=media&supportsAllDrives=true`;
+
+      const res = await fetch(url, { headers: await authHeaders() });
+      if (!res.ok) throw new Error(`Download failed (${res.status})`);
+
+      return {
+        data: await res.blob(),
+        contentType: isNative ? "application/pdf" : file.mimeType,
+        extension: isNative ? "pdf" : extensionOf(file.name) || "bin",
+      };
+    },
+  };
+};
+
+export const createHttpDriveClient = (baseUrl: string): DriveClient => ({
+  listFiles: async (folderId) => {
+    const res = await fetch(`${baseUrl}/${encodeURIComponent(folderId)}/index.json`);
+    if (!res.ok) throw new Error(`Drive stand-in request failed (${res.status})`);
+    return ((await res.json()) as DriveFile[]).filter((f) => f.mimeType !== FOLDER_MIME);
+  },
+
+  download: async (file) => {
+    const res = await fetch(`${baseUrl}/files/${encodeURIComponent(file.id)}`);
+    if (!res.ok) throw new Error(`Download failed (${res.status})`);
+    return {
+      data: await res.blob(),
+      contentType: file.mimeType,
+      extension: extensionOf(file.name) || "bin",
+    };
+  },
+});
+
+export const getDriveClient = (): DriveClient => {
+  if (Deno.env.get("DRIVE_SOURCE") === "http") {
+    const baseUrl = Deno.env.get("DRIVE_HTTP_URL");
+    if (!baseUrl) throw new Error("DRIVE_HTTP_URL not configured");
+    return createHttpDriveClient(baseUrl.replace(/\/$/, ""));
+  }
+  return createGoogleDriveClient();
+};
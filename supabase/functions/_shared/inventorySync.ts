@@ -0,0 +1,245 @@
+/**
+ * Inventory sync from a Google Sheet into the inventory table.
+ * Shared by the manual sync endpoint and scheduled runs.
+ *
+ * Records an admin edited by hand since the last sync are not overwritten; the
+ * sheet counts are stored as an inventory conflict for the admin to resolve.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { readCell, SheetFetcher, SheetRows } from "./sheets.ts";
+import { resolvePropertyRefs } from "./properties.ts";
+import { loadSettings, runSync, SyncCounts, SyncRowError, SyncTrigger } from "./syncRun.ts";
+
+const UNIT_FIELDS = ["total_units", "available_units", "reserved_units", "sold_units"] as const;
+const MAPPED_FIELDS = ["property_external_id", ...UNIT_FIELDS];
+
+const parseMappings = (raw: string | undefined): Record<string, string> => {
+  try {
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+};
+
+type UnitCounts = Record<(typeof UNIT_FIELDS)[number], number>;
+
+interface ParsedRow {
+  row: number;
+  values: Record<string, string>;
+  externalId: string;
+  counts: UnitCounts;
+}
+
+/** Validates sheet rows (row 1 is the header) and returns parsed rows plus per-row errors. */
+export const parseInventoryRows = (rows: SheetRows, mappings: Record<string, string>) => {
+  const parsed: ParsedRow[] = [];
+  const errors: SyncRowError[] = [];
+
+  rows.slice(1).forEach((cells, i) => {
+    const row = i + 2;
+    if (cells.every((cell) => cell.trim() === "")) return;
+
+    const values = Object.fromEntries(MAPPED_FIELDS.map((f) => [f, readCell(cells, mappings, f)]));
+    const externalId = values.property_external_id;
+    if (!externalId) {
+      errors.push({ row, values, message: "Missing property ID" });
+      return;
+    }
+
+    const counts = {} as UnitCounts;
+    for (const field of UNIT_FIELDS) {
+      const num = Number(values[field]);
+      if (values[field] === "" || !Number.isInteger(num) || num < 0) {
+        errors.push({ row, values, message: `${field} must be a whole number ≥ 0 (got "${values[field]}")` });
+        return;
+      }
+      counts[field] = num;
+    }
+
+    const allocated = counts.available_units + counts.reserved_units + counts.sold_units;
+    if (allocated > counts.total_units) {
+      errors.push({
+        row,
+        values,
+        message: `available + reserved + sold (${allocated}) exceeds total units (${counts.total_units})`,
+      });
+      return;
+    }
+
+    parsed.push({ row, values, externalId, counts });
+  });
+
+  return { parsed, errors };
+};
+
+const sameCounts = (a: unknown, b: UnitCounts) =>
+  typeof a === "object" && a !== null && UNIT_FIELDS.every((f) => (a as UnitCounts)[f] === b[f]);
+
+interface ConflictState {
+  latest?: { id: string; status: string; sheet_counts: unknown; resolved_at: string | null };
+  manualEdit?: { id: string; created_at: string };
+}
+
+/** Latest conflict and latest manual edit for each inventory record, keyed by inventory ID. */
+const loadConflictState = async (client: SupabaseClient, inventoryIds: string[]) => {
+  const state = new Map<string, ConflictState>();
+  if (inventoryIds.length === 0) return state;
+
+  const [{ data: conflicts, error: conflictErr }, { data: history, error: historyErr }] = await Promise.all([
+    client
+      .from("inventory_conflicts")
+      .select("id, inventory_id, status, sheet_counts, resolved_at")
+      .in("inventory_id", inventoryIds)
+      .order("created_at", { ascending: false }),
+    client
+      .from("inventory_history")
+      .select("id, inventory_id, created_at")
+      .eq("source", "manual")
+      .in("inventory_id", inventoryIds)
+      .order("created_at", { ascending: false }),
+  ]);
+  if (conflictErr) throw conflictErr;
+  if (historyErr) throw historyErr;
+
+  for (const id of inventoryIds) state.set(id, {});
+  // Results are newest first, so the first row seen per record wins
+  (conflicts || []).forEach((c) => {
+    const entry = state.get(c.inventory_id)!;
+    entry.latest ??= c;
+  });
+  (history || []).forEach((h) => {
+    const entry = state.get(h.inventory_id)!;
+    entry.manualEdit ??= h;
+  });
+  return state;
+};
+
+/**
+ * Whether an admin changed the counts by hand after the record last matched the sheet. A record
+ * that was never synced has no sheet state to conflict with, so the first sync takes it over.
+ */
+const editedSinceSync = (lastSyncedAt: string | null, state: ConflictState | undefined) =>
+  !!lastSyncedAt && !!state?.manualEdit && new Date(state.manualEdit.created_at) > new Date(lastSyncedAt);
+
+const syncInventoryRows = async (
+  client: SupabaseClient,
+  fetcher: SheetFetcher,
+  logId: string,
+  onlyRows?: number[]
+): Promise<SyncCounts> => {
+  const settings = await loadSettings(client, ["sync_inventory_sheet_id", "sync_column_mappings"]);
+  const sheetId = settings.sync_inventory_sheet_id;
+  if (!sheetId) throw new Error("No inventory sheet configured");
+
+  const mappings = parseMappings(settings.sync_column_mappings);
+  const missing = MAPPED_FIELDS.filter((f) => !mappings[f]);
+  if (missing.length > 0) throw new Error(`Column mapping missing for: ${missing.join(", ")}`);
+
+  const rows = await fetcher.fetchRows(sheetId);
+  const result = parseInventoryRows(rows, mappings);
+  // A retry re-processes only the sheet rows that failed last time
+  const wanted = onlyRows && new Set(onlyRows);
+  const parsed = wanted ? result.parsed.filter((p) => wanted.has(p.row)) : result.parsed;
+  const errors = wanted ? result.errors.filter((e) => wanted.has(e.row)) : result.errors;
+  const rowsProcessed = parsed.length + errors.length;
+
+  const propertyMap = await resolvePropertyRefs(client, [...new Set(parsed.map((p) => p.externalId))]);
+  const seen = new Set<string>();
+  const ready: (ParsedRow & { propertyId: string })[] = [];
+
+  for (const item of parsed) {
+    const propertyId = propertyMap.get(item.externalId);
+    if (!propertyId) {
+      errors.push({ row: item.row, values: item.values, message: `No property matches "${item.externalId}"` });
+    } else if (seen.has(propertyId)) {
+      errors.push({ row: item.row, values: item.values, message: "Duplicate row for this property" });
+    } else {
+      seen.add(propertyId);
+      ready.push({ ...item, propertyId });
+    }
+  }
+
+  const { data: existing, error: existingErr } = await client
+    .from("inventory")
+    .select("id, property_id, total_units, available_units, reserved_units, sold_units, last_synced_at")
+    .in("property_id", ready.map((r) => r.propertyId));
+  if (existingErr) throw existingErr;
+  const current = new Map((existing || []).map((e) => [e.property_id, e]));
+
+  // Records edited by hand since their last sync may only be overwritten after an admin resolves the conflict
+  const syncedIds = (existing || []).filter((e) => e.last_synced_at).map((e) => e.id);
+  const conflicts = await loadConflictState(client, syncedIds);
+
+  const syncedAt = new Date().toISOString();
+  let rowsUpdated = 0;
+
+  for (const item of ready) {
+    const before = current.get(item.propertyId);
+    const changed = !before || UNIT_FIELDS.some((f) => before[f] !== item.counts[f]);
+
+    const state = before ? conflicts.get(before.id) : undefined;
+    // The admin already chose the manual counts over these sheet counts, and no sync has written since;
+    // the sheet is followed again once it moves on
+    const latest = state?.latest;
+    const alreadyKept =
+      latest?.status === "kept_manual" &&
+      sameCounts(latest.sheet_counts, item.counts) &&
+      !!latest.resolved_at &&
+      new Date(latest.resolved_at) >= new Date(before?.last_synced_at ?? 0);
+    if (before && changed && alreadyKept) continue;
+
+    if (before && changed && editedSinceSync(before.last_synced_at, state)) {
+      const { error } = state?.latest?.status === "open"
+        ? await client
+            .from("inventory_conflicts")
+            .update({ sheet_counts: item.counts, sync_log_id: logId })
+            .eq("id", state.latest.id)
+        : await client.from("inventory_conflicts").insert({
+            inventory_id: before.id,
+            property_id: item.propertyId,
+            sync_log_id: logId,
+            manual_history_id: state?.manualEdit?.id ?? null,
+            sheet_counts: item.counts,
+          });
+
+      errors.push({
+        row: item.row,
+        values: item.values,
+        message: error
+          ? error.message
+          : "Conflicts with a manual edit made since the last sync; resolve it in Inventory",
+      });
+      continue;
+    }
+
+    const { error } = await client.from("inventory").upsert(
+      {
+        property_id: item.propertyId,
+        ...item.counts,
+        sync_source: "google_sheets",
+        last_synced_at: syncedAt,
+      },
+      { onConflict: "property_id" }
+    );
+
+    if (error) {
+      errors.push({ row: item.row, values: item.values, message: error.message });
+    } else if (changed) {
+      rowsUpdated++;
+    }
+  }
+
+  return { rowsProcessed, rowsUpdated, rowsFailed: errors.length, errors };
+};
+
+export const runInventorySync = (
+  client: SupabaseClient,
+  fetcher: SheetFetcher,
+  options: { trigger?: SyncTrigger; rows?: number[]; retryOf?: string } = {}
+) =>
+  runSync(
+    client,
+    { type: "inventory", source: "google_sheets", trigger: options.trigger, retryOf: options.retryOf },
+    (logId) => syncInventoryRows(client, fetcher, logId, options.rows)
+  );
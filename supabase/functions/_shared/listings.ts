@@ -0,0 +1,65 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+
+/**
+ * Listing text shared by the printable exports: localized titles, status and facet labels,
+ * number formatting and the default payment-plan terms.
+ */
+
+export type Language = "en" | "ar";
+
+export const UNPUBLISHED_STATUSES = ["draft", "pending_approval", "archived"];
+
+// Same starting values as the payment calculator on the listing page (src/lib/mortgage.ts)
+export const DEFAULT_DOWN_PAYMENT_PERCENT = 20;
+export const DEFAULT_YEARS = 10;
+
+export const STATUS_LABELS: Record<string, Record<Language, string>> = {
+  available: { en: "Available", ar: "متاح" },
+  reserved: { en: "Reserved", ar: "محجوز" },
+  sold: { en: "Sold", ar: "مباع" },
+  delivered: { en: "Delivered", ar: "تم التسليم" },
+  under_construction: { en: "Under construction", ar: "تحت الإنشاء" },
+};
+
+export const siteUrl = () => (Deno.env.get("SITE_URL") || "https://source-eg.com").replace(/\/$/, "");
+
+export const formatNumber = (value: number) =>
+  new Intl.NumberFormat("en-EG", { maximumFractionDigits: 0 }).format(value);
+
+export const humanize = (value: string) => value.replace(/_/g, " ").replace(/\b\w/g, (c) => c.toUpperCase());
+
+export const statusLabel = (status: string, language: Language) =>
+  STATUS_LABELS[status]?.[language] ?? humanize(status);
+
+/** The field in the requested language, falling back to the other one. */
+export const localized = (english: string | null | undefined, arabic: string | null | undefined, language: Language) =>
+  (language === "ar" ? arabic || english : english || arabic) || "";
+
+/** Listing URL in the given language, matching propertyPath on the site. */
+export const listingUrl = (
+  property: { id: string; slug: string | null; slug_ar: string | null },
+  language: Language,
+) => `${siteUrl()}/properties/${encodeURIComponent(localized(property.slug, property.slug_ar, language) || property.id)}`;
+
+/** Monthly installment once the default down payment is paid, spread over the default term without interest. */
+export const defaultMonthlyInstallment = (price: number) =>
+  (price * (1 - DEFAULT_DOWN_PAYMENT_PERCENT / 100)) / (DEFAULT_YEARS * 12);
+
+export type FacetLabeler = (facet: string, value: string | null, language: Language) => string | null;
+
+/** Loads the admin-managed city/area/type/finishing labels; unknown values are humanized. */
+export const fetchFacetLabels = async (client: SupabaseClient): Promise<FacetLabeler> => {
+  const { data, error } = await client
+    .from("property_facet_labels")
+    .select("facet, value, label_en, label_ar")
+    .in("facet", ["city", "area", "property_type", "finishing"]);
+  if (error) throw error;
+
+  const labels = new Map<string, string>();
+  (data || []).forEach((row) => {
+    labels.set(`${row.facet}:${row.value}:en`, row.label_en);
+    labels.set(`${row.facet}:${row.value}:ar`, row.label_ar);
+  });
+
+  return (facet, value, language) => (value ? labels.get(`${facet}:${value}:${language}`) || humanize(value) : null);
+};
@@ -0,0 +1,85 @@
+/**
+ * Amortization maths shared by the amortization export and the payment calculator, which
+ * re-exports it from src/lib/mortgage.ts. Keep it free of Deno-only imports so both can load it.
+ */
+
+export type PaymentFrequency = "monthly" | "quarterly";
+
+export const PERIODS_PER_YEAR: Record<PaymentFrequency, number> = { monthly: 12, quarterly: 4 };
+
+/** A lump sum paid off the balance together with the regular payment of the given period */
+export interface ExtraPayment {
+  period: number;
+  amount: number;
+}
+
+export interface AmortizationRow {
+  period: number;
+  /** Regular payment, principal plus interest; the final one may be smaller */
+  payment: number;
+  principal: number;
+  interest: number;
+  extra: number;
+  /** Balance left after the period's payment and any extra payment */
+  balance: number;
+}
+
+export interface AmortizationSchedule {
+  rows: AmortizationRow[];
+  regularPayment: number;
+  totalInterest: number;
+  /** Interest avoided by the extra payments compared with the full term */
+  interestSaved: number;
+  /** Periods in the agreed term; rows may stop earlier once extra payments clear the balance */
+  scheduledPeriods: number;
+}
+
+/**
+ * Period-by-period schedule for a loan at a fixed annual rate, compounded per payment period.
+ * Extra payments keep the regular payment unchanged and shorten the term instead.
+ */
+export const amortizationSchedule = (
+  loanAmount: number,
+  years: number,
+  annualInterestRate = 0,
+  frequency: PaymentFrequency = "monthly",
+  extraPayments: ExtraPayment[] = [],
+): AmortizationSchedule => {
+  const scheduledPeriods = Math.max(0, Math.round(years * PERIODS_PER_YEAR[frequency]));
+  const rate = annualInterestRate > 0 ? annualInterestRate / 100 / PERIODS_PER_YEAR[frequency] : 0;
+
+  if (scheduledPeriods === 0 || loanAmount <= 0) {
+    return { rows: [], regularPayment: 0, totalInterest: 0, interestSaved: 0, scheduledPeriods };
+  }
+
+  const regularPayment =
+    rate > 0 ? (loanAmount * rate) / (1 - Math.pow(1 + rate, -scheduledPeriods)) : loanAmount / scheduledPeriods;
+
+  const extraByPeriod = new Map<number, number>();
+  for (const { period, amount } of extraPayments) {
+    if (amount > 0) extraByPeriod.set(period, (extraByPeriod.get(period) ?? 0) + amount);
+  }
+
+  const rows: AmortizationRow[] = [];
+  let balance = loanAmount;
+  let totalInterest = 0;
+  // Stops within a fraction of a unit of zero, so float error doesn't add a near-empty period
+  for (let period = 1; period <= scheduledPeriods && balance > 0.005; period++) {
+    const interest = balance * rate;
+    const principal = Math.min(regularPayment - interest, balance);
+    balance -= principal;
+    const extra = Math.min(extraByPeriod.get(period) ?? 0, balance);
+    balance -= extra;
+    totalInterest += interest;
+    rows.push({ period, payment: principal + interest, principal, interest, extra, balance: Math.max(balance, 0) });
+  }
+
+  const fullTermInterest = regularPayment * scheduledPeriods - loanAmount;
+  return {
+    rows,
+    regularPayment,
+    totalInterest,
+    interestSaved: Math.max(0, fullTermInterest - totalInterest),
+    scheduledPeriods,
+  };
+};
@@ -0,0 +1,294 @@
+import {
+  clip,
+  endPath,
+  PDFDocument,
+  PDFFont,
+  PDFImage,
+  PDFPage,
+  popGraphicsState,
+  pushGraphicsState,
+  rectangle,
+  rgb,
+  RGB,
+} from "https://esm.sh/pdf-lib@1.17.1";
+import fontkit from "https://esm.sh/@pdf-lib/fontkit@1.1.1";
+import QRCode from "https://esm.sh/qrcode@1.5.3";
+import { siteUrl } from "./listings.ts";
+
+/**
+ * PDF building blocks shared by the brochure and comparison exports: brand colours, a font
+ * that covers Latin and Arabic, bidi-aware text drawing, remote images and QR codes.
+ */
+
+export const A4 = { width: 595.28, height: 841.89 };
+export const A4_LANDSCAPE = { width: A4.height, height: A4.width };
+
+export const BRAND = {
+  gold: rgb(212 / 255, 165 / 255, 54 / 255),
+  dark: rgb(11 / 255, 11 / 255, 13 / 255),
+  text: rgb(0.13, 0.13, 0.15),
+  muted: rgb(0.45, 0.45, 0.48),
+  border: rgb(0.88, 0.87, 0.84),
+  panel: rgb(248 / 255, 247 / 255, 244 / 255),
+  white: rgb(1, 1, 1),
+};
+
+// DejaVu Sans has both Latin and Arabic glyphs plus the GSUB tables fontkit needs to join Arabic letters
+const FONT_URLS = {
+  regular: "https://cdn.jsdelivr.net/npm/dejavu-fonts-ttf@2.37.3/ttf/DejaVuSans.ttf",
+  bold: "https://cdn.jsdelivr.net/npm/dejavu-fonts-ttf@2.37.3/ttf/DejaVuSans-Bold.ttf",
+};
+
+const IMAGE_TIMEOUT_MS = 8000;
+
+let fontBytes: Promise<[ArrayBuffer, ArrayBuffer]> | null = null;
+
+// Downloaded once per function instance
+const loadFontBytes = () => {
+  fontBytes ??= Promise.all(
+    [FONT_URLS.regular, FONT_URLS.bold].map(async (url) => {
+      const res = await fetch(url);
+      if (!res.ok) throw new Error(`Failed to load font ${url}: ${res.status}`);
+      return res.arrayBuffer();
+    }),
+  ).then(([regular, bold]) => [regular, bold] as [ArrayBuffer, ArrayBuffer]);
+  fontBytes.catch(() => (fontBytes = null));
+  return fontBytes;
+};
+
+export interface BrandFonts {
+  regular: PDFFont;
+  bold: PDFFont;
+}
+
+/** New document with the brand fonts embedded. Fonts are embedded whole since subsetting drops the Arabic joining forms. */
+export const createDocument = async (title: string): Promise<{ doc: PDFDocument; fonts: BrandFonts }> => {
+  const doc = await PDFDocument.create();
+  doc.registerFontkit(fontkit);
+  doc.setTitle(title);
+  doc.setCreator("Source");
+
+  const [regular, bold] = await loadFontBytes();
+  return {
+    doc,
+    fonts: {
+      regular: await doc.embedFont(regular, { subset: false }),
+      bold: await doc.embedFont(bold, { subset: false }),
+    },
+  };
+};
+
+// ============ Text ============
+
+export interface TextStyle {
+  font: PDFFont;
+  size: number;
+  color?: RGB;
+}
+
+const RTL = "\\u0590-\\u08FF\\uFB1D-\\uFDFF\\uFE70-\\uFEFF";
+const RUN_PATTERN = new RegExp(`[${RTL}]+(?:\\s+[${RTL}]+)*|[^${RTL}]+`, "g");
+const RTL_RUN = new RegExp(`^[${RTL}]`);
+
+/**
+ * Splits a line into runs in left-to-right drawing order. Arabic runs stay in logical order
+ * because fontkit shapes and reverses them itself; numbers and Latin words keep their own
+ * direction, and in a right-to-left line the runs are laid out from the right.
+ */
+export const visualRuns = (text: string, rtl: boolean): string[] => {
+  const runs = text.match(RUN_PATTERN) ?? [];
+  if (!rtl) return runs;
+  return runs
+    .reverse()
+    .map((run) => (RTL_RUN.test(run) ? run : run.replace(/^(\s*)(.*?)(\s*)$/s, (_, lead, body, trail) => trail + body + lead)));
+};
+
+export const textWidth = (text: string, style: TextStyle) =>
+  style.font.widthOfTextAtSize(text, style.size);
+
+export type Align = "start" | "end" | "center";
+
+/**
+ * Draws a single line inside the box [x, x + width]. "start" is the left edge for
+ * English and the right edge for Arabic, so callers lay out pages once for both.
+ */
+export const drawText = (
+  page: PDFPage,
+  text: string,
+  box: { x: number; y: number; width: number },
+  style: TextStyle,
+  rtl: boolean,
+  align: Align = "start",
+) => {
+  const width = textWidth(text, style);
+  const side = align === "center" ? "center" : (align === "start") !== rtl ? "left" : "right";
+  let cursor = side === "left" ? box.x : side === "right" ? box.x + box.width - width : box.x + (box.width - width) / 2;
+
+  for (const run of visualRuns(text, rtl)) {
+    page.drawText(run, { x: cursor, y: box.y, size: style.size, font: style.font, color: style.color ?? BRAND.text });
+    cursor += textWidth(run, style);
+  }
+};
+
+/** Word-wraps text to the width, keeping explicit line breaks. Words longer than a line are left to overflow. */
+export const wrapText = (text: string, style: TextStyle, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && textWidth(candidate, style) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+};
+
+/** Trims the lines to a maximum, ending the last kept line with an ellipsis. */
+export const clampLines = (lines: string[], max: number): string[] =>
+  lines.length <= max ? lines : [...lines.slice(0, max - 1), `${lines[max - 1]}…`];
+
+// ============ Layout ============
+
+/** Mirrors a box's left edge for right-to-left pages. */
+export const mirrorX = (x: number, width: number, rtl: boolean, pageWidth = A4.width) =>
+  rtl ? pageWidth - x - width : x;
+
+/**
+ * Dark header band with the brand logo at the start edge and a caption at the end edge.
+ * Falls back to a gold wordmark when no logo could be embedded. Returns the band's bottom y.
+ */
+export const drawBrandHeader = (
+  page: PDFPage,
+  options: { fonts: BrandFonts; logo: PDFImage | null; caption: string; rtl: boolean; height: number; margin: number },
+) => {
+  const { width: pageWidth, height: pageHeight } = page.getSize();
+  const { fonts, logo, caption, rtl, height, margin } = options;
+  const top = pageHeight - height;
+
+  page.drawRectangle({ x: 0, y: top, width: pageWidth, height, color: BRAND.dark });
+  page.drawRectangle({ x: 0, y: top - 3, width: pageWidth, height: 3, color: BRAND.gold });
+
+  const logoBox = { x: mirrorX(margin, 160, rtl, pageWidth), y: top + 14, width: 160, height: height - 28 };
+  if (logo) {
+    drawImageContain(page, logo, logoBox, rtl);
+  } else {
+    drawText(page, "SOURCE", { ...logoBox, y: top + height / 2 - 8 }, { font: fonts.bold, size: 20, color: BRAND.gold }, rtl);
+  }
+
+  drawText(
+    page,
+    caption,
+    { x: margin, y: top + height / 2 - 6, width: pageWidth - margin * 2 },
+    { font: fonts.regular, size: 11, color: BRAND.white },
+    rtl,
+    "end",
+  );
+
+  return top - 3;
+};
+
+/**
+ * The CMS brand logo, or else the logo the app resolved through useBrandAssets. The latter is
+ * only fetched from the site or the Supabase project; request headers are caller-controlled
+ * and never widen that list.
+ */
+export const resolveLogoUrl = (cmsLogoUrl: string | undefined, requested: unknown) => {
+  if (cmsLogoUrl) return cmsLogoUrl;
+  if (typeof requested !== "string") return null;
+
+  try {
+    const host = new URL(requested).host;
+    const trusted = [siteUrl(), Deno.env.get("SUPABASE_URL")]
+      .filter((url): url is string => !!url)
+      .map((url) => new URL(url).host);
+    return trusted.includes(host) ? requested : null;
+  } catch {
+    return null;
+  }
+};
+
+// ============ Images ============
+
+/**
+ * Downloads and embeds a PNG or JPEG. Anything else (WebP, SVG, failed requests) returns
+ * null so the caller can skip the image instead of failing the whole document.
+ */
+export const embedRemoteImage = async (doc: PDFDocument, url: string | null | undefined): Promise<PDFImage | null> => {
+  if (!url) return null;
+  try {
+    const res = await fetch(url, { signal: AbortSignal.timeout(IMAGE_TIMEOUT_MS) });
+    if (!res.ok) return null;
+    const bytes = new Uint8Array(await res.arrayBuffer());
+    if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) return await doc.embedPng(bytes);
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) return await doc.embedJpg(bytes);
+    return null;
+  } catch (err) {
+    console.warn(`Skipping image ${url}:`, err);
+    return null;
+  }
+};
+
+/** Fills the box with the image, cropping the overflow like CSS object-fit: cover. */
+export const drawImageCover = (
+  page: PDFPage,
+  image: PDFImage,
+  box: { x: number; y: number; width: number; height: number },
+) => {
+  const scale = Math.max(box.width / image.width, box.height / image.height);
+  const width = image.width * scale;
+  const height = image.height * scale;
+
+  page.pushOperators(pushGraphicsState(), rectangle(box.x, box.y, box.width, box.height), clip(), endPath());
+  page.drawImage(image, {
+    x: box.x + (box.width - width) / 2,
+    y: box.y + (box.height - height) / 2,
+    width,
+    height,
+  });
+  page.pushOperators(popGraphicsState());
+};
+
+/** Fits the image inside the box without cropping, anchored to the box's start edge. */
+export const drawImageContain = (
+  page: PDFPage,
+  image: PDFImage,
+  box: { x: number; y: number; width: number; height: number },
+  rtl: boolean,
+) => {
+  const { width, height } = image.scaleToFit(box.width, box.height);
+  page.drawImage(image, {
+    x: rtl ? box.x + box.width - width : box.x,
+    y: box.y + (box.height - height) / 2,
+    width,
+    height,
+  });
+};
+
+// ============ QR codes ============
+
+/** Draws a QR code as vector squares, so it stays sharp when printed. */
+export const drawQrCode = (page: PDFPage, text: string, x: number, y: number, size: number, color = BRAND.dark) => {
+  const { modules } = QRCode.create(text, { errorCorrectionLevel: "M" });
+  const cell = size / modules.size;
+
+  page.drawRectangle({ x: x - cell, y: y - cell, width: size + cell * 2, height: size + cell * 2, color: BRAND.white });
+  for (let row = 0; row < modules.size; row++) {
+    for (let col = 0; col < modules.size; col++) {
+      if (!modules.get(row, col)) continue;
+      page.drawRectangle({
+        x: x + col * cell,
+        y: y + size - (row + 1) * cell,
+        // Slight overlap hides hairline gaps between neighbouring squares in some viewers
+        width: cell + 0.1,
+        height: cell + 0.1,
+        color,
+      });
+    }
+  }
+};
@@ -0,0 +1,25 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Maps property references (external_id, or the UUID itself) to property IDs. */
+export const resolvePropertyRefs = async (client: SupabaseClient, externalIds: string[]) => {
+  const map = new Map<string, string>();
+  if (externalIds.length === 0) return map;
+
+  const { data: byExternal, error } = await client
+    .from("properties")
+    .select("id, external_id")
+    .in("external_id", externalIds);
+  if (error) throw error;
+  (byExternal || []).forEach((p) => map.set(p.external_id, p.id));
+
+  const uuids = externalIds.filter((id) => !map.has(id) && UUID_REGEX.test(id));
+  if (uuids.length > 0) {
+    const { data: byId, error: idErr } = await client.from("properties").select("id").in("id", uuids);
+    if (idErr) throw idErr;
+    (byId || []).forEach((p) => map.set(p.id, p.id));
+  }
+
+  return map;
+};
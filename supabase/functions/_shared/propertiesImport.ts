@@ -0,0 +1,307 @@
+/**
+ * Properties import from a Google Sheet.
+ *
+ * Runs in two steps: a dry-run diff of what the sheet would change, then a commit
+ * of the rows the admin selected. Rows are matched on external_id. Empty cells
+ * leave the existing value untouched, and unmapped columns are never written.
+ * Each previewed row carries a hash of its cells; a commit refuses any row whose
+ * cells no longer match, so edits made in between are never written unseen.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { readCell, SheetFetcher, SheetRows } from "./sheets.ts";
+import { loadSettings, runSync, SyncCounts, SyncRowError } from "./syncRun.ts";
+
+const PROPERTY_FIELDS = [
+  "title",
+  "location",
+  "price",
+  "beds",
+  "baths",
+  "area",
+  "property_type",
+  "tags",
+  "progress_status",
+] as const;
+
+type PropertyField = (typeof PROPERTY_FIELDS)[number];
+type PropertyValue = string | number | string[];
+export type PropertyChanges = Partial<Record<PropertyField, PropertyValue>>;
+
+const PROGRESS_STATUSES = ["off_plan", "ready_to_deliver", "ready_to_live"];
+
+export interface PropertyFieldChange {
+  field: PropertyField;
+  from: PropertyValue | null;
+  to: PropertyValue;
+}
+
+export interface PropertyDiffRow {
+  row: number;
+  action: "create" | "update" | "unchanged" | "invalid";
+  externalId: string;
+  propertyId?: string;
+  values: Record<string, string>;
+  /** Hash of the row's cells, sent back on commit to prove the row is unchanged since the preview */
+  hash: string;
+  changes: PropertyFieldChange[];
+  message?: string;
+}
+
+/** A previewed row the admin chose to import */
+export interface PropertyRowSelection {
+  row: number;
+  hash: string;
+}
+
+export interface PropertiesDiff {
+  rows: PropertyDiffRow[];
+  summary: Record<PropertyDiffRow["action"], number>;
+}
+
+interface ParsedPropertyRow {
+  row: number;
+  values: Record<string, string>;
+  externalId: string;
+  fields: PropertyChanges;
+}
+
+const parseNumber = (value: string, integer: boolean) => {
+  const num = Number(value.replace(/,/g, ""));
+  if (!Number.isFinite(num) || num < 0 || (integer && !Number.isInteger(num))) return null;
+  return num;
+};
+
+/** Converts one cell to its column value, or returns an error message. */
+const parseField = (field: PropertyField, raw: string): PropertyValue | { error: string } => {
+  switch (field) {
+    case "price":
+    case "area": {
+      const num = parseNumber(raw, false);
+      return num === null ? { error: `${field} must be a number ≥ 0 (got "${raw}")` } : num;
+    }
+    case "beds":
+    case "baths": {
+      const num = parseNumber(raw, true);
+      return num === null ? { error: `${field} must be a whole number ≥ 0 (got "${raw}")` } : num;
+    }
+    case "tags":
+      return raw.split(",").map((t) => t.trim()).filter(Boolean);
+    case "property_type":
+      return raw.toLowerCase();
+    case "progress_status": {
+      const status = raw.toLowerCase().replace(/[\s-]+/g, "_");
+      return PROGRESS_STATUSES.includes(status)
+        ? status
+        : { error: `progress_status must be one of ${PROGRESS_STATUSES.join(", ")} (got "${raw}")` };
+    }
+    default:
+      return raw;
+  }
+};
+
+/** Validates sheet rows (row 1 is the header) and returns parsed rows plus per-row errors. */
+export const parsePropertyRows = (rows: SheetRows, mappings: Record<string, string>) => {
+  const parsed: ParsedPropertyRow[] = [];
+  const errors: SyncRowError[] = [];
+  const mappedFields = PROPERTY_FIELDS.filter((f) => mappings[f]);
+  const seen = new Set<string>();
+
+  rows.slice(1).forEach((cells, i) => {
+    const row = i + 2;
+    if (cells.every((cell) => cell.trim() === "")) return;
+
+    const values = Object.fromEntries(
+      ["external_id", ...mappedFields].map((f) => [f, readCell(cells, mappings, f)])
+    );
+    const externalId = values.external_id;
+    if (!externalId) {
+      errors.push({ row, values, message: "Missing property ID" });
+      return;
+    }
+    if (seen.has(externalId)) {
+      errors.push({ row, values, message: "Duplicate row for this property" });
+      return;
+    }
+    seen.add(externalId);
+
+    const fields: PropertyChanges = {};
+    for (const field of mappedFields) {
+      if (values[field] === "") continue;
+      const value = parseField(field, values[field]);
+      if (typeof value === "object" && "error" in value) {
+        errors.push({ row, values, message: value.error });
+        return;
+      }
+      fields[field] = value;
+    }
+
+    parsed.push({ row, values, externalId, fields });
+  });
+
+  return { parsed, errors };
+};
+
+/** SHA-256 of the row's cells; values always list external_id then the mapped fields in a fixed order. */
+export const rowHash = async (values: Record<string, string>) => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(JSON.stringify(values)));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+};
+
+const sameValue = (a: PropertyValue | null, b: PropertyValue) =>
+  Array.isArray(b) ? Array.isArray(a) && a.join("\u0000") === b.join("\u0000") : a === b;
+
+const buildDiff = async (client: SupabaseClient, fetcher: SheetFetcher): Promise<PropertyDiffRow[]> => {
+  const settings = await loadSettings(client, ["sync_properties_sheet_id", "sync_properties_column_mappings"]);
+  const sheetId = settings.sync_properties_sheet_id;
+  if (!sheetId) throw new Error("No properties sheet configured");
+
+  let mappings: Record<string, string> = {};
+  try {
+    mappings = JSON.parse(settings.sync_properties_column_mappings || "{}");
+  } catch {
+    // Treated as unmapped below
+  }
+  const missing = ["external_id", "title"].filter((f) => !mappings[f]);
+  if (missing.length > 0) throw new Error(`Column mapping missing for: ${missing.join(", ")}`);
+
+  const rows = await fetcher.fetchRows(sheetId);
+  const { parsed, errors } = parsePropertyRows(rows, mappings);
+
+  const { data: existing, error } = await client
+    .from("properties")
+    .select(`id, external_id, ${PROPERTY_FIELDS.join(", ")}`)
+    .in("external_id", parsed.map((p) => p.externalId));
+  if (error) throw error;
+  const current = new Map(
+    ((existing || []) as unknown as (Record<PropertyField, PropertyValue | null> & { id: string; external_id: string })[])
+      .map((p) => [p.external_id, p])
+  );
+
+  const diff: PropertyDiffRow[] = await Promise.all(
+    errors.map(async (e) => ({
+      row: e.row,
+      action: "invalid" as const,
+      externalId: e.values.external_id || "",
+      values: e.values,
+      hash: await rowHash(e.values),
+      changes: [],
+      message: e.message,
+    }))
+  );
+
+  for (const item of parsed) {
+    const before = current.get(item.externalId);
+    const hash = await rowHash(item.values);
+    if (!before && !item.fields.title) {
+      diff.push({
+        row: item.row,
+        action: "invalid",
+        externalId: item.externalId,
+        values: item.values,
+        hash,
+        changes: [],
+        message: "title is required for new properties",
+      });
+      continue;
+    }
+
+    const changes = (Object.entries(item.fields) as [PropertyField, PropertyValue][])
+      .filter(([field, value]) => !before || !sameValue(before[field], value))
+      .map(([field, value]) => ({ field, from: before ? before[field] : null, to: value }));
+
+    diff.push({
+      row: item.row,
+      action: !before ? "create" : changes.length > 0 ? "update" : "unchanged",
+      externalId: item.externalId,
+      propertyId: before?.id,
+      values: item.values,
+      hash,
+      changes,
+    });
+  }
+
+  return diff.sort((a, b) => a.row - b.row);
+};
+
+/** Dry run: reports what a commit would do, without writing anything. */
+export const previewPropertiesImport = async (
+  client: SupabaseClient,
+  fetcher: SheetFetcher
+): Promise<PropertiesDiff> => {
+  const rows = await buildDiff(client, fetcher);
+  const summary = { create: 0, update: 0, unchanged: 0, invalid: 0 };
+  rows.forEach((r) => summary[r.action]++);
+  return { rows, summary };
+};
+
+const applySelectedRows = async (
+  client: SupabaseClient,
+  fetcher: SheetFetcher,
+  selectedRows: number[],
+  hashes: Map<number, string>,
+  userId: string | null
+): Promise<SyncCounts> => {
+  // The diff is rebuilt from the sheet so the commit never trusts values sent by the browser
+  const selected = new Set(selectedRows);
+  const diff = (await buildDiff(client, fetcher)).filter((r) => selected.has(r.row));
+  const errors: SyncRowError[] = [];
+  let rowsUpdated = 0;
+
+  const found = new Set(diff.map((r) => r.row));
+  for (const row of selected) {
+    if (!found.has(row)) {
+      errors.push({ row, values: {}, message: "Row is no longer in the sheet; preview again to import it" });
+    }
+  }
+
+  for (const item of diff) {
+    // Rows inserted, moved or edited since the preview would write data the admin never saw
+    if (hashes.get(item.row) !== item.hash) {
+      errors.push({
+        row: item.row,
+        values: item.values,
+        message: "Row changed in the sheet since the preview; preview again to import it",
+        hash: hashes.get(item.row),
+      });
+      continue;
+    }
+    if (item.action === "invalid") {
+      errors.push({ row: item.row, values: item.values, message: item.message || "Invalid row", hash: item.hash });
+      continue;
+    }
+    if (item.action === "unchanged") continue;
+
+    const changes = Object.fromEntries(item.changes.map((c) => [c.field, c.to]));
+    const { error } = item.propertyId
+      ? await client.from("properties").update(changes).eq("id", item.propertyId)
+      : await client.from("properties").insert({ ...changes, external_id: item.externalId, created_by: userId });
+
+    if (error) {
+      errors.push({ row: item.row, values: item.values, message: error.message, hash: item.hash });
+    } else {
+      rowsUpdated++;
+    }
+  }
+
+  return { rowsProcessed: selected.size, rowsUpdated, rowsFailed: errors.length, errors };
+};
+
+/**
+ * Commits sheet rows and records the run in sync_logs. A commit after a preview passes the
+ * previewed rows with their hashes; a retry passes the hashes its failed rows were logged with.
+ */
+export const runPropertiesImport = (
+  client: SupabaseClient,
+  fetcher: SheetFetcher,
+  options: { rows: PropertyRowSelection[]; userId?: string; retryOf?: string }
+) => {
+  const rows = options.rows.map((r) => r.row);
+  const hashes = new Map(options.rows.map((r) => [r.row, r.hash]));
+
+  return runSync(
+    client,
+    { type: "properties", source: "google_sheets", retryOf: options.retryOf },
+    () => applySelectedRows(client, fetcher, rows, hashes, options.userId ?? null)
+  );
+};
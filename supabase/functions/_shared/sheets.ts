@@ -0,0 +1,113 @@
+/**
+ * Sheet fetchers for sync functions.
+ *
+ * SHEETS_SOURCE selects the implementation:
+ *   - "google" (default): Google Sheets API using the service account
+ *   - "csv": reads `SHEETS_CSV_URL` with `{sheetId}` substituted, so a local
+ *     HTTP server or a file:// path can stand in for Google when testing offline
+ */
+
+import { getGoogleAccessToken } from "./google.ts";
+
+export type SheetRows = string[][];
+
+export interface SheetFetcher {
+  fetchRows: (sheetId: string, range?: string) => Promise<SheetRows>;
+}
+
+const DEFAULT_RANGE = "A:Z";
+
+export const createGoogleSheetsFetcher = (): SheetFetcher => ({
+  fetchRows: async (sheetId, range = DEFAULT_RANGE) => {
+    const token = await getGoogleAccessToken([
+      "https://www.googleapis.com/auth/spreadsheets.readonly",
+    ]);
+    const res = await fetch(
+      `https://sheets.googleapis.com/v4/spreadsheets/${encodeURIComponent(sheetId)}/values/${encodeURIComponent(range)}?valueRenderOption=UNFORMATTED_VALUE`,
+      { headers: { Authorization: `Bearer ${token}` } }
+    );
+    const result = await res.json();
+    if (!res.ok) {
+      throw new Error(result.error?.message || `Google Sheets request failed (${res.status})`);
+    }
+    return ((result.values || []) as unknown[][]).map((row) =>
+      row.map((cell) => (cell === null || cell === undefined ? "" : String(cell)))
+    );
+  },
+});
+
+export const parseCsv = (text: string): SheetRows => {
+  const rows: SheetRows = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
+
+export const createCsvFetcher = (urlTemplate: string): SheetFetcher => ({
+  fetchRows: async (sheetId) => {
+    const res = await fetch(urlTemplate.replace("{sheetId}", encodeURIComponent(sheetId)));
+    if (!res.ok) throw new Error(`CSV source request failed (${res.status})`);
+    return parseCsv(await res.text());
+  },
+});
+
+export const getSheetFetcher = (): SheetFetcher => {
+  if (Deno.env.get("SHEETS_SOURCE") === "csv") {
+    const urlTemplate = Deno.env.get("SHEETS_CSV_URL");
+    if (!urlTemplate) throw new Error("SHEETS_CSV_URL not configured");
+    return createCsvFetcher(urlTemplate);
+  }
+  return createGoogleSheetsFetcher();
+};
+
+/** Converts a column letter ("A", "AB") to a zero-based index. */
+export const columnIndex = (letter: string): number => {
+  let index = 0;
+  for (const char of letter.trim().toUpperCase()) {
+    const code = char.charCodeAt(0);
+    if (code < 65 || code > 90) return -1;
+    index = index * 26 + (code - 64);
+  }
+  return index - 1;
+};
+
+/** Reads the cell mapped to `field`, or an empty string when unmapped. */
+export const readCell = (row: string[], mappings: Record<string, string>, field: string): string => {
+  const letter = mappings[field];
+  if (!letter) return "";
+  const index = columnIndex(letter);
+  return index >= 0 ? (row[index] ?? "").trim() : "";
+};
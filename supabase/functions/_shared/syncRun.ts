@@ -0,0 +1,119 @@
+/**
+ * Sync run lifecycle shared by all sync types.
+ * Creates the sync_logs entry, holds the per-type lock, and records the outcome.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+
+export interface SyncRowError {
+  row: number;
+  values: Record<string, string>;
+  message: string;
+  /** Hash of the cells the row was refused with, so a retry only writes what was already previewed */
+  hash?: string;
+}
+
+export type SyncTrigger = "manual" | "scheduled";
+
+export interface SyncCounts {
+  rowsProcessed: number;
+  rowsUpdated: number;
+  rowsFailed: number;
+  errors: SyncRowError[];
+}
+
+export interface SyncResult extends SyncCounts {
+  logId: string;
+  status: "completed" | "failed" | "skipped";
+}
+
+export type SyncType = "inventory" | "properties" | "documents";
+
+interface SyncRunOptions {
+  type: SyncType;
+  source: "google_sheets" | "google_drive";
+  trigger?: SyncTrigger;
+  retryOf?: string;
+}
+
+const LOCK_TTL_SECONDS = 15 * 60;
+
+export const loadSettings = async (client: SupabaseClient, keys: string[]) => {
+  const { data, error } = await client.from("settings").select("key, value").in("key", keys);
+  if (error) throw error;
+  return Object.fromEntries((data || []).map((s) => [s.key, s.value || ""])) as Record<string, string>;
+};
+
+/** Row-level errors of an earlier run, for re-running just those rows. Run-level errors (row 0) are left out. */
+export const loadFailedRows = async (client: SupabaseClient, logId: string) => {
+  const { data, error } = await client.from("sync_logs").select("type, errors").eq("id", logId).maybeSingle();
+  if (error) throw error;
+  if (!data) throw new Error("Sync log not found");
+
+  const errors = (Array.isArray(data.errors) ? data.errors : []) as SyncRowError[];
+  return { type: data.type as SyncType, errors: errors.filter((e) => e.row > 0) };
+};
+
+/** Result counts for a run that stopped before processing any rows. */
+const haltedRun = (message: string): SyncCounts => ({
+  rowsProcessed: 0,
+  rowsUpdated: 0,
+  rowsFailed: 0,
+  errors: [{ row: 0, values: {}, message }],
+});
+
+export const runSync = async (
+  client: SupabaseClient,
+  options: SyncRunOptions,
+  work: (logId: string) => Promise<SyncCounts>
+): Promise<SyncResult> => {
+  const { data: log, error: logErr } = await client
+    .from("sync_logs")
+    .insert({
+      type: options.type,
+      source: options.source,
+      status: "pending",
+      trigger: options.trigger ?? "manual",
+      retry_of: options.retryOf ?? null,
+    })
+    .select("id")
+    .single();
+  if (logErr) throw logErr;
+  const logId: string = log.id;
+
+  const finish = async (status: SyncResult["status"], counts: SyncCounts): Promise<SyncResult> => {
+    const errors = [...counts.errors].sort((a, b) => a.row - b.row);
+    await client
+      .from("sync_logs")
+      .update({
+        status,
+        finished_at: new Date().toISOString(),
+        rows_processed: counts.rowsProcessed,
+        rows_updated: counts.rowsUpdated,
+        rows_failed: counts.rowsFailed,
+        errors,
+      })
+      .eq("id", logId);
+    return { logId, status, ...counts, errors };
+  };
+
+  // Only one run per sync type at a time, whether manual or scheduled
+  const { data: acquired, error: lockErr } = await client.rpc("acquire_sync_lock", {
+    p_sync_type: options.type,
+    p_log_id: logId,
+    p_ttl_seconds: LOCK_TTL_SECONDS,
+  });
+  if (lockErr) return finish("failed", haltedRun(lockErr.message));
+  if (!acquired) return finish("skipped", haltedRun("Skipped: previous run still active"));
+
+  await client.from("sync_logs").update({ status: "running" }).eq("id", logId);
+
+  try {
+    return await finish("completed", await work(logId));
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return finish("failed", haltedRun(message));
+  } finally {
+    await client.rpc("release_sync_lock", { p_sync_type: options.type, p_log_id: logId });
+  }
+};
@@ -1,6 +1,9 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 
+const MIN_IDS = 2;
+const MAX_IDS = 4;
+
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
@@ -23,12 +26,12 @@ serve(async (req) => {
       );
     }
 
-    const ids = idsParam.split(",").filter(Boolean);
+    const ids = [...new Set(idsParam.split(",").map(id => id.trim()).filter(Boolean))];
 
-    if (ids.length !== 2) {
+    if (ids.length < MIN_IDS || ids.length > MAX_IDS) {
       return new Response(
         JSON.stringify({ 
-          error: "Exactly 2 property IDs are required", 
+          error: `Between ${MIN_IDS} and ${MAX_IDS} property IDs are required`, 
           code: "INVALID_COUNT",
           provided: ids.length 
         }),
@@ -58,7 +61,7 @@ serve(async (req) => {
     // Fetch properties
     const { data: properties, error } = await supabase
       .from("properties")
-      .select("id, title, location, price, beds, baths, area, image_url, status, progress_percent, description")
+      .select("id, title, title_ar, slug, slug_ar, location, city, district, price, beds, baths, area, image_url, status, progress_percent, finishing, property_type, description")
       .in("id", ids);
 
     if (error) {
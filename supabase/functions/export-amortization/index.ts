@@ -0,0 +1,371 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import type { PDFPage } from "https://esm.sh/pdf-lib@1.17.1";
+import { attachmentHeaders, corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { formatNumber, Language, listingUrl, localized } from "../_shared/listings.ts";
+import { amortizationSchedule, AmortizationSchedule, ExtraPayment, PaymentFrequency } from "../_shared/mortgage.ts";
+import {
+  A4,
+  BRAND,
+  clampLines,
+  createDocument,
+  drawBrandHeader,
+  drawQrCode,
+  drawText,
+  embedRemoteImage,
+  mirrorX,
+  resolveLogoUrl,
+  wrapText,
+} from "../_shared/pdf.ts";
+
+/**
+ * Exports the payment calculator's amortization schedule for a listing as CSV or PDF. The
+ * scenario comes from the calculator (down payment, term, rate, frequency and extra payments)
+ * and the schedule is worked out here from the listing's current price, in EGP.
+ */
+
+interface Property {
+  id: string;
+  title: string;
+  title_ar: string | null;
+  slug: string | null;
+  slug_ar: string | null;
+  price: number | null;
+}
+
+interface Scenario {
+  downPaymentPercent: number;
+  years: number;
+  interestRate: number;
+  frequency: PaymentFrequency;
+  extraPayments: ExtraPayment[];
+}
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MAX_EXTRA_PAYMENTS = 50;
+
+const TEXT: Record<Language, Record<string, string>> = {
+  en: {
+    title: "Amortization Schedule",
+    currency: "EGP",
+    price: "Price",
+    downPayment: "Down payment",
+    loanAmount: "Loan amount",
+    interestRate: "Interest rate",
+    noInterest: "No interest",
+    term: "Term",
+    years: "years",
+    monthly: "monthly payments",
+    quarterly: "quarterly payments",
+    regularPayment: "Regular payment",
+    totalInterest: "Total interest",
+    interestSaved: "Interest saved by extra payments",
+    paidOffAfter: "Paid off after",
+    month: "Month",
+    quarter: "Quarter",
+    payment: "Payment",
+    principal: "Principal",
+    interest: "Interest",
+    extra: "Extra payment",
+    balance: "Balance",
+    viewListing: "View listing",
+    note: "An estimate for comparison only; the lender's offer and the contract terms prevail.",
+  },
+  ar: {
+    title: "جدول سداد القرض",
+    currency: "جنيه",
+    price: "السعر",
+    downPayment: "المقدم",
+    loanAmount: "مبلغ القرض",
+    interestRate: "سعر الفائدة",
+    noInterest: "بدون فوائد",
+    term: "المدة",
+    years: "سنوات",
+    monthly: "دفعة شهرية",
+    quarterly: "دفعة ربع سنوية",
+    regularPayment: "الدفعة الدورية",
+    totalInterest: "إجمالي الفوائد",
+    interestSaved: "الفوائد الموفرة بالدفعات الإضافية",
+    paidOffAfter: "السداد الكامل بعد",
+    month: "شهر",
+    quarter: "ربع سنة",
+    payment: "الدفعة",
+    principal: "أصل الدين",
+    interest: "الفائدة",
+    extra: "دفعة إضافية",
+    balance: "الرصيد المتبقي",
+    viewListing: "عرض العقار",
+    note: "تقدير للمقارنة فقط، ويسري عرض جهة التمويل وشروط العقد.",
+  },
+};
+
+/** Same ranges the calculator enforces on its sliders and URL parameters */
+const parseScenario = (raw: unknown): Scenario | null => {
+  if (!raw || typeof raw !== "object") return null;
+  const input = raw as Record<string, unknown>;
+  const downPaymentPercent = Number(input.downPaymentPercent);
+  const years = Number(input.years);
+  const interestRate = Number(input.interestRate ?? 0);
+  const frequency = input.frequency ?? "monthly";
+
+  if (!(downPaymentPercent >= 5 && downPaymentPercent <= 50)) return null;
+  if (!Number.isInteger(years) || years < 1 || years > 15) return null;
+  if (!(interestRate >= 0 && interestRate <= 25)) return null;
+  if (frequency !== "monthly" && frequency !== "quarterly") return null;
+
+  const extras = Array.isArray(input.extraPayments) ? input.extraPayments : [];
+  if (extras.length > MAX_EXTRA_PAYMENTS) return null;
+  const extraPayments = extras
+    .map((extra) => ({ period: Number(extra?.period), amount: Number(extra?.amount) }))
+    .filter(({ period, amount }) => Number.isInteger(period) && period >= 1 && amount > 0);
+
+  return { downPaymentPercent, years, interestRate, frequency, extraPayments };
+};
+
+const periodLabel = (scenario: Scenario, text: Record<string, string>) =>
+  scenario.frequency === "quarterly" ? text.quarter : text.month;
+
+const money = (value: number) => formatNumber(Math.round(value));
+
+const summaryLines = (price: number, scenario: Scenario, schedule: AmortizationSchedule, text: Record<string, string>) => {
+  const downPayment = (price * scenario.downPaymentPercent) / 100;
+  const lines: [string, string][] = [
+    [text.price, `${money(price)} ${text.currency}`],
+    [text.downPayment, `${scenario.downPaymentPercent}% · ${money(downPayment)} ${text.currency}`],
+    [text.loanAmount, `${money(price - downPayment)} ${text.currency}`],
+    [text.interestRate, scenario.interestRate > 0 ? `${scenario.interestRate}%` : text.noInterest],
+    [text.term, `${scenario.years} ${text.years} · ${schedule.scheduledPeriods} ${text[scenario.frequency]}`],
+    [text.regularPayment, `${money(schedule.regularPayment)} ${text.currency}`],
+    [text.totalInterest, `${money(schedule.totalInterest)} ${text.currency}`],
+  ];
+  if (scenario.extraPayments.length > 0) {
+    lines.push([text.interestSaved, `${money(schedule.interestSaved)} ${text.currency}`]);
+    lines.push([text.paidOffAfter, `${schedule.rows.length} × ${periodLabel(scenario, text)}`]);
+  }
+  return lines;
+};
+
+// ============ CSV ============
+
+const csvCell = (value: string | number) => {
+  const cell = String(value);
+  return /[",\n\r]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+};
+
+const csvLine = (values: (string | number)[]) => values.map(csvCell).join(",") + "\r\n";
+
+const buildCsv = (price: number, scenario: Scenario, schedule: AmortizationSchedule, language: Language) => {
+  const text = TEXT[language];
+  // Summary first, then the schedule with plain whole numbers so it can be summed in a spreadsheet
+  const lines = summaryLines(price, scenario, schedule, text).map(([label, value]) => csvLine([label, value]));
+  lines.push("\r\n");
+  lines.push(
+    csvLine([
+      periodLabel(scenario, text),
+      `${text.payment} (${text.currency})`,
+      `${text.principal} (${text.currency})`,
+      `${text.interest} (${text.currency})`,
+      `${text.extra} (${text.currency})`,
+      `${text.balance} (${text.currency})`,
+    ]),
+  );
+  schedule.rows.forEach((row) => {
+    lines.push(csvLine([row.period, ...[row.payment, row.principal, row.interest, row.extra, row.balance].map(Math.round)]));
+  });
+  // BOM so Excel opens Arabic labels as UTF-8
+  return "﻿" + lines.join("");
+};
+
+// ============ PDF ============
+
+const MARGIN = 32;
+const HEADER_HEIGHT = 56;
+const ROW_HEIGHT = 14;
+const FOOTER_SPACE = 44;
+
+const buildPdf = async (
+  property: Property,
+  price: number,
+  scenario: Scenario,
+  schedule: AmortizationSchedule,
+  language: Language,
+  logoUrl: string | null,
+) => {
+  const text = TEXT[language];
+  const rtl = language === "ar";
+  const contentWidth = A4.width - MARGIN * 2;
+
+  const { doc, fonts } = await createDocument(text.title);
+  const logo = await embedRemoteImage(doc, logoUrl);
+
+  // Period column, then five amount columns
+  const periodWidth = 60;
+  const amountWidth = (contentWidth - periodWidth) / 5;
+  const columns = [
+    { x: MARGIN, width: periodWidth },
+    ...Array.from({ length: 5 }, (_, i) => ({ x: MARGIN + periodWidth + i * amountWidth, width: amountWidth })),
+  ].map((column) => ({ ...column, x: mirrorX(column.x, column.width, rtl) }));
+  const headers = [periodLabel(scenario, text), text.payment, text.principal, text.interest, text.extra, text.balance];
+
+  const drawTableHeader = (page: PDFPage, top: number) => {
+    page.drawRectangle({ x: MARGIN, y: top - ROW_HEIGHT - 2, width: contentWidth, height: ROW_HEIGHT + 6, color: BRAND.dark });
+    headers.forEach((header, index) => {
+      drawText(
+        page,
+        header,
+        { x: columns[index].x + 4, y: top - 10, width: columns[index].width - 8 },
+        { font: fonts.bold, size: 8, color: BRAND.white },
+        rtl,
+        index === 0 ? "start" : "end",
+      );
+    });
+    return top - ROW_HEIGHT - 8;
+  };
+
+  const pages: PDFPage[] = [];
+  const newPage = () => {
+    const page = doc.addPage([A4.width, A4.height]);
+    pages.push(page);
+    return page;
+  };
+
+  // First page: listing, scenario summary and a QR code back to the listing
+  let page = newPage();
+  let y = drawBrandHeader(page, { fonts, logo, caption: text.title, rtl, height: HEADER_HEIGHT, margin: MARGIN }) - 28;
+
+  const qrSize = 56;
+  const titleStyle = { font: fonts.bold, size: 14, color: BRAND.text };
+  clampLines(wrapText(localized(property.title, property.title_ar, language), titleStyle, contentWidth - qrSize - 16), 2)
+    .forEach((line, index) => {
+      drawText(page, line, { x: mirrorX(MARGIN, contentWidth - qrSize - 16, rtl), y: y - index * 18, width: contentWidth - qrSize - 16 }, titleStyle, rtl);
+    });
+  drawQrCode(page, listingUrl(property, language), mirrorX(MARGIN + contentWidth - qrSize, qrSize, rtl), y - qrSize + 12, qrSize);
+  drawText(
+    page,
+    text.viewListing,
+    { x: mirrorX(MARGIN + contentWidth - qrSize - 10, qrSize + 20, rtl), y: y - qrSize, width: qrSize + 20 },
+    { font: fonts.regular, size: 7, color: BRAND.muted },
+    rtl,
+    "center",
+  );
+  y -= 36;
+
+  const labelWidth = 190;
+  summaryLines(price, scenario, schedule, text).forEach(([label, value]) => {
+    drawText(page, label, { x: mirrorX(MARGIN, labelWidth, rtl), y, width: labelWidth }, { font: fonts.regular, size: 9, color: BRAND.muted }, rtl);
+    drawText(
+      page,
+      value,
+      { x: mirrorX(MARGIN + labelWidth, contentWidth - labelWidth - qrSize, rtl), y, width: contentWidth - labelWidth - qrSize },
+      { font: fonts.bold, size: 9, color: BRAND.text },
+      rtl,
+    );
+    y -= 15;
+  });
+  y = drawTableHeader(page, y - 10);
+
+  // Schedule rows, continuing on new pages with the column headings repeated
+  schedule.rows.forEach((row, index) => {
+    if (y - ROW_HEIGHT < FOOTER_SPACE) {
+      page = newPage();
+      y = drawTableHeader(page, A4.height - MARGIN);
+    }
+    if (index % 2 === 1) {
+      page.drawRectangle({ x: MARGIN, y: y - ROW_HEIGHT + 10, width: contentWidth, height: ROW_HEIGHT, color: BRAND.panel });
+    }
+    const cells = [String(row.period), ...[row.payment, row.principal, row.interest, row.extra, row.balance].map((v) => (v > 0 ? money(v) : "—"))];
+    cells.forEach((cell, cellIndex) => {
+      const highlighted = cellIndex === 4 && row.extra > 0;
+      drawText(
+        page,
+        cell,
+        { x: columns[cellIndex].x + 4, y: y - 4, width: columns[cellIndex].width - 8 },
+        { font: highlighted ? fonts.bold : fonts.regular, size: 8, color: highlighted ? BRAND.gold : BRAND.text },
+        rtl,
+        cellIndex === 0 ? "start" : "end",
+      );
+    });
+    y -= ROW_HEIGHT;
+  });
+
+  const note = { font: fonts.regular, size: 7, color: BRAND.muted };
+  const today = new Date().toISOString().slice(0, 10);
+  pages.forEach((p, index) => {
+    drawText(p, text.note, { x: MARGIN, y: 24, width: contentWidth }, note, rtl);
+    drawText(p, `${today} · ${index + 1}/${pages.length}`, { x: MARGIN, y: 24, width: contentWidth }, note, rtl, "end");
+  });
+
+  return doc.save();
+};
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const { propertyId, scenario: rawScenario, format = "pdf", language = "en", brandLogoUrl } = body as {
+      propertyId?: string;
+      scenario?: unknown;
+      format?: "csv" | "pdf";
+      language?: Language;
+      brandLogoUrl?: string;
+    };
+
+    if (typeof propertyId !== "string" || !UUID_REGEX.test(propertyId)) {
+      return jsonResponse({ error: "A valid property ID is required" }, 400);
+    }
+    const scenario = parseScenario(rawScenario);
+    if (!scenario) {
+      return jsonResponse({ error: "Invalid calculator scenario" }, 400);
+    }
+    if (format !== "csv" && format !== "pdf") {
+      return jsonResponse({ error: `Unsupported format: ${format}` }, 400);
+    }
+    if (language !== "en" && language !== "ar") {
+      return jsonResponse({ error: `Unsupported language: ${language}` }, 400);
+    }
+
+    const adminClient = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+    const [{ data: property, error }, { data: logoSetting }] = await Promise.all([
+      adminClient.from("properties").select("id, title, title_ar, slug, slug_ar, price").eq("id", propertyId).maybeSingle(),
+      adminClient.from("settings").select("value").eq("key", "cms_brand_logo_url").maybeSingle(),
+    ]);
+    if (error) throw error;
+    if (!property || !property.price) {
+      return jsonResponse({ error: "Property not found", code: "NOT_FOUND" }, 404);
+    }
+
+    const price = Number(property.price);
+    const schedule = amortizationSchedule(
+      price * (1 - scenario.downPaymentPercent / 100),
+      scenario.years,
+      scenario.interestRate,
+      scenario.frequency,
+      scenario.extraPayments,
+    );
+
+    const fileName = `payment-schedule-${localized(property.slug, property.slug_ar, "en") || property.id}.${format}`;
+    const fileHeaders = { ...corsHeaders, ...attachmentHeaders(fileName) };
+
+    if (format === "csv") {
+      return new Response(buildCsv(price, scenario, schedule, language), {
+        headers: { ...fileHeaders, "Content-Type": "text/csv; charset=utf-8" },
+      });
+    }
+
+    const pdf = await buildPdf(
+      property as Property,
+      price,
+      scenario,
+      schedule,
+      language,
+      resolveLogoUrl(logoSetting?.value ?? undefined, brandLogoUrl),
+    );
+    return new Response(pdf, { headers: { ...fileHeaders, "Content-Type": "application/pdf" } });
+  } catch (err) {
+    console.error("export-amortization error:", err);
+    return jsonResponse({ error: "Failed to export payment schedule" }, 500);
+  }
+});
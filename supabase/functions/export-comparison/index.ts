@@ -0,0 +1,344 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import type { PDFImage } from "https://esm.sh/pdf-lib@1.17.1";
+// @deno-types="https://cdn.sheetjs.com/xlsx-0.20.3/package/types/index.d.ts"
+import * as XLSX from "https://cdn.sheetjs.com/xlsx-0.20.3/package/xlsx.mjs";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import {
+  DEFAULT_DOWN_PAYMENT_PERCENT,
+  DEFAULT_YEARS,
+  defaultMonthlyInstallment,
+  FacetLabeler,
+  fetchFacetLabels,
+  formatNumber,
+  Language,
+  listingUrl,
+  localized,
+  statusLabel,
+} from "../_shared/listings.ts";
+import {
+  A4_LANDSCAPE,
+  BRAND,
+  clampLines,
+  createDocument,
+  drawBrandHeader,
+  drawImageCover,
+  drawQrCode,
+  drawText,
+  embedRemoteImage,
+  mirrorX,
+  resolveLogoUrl,
+  wrapText,
+} from "../_shared/pdf.ts";
+
+/**
+ * Exports the /compare table as a side-by-side PDF or an XLSX workbook, in the visitor's
+ * language and reading direction. Rows match the comparison page, including price per m²
+ * and the monthly installment at the default plan terms.
+ */
+
+interface Property {
+  id: string;
+  title: string;
+  title_ar: string | null;
+  slug: string | null;
+  slug_ar: string | null;
+  location: string | null;
+  city: string | null;
+  district: string | null;
+  price: number | null;
+  beds: number | null;
+  baths: number | null;
+  area: number | null;
+  image_url: string | null;
+  status: string;
+  progress_percent: number | null;
+  finishing: string | null;
+  property_type: string | null;
+}
+
+type BetterWhen = "lower" | "higher";
+
+interface CompareRow {
+  key: string;
+  label: Record<Language, string>;
+  value: (property: Property, language: Language, facetLabel: FacetLabeler) => number | string | null;
+  unit?: "currency" | "sqm" | "percent";
+  better?: BetterWhen;
+}
+
+const MIN_IDS = 2;
+const MAX_IDS = 4;
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const pricePerSqm = (p: Property) => (p.price && p.area ? Math.round(p.price / p.area) : null);
+
+const ROWS: CompareRow[] = [
+  { key: "price", label: { en: "Price", ar: "السعر" }, value: (p) => p.price, unit: "currency", better: "lower" },
+  { key: "price_per_sqm", label: { en: "Price per m²", ar: "سعر المتر" }, value: pricePerSqm, unit: "currency", better: "lower" },
+  {
+    key: "monthly_installment",
+    label: { en: "Monthly installment", ar: "القسط الشهري" },
+    value: (p) => (p.price ? Math.round(defaultMonthlyInstallment(p.price)) : null),
+    unit: "currency",
+    better: "lower",
+  },
+  { key: "area", label: { en: "Area", ar: "المساحة" }, value: (p) => p.area, unit: "sqm", better: "higher" },
+  { key: "beds", label: { en: "Bedrooms", ar: "غرف النوم" }, value: (p) => p.beds, better: "higher" },
+  { key: "baths", label: { en: "Bathrooms", ar: "الحمامات" }, value: (p) => p.baths, better: "higher" },
+  { key: "progress_percent", label: { en: "Construction", ar: "الإنشاء" }, value: (p) => p.progress_percent, unit: "percent", better: "higher" },
+  { key: "status", label: { en: "Status", ar: "الحالة" }, value: (p, language) => statusLabel(p.status, language) },
+  { key: "property_type", label: { en: "Type", ar: "النوع" }, value: (p, language, label) => label("property_type", p.property_type, language) },
+  { key: "finishing", label: { en: "Finishing", ar: "التشطيب" }, value: (p, language, label) => label("finishing", p.finishing, language) },
+  {
+    key: "location",
+    label: { en: "Location", ar: "الموقع" },
+    value: (p, language, label) => label("area", p.district, language) || label("city", p.city, language) || p.location,
+  },
+];
+
+const TEXT: Record<Language, Record<string, string>> = {
+  en: {
+    title: "Property Comparison",
+    specification: "Specification",
+    currency: "EGP",
+    sqm: "m²",
+    planNote: `Installments assume a ${DEFAULT_DOWN_PAYMENT_PERCENT}% down payment and ${DEFAULT_YEARS} years without interest.`,
+    bestNote: "The best value in each row is shown in gold.",
+    viewListing: "View listing",
+    image: "Image",
+    link: "Listing link",
+  },
+  ar: {
+    title: "مقارنة العقارات",
+    specification: "المواصفات",
+    currency: "جنيه",
+    sqm: "م²",
+    planNote: `الأقساط محسوبة بمقدم ${DEFAULT_DOWN_PAYMENT_PERCENT}% على ${DEFAULT_YEARS} سنوات بدون فوائد.`,
+    bestNote: "أفضل قيمة في كل صف مميزة باللون الذهبي.",
+    viewListing: "عرض العقار",
+    image: "الصورة",
+    link: "رابط العقار",
+  },
+};
+
+/** Same rule as the comparison page: no highlight unless two or more values differ. */
+const bestIndexes = (values: (number | string | null)[], better: BetterWhen): Set<number> => {
+  const present = values.filter((v): v is number => typeof v === "number");
+  if (present.length < 2) return new Set();
+  const best = better === "lower" ? Math.min(...present) : Math.max(...present);
+  if (present.every((v) => v === best)) return new Set();
+  return new Set(values.flatMap((v, i) => (v === best ? [i] : [])));
+};
+
+const displayValue = (value: number | string | null, row: CompareRow, text: Record<string, string>) => {
+  if (value === null || value === "") return "—";
+  if (typeof value !== "number") return value;
+  if (row.unit === "currency") return `${formatNumber(value)} ${text.currency}`;
+  if (row.unit === "sqm") return `${formatNumber(value)} ${text.sqm}`;
+  if (row.unit === "percent") return `${value}%`;
+  return formatNumber(value);
+};
+
+interface Table {
+  titles: string[];
+  rows: { row: CompareRow; values: (number | string | null)[]; best: Set<number> }[];
+}
+
+const buildTable = (properties: Property[], language: Language, facetLabel: FacetLabeler): Table => ({
+  titles: properties.map((p) => localized(p.title, p.title_ar, language)),
+  rows: ROWS.map((row) => {
+    const values = properties.map((p) => row.value(p, language, facetLabel));
+    return { row, values, best: row.better ? bestIndexes(values, row.better) : new Set<number>() };
+  }),
+});
+
+// ============ XLSX ============
+
+const buildWorkbook = (properties: Property[], table: Table, language: Language) => {
+  const text = TEXT[language];
+  // Numbers stay numeric so the sheet can be sorted and summed; units live in the row label
+  const label = (row: CompareRow) => {
+    const unit = row.unit === "currency" ? text.currency : row.unit === "sqm" ? text.sqm : row.unit === "percent" ? "%" : "";
+    return unit ? `${row.label[language]} (${unit})` : row.label[language];
+  };
+
+  const sheet = XLSX.utils.aoa_to_sheet([
+    [text.specification, ...table.titles],
+    ...table.rows.map(({ row, values }) => [label(row), ...values.map((v) => v ?? "")]),
+    [text.image, ...properties.map((p) => p.image_url || "")],
+    [text.link, ...properties.map((p) => listingUrl(p, language))],
+  ]);
+  sheet["!cols"] = [{ wch: 24 }, ...properties.map(() => ({ wch: 36 }))];
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, language === "ar" ? "مقارنة" : "Comparison");
+  if (language === "ar") {
+    workbook.Workbook = { Views: [{ RTL: true }] };
+  }
+  return XLSX.write(workbook, { type: "array", bookType: "xlsx" });
+};
+
+// ============ PDF ============
+
+const MARGIN = 32;
+const HEADER_HEIGHT = 56;
+const LABEL_WIDTH = 150;
+
+const buildPdf = async (
+  properties: Property[],
+  table: Table,
+  language: Language,
+  logoUrl: string | null,
+) => {
+  const text = TEXT[language];
+  const rtl = language === "ar";
+  const { width: pageWidth, height: pageHeight } = A4_LANDSCAPE;
+  const contentWidth = pageWidth - MARGIN * 2;
+
+  const { doc, fonts } = await createDocument(text.title);
+  const [logo, ...images] = await Promise.all([
+    embedRemoteImage(doc, logoUrl),
+    ...properties.map((p) => embedRemoteImage(doc, p.image_url)),
+  ]);
+
+  const page = doc.addPage([pageWidth, pageHeight]);
+  let y = drawBrandHeader(page, { fonts, logo, caption: text.title, rtl, height: HEADER_HEIGHT, margin: MARGIN }) - 20;
+
+  const columnWidth = (contentWidth - LABEL_WIDTH) / properties.length;
+  const mirror = (x: number, width: number) => mirrorX(x, width, rtl, pageWidth);
+  const labelBox = (top: number) => ({ x: mirror(MARGIN, LABEL_WIDTH) + 8, y: top, width: LABEL_WIDTH - 16 });
+  const column = (index: number) => mirror(MARGIN + LABEL_WIDTH + index * columnWidth, columnWidth);
+
+  // Photos
+  const imageHeight = 96;
+  images.forEach((image: PDFImage | null, index) => {
+    const box = { x: column(index) + 6, y: y - imageHeight, width: columnWidth - 12, height: imageHeight };
+    if (image) {
+      drawImageCover(page, image, box);
+    } else {
+      page.drawRectangle({ ...box, color: BRAND.panel });
+    }
+  });
+  y -= imageHeight + 18;
+
+  // Titles
+  const titleStyle = { font: fonts.bold, size: 10, color: BRAND.text };
+  table.titles.forEach((title, index) => {
+    clampLines(wrapText(title, titleStyle, columnWidth - 12), 2).forEach((line, lineIndex) => {
+      drawText(page, line, { x: column(index) + 6, y: y - lineIndex * 13, width: columnWidth - 12 }, titleStyle, rtl, "center");
+    });
+  });
+  drawText(page, text.specification, labelBox(y), { font: fonts.bold, size: 9, color: BRAND.muted }, rtl);
+  y -= 30;
+
+  // Attribute rows
+  const rowHeight = 22;
+  table.rows.forEach(({ row, values, best }, rowIndex) => {
+    const top = y - rowIndex * rowHeight;
+    if (rowIndex % 2 === 0) {
+      page.drawRectangle({ x: MARGIN, y: top - rowHeight + 7, width: contentWidth, height: rowHeight, color: BRAND.panel });
+    }
+    drawText(page, row.label[language], labelBox(top - 8), { font: fonts.regular, size: 9, color: BRAND.muted }, rtl);
+    values.forEach((value, index) => {
+      const highlighted = best.has(index);
+      drawText(
+        page,
+        displayValue(value, row, text),
+        { x: column(index) + 6, y: top - 8, width: columnWidth - 12 },
+        { font: highlighted ? fonts.bold : fonts.regular, size: 10, color: highlighted ? BRAND.gold : BRAND.text },
+        rtl,
+        "center",
+      );
+    });
+  });
+  y -= table.rows.length * rowHeight + 12;
+
+  // QR codes back to each listing
+  const qrSize = 44;
+  properties.forEach((property, index) => {
+    const x = column(index) + (columnWidth - qrSize) / 2;
+    drawQrCode(page, listingUrl(property, language), x, y - qrSize, qrSize);
+    drawText(
+      page,
+      text.viewListing,
+      { x: column(index), y: y - qrSize - 12, width: columnWidth },
+      { font: fonts.regular, size: 7, color: BRAND.muted },
+      rtl,
+      "center",
+    );
+  });
+
+  const note = { font: fonts.regular, size: 7, color: BRAND.muted };
+  drawText(page, text.bestNote, { x: MARGIN, y: 30, width: contentWidth }, note, rtl);
+  drawText(page, text.planNote, { x: MARGIN, y: 20, width: contentWidth }, note, rtl);
+  drawText(page, new Date().toISOString().slice(0, 10), { x: MARGIN, y: 20, width: contentWidth }, note, rtl, "end");
+
+  return doc.save();
+};
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const { ids: rawIds, format = "pdf", language = "en", brandLogoUrl } = body as {
+      ids?: string[];
+      format?: "pdf" | "xlsx";
+      language?: Language;
+      brandLogoUrl?: string;
+    };
+
+    const ids = [...new Set((Array.isArray(rawIds) ? rawIds : []).map((id) => String(id).trim()).filter(Boolean))];
+    if (ids.length < MIN_IDS || ids.length > MAX_IDS || !ids.every((id) => UUID_REGEX.test(id))) {
+      return jsonResponse({ error: `Between ${MIN_IDS} and ${MAX_IDS} valid property IDs are required` }, 400);
+    }
+    if (format !== "pdf" && format !== "xlsx") {
+      return jsonResponse({ error: `Unsupported format: ${format}` }, 400);
+    }
+    if (language !== "en" && language !== "ar") {
+      return jsonResponse({ error: `Unsupported language: ${language}` }, 400);
+    }
+
+    const adminClient = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+    const [{ data, error }, facetLabel, { data: logoSetting }] = await Promise.all([
+      adminClient
+        .from("properties")
+        .select("id, title, title_ar, slug, slug_ar, location, city, district, price, beds, baths, area, image_url, status, progress_percent, finishing, property_type")
+        .in("id", ids),
+      fetchFacetLabels(adminClient),
+      adminClient.from("settings").select("value").eq("key", "cms_brand_logo_url").maybeSingle(),
+    ]);
+    if (error) throw error;
+
+    const missingIds = ids.filter((id) => !data?.some((p) => p.id === id));
+    if (missingIds.length > 0) {
+      return jsonResponse({ error: "One or more properties not found", code: "NOT_FOUND", missingIds }, 404);
+    }
+
+    // Columns in the order they were compared
+    const properties = ids.map((id) => data!.find((p) => p.id === id)!) as Property[];
+    const table = buildTable(properties, language, facetLabel);
+
+    const fileName = `property-comparison-${new Date().toISOString().slice(0, 10)}.${format}`;
+    const fileHeaders = {
+      ...corsHeaders,
+      "Access-Control-Expose-Headers": "Content-Disposition",
+      "Content-Disposition": `attachment; filename="${fileName}"`,
+    };
+
+    if (format === "xlsx") {
+      return new Response(buildWorkbook(properties, table, language), {
+        headers: { ...fileHeaders, "Content-Type": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" },
+      });
+    }
+
+    const pdf = await buildPdf(properties, table, language, resolveLogoUrl(logoSetting?.value ?? undefined, brandLogoUrl));
+    return new Response(pdf, { headers: { ...fileHeaders, "Content-Type": "application/pdf" } });
+  } catch (err) {
+    console.error("export-comparison error:", err);
+    return jsonResponse({ error: "Failed to export comparison" }, 500);
+  }
+});
@@ -0,0 +1,226 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+// @deno-types="https://cdn.sheetjs.com/xlsx-0.20.3/package/types/index.d.ts"
+import * as XLSX from "https://cdn.sheetjs.com/xlsx-0.20.3/package/xlsx.mjs";
+import { authenticate } from "../_shared/auth.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+
+/**
+ * Lead export to CSV or XLSX.
+ * Leads are read with the caller's own client, so an export never contains rows the
+ * caller couldn't see in the app. CSV is streamed page by page; XLSX is built in
+ * memory. Every export is recorded in lead_exports.
+ */
+
+interface ExportFilters {
+  status?: string;
+  search?: string;
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+type LeadRow = Record<string, unknown>;
+
+const EXPORT_ROLES = ["admin", "sales_manager", "sales_agent", "marketer"];
+const PAGE_SIZE = 1000;
+
+// Output columns in order; resolved names sit next to the IDs they come from
+const COLUMNS: { key: string; header: string }[] = [
+  { key: "id", header: "Lead ID" },
+  { key: "created_at", header: "Created At" },
+  { key: "name", header: "Name" },
+  { key: "email", header: "Email" },
+  { key: "phone", header: "Phone" },
+  { key: "status", header: "Status" },
+  { key: "source", header: "Source" },
+  { key: "message", header: "Message" },
+  { key: "property_id", header: "Property ID" },
+  { key: "property_type", header: "Property Type" },
+  { key: "city", header: "City" },
+  { key: "district", header: "District" },
+  { key: "area_sqm", header: "Area (sqm)" },
+  { key: "budget_min", header: "Budget Min" },
+  { key: "budget_max", header: "Budget Max" },
+  { key: "payment_preference", header: "Payment Preference" },
+  { key: "assigned_agent_id", header: "Agent ID" },
+  { key: "assigned_agent_name", header: "Agent" },
+  { key: "assigned_at", header: "Agent Assigned At" },
+  { key: "assigned_broker_id", header: "Broker ID" },
+  { key: "assigned_broker_name", header: "Broker" },
+  { key: "broker_assigned_at", header: "Broker Assigned At" },
+  { key: "assigned_by", header: "Assigned By ID" },
+  { key: "assigned_by_name", header: "Assigned By" },
+  { key: "agent_name", header: "Agent Name (form)" },
+  { key: "is_converted", header: "Converted" },
+  { key: "utm_source", header: "UTM Source" },
+  { key: "utm_medium", header: "UTM Medium" },
+  { key: "utm_campaign", header: "UTM Campaign" },
+  { key: "utm_term", header: "UTM Term" },
+  { key: "utm_content", header: "UTM Content" },
+  { key: "referrer_domain", header: "Referrer" },
+  { key: "landing_page", header: "Landing Page" },
+  { key: "last_page_before_submit", header: "Last Page Before Submit" },
+  { key: "lead_device_type", header: "Device" },
+  { key: "browser_language", header: "Browser Language" },
+  { key: "session_id", header: "Session ID" },
+  { key: "last_events_summary", header: "Last Events" },
+  { key: "updated_at", header: "Updated At" },
+];
+
+const fetchLeadPage = async (client: SupabaseClient, filters: ExportFilters, page: number) => {
+  let query = client
+    .from("leads")
+    .select("*")
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: true });
+
+  if (filters.status && filters.status !== "all") query = query.eq("status", filters.status);
+  if (filters.dateFrom) query = query.gte("created_at", filters.dateFrom);
+  if (filters.dateTo) query = query.lte("created_at", filters.dateTo);
+  if (filters.search?.trim()) {
+    // Same match as the on-screen filter: name or email contains the text literally.
+    // LIKE wildcards are escaped, then the pattern is quoted so commas and parentheses survive the or= filter.
+    const pattern = `%${filters.search.trim().replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+    const quoted = `"${pattern.replace(/["\\]/g, (c) => `\\${c}`)}"`;
+    query = query.or(`name.ilike.${quoted},email.ilike.${quoted}`);
+  }
+
+  const from = page * PAGE_SIZE;
+  const { data, error } = await query.range(from, from + PAGE_SIZE - 1);
+  if (error) throw error;
+  return (data || []) as LeadRow[];
+};
+
+/** Adds agent/broker/assigner names, looking up only profiles not seen in earlier pages. */
+const resolveNames = async (client: SupabaseClient, leads: LeadRow[], names: Map<string, string>) => {
+  const ids = new Set<string>();
+  for (const lead of leads) {
+    for (const key of ["assigned_agent_id", "assigned_broker_id", "assigned_by"]) {
+      const id = lead[key] as string | null;
+      if (id && !names.has(id)) ids.add(id);
+    }
+  }
+
+  if (ids.size > 0) {
+    const { data, error } = await client.from("profiles").select("user_id, full_name, email").in("user_id", [...ids]);
+    if (error) throw error;
+    (data || []).forEach((p) => names.set(p.user_id, p.full_name || p.email || ""));
+  }
+
+  return leads.map((lead) => ({
+    ...lead,
+    assigned_agent_name: names.get(lead.assigned_agent_id as string) ?? "",
+    assigned_broker_name: names.get(lead.assigned_broker_id as string) ?? "",
+    assigned_by_name: names.get(lead.assigned_by as string) ?? "",
+  }));
+};
+
+const cellValue = (value: unknown): string | number | boolean => {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return value as string | number | boolean;
+};
+
+const csvCell = (value: unknown) => {
+  let text = String(cellValue(value));
+  // Stop spreadsheet apps from treating free-text fields as formulas
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvLine = (values: unknown[]) => values.map(csvCell).join(",") + "\r\n";
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const auth = await authenticate(req);
+    if (auth instanceof Response) return auth;
+    if (!auth.role || !EXPORT_ROLES.includes(auth.role)) {
+      return jsonResponse({ error: "Forbidden – you cannot export leads" }, 403);
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const { format = "csv", filters = {} } = body as { format?: "csv" | "xlsx"; filters?: ExportFilters };
+    if (format !== "csv" && format !== "xlsx") {
+      return jsonResponse({ error: `Unsupported format: ${format}` }, 400);
+    }
+
+    const names = new Map<string, string>();
+    const recordExport = (rowCount: number) =>
+      auth.adminClient.from("lead_exports").insert({
+        user_id: auth.userId,
+        format,
+        filters,
+        row_count: rowCount,
+      });
+
+    const fileName = `leads-${new Date().toISOString().slice(0, 10)}.${format}`;
+    const fileHeaders = {
+      ...corsHeaders,
+      "Access-Control-Expose-Headers": "Content-Disposition",
+      "Content-Disposition": `attachment; filename="${fileName}"`,
+    };
+
+    if (format === "xlsx") {
+      const rows: LeadRow[] = [];
+      for (let page = 0; ; page++) {
+        const leads = await fetchLeadPage(auth.callerClient, filters, page);
+        rows.push(...(await resolveNames(auth.adminClient, leads, names)));
+        if (leads.length < PAGE_SIZE) break;
+      }
+
+      const sheet = XLSX.utils.aoa_to_sheet([
+        COLUMNS.map((c) => c.header),
+        ...rows.map((row) => COLUMNS.map((c) => cellValue(row[c.key]))),
+      ]);
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, sheet, "Leads");
+      const file = XLSX.write(workbook, { type: "array", bookType: "xlsx" });
+
+      await recordExport(rows.length);
+      return new Response(file, {
+        headers: {
+          ...fileHeaders,
+          "Content-Type": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        },
+      });
+    }
+
+    // CSV is streamed so large exports don't have to fit in memory
+    const encoder = new TextEncoder();
+    let page = 0;
+    let rowCount = 0;
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        // BOM so Excel opens Arabic names as UTF-8
+        controller.enqueue(encoder.encode("﻿" + csvLine(COLUMNS.map((c) => c.header))));
+      },
+      async pull(controller) {
+        try {
+          const leads = await fetchLeadPage(auth.callerClient, filters, page++);
+          const rows = await resolveNames(auth.adminClient, leads, names);
+          rowCount += rows.length;
+          controller.enqueue(encoder.encode(rows.map((row) => csvLine(COLUMNS.map((c) => row[c.key]))).join("")));
+
+          if (leads.length < PAGE_SIZE) {
+            await recordExport(rowCount);
+            controller.close();
+          }
+        } catch (err) {
+          console.error("export-leads stream error:", err);
+          controller.error(err);
+        }
+      },
+    });
+
+    return new Response(stream, {
+      headers: { ...fileHeaders, "Content-Type": "text/csv; charset=utf-8" },
+    });
+  } catch (err) {
+    console.error("export-leads error:", err);
+    return jsonResponse({ error: "Internal server error" }, 500);
+  }
+});
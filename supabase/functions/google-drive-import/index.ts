@@ -0,0 +1,42 @@
+import { authorizeAdmin } from "../_shared/auth.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { getDriveClient } from "../_shared/drive.ts";
+import { getSheetFetcher } from "../_shared/sheets.ts";
+import { runDocumentImport } from "../_shared/documentImport.ts";
+import { loadFailedRows } from "../_shared/syncRun.ts";
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const auth = await authorizeAdmin(req);
+    if (auth instanceof Response) return auth;
+
+    const { logId } = (await req.json().catch(() => ({}))) as { logId?: string };
+
+    // Retry: re-import only the files that failed in an earlier run
+    let fileIds: string[] | undefined;
+    if (logId) {
+      const failed = await loadFailedRows(auth.adminClient, logId);
+      if (failed.type !== "documents") {
+        return jsonResponse({ error: `Unsupported sync type: ${failed.type}`, code: "INVALID_TYPE" }, 400);
+      }
+      fileIds = [...new Set(failed.errors.map((e) => e.values.file_id).filter(Boolean))];
+      if (fileIds.length === 0) {
+        return jsonResponse({ error: "This run has no failed files to retry", code: "NOTHING_TO_RETRY" }, 400);
+      }
+    }
+
+    const result = await runDocumentImport(auth.adminClient, getDriveClient(), getSheetFetcher(), {
+      userId: auth.userId,
+      fileIds,
+      retryOf: logId,
+    });
+    return jsonResponse(result);
+  } catch (err) {
+    console.error("google-drive-import error:", err);
+    return jsonResponse({ error: "Internal server error" }, 500);
+  }
+});
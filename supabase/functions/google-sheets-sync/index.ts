@@ -0,0 +1,102 @@
+import { authorizeAdmin } from "../_shared/auth.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { getSheetFetcher } from "../_shared/sheets.ts";
+import { loadFailedRows } from "../_shared/syncRun.ts";
+import { runInventorySync } from "../_shared/inventorySync.ts";
+import { previewPropertiesImport, PropertyRowSelection, runPropertiesImport } from "../_shared/propertiesImport.ts";
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const auth = await authorizeAdmin(req);
+    if (auth instanceof Response) return auth;
+
+    const body = await req.json().catch(() => ({}));
+    const { action = "run", type = "inventory", sheetId, rows, logId } = body as {
+      action?: "run" | "test" | "preview" | "retry";
+      type?: string;
+      sheetId?: string;
+      rows?: PropertyRowSelection[];
+      logId?: string;
+    };
+
+    const fetcher = getSheetFetcher();
+
+    // Connection test: read the sheet and report what we found, without writing anything
+    if (action === "test") {
+      if (!sheetId) {
+        return jsonResponse({ error: "sheetId is required" }, 400);
+      }
+      try {
+        const rows = await fetcher.fetchRows(sheetId);
+        return jsonResponse({
+          success: true,
+          header: rows[0] || [],
+          rowCount: Math.max(rows.length - 1, 0),
+        });
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : "Unknown error";
+        return jsonResponse({ error: msg, code: "CONNECTION_FAILED" }, 502);
+      }
+    }
+
+    // Retry: re-run only the rows that failed in an earlier run, after the sheet was fixed
+    if (action === "retry") {
+      if (!logId) {
+        return jsonResponse({ error: "logId is required" }, 400);
+      }
+      const failed = await loadFailedRows(auth.adminClient, logId);
+      const retryRows = [...new Set(failed.errors.map((e) => e.row))];
+      if (retryRows.length === 0) {
+        return jsonResponse({ error: "This run has no failed rows to retry", code: "NOTHING_TO_RETRY" }, 400);
+      }
+
+      if (failed.type === "inventory") {
+        return jsonResponse(await runInventorySync(auth.adminClient, fetcher, { rows: retryRows, retryOf: logId }));
+      }
+      if (failed.type === "properties") {
+        // Rows logged without a hash were never previewed as they stand, so the hash check refuses them
+        const selection = retryRows.map((row) => ({
+          row,
+          hash: failed.errors.find((e) => e.row === row)?.hash ?? "",
+        }));
+        return jsonResponse(
+          await runPropertiesImport(auth.adminClient, fetcher, { rows: selection, userId: auth.userId, retryOf: logId })
+        );
+      }
+      return jsonResponse({ error: `Unsupported sync type: ${failed.type}`, code: "INVALID_TYPE" }, 400);
+    }
+
+    // Properties are never written blind: the admin previews the diff, then commits selected rows
+    if (type === "properties") {
+      if (action === "preview") {
+        try {
+          return jsonResponse(await previewPropertiesImport(auth.adminClient, fetcher));
+        } catch (err) {
+          const msg = err instanceof Error ? err.message : "Unknown error";
+          return jsonResponse({ error: msg, code: "PREVIEW_FAILED" }, 422);
+        }
+      }
+      const isSelection = (r: unknown) =>
+        !!r && typeof r === "object" && Number.isInteger((r as PropertyRowSelection).row) &&
+        typeof (r as PropertyRowSelection).hash === "string";
+      if (!Array.isArray(rows) || rows.length === 0 || !rows.every(isSelection)) {
+        return jsonResponse({ error: "rows must list the previewed sheet rows to import, with their hashes" }, 400);
+      }
+      return jsonResponse(await runPropertiesImport(auth.adminClient, fetcher, { rows, userId: auth.userId }));
+    }
+
+    if (type !== "inventory") {
+      return jsonResponse({ error: `Unsupported sync type: ${type}`, code: "INVALID_TYPE" }, 400);
+    }
+
+    const result = await runInventorySync(auth.adminClient, fetcher);
+    return jsonResponse(result);
+  } catch (err) {
+    console.error("google-sheets-sync error:", err);
+    return jsonResponse({ error: "Internal server error" }, 500);
+  }
+});
@@ -0,0 +1,469 @@
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import type { PDFDocument, PDFImage, PDFPage } from "https://esm.sh/pdf-lib@1.17.1";
+import { attachmentHeaders, corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import {
+  DEFAULT_DOWN_PAYMENT_PERCENT,
+  DEFAULT_YEARS,
+  defaultMonthlyInstallment,
+  FacetLabeler,
+  fetchFacetLabels,
+  formatNumber,
+  Language,
+  listingUrl,
+  localized,
+  statusLabel,
+  UNPUBLISHED_STATUSES,
+} from "../_shared/listings.ts";
+import {
+  A4,
+  BRAND,
+  BrandFonts,
+  clampLines,
+  createDocument,
+  drawBrandHeader,
+  drawImageCover,
+  drawQrCode,
+  drawText,
+  embedRemoteImage,
+  mirrorX,
+  resolveLogoUrl,
+  TextStyle,
+  wrapText,
+} from "../_shared/pdf.ts";
+
+/**
+ * Printable brochure for a listing, in English or Arabic.
+ * Rendered here rather than in the browser so every agent sends the same document. When an
+ * agent downloads it their own contact details are printed; anyone else gets the company
+ * WhatsApp number.
+ */
+
+interface Property {
+  id: string;
+  title: string;
+  title_ar: string | null;
+  description: string | null;
+  description_ar: string | null;
+  slug: string | null;
+  slug_ar: string | null;
+  location: string | null;
+  city: string | null;
+  district: string | null;
+  price: number | null;
+  beds: number | null;
+  baths: number | null;
+  area: number | null;
+  image_url: string | null;
+  status: string;
+  property_type: string | null;
+  finishing: string | null;
+  progress_percent: number | null;
+}
+
+interface Contact {
+  name: string;
+  phone: string | null;
+  email: string | null;
+}
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const STAFF_ROLES = ["admin", "sales_agent", "sales_manager", "marketer", "broker"];
+
+const GALLERY_SIZE = 3;
+const MARGIN = 40;
+const CONTENT_WIDTH = A4.width - MARGIN * 2;
+const HEADER_HEIGHT = 64;
+
+const LABELS: Record<Language, Record<string, string>> = {
+  en: {
+    brochure: "Property Brochure",
+    priceOnRequest: "Price on request",
+    currency: "EGP",
+    beds: "Bedrooms",
+    baths: "Bathrooms",
+    area: "Area",
+    sqm: "m²",
+    type: "Type",
+    finishing: "Finishing",
+    status: "Status",
+    construction: "Construction",
+    about: "About this property",
+    paymentPlan: "Payment Plan",
+    downPayment: "Down payment ({pct}%)",
+    remaining: "Remaining balance",
+    period: "Installment period",
+    periodValue: "{years} years ({months} months)",
+    monthly: "Monthly installment",
+    planNote: "Indicative plan based on the standard calculator settings. Final terms are confirmed by your agent.",
+    contact: "Your Agent",
+    phone: "Phone",
+    email: "Email",
+    scan: "Scan to view this listing online",
+    generated: "Generated on {date}",
+    page: "Page {page} of {pages}",
+  },
+  ar: {
+    brochure: "كتيب العقار",
+    priceOnRequest: "السعر عند الطلب",
+    currency: "جنيه",
+    beds: "غرف النوم",
+    baths: "الحمامات",
+    area: "المساحة",
+    sqm: "م²",
+    type: "النوع",
+    finishing: "التشطيب",
+    status: "الحالة",
+    construction: "الإنشاء",
+    about: "عن هذا العقار",
+    paymentPlan: "خطة الدفع",
+    downPayment: "المقدم ({pct}%)",
+    remaining: "المبلغ المتبقي",
+    period: "مدة التقسيط",
+    periodValue: "{years} سنوات ({months} شهر)",
+    monthly: "القسط الشهري",
+    planNote: "خطة استرشادية وفق إعدادات الحاسبة الافتراضية، ويؤكد وكيلك الشروط النهائية.",
+    contact: "وكيلك العقاري",
+    phone: "الهاتف",
+    email: "البريد الإلكتروني",
+    scan: "امسح الرمز لعرض العقار على الموقع",
+    generated: "تم الإنشاء في {date}",
+    page: "صفحة {page} من {pages}",
+  },
+};
+
+const format = (template: string, values: Record<string, string | number>) =>
+  template.replace(/\{(\w+)\}/g, (_, key) => String(values[key] ?? ""));
+
+/** The downloading agent when the caller is staff; null for visitors or an invalid token. */
+const callerStaffId = async (req: Request, adminClient: SupabaseClient): Promise<string | null> => {
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+  if (!token || token === Deno.env.get("SUPABASE_ANON_KEY")) return null;
+
+  const { data } = await adminClient.auth.getUser(token);
+  if (!data.user) return null;
+
+  const { data: role } = await adminClient.from("user_roles").select("role").eq("user_id", data.user.id).maybeSingle();
+  return role && STAFF_ROLES.includes(role.role) ? data.user.id : null;
+};
+
+const resolveContact = async (
+  adminClient: SupabaseClient,
+  agentId: string | null,
+  whatsappNumber: string | null,
+): Promise<Contact | null> => {
+  if (agentId) {
+    const { data } = await adminClient
+      .from("profiles")
+      .select("full_name, phone, email")
+      .eq("user_id", agentId)
+      .maybeSingle();
+    if (data && (data.full_name || data.phone || data.email)) {
+      return { name: data.full_name || "Source", phone: data.phone || whatsappNumber, email: data.email };
+    }
+  }
+  return whatsappNumber ? { name: "Source", phone: whatsappNumber, email: null } : null;
+};
+
+// ============ Rendering ============
+
+interface RenderContext {
+  doc: PDFDocument;
+  fonts: BrandFonts;
+  rtl: boolean;
+  labels: Record<string, string>;
+  logo: PDFImage | null;
+}
+
+const style = (ctx: RenderContext, size: number, options: { bold?: boolean; color?: TextStyle["color"] } = {}): TextStyle => ({
+  font: options.bold ? ctx.fonts.bold : ctx.fonts.regular,
+  size,
+  color: options.color,
+});
+
+/** New page with the dark brand header; returns the page and the y just below the header. */
+const addPage = (ctx: RenderContext): { page: PDFPage; y: number } => {
+  const page = ctx.doc.addPage([A4.width, A4.height]);
+  const bottom = drawBrandHeader(page, {
+    fonts: ctx.fonts,
+    logo: ctx.logo,
+    caption: ctx.labels.brochure,
+    rtl: ctx.rtl,
+    height: HEADER_HEIGHT,
+    margin: MARGIN,
+  });
+  return { page, y: bottom - 24 };
+};
+
+const sectionTitle = (ctx: RenderContext, page: PDFPage, text: string, y: number) => {
+  drawText(page, text, { x: MARGIN, y, width: CONTENT_WIDTH }, style(ctx, 14, { bold: true }), ctx.rtl);
+  page.drawRectangle({ x: mirrorX(MARGIN, 36, ctx.rtl), y: y - 8, width: 36, height: 2, color: BRAND.gold });
+  return y - 28;
+};
+
+const renderBrochure = async (
+  ctx: RenderContext,
+  property: Property,
+  language: Language,
+  options: { gallery: PDFImage[]; hero: PDFImage | null; facetLabel: FacetLabeler; contact: Contact | null },
+) => {
+  const { labels: t, rtl } = ctx;
+  const title = localized(property.title, property.title_ar, language);
+  const description = localized(property.description, property.description_ar, language);
+  const facetLabel = (facet: string, value: string | null) => options.facetLabel(facet, value, language);
+
+  // ---- Page 1: hero, title, price, specs, gallery ----
+  let { page, y } = addPage(ctx);
+
+  const heroHeight = 250;
+  y -= heroHeight;
+  if (options.hero) {
+    drawImageCover(page, options.hero, { x: MARGIN, y, width: CONTENT_WIDTH, height: heroHeight });
+  } else {
+    page.drawRectangle({ x: MARGIN, y, width: CONTENT_WIDTH, height: heroHeight, color: BRAND.panel });
+  }
+  y -= 34;
+
+  for (const line of clampLines(wrapText(title, style(ctx, 20, { bold: true }), CONTENT_WIDTH), 2)) {
+    drawText(page, line, { x: MARGIN, y, width: CONTENT_WIDTH }, style(ctx, 20, { bold: true }), rtl);
+    y -= 26;
+  }
+
+  const location = [facetLabel("area", property.district), facetLabel("city", property.city)].filter(Boolean).join(rtl ? "، " : ", ")
+    || property.location;
+  if (location) {
+    drawText(page, location, { x: MARGIN, y, width: CONTENT_WIDTH }, style(ctx, 11, { color: BRAND.muted }), rtl);
+    y -= 30;
+  }
+
+  drawText(
+    page,
+    property.price ? `${formatNumber(property.price)} ${t.currency}` : t.priceOnRequest,
+    { x: MARGIN, y, width: CONTENT_WIDTH },
+    style(ctx, 22, { bold: true, color: BRAND.gold }),
+    rtl,
+  );
+  y -= 24;
+
+  // Specs grid, three per row
+  const specs = [
+    { label: t.beds, value: property.beds },
+    { label: t.baths, value: property.baths },
+    { label: t.area, value: property.area != null ? `${formatNumber(property.area)} ${t.sqm}` : null },
+    { label: t.type, value: facetLabel("property_type", property.property_type) },
+    { label: t.finishing, value: facetLabel("finishing", property.finishing) },
+    { label: t.status, value: statusLabel(property.status, language) },
+    { label: t.construction, value: property.progress_percent != null ? `${property.progress_percent}%` : null },
+  ].filter((spec) => spec.value !== null && spec.value !== undefined && spec.value !== "");
+
+  const gap = 10;
+  const cellWidth = (CONTENT_WIDTH - gap * 2) / 3;
+  const cellHeight = 46;
+  specs.forEach((spec, index) => {
+    const col = index % 3;
+    const row = Math.floor(index / 3);
+    const x = mirrorX(MARGIN + col * (cellWidth + gap), cellWidth, rtl);
+    const top = y - row * (cellHeight + gap);
+    page.drawRectangle({ x, y: top - cellHeight, width: cellWidth, height: cellHeight, color: BRAND.panel, borderColor: BRAND.border, borderWidth: 0.5 });
+    const box = { x: x + 10, width: cellWidth - 20 };
+    drawText(page, spec.label, { ...box, y: top - 17 }, style(ctx, 9, { color: BRAND.muted }), rtl);
+    drawText(page, String(spec.value), { ...box, y: top - 35 }, style(ctx, 12, { bold: true }), rtl);
+  });
+  y -= Math.ceil(specs.length / 3) * (cellHeight + gap) + 10;
+
+  // Gallery strip, space permitting
+  const thumbHeight = 110;
+  if (options.gallery.length > 0 && y - thumbHeight > MARGIN + 20) {
+    const thumbWidth = (CONTENT_WIDTH - gap * (GALLERY_SIZE - 1)) / GALLERY_SIZE;
+    options.gallery.forEach((image, index) => {
+      const x = mirrorX(MARGIN + index * (thumbWidth + gap), thumbWidth, rtl);
+      drawImageCover(page, image, { x, y: y - thumbHeight, width: thumbWidth, height: thumbHeight });
+    });
+  }
+
+  // ---- Page 2: description, payment plan, contact ----
+  ({ page, y } = addPage(ctx));
+
+  if (description) {
+    y = sectionTitle(ctx, page, t.about, y - 6);
+    const body = style(ctx, 10, { color: BRAND.text });
+    for (const line of clampLines(wrapText(description, body, CONTENT_WIDTH), 20)) {
+      drawText(page, line, { x: MARGIN, y, width: CONTENT_WIDTH }, body, rtl);
+      y -= 15;
+    }
+    y -= 16;
+  }
+
+  if (property.price) {
+    y = sectionTitle(ctx, page, t.paymentPlan, y - 6);
+    const downPayment = (property.price * DEFAULT_DOWN_PAYMENT_PERCENT) / 100;
+    const remaining = property.price - downPayment;
+    const months = DEFAULT_YEARS * 12;
+    const rows = [
+      [format(t.downPayment, { pct: DEFAULT_DOWN_PAYMENT_PERCENT }), `${formatNumber(downPayment)} ${t.currency}`],
+      [t.remaining, `${formatNumber(remaining)} ${t.currency}`],
+      [t.period, format(t.periodValue, { years: DEFAULT_YEARS, months })],
+      [t.monthly, `${formatNumber(defaultMonthlyInstallment(property.price))} ${t.currency}`],
+    ];
+
+    const rowHeight = 26;
+    page.drawRectangle({
+      x: MARGIN,
+      y: y - rows.length * rowHeight + 8,
+      width: CONTENT_WIDTH,
+      height: rows.length * rowHeight + 4,
+      color: BRAND.panel,
+      borderColor: BRAND.border,
+      borderWidth: 0.5,
+    });
+    rows.forEach(([label, value], index) => {
+      const last = index === rows.length - 1;
+      const box = { x: MARGIN + 14, y: y - 10, width: CONTENT_WIDTH - 28 };
+      drawText(page, label, box, style(ctx, 11, { bold: last }), rtl);
+      drawText(page, value, box, style(ctx, last ? 13 : 11, { bold: true, color: last ? BRAND.gold : BRAND.text }), rtl, "end");
+      y -= rowHeight;
+    });
+    y -= 10;
+
+    const note = style(ctx, 8, { color: BRAND.muted });
+    for (const line of wrapText(t.planNote, note, CONTENT_WIDTH)) {
+      drawText(page, line, { x: MARGIN, y, width: CONTENT_WIDTH }, note, rtl);
+      y -= 12;
+    }
+  }
+
+  // Contact card and QR code share the bottom band
+  const url = listingUrl(property, language);
+  const bandHeight = 150;
+  const bandY = MARGIN + 24;
+  page.drawRectangle({ x: MARGIN, y: bandY, width: CONTENT_WIDTH, height: bandHeight, color: BRAND.dark });
+
+  const qrSize = 104;
+  const qrX = mirrorX(MARGIN + CONTENT_WIDTH - qrSize - 20, qrSize, rtl);
+  drawQrCode(page, url, qrX, bandY + bandHeight - qrSize - 18, qrSize);
+  drawText(
+    page,
+    t.scan,
+    { x: qrX - 30, y: bandY + 14, width: qrSize + 60 },
+    style(ctx, 7, { color: BRAND.white }),
+    rtl,
+    "center",
+  );
+
+  const infoBox = { x: mirrorX(MARGIN + 20, CONTENT_WIDTH - qrSize - 80, rtl), width: CONTENT_WIDTH - qrSize - 80 };
+  let infoY = bandY + bandHeight - 30;
+  drawText(page, t.contact, { ...infoBox, y: infoY }, style(ctx, 9, { color: BRAND.gold }), rtl);
+  infoY -= 24;
+  if (options.contact) {
+    drawText(page, options.contact.name, { ...infoBox, y: infoY }, style(ctx, 15, { bold: true, color: BRAND.white }), rtl);
+    infoY -= 24;
+    for (const [label, value] of [[t.phone, options.contact.phone], [t.email, options.contact.email]]) {
+      if (!value) continue;
+      drawText(page, `${label}: ${value}`, { ...infoBox, y: infoY }, style(ctx, 10, { color: BRAND.white }), rtl);
+      infoY -= 18;
+    }
+  }
+  drawText(page, url, { ...infoBox, y: bandY + 14 }, style(ctx, 7, { color: BRAND.muted }), rtl);
+
+  // Footers
+  const pages = ctx.doc.getPages();
+  const generated = format(t.generated, { date: new Date().toISOString().slice(0, 10) });
+  pages.forEach((p, index) => {
+    const footer = style(ctx, 7, { color: BRAND.muted });
+    drawText(p, generated, { x: MARGIN, y: 24, width: CONTENT_WIDTH }, footer, rtl);
+    drawText(p, format(t.page, { page: index + 1, pages: pages.length }), { x: MARGIN, y: 24, width: CONTENT_WIDTH }, footer, rtl, "end");
+  });
+};
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const { propertyId, language = "en", brandLogoUrl } = body as {
+      propertyId?: string;
+      language?: Language;
+      brandLogoUrl?: string;
+    };
+
+    if (!propertyId || !UUID_REGEX.test(propertyId)) {
+      return jsonResponse({ error: "A valid propertyId is required" }, 400);
+    }
+    if (language !== "en" && language !== "ar") {
+      return jsonResponse({ error: `Unsupported language: ${language}` }, 400);
+    }
+
+    const adminClient = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+    const staffId = await callerStaffId(req, adminClient);
+
+    const { data: property, error } = await adminClient
+      .from("properties")
+      .select(
+        "id, title, title_ar, description, description_ar, slug, slug_ar, location, city, district, price, beds, baths, area, image_url, status, property_type, finishing, progress_percent",
+      )
+      .eq("id", propertyId)
+      .maybeSingle<Property>();
+    if (error) throw error;
+
+    // Unpublished listings are only printable by staff
+    if (!property || (UNPUBLISHED_STATUSES.includes(property.status) && !staffId)) {
+      return jsonResponse({ error: "Property not found" }, 404);
+    }
+
+    const [{ data: media }, { data: settingsRows }, facetLabel] = await Promise.all([
+      adminClient
+        .from("property_media")
+        .select("url")
+        .eq("property_id", property.id)
+        .eq("media_type", "image")
+        .order("sort_order")
+        .limit(GALLERY_SIZE + 1),
+      adminClient.from("settings").select("key, value").in("key", ["cms_brand_logo_url", "whatsapp_number"]),
+      fetchFacetLabels(adminClient),
+    ]);
+
+    const settings = new Map<string, string>();
+    (settingsRows || []).forEach((row) => row.value && settings.set(row.key, row.value));
+
+    const title = property.title || property.title_ar || "Property";
+    const { doc, fonts } = await createDocument(title);
+
+    // The cover image leads; gallery photos that repeat it are skipped
+    const galleryUrls = (media || []).map((m) => m.url).filter((url) => url !== property.image_url);
+    const heroUrl = property.image_url || galleryUrls.shift() || null;
+    const [logo, hero, ...gallery] = await Promise.all([
+      embedRemoteImage(doc, resolveLogoUrl(settings.get("cms_brand_logo_url"), brandLogoUrl)),
+      embedRemoteImage(doc, heroUrl),
+      ...galleryUrls.slice(0, GALLERY_SIZE).map((url) => embedRemoteImage(doc, url)),
+    ]);
+
+    // Never properties.assigned_user_id: that is the client who owns the unit, not an agent
+    const contact = await resolveContact(adminClient, staffId, settings.get("whatsapp_number") ?? null);
+
+    await renderBrochure(
+      { doc, fonts, rtl: language === "ar", labels: LABELS[language], logo },
+      property,
+      language,
+      {
+        hero,
+        gallery: gallery.filter((image): image is PDFImage => image !== null),
+        facetLabel,
+        contact,
+      },
+    );
+
+    const bytes = await doc.save();
+    const fileName = `${property.slug || property.id}-${language}.pdf`;
+    return new Response(bytes, {
+      headers: {
+        ...corsHeaders,
+        ...attachmentHeaders(fileName),
+        "Content-Type": "application/pdf",
+      },
+    });
+  } catch (err) {
+    console.error("property-brochure error:", err);
+    return jsonResponse({ error: "Failed to generate brochure" }, 500);
+  }
+});
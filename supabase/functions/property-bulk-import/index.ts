@@ -0,0 +1,155 @@
+import { authorizeAdmin } from "../_shared/auth.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+
+/**
+ * Bulk property import. Rows arrive already mapped and validated by the admin UI.
+ * Image URLs are downloaded into the public property-images bucket first; the rows
+ * are then written with a single insert, so either every row is created or none is.
+ */
+
+interface ImportRecord {
+  title: string;
+  image_url?: string;
+  [key: string]: unknown;
+}
+
+interface RowError {
+  index: number;
+  field: string;
+  message: string;
+}
+
+const MAX_ROWS = 500;
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+const IMAGE_TIMEOUT_MS = 15_000;
+const BUCKET = "property-images";
+
+const ALLOWED_FIELDS = [
+  "title",
+  "description",
+  "location",
+  "price",
+  "beds",
+  "baths",
+  "area",
+  "property_type",
+  "tags",
+  "status",
+  "progress_status",
+  "progress_percent",
+  "external_id",
+  "image_url",
+];
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+  "image/avif": "avif",
+};
+
+const downloadImage = async (url: string) => {
+  const res = await fetch(url, { signal: AbortSignal.timeout(IMAGE_TIMEOUT_MS) });
+  if (!res.ok) throw new Error(`Image download failed (${res.status})`);
+
+  const contentType = (res.headers.get("content-type") || "").split(";")[0].trim();
+  const extension = IMAGE_EXTENSIONS[contentType];
+  if (!extension) throw new Error(`Not a supported image type (${contentType || "unknown"})`);
+
+  const data = await res.blob();
+  if (data.size > MAX_IMAGE_BYTES) throw new Error("Image is larger than 10 MB");
+  return { data, contentType, extension };
+};
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const auth = await authorizeAdmin(req);
+    if (auth instanceof Response) return auth;
+    const client = auth.adminClient;
+
+    const { rows } = (await req.json().catch(() => ({}))) as { rows?: ImportRecord[] };
+    if (!Array.isArray(rows) || rows.length === 0) {
+      return jsonResponse({ error: "rows must be a non-empty array" }, 400);
+    }
+    if (rows.length > MAX_ROWS) {
+      return jsonResponse({ error: `At most ${MAX_ROWS} rows can be imported at once` }, 400);
+    }
+
+    const rowErrors: RowError[] = [];
+    const records = rows.map((row, index) => {
+      if (typeof row.title !== "string" || !row.title.trim()) {
+        rowErrors.push({ index, field: "title", message: "Required" });
+      }
+      return Object.fromEntries(Object.entries(row).filter(([key]) => ALLOWED_FIELDS.includes(key)));
+    });
+    if (rowErrors.length > 0) {
+      return jsonResponse({ error: "Some rows are invalid", code: "INVALID_ROWS", rowErrors }, 422);
+    }
+
+    // Same URL on several rows is downloaded once
+    const uploaded = new Map<string, string>();
+    const uploadedPaths: string[] = [];
+    const removeUploaded = async () => {
+      if (uploadedPaths.length > 0) await client.storage.from(BUCKET).remove(uploadedPaths);
+    };
+
+    for (const [index, record] of records.entries()) {
+      const url = record.image_url as string | undefined;
+      if (!url || uploaded.has(url)) continue;
+
+      try {
+        const image = await downloadImage(url);
+        const path = `imports/${crypto.randomUUID()}.${image.extension}`;
+        const { error } = await client.storage
+          .from(BUCKET)
+          .upload(path, image.data, { contentType: image.contentType });
+        if (error) throw error;
+
+        uploadedPaths.push(path);
+        uploaded.set(url, client.storage.from(BUCKET).getPublicUrl(path).data.publicUrl);
+      } catch (err) {
+        rowErrors.push({ index, field: "image_url", message: err instanceof Error ? err.message : "Image download failed" });
+      }
+    }
+
+    if (rowErrors.length > 0) {
+      await removeUploaded();
+      return jsonResponse({ error: "Some images could not be downloaded", code: "IMAGE_FAILED", rowErrors }, 422);
+    }
+
+    const { data, error } = await client
+      .from("properties")
+      .insert(
+        records.map((record) => ({
+          ...record,
+          image_url: record.image_url ? uploaded.get(record.image_url as string) : null,
+          created_by: auth.userId,
+        })),
+        // Blank cells are left out of a record; the column default applies, not NULL
+        { defaultToNull: false }
+      )
+      .select("id");
+
+    if (error) {
+      await removeUploaded();
+      const duplicate = error.code === "23505";
+      return jsonResponse(
+        {
+          error: duplicate ? "A Property ID in the file already exists" : error.message,
+          code: "INSERT_FAILED",
+        },
+        422
+      );
+    }
+
+    return jsonResponse({ success: true, inserted: data?.length ?? 0, imagesDownloaded: uploadedPaths.length });
+  } catch (err) {
+    console.error("property-bulk-import error:", err);
+    return jsonResponse({ error: "Internal server error" }, 500);
+  }
+});
@@ -0,0 +1,164 @@
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+
+// Invoked every five minutes by pg_cron; instant searches are checked on every tick,
+// daily and weekly ones once their interval has passed since the last check
+const ALERT_INTERVAL_MS: Record<string, number> = {
+  instant: 0,
+  daily: 24 * 60 * 60_000,
+  weekly: 7 * 24 * 60 * 60_000,
+};
+
+// Cron ticks drift by a few seconds, so allow some slack before treating a search as not yet due
+const DUE_GRACE_MS = 60_000;
+
+// Properties listed in the notification and email; the count covers all of them
+const MAX_LISTED_MATCHES = 5;
+
+interface SavedSearch {
+  id: string;
+  user_id: string;
+  name: string;
+  filters: Record<string, unknown>;
+  alert_frequency: string;
+  last_checked_at: string;
+}
+
+interface SearchMatch {
+  id: string;
+  title: string;
+  location: string | null;
+  price: number | null;
+  image_url: string | null;
+  total_count: number;
+}
+
+const siteUrl = () => (Deno.env.get("SITE_URL") || "https://source-eg.com").replace(/\/$/, "");
+
+/** Same query-string format as the /properties page, so the link reopens the saved filters. */
+const resultsUrl = (filters: Record<string, unknown>) => {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value === undefined || value === null || value === "") continue;
+    params.set(key, Array.isArray(value) ? value.join(",") : String(value));
+  }
+  const query = params.toString();
+  return `${siteUrl()}/properties${query ? `?${query}` : ""}`;
+};
+
+const isDue = (search: SavedSearch, now: number) => {
+  const interval = ALERT_INTERVAL_MS[search.alert_frequency];
+  if (interval === undefined) return false;
+  return new Date(search.last_checked_at).getTime() + interval - DUE_GRACE_MS <= now;
+};
+
+/** Returns true when the user was notified about new matches. */
+const processSearch = async (client: SupabaseClient, search: SavedSearch, checkedAt: Date) => {
+  const { data, error } = await client.rpc("saved_search_matches", {
+    p_filters: search.filters,
+    p_since: search.last_checked_at,
+    p_until: checkedAt.toISOString(),
+    p_limit: MAX_LISTED_MATCHES,
+  });
+  if (error) throw error;
+
+  const matches = (data || []) as SearchMatch[];
+  const total = matches[0]?.total_count ?? 0;
+
+  if (total > 0) {
+    const url = resultsUrl(search.filters);
+
+    const { error: notifyError } = await client.rpc("create_notification", {
+      p_recipient_user_id: search.user_id,
+      p_title: `New matches for "${search.name}"`,
+      p_body: `${total} new ${total === 1 ? "property matches" : "properties match"} your saved search`,
+      p_type: "saved_search_match",
+      p_severity: "info",
+      p_entity_type: "property",
+      p_entity_id: matches[0].id,
+      p_metadata: {
+        saved_search_id: search.id,
+        property_ids: matches.map((m) => m.id),
+        match_count: total,
+        results_url: url,
+      },
+    });
+    if (notifyError) throw notifyError;
+
+    // The in-app notification is already out, so a failed email is logged rather than retried
+    const { error: emailError } = await client.functions.invoke("send-notification-email", {
+      body: {
+        type: "saved_search_match",
+        record: {
+          user_id: search.user_id,
+          search_name: search.name,
+          match_count: total,
+          results_url: url,
+          properties: matches.map((m) => ({
+            title: m.title,
+            location: m.location,
+            price: m.price,
+            url: `${siteUrl()}/properties/${m.id}`,
+          })),
+        },
+      },
+    });
+    if (emailError) console.error(`Saved search ${search.id}: email failed:`, emailError);
+  }
+
+  const { error: updateError } = await client
+    .from("saved_searches")
+    .update({
+      last_checked_at: checkedAt.toISOString(),
+      ...(total > 0 ? { last_notified_at: new Date().toISOString() } : {}),
+    })
+    .eq("id", search.id);
+  if (updateError) throw updateError;
+
+  return total > 0;
+};
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const cronSecret = Deno.env.get("CRON_SECRET");
+  if (!cronSecret || req.headers.get("x-cron-secret") !== cronSecret) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  try {
+    const client = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const checkedAt = new Date();
+
+    const { data, error } = await client
+      .from("saved_searches")
+      .select("id, user_id, name, filters, alert_frequency, last_checked_at")
+      .eq("is_active", true);
+    if (error) throw error;
+
+    const due = ((data || []) as SavedSearch[]).filter((s) => isDue(s, checkedAt.getTime()));
+
+    let notified = 0;
+    let failed = 0;
+    for (const search of due) {
+      try {
+        if (await processSearch(client, search, checkedAt)) notified++;
+      } catch (err) {
+        // Leave last_checked_at alone so the next tick retries this search
+        console.error(`Saved search ${search.id} failed:`, err);
+        failed++;
+      }
+    }
+
+    return jsonResponse({ checked: due.length, notified, failed });
+  } catch (err) {
+    console.error("saved-search-alerts error:", err);
+    return jsonResponse({ error: "Internal server error" }, 500);
+  }
+});
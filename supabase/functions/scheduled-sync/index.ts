@@ -0,0 +1,68 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { getSheetFetcher } from "../_shared/sheets.ts";
+import { loadSettings } from "../_shared/syncRun.ts";
+import { runInventorySync } from "../_shared/inventorySync.ts";
+
+// Invoked every minute by pg_cron; decides whether a sync is due based on settings
+const SYNC_INTERVAL_MINUTES: Record<string, number> = {
+  "5min": 5,
+  "10min": 10,
+  "30min": 30,
+  "1hour": 60,
+};
+
+// Cron fires on minute boundaries, so allow a little drift before treating a run as not yet due
+const DUE_GRACE_MS = 30_000;
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const cronSecret = Deno.env.get("CRON_SECRET");
+  if (!cronSecret || req.headers.get("x-cron-secret") !== cronSecret) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  try {
+    const client = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const settings = await loadSettings(client, ["sync_sheets_enabled", "sync_frequency"]);
+    if (settings.sync_sheets_enabled !== "true") {
+      return jsonResponse({ skipped: true, reason: "disabled" });
+    }
+
+    const intervalMinutes = SYNC_INTERVAL_MINUTES[settings.sync_frequency];
+    if (!intervalMinutes) {
+      return jsonResponse({ skipped: true, reason: "manual" });
+    }
+
+    const { data: lastRun, error } = await client
+      .from("sync_logs")
+      .select("started_at")
+      .eq("type", "inventory")
+      .eq("trigger", "scheduled")
+      .neq("status", "skipped")
+      .order("started_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (error) throw error;
+
+    if (lastRun) {
+      const nextRunAt = new Date(lastRun.started_at).getTime() + intervalMinutes * 60_000;
+      if (nextRunAt - DUE_GRACE_MS > Date.now()) {
+        return jsonResponse({ skipped: true, reason: "not_due", nextRunAt: new Date(nextRunAt).toISOString() });
+      }
+    }
+
+    const result = await runInventorySync(client, getSheetFetcher(), { trigger: "scheduled" });
+    return jsonResponse(result);
+  } catch (err) {
+    console.error("scheduled-sync error:", err);
+    return jsonResponse({ error: "Internal server error" }, 500);
+  }
+});
@@ -9,11 +9,18 @@ const corsHeaders = {
 };
 
 interface EmailPayload {
-  type: "lead_created" | "property_progress_updated";
+  type: "lead_created" | "property_progress_updated" | "saved_search_match";
   record: Record<string, unknown>;
   old_record?: Record<string, unknown>;
 }
 
+const escapeHtml = (value: unknown) =>
+  String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
 serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -116,6 +123,64 @@ serve(async (req: Request) => {
       console.log("Progress notification email sent to:", profile.email);
     }
 
+    if (type === "saved_search_match") {
+      // Only the saved-search-alerts job sends these; it calls with the service role key
+      if (req.headers.get("Authorization") !== `Bearer ${supabaseServiceKey}`) {
+        return new Response(JSON.stringify({ error: "Unauthorized" }), {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      const { data: profile } = await supabase
+        .from("profiles")
+        .select("email, full_name")
+        .eq("user_id", record.user_id as string)
+        .maybeSingle();
+
+      if (!profile?.email) {
+        console.log("No email found for user:", record.user_id);
+        return new Response(JSON.stringify({ skipped: true }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      const matchCount = Number(record.match_count) || 0;
+      const properties = (record.properties as Array<Record<string, unknown>>) || [];
+      const rows = properties
+        .map(
+          (p) => `
+            <tr>
+              <td style="padding:8px;border:1px solid #ddd;"><a href="${escapeHtml(p.url)}">${escapeHtml(p.title)}</a></td>
+              <td style="padding:8px;border:1px solid #ddd;">${escapeHtml(p.location || "—")}</td>
+              <td style="padding:8px;border:1px solid #ddd;">${p.price ? `${Number(p.price).toLocaleString()} EGP` : "On request"}</td>
+            </tr>`
+        )
+        .join("");
+
+      const { error } = await resend.emails.send({
+        from: "Source Egypt <no-reply@source-eg.com>",
+        to: [profile.email],
+        subject: `${matchCount} new ${matchCount === 1 ? "property" : "properties"} for "${record.search_name}"`,
+        html: `
+          <h2>New Properties Match Your Saved Search</h2>
+          <p>Dear ${escapeHtml(profile.full_name || "Valued Client")},</p>
+          <p>${matchCount} new ${matchCount === 1 ? "property matches" : "properties match"} your saved search <strong>"${escapeHtml(record.search_name)}"</strong>:</p>
+          <table style="border-collapse:collapse;width:100%;max-width:600px;">${rows}</table>
+          <p style="margin-top:16px;"><a href="${escapeHtml(record.results_url)}">View all results</a></p>
+          <p style="color:#666;">You can pause or change this alert from Saved Searches in your portal.</p>
+          <p style="color:#666;">— Source Egypt Team</p>
+        `,
+      });
+
+      if (error) {
+        console.error("Resend error (saved search):", error);
+        throw new Error(error.message);
+      }
+
+      console.log("Saved search email sent to:", profile.email);
+    }
+
     return new Response(JSON.stringify({ success: true }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
@@ -0,0 +1,9 @@
+
+-- External reference used to match rows from Google Sheets to properties
+ALTER TABLE public.properties ADD COLUMN IF NOT EXISTS external_id text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_properties_external_id
+  ON public.properties (external_id)
+  WHERE external_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_sync_logs_started_at ON public.sync_logs (started_at DESC);
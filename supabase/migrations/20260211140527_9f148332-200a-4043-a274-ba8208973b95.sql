@@ -0,0 +1,80 @@
+
+-- Record whether a sync was started by an admin or by the scheduler
+ALTER TABLE public.sync_logs ADD COLUMN IF NOT EXISTS trigger text NOT NULL DEFAULT 'manual';
+
+-- ============ Sync Locks ============
+-- One row per sync type while a run is active; expired locks can be taken over
+CREATE TABLE public.sync_locks (
+  sync_type TEXT NOT NULL PRIMARY KEY,
+  log_id UUID REFERENCES public.sync_logs(id) ON DELETE SET NULL,
+  locked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+ALTER TABLE public.sync_locks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view sync locks"
+  ON public.sync_locks FOR SELECT
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE OR REPLACE FUNCTION public.acquire_sync_lock(p_sync_type text, p_log_id uuid, p_ttl_seconds integer DEFAULT 900)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _acquired boolean;
+BEGIN
+  -- A run whose lock expired never finished; close its log before taking over
+  UPDATE sync_logs
+  SET status = 'failed',
+      finished_at = now(),
+      errors = jsonb_build_array(jsonb_build_object('row', 0, 'values', '{}'::jsonb, 'message', 'Run timed out'))
+  WHERE status = 'running'
+    AND id IN (SELECT log_id FROM sync_locks WHERE sync_type = p_sync_type AND expires_at < now());
+
+  INSERT INTO sync_locks (sync_type, log_id, locked_at, expires_at)
+  VALUES (p_sync_type, p_log_id, now(), now() + make_interval(secs => p_ttl_seconds))
+  ON CONFLICT (sync_type) DO UPDATE
+    SET log_id = EXCLUDED.log_id,
+        locked_at = EXCLUDED.locked_at,
+        expires_at = EXCLUDED.expires_at
+    WHERE sync_locks.expires_at < now()
+  RETURNING true INTO _acquired;
+
+  RETURN coalesce(_acquired, false);
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.release_sync_lock(p_sync_type text, p_log_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  DELETE FROM sync_locks WHERE sync_type = p_sync_type AND log_id = p_log_id;
+$function$;
+
+-- Locks are only taken by edge functions using the service role
+REVOKE EXECUTE ON FUNCTION public.acquire_sync_lock(text, uuid, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_sync_lock(text, uuid) FROM PUBLIC, anon, authenticated;
+
+-- ============ Scheduler ============
+-- Ticks every minute; the scheduled-sync function decides whether a run is due
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'google-sheets-scheduled-sync',
+  '* * * * *',
+  $cron$
+  SELECT net.http_post(
+    url := 'https://savzdjxsjecgntvjzhvv.supabase.co/functions/v1/scheduled-sync',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'x-cron-secret', current_setting('app.settings.cron_secret', true)
+    ),
+    body := '{}'::jsonb
+  );
+  $cron$
+);
@@ -0,0 +1,7 @@
+
+-- Drive file each imported document came from; makes re-imports idempotent
+ALTER TABLE public.documents ADD COLUMN IF NOT EXISTS drive_file_id text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_documents_drive_file_id
+  ON public.documents (drive_file_id)
+  WHERE drive_file_id IS NOT NULL;
@@ -0,0 +1,135 @@
+
+-- ============ Inventory History ============
+-- One row per change to an inventory record's unit counts, written by trigger
+CREATE TABLE public.inventory_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  inventory_id UUID NOT NULL REFERENCES public.inventory(id) ON DELETE CASCADE,
+  property_id UUID NOT NULL REFERENCES public.properties(id) ON DELETE CASCADE,
+  source TEXT NOT NULL DEFAULT 'manual',
+  changed_by UUID,
+  old_counts JSONB,
+  new_counts JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_inventory_history_property ON public.inventory_history (property_id, created_at DESC);
+
+ALTER TABLE public.inventory_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view inventory history"
+  ON public.inventory_history FOR SELECT
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE OR REPLACE FUNCTION public.record_inventory_history()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _old jsonb;
+  _new jsonb;
+BEGIN
+  _new := jsonb_build_object(
+    'total_units', NEW.total_units,
+    'available_units', NEW.available_units,
+    'reserved_units', NEW.reserved_units,
+    'sold_units', NEW.sold_units
+  );
+
+  IF TG_OP = 'UPDATE' THEN
+    _old := jsonb_build_object(
+      'total_units', OLD.total_units,
+      'available_units', OLD.available_units,
+      'reserved_units', OLD.reserved_units,
+      'sold_units', OLD.sold_units
+    );
+    -- Sync runs touch last_synced_at on every row; only count changes are history
+    IF _old = _new THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  INSERT INTO inventory_history (inventory_id, property_id, source, changed_by, old_counts, new_counts)
+  VALUES (NEW.id, NEW.property_id, coalesce(NEW.sync_source, 'manual'), auth.uid(), _old, _new);
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER record_inventory_history
+  AFTER INSERT OR UPDATE ON public.inventory
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_inventory_history();
+
+-- ============ Inventory Conflicts ============
+-- Raised by the sheet sync instead of overwriting counts an admin edited since the last sync
+CREATE TABLE public.inventory_conflicts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  inventory_id UUID NOT NULL REFERENCES public.inventory(id) ON DELETE CASCADE,
+  property_id UUID NOT NULL REFERENCES public.properties(id) ON DELETE CASCADE,
+  sync_log_id UUID REFERENCES public.sync_logs(id) ON DELETE SET NULL,
+  manual_history_id UUID REFERENCES public.inventory_history(id) ON DELETE SET NULL,
+  sheet_counts JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open',
+  resolved_by UUID,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_inventory_conflicts_property ON public.inventory_conflicts (property_id, created_at DESC);
+CREATE UNIQUE INDEX idx_inventory_conflicts_open ON public.inventory_conflicts (inventory_id) WHERE status = 'open';
+
+ALTER TABLE public.inventory_conflicts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view inventory conflicts"
+  ON public.inventory_conflicts FOR SELECT
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_inventory_conflicts_updated_at
+  BEFORE UPDATE ON public.inventory_conflicts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Resolves an open conflict by keeping the manual counts or applying the sheet counts
+CREATE OR REPLACE FUNCTION public.resolve_inventory_conflict(p_conflict_id uuid, p_resolution text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _conflict inventory_conflicts%ROWTYPE;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can resolve inventory conflicts';
+  END IF;
+
+  IF p_resolution NOT IN ('kept_manual', 'applied_sheet') THEN
+    RAISE EXCEPTION 'Invalid resolution: %', p_resolution;
+  END IF;
+
+  SELECT * INTO _conflict FROM inventory_conflicts WHERE id = p_conflict_id AND status = 'open' FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Conflict not found or already resolved';
+  END IF;
+
+  IF p_resolution = 'applied_sheet' THEN
+    UPDATE inventory
+    SET total_units = (_conflict.sheet_counts->>'total_units')::integer,
+        available_units = (_conflict.sheet_counts->>'available_units')::integer,
+        reserved_units = (_conflict.sheet_counts->>'reserved_units')::integer,
+        sold_units = (_conflict.sheet_counts->>'sold_units')::integer,
+        sync_source = 'google_sheets',
+        last_synced_at = now()
+    WHERE id = _conflict.inventory_id;
+  END IF;
+
+  UPDATE inventory_conflicts
+  SET status = p_resolution,
+      resolved_by = auth.uid(),
+      resolved_at = now()
+  WHERE id = p_conflict_id;
+END;
+$function$;
@@ -0,0 +1,6 @@
+
+-- Runs that re-process only the failed rows of an earlier run point back at it
+ALTER TABLE public.sync_logs ADD COLUMN IF NOT EXISTS retry_of uuid REFERENCES public.sync_logs(id) ON DELETE SET NULL;
+
+-- Log history is filtered by type, source and status
+CREATE INDEX IF NOT EXISTS idx_sync_logs_type_status ON public.sync_logs (type, source, status, started_at DESC);
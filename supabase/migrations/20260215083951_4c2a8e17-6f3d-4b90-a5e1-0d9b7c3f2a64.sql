@@ -0,0 +1,15 @@
+
+-- Public bucket for listing images, e.g. cover images downloaded by the bulk property import
+INSERT INTO storage.buckets (id, name, public) VALUES ('property-images', 'property-images', true);
+
+CREATE POLICY "Admins can manage property images"
+ON storage.objects
+FOR ALL
+USING (
+  bucket_id = 'property-images'
+  AND has_role(auth.uid(), 'admin'::app_role)
+)
+WITH CHECK (
+  bucket_id = 'property-images'
+  AND has_role(auth.uid(), 'admin'::app_role)
+);
@@ -0,0 +1,27 @@
+
+-- ============ Lead Exports ============
+-- Audit trail of lead spreadsheets: who exported what, and how many rows
+CREATE TABLE public.lead_exports (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  format TEXT NOT NULL,
+  filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  row_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_lead_exports_created_at ON public.lead_exports (created_at DESC);
+
+ALTER TABLE public.lead_exports ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the export-leads edge function only
+CREATE POLICY "Admins can view lead exports"
+  ON public.lead_exports FOR SELECT
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Users can view their own lead exports"
+  ON public.lead_exports FOR SELECT
+  USING (user_id = auth.uid());
+
+-- Export filters on the creation date
+CREATE INDEX IF NOT EXISTS idx_leads_created_at ON public.leads (created_at DESC);
@@ -0,0 +1,145 @@
+
+-- ============ Property Search ============
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- Folds the spelling variants people type interchangeably in Arabic (hamza forms of alef,
+-- taa marbuta/haa, alef maqsura/yaa), strips diacritics and tatweel, and maps Arabic-Indic
+-- digits to Latin ones. English text is only lowercased.
+CREATE OR REPLACE FUNCTION public.normalize_arabic(p_text text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+AS $function$
+  SELECT translate(
+    regexp_replace(lower(coalesce(p_text, '')), '[\u064B-\u065F\u0670\u0640]', '', 'g'),
+    'أإآٱؤئىة٠١٢٣٤٥٦٧٨٩',
+    'ااااوييه0123456789'
+  )
+$function$;
+
+-- array_to_string is only STABLE, so the generated columns go through this wrapper
+CREATE OR REPLACE FUNCTION public.property_search_document(p_title text, p_location text, p_tags text[], p_description text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+AS $function$
+  SELECT public.normalize_arabic(concat_ws(' ', p_title, p_location, array_to_string(p_tags, ' '), p_description))
+$function$;
+
+ALTER TABLE public.properties
+  ADD COLUMN IF NOT EXISTS search_text text
+    GENERATED ALWAYS AS (public.property_search_document(title, location, tags, description)) STORED;
+
+-- 'simple' keeps words as typed, so English and Arabic are tokenised the same way
+ALTER TABLE public.properties
+  ADD COLUMN IF NOT EXISTS search_vector tsvector
+    GENERATED ALWAYS AS (
+      setweight(to_tsvector('simple'::regconfig, public.normalize_arabic(title)), 'A') ||
+      setweight(to_tsvector('simple'::regconfig, public.property_search_document(NULL, location, tags, NULL)), 'B') ||
+      setweight(to_tsvector('simple'::regconfig, public.normalize_arabic(description)), 'C')
+    ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_properties_search_vector ON public.properties USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_properties_search_text_trgm ON public.properties USING GIN (search_text extensions.gin_trgm_ops);
+
+-- Ranked, filtered and paginated property search. Runs as the caller, so RLS still decides
+-- which properties are visible. Words match as prefixes; trigram similarity catches typos and
+-- partial words. Finishing has no column of its own and is matched against tags.
+CREATE OR REPLACE FUNCTION public.search_properties(
+  p_search text DEFAULT NULL,
+  p_city text DEFAULT NULL,
+  p_area text DEFAULT NULL,
+  p_min_price numeric DEFAULT NULL,
+  p_max_price numeric DEFAULT NULL,
+  p_bedrooms integer DEFAULT NULL,
+  p_bathrooms integer DEFAULT NULL,
+  p_min_area numeric DEFAULT NULL,
+  p_max_area numeric DEFAULT NULL,
+  p_finishing text DEFAULT NULL,
+  p_tags text[] DEFAULT NULL,
+  p_status text DEFAULT NULL,
+  p_property_type text DEFAULT NULL,
+  p_delivery_status text DEFAULT NULL,
+  p_sort_by text DEFAULT NULL,
+  p_limit integer DEFAULT 12,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE(property public.properties, rank real, total_count bigint)
+LANGUAGE plpgsql
+STABLE
+SET search_path TO 'public', 'extensions'
+AS $function$
+#variable_conflict use_column
+DECLARE
+  _query text := nullif(trim(public.normalize_arabic(p_search)), '');
+  _tsquery tsquery;
+  _like text;
+  _sort text;
+BEGIN
+  IF _query IS NOT NULL THEN
+    -- Each word becomes a prefix term; tsquery operators in the input are dropped
+    SELECT to_tsquery('simple', string_agg(token || ':*', ' & '))
+    INTO _tsquery
+    FROM (
+      SELECT regexp_replace(word, '[&|!():*<>''\\]', '', 'g') AS token
+      FROM regexp_split_to_table(_query, '\s+') AS word
+    ) tokens
+    WHERE token <> '';
+
+    _like := '%' || replace(replace(replace(_query, '\', '\\'), '%', '\%'), '_', '\_') || '%';
+  END IF;
+
+  _sort := coalesce(p_sort_by, CASE WHEN _query IS NULL THEN 'newest' ELSE 'relevance' END);
+
+  RETURN QUERY
+  WITH matches AS (
+    SELECT
+      p AS prop,
+      p.id,
+      p.price,
+      p.area,
+      p.created_at,
+      CASE
+        WHEN _query IS NULL THEN 0
+        ELSE coalesce(ts_rank(p.search_vector, _tsquery), 0) * 2 + word_similarity(_query, p.search_text)
+      END::real AS score
+    FROM public.properties p
+    WHERE (
+        _query IS NULL
+        OR (_tsquery IS NOT NULL AND p.search_vector @@ _tsquery)
+        OR _query <% p.search_text
+        OR p.search_text LIKE _like
+      )
+      AND (p_city IS NULL OR strpos(public.normalize_arabic(p.location), public.normalize_arabic(p_city)) > 0)
+      AND (p_area IS NULL OR strpos(public.normalize_arabic(p.location), public.normalize_arabic(p_area)) > 0)
+      AND (p_min_price IS NULL OR p.price >= p_min_price)
+      AND (p_max_price IS NULL OR p.price <= p_max_price)
+      AND (p_bedrooms IS NULL OR p.beds >= p_bedrooms)
+      AND (p_bathrooms IS NULL OR p.baths >= p_bathrooms)
+      AND (p_min_area IS NULL OR p.area >= p_min_area)
+      AND (p_max_area IS NULL OR p.area <= p_max_area)
+      AND (p_finishing IS NULL OR EXISTS (
+        SELECT 1 FROM unnest(p.tags) AS tag
+        WHERE regexp_replace(lower(tag), '[\s&-]+', '_', 'g') = lower(p_finishing)
+      ))
+      AND (p_tags IS NULL OR cardinality(p_tags) = 0 OR p.tags @> p_tags)
+      AND (p_status IS NULL OR p.status = p_status)
+      AND (p_property_type IS NULL OR lower(p.property_type) = lower(p_property_type))
+      AND (p_delivery_status IS NULL OR p.progress_status = p_delivery_status)
+  )
+  SELECT m.prop, m.score, count(*) OVER ()
+  FROM matches m
+  ORDER BY
+    CASE WHEN _sort = 'price_asc' THEN m.price END ASC NULLS LAST,
+    CASE WHEN _sort = 'price_desc' THEN m.price END DESC NULLS LAST,
+    CASE WHEN _sort = 'area_asc' THEN m.area END ASC NULLS LAST,
+    CASE WHEN _sort = 'area_desc' THEN m.area END DESC NULLS LAST,
+    CASE WHEN _sort = 'relevance' THEN m.score END DESC,
+    m.created_at DESC,
+    m.id
+  LIMIT greatest(coalesce(p_limit, 12), 1)
+  OFFSET greatest(coalesce(p_offset, 0), 0);
+END;
+$function$;
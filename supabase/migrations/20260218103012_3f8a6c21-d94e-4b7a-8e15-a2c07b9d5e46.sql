@@ -0,0 +1,328 @@
+
+-- ============ Search Facets ============
+-- Structured location and finishing, so filters and facet counts no longer depend on free text
+ALTER TABLE public.properties ADD COLUMN IF NOT EXISTS city text;
+ALTER TABLE public.properties ADD COLUMN IF NOT EXISTS district text;
+ALTER TABLE public.properties ADD COLUMN IF NOT EXISTS finishing text;
+
+ALTER TABLE public.properties
+  ADD CONSTRAINT properties_finishing_check
+  CHECK (finishing IS NULL OR finishing IN ('core_shell', 'semi_finished', 'fully_finished', 'furnished'));
+
+CREATE INDEX IF NOT EXISTS idx_properties_city ON public.properties (city);
+CREATE INDEX IF NOT EXISTS idx_properties_district ON public.properties (district);
+
+-- Display names for facet values. Values without a row here are shown as stored.
+CREATE TABLE public.property_facet_labels (
+  facet TEXT NOT NULL CHECK (facet IN ('city', 'area', 'property_type', 'finishing', 'tag')),
+  value TEXT NOT NULL,
+  label_en TEXT NOT NULL,
+  label_ar TEXT NOT NULL,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (facet, value)
+);
+
+ALTER TABLE public.property_facet_labels ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view facet labels"
+  ON public.property_facet_labels FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage facet labels"
+  ON public.property_facet_labels FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+INSERT INTO public.property_facet_labels (facet, value, label_en, label_ar, sort_order) VALUES
+  ('city', 'New Cairo', 'New Cairo', 'القاهرة الجديدة', 1),
+  ('city', 'New Capital', 'New Capital', 'العاصمة الإدارية', 2),
+  ('city', 'Sheikh Zayed', 'Sheikh Zayed', 'الشيخ زايد', 3),
+  ('city', '6th October', '6th October', '6 أكتوبر', 4),
+  ('city', 'North Coast', 'North Coast', 'الساحل الشمالي', 5),
+  ('city', 'Ain Sokhna', 'Ain Sokhna', 'العين السخنة', 6),
+  ('city', 'Cairo', 'Cairo', 'القاهرة', 7),
+  ('city', 'Giza', 'Giza', 'الجيزة', 8),
+  ('city', 'Alexandria', 'Alexandria', 'الإسكندرية', 9),
+  ('area', 'Fifth Settlement', '5th Settlement', 'التجمع الخامس', 0),
+  ('area', 'Madinaty', 'Madinaty', 'مدينتي', 0),
+  ('area', 'El Shorouk', 'El Shorouk', 'الشروق', 0),
+  ('area', 'Palm Hills', 'Palm Hills', 'بالم هيلز', 0),
+  ('area', 'Beverly Hills', 'Beverly Hills', 'بيفرلي هيلز', 0),
+  ('area', 'Sodic East', 'Sodic East', 'سوديك إيست', 0),
+  ('area', 'Sodic West', 'Sodic West', 'سوديك ويست', 0),
+  ('area', 'Hyde Park', 'Hyde Park', 'هايد بارك', 0),
+  ('area', 'Allegria', 'Allegria', 'أليجريا', 0),
+  ('area', 'Marassi', 'Marassi', 'مراسي', 0),
+  ('area', 'Hacienda', 'Hacienda', 'هاسيندا', 0),
+  ('area', 'Telal', 'Telal', 'تلال', 0),
+  ('area', 'La Vista', 'La Vista', 'لافيستا', 0),
+  ('area', 'Azha', 'Azha', 'أزها', 0),
+  ('area', 'Monte Galala', 'Monte Galala', 'مونت جلالة', 0),
+  ('property_type', 'apartment', 'Apartment', 'شقة', 1),
+  ('property_type', 'villa', 'Villa', 'فيلا', 2),
+  ('property_type', 'townhouse', 'Townhouse', 'تاون هاوس', 3),
+  ('property_type', 'twin_house', 'Twin House', 'توين هاوس', 4),
+  ('property_type', 'penthouse', 'Penthouse', 'بنتهاوس', 5),
+  ('property_type', 'duplex', 'Duplex', 'دوبلكس', 6),
+  ('property_type', 'studio', 'Studio', 'ستوديو', 7),
+  ('property_type', 'chalet', 'Chalet', 'شاليه', 8),
+  ('finishing', 'core_shell', 'Core & Shell', 'على الطوب', 1),
+  ('finishing', 'semi_finished', 'Semi-Finished', 'نصف تشطيب', 2),
+  ('finishing', 'fully_finished', 'Fully Finished', 'تشطيب كامل', 3),
+  ('finishing', 'furnished', 'Furnished', 'مفروش', 4),
+  ('tag', 'Luxury', 'Luxury', 'فاخر', 0),
+  ('tag', 'Sea View', 'Sea View', 'إطلالة على البحر', 0),
+  ('tag', 'Golf View', 'Golf View', 'إطلالة على الجولف', 0),
+  ('tag', 'Investment', 'Investment', 'استثمار', 0),
+  ('tag', 'Family Home', 'Family Home', 'منزل عائلي', 0),
+  ('tag', 'New Launch', 'New Launch', 'إطلاق جديد', 0),
+  ('tag', 'Smart Home', 'Smart Home', 'منزل ذكي', 0);
+
+-- Backfill from the free-text location, preferring the most specific name ("New Cairo" over "Cairo")
+UPDATE public.properties p
+SET city = (
+  SELECT l.value
+  FROM public.property_facet_labels l
+  WHERE l.facet = 'city'
+    AND (
+      strpos(public.normalize_arabic(p.location), public.normalize_arabic(l.label_en)) > 0
+      OR strpos(public.normalize_arabic(p.location), public.normalize_arabic(l.label_ar)) > 0
+    )
+  ORDER BY length(l.label_en) DESC
+  LIMIT 1
+)
+WHERE p.city IS NULL AND p.location IS NOT NULL;
+
+UPDATE public.properties p
+SET district = (
+  SELECT l.value
+  FROM public.property_facet_labels l
+  WHERE l.facet = 'area'
+    AND (
+      strpos(public.normalize_arabic(p.location), public.normalize_arabic(l.label_en)) > 0
+      OR strpos(public.normalize_arabic(p.location), public.normalize_arabic(l.label_ar)) > 0
+    )
+  ORDER BY length(l.label_en) DESC
+  LIMIT 1
+)
+WHERE p.district IS NULL AND p.location IS NOT NULL;
+
+-- Finishing used to be recorded as a tag
+UPDATE public.properties p
+SET finishing = f.value
+FROM (VALUES ('core_shell'), ('semi_finished'), ('fully_finished'), ('furnished')) AS f(value)
+WHERE p.finishing IS NULL
+  AND EXISTS (
+    SELECT 1 FROM unnest(p.tags) AS tag
+    WHERE regexp_replace(lower(tag), '[\s&-]+', '_', 'g') = f.value
+  );
+
+-- Shared by search_properties and property_facets: each word of the query becomes a prefix term
+CREATE OR REPLACE FUNCTION public.property_search_tsquery(p_query text)
+RETURNS tsquery
+LANGUAGE sql
+IMMUTABLE
+AS $function$
+  SELECT to_tsquery('simple', string_agg(token || ':*', ' & '))
+  FROM (
+    SELECT regexp_replace(word, '[&|!():*<>''\\]', '', 'g') AS token
+    FROM regexp_split_to_table(public.normalize_arabic(p_query), '\s+') AS word
+  ) tokens
+  WHERE token <> ''
+$function$;
+
+-- Same signature as before; city, area (district) and finishing now use their own columns
+CREATE OR REPLACE FUNCTION public.search_properties(
+  p_search text DEFAULT NULL,
+  p_city text DEFAULT NULL,
+  p_area text DEFAULT NULL,
+  p_min_price numeric DEFAULT NULL,
+  p_max_price numeric DEFAULT NULL,
+  p_bedrooms integer DEFAULT NULL,
+  p_bathrooms integer DEFAULT NULL,
+  p_min_area numeric DEFAULT NULL,
+  p_max_area numeric DEFAULT NULL,
+  p_finishing text DEFAULT NULL,
+  p_tags text[] DEFAULT NULL,
+  p_status text DEFAULT NULL,
+  p_property_type text DEFAULT NULL,
+  p_delivery_status text DEFAULT NULL,
+  p_sort_by text DEFAULT NULL,
+  p_limit integer DEFAULT 12,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE(property public.properties, rank real, total_count bigint)
+LANGUAGE plpgsql
+STABLE
+SET search_path TO 'public', 'extensions'
+AS $function$
+#variable_conflict use_column
+DECLARE
+  _query text := nullif(trim(public.normalize_arabic(p_search)), '');
+  _tsquery tsquery;
+  _like text;
+  _sort text;
+BEGIN
+  IF _query IS NOT NULL THEN
+    _tsquery := public.property_search_tsquery(_query);
+    _like := '%' || replace(replace(replace(_query, '\', '\\'), '%', '\%'), '_', '\_') || '%';
+  END IF;
+
+  _sort := coalesce(p_sort_by, CASE WHEN _query IS NULL THEN 'newest' ELSE 'relevance' END);
+
+  RETURN QUERY
+  WITH matches AS (
+    SELECT
+      p AS prop,
+      p.id,
+      p.price,
+      p.area AS size,
+      p.created_at,
+      CASE
+        WHEN _query IS NULL THEN 0
+        ELSE coalesce(ts_rank(p.search_vector, _tsquery), 0) * 2 + word_similarity(_query, p.search_text)
+      END::real AS score
+    FROM public.properties p
+    WHERE (
+        _query IS NULL
+        OR (_tsquery IS NOT NULL AND p.search_vector @@ _tsquery)
+        OR _query <% p.search_text
+        OR p.search_text LIKE _like
+      )
+      AND (p_city IS NULL OR lower(p.city) = lower(p_city))
+      AND (p_area IS NULL OR lower(p.district) = lower(p_area))
+      AND (p_min_price IS NULL OR p.price >= p_min_price)
+      AND (p_max_price IS NULL OR p.price <= p_max_price)
+      AND (p_bedrooms IS NULL OR p.beds >= p_bedrooms)
+      AND (p_bathrooms IS NULL OR p.baths >= p_bathrooms)
+      AND (p_min_area IS NULL OR p.area >= p_min_area)
+      AND (p_max_area IS NULL OR p.area <= p_max_area)
+      AND (p_finishing IS NULL OR p.finishing = p_finishing)
+      AND (p_tags IS NULL OR cardinality(p_tags) = 0 OR p.tags @> p_tags)
+      AND (p_status IS NULL OR p.status = p_status)
+      AND (p_property_type IS NULL OR lower(p.property_type) = lower(p_property_type))
+      AND (p_delivery_status IS NULL OR p.progress_status = p_delivery_status)
+  )
+  SELECT m.prop, m.score, count(*) OVER ()
+  FROM matches m
+  ORDER BY
+    CASE WHEN _sort = 'price_asc' THEN m.price END ASC NULLS LAST,
+    CASE WHEN _sort = 'price_desc' THEN m.price END DESC NULLS LAST,
+    CASE WHEN _sort = 'area_asc' THEN m.size END ASC NULLS LAST,
+    CASE WHEN _sort = 'area_desc' THEN m.size END DESC NULLS LAST,
+    CASE WHEN _sort = 'relevance' THEN m.score END DESC,
+    m.created_at DESC,
+    m.id
+  LIMIT greatest(coalesce(p_limit, 12), 1)
+  OFFSET greatest(coalesce(p_offset, 0), 0);
+END;
+$function$;
+
+-- Every city, area, property type, finishing and tag in use, with the number of properties
+-- each would return. A facet's own selection is left out of its counts, so picking one city
+-- still shows how many results the other cities have; tags combine with AND, so their counts
+-- include the tags already picked.
+CREATE OR REPLACE FUNCTION public.property_facets(
+  p_search text DEFAULT NULL,
+  p_city text DEFAULT NULL,
+  p_area text DEFAULT NULL,
+  p_min_price numeric DEFAULT NULL,
+  p_max_price numeric DEFAULT NULL,
+  p_bedrooms integer DEFAULT NULL,
+  p_bathrooms integer DEFAULT NULL,
+  p_min_area numeric DEFAULT NULL,
+  p_max_area numeric DEFAULT NULL,
+  p_finishing text DEFAULT NULL,
+  p_tags text[] DEFAULT NULL,
+  p_status text DEFAULT NULL,
+  p_property_type text DEFAULT NULL,
+  p_delivery_status text DEFAULT NULL
+)
+RETURNS TABLE(facet text, value text, parent text, label_en text, label_ar text, count bigint)
+LANGUAGE plpgsql
+STABLE
+SET search_path TO 'public', 'extensions'
+AS $function$
+#variable_conflict use_column
+DECLARE
+  _query text := nullif(trim(public.normalize_arabic(p_search)), '');
+  _tsquery tsquery;
+  _like text;
+BEGIN
+  IF _query IS NOT NULL THEN
+    _tsquery := public.property_search_tsquery(_query);
+    _like := '%' || replace(replace(replace(_query, '\', '\\'), '%', '\%'), '_', '\_') || '%';
+  END IF;
+
+  RETURN QUERY
+  WITH base AS (
+    SELECT
+      p.city,
+      p.district,
+      lower(p.property_type) AS property_type,
+      p.finishing,
+      p.tags,
+      (p_city IS NULL OR lower(p.city) = lower(p_city)) AS m_city,
+      (p_area IS NULL OR lower(p.district) = lower(p_area)) AS m_area,
+      (p_property_type IS NULL OR lower(p.property_type) = lower(p_property_type)) AS m_type,
+      (p_finishing IS NULL OR p.finishing = p_finishing) AS m_finishing,
+      (p_tags IS NULL OR cardinality(p_tags) = 0 OR p.tags @> p_tags) AS m_tags
+    FROM public.properties p
+    WHERE (
+        _query IS NULL
+        OR (_tsquery IS NOT NULL AND p.search_vector @@ _tsquery)
+        OR _query <% p.search_text
+        OR p.search_text LIKE _like
+      )
+      AND (p_min_price IS NULL OR p.price >= p_min_price)
+      AND (p_max_price IS NULL OR p.price <= p_max_price)
+      AND (p_bedrooms IS NULL OR p.beds >= p_bedrooms)
+      AND (p_bathrooms IS NULL OR p.baths >= p_bathrooms)
+      AND (p_min_area IS NULL OR p.area >= p_min_area)
+      AND (p_max_area IS NULL OR p.area <= p_max_area)
+      AND (p_status IS NULL OR p.status = p_status)
+      AND (p_delivery_status IS NULL OR p.progress_status = p_delivery_status)
+  ),
+  options AS (
+    SELECT DISTINCT 'city' AS facet, p.city AS value, NULL::text AS parent FROM public.properties p WHERE p.city IS NOT NULL
+    UNION
+    SELECT DISTINCT 'area', p.district, p.city FROM public.properties p WHERE p.district IS NOT NULL
+    UNION
+    SELECT DISTINCT 'property_type', lower(p.property_type), NULL FROM public.properties p WHERE p.property_type IS NOT NULL
+    UNION
+    SELECT DISTINCT 'finishing', p.finishing, NULL FROM public.properties p WHERE p.finishing IS NOT NULL
+    UNION
+    SELECT DISTINCT 'tag', t.tag, NULL FROM public.properties p, unnest(p.tags) AS t(tag)
+  ),
+  counts AS (
+    SELECT 'city' AS facet, b.city AS value, NULL::text AS parent, count(*) AS n
+    FROM base b WHERE b.m_area AND b.m_type AND b.m_finishing AND b.m_tags
+    GROUP BY b.city
+    UNION ALL
+    SELECT 'area', b.district, b.city, count(*)
+    FROM base b WHERE b.m_city AND b.m_type AND b.m_finishing AND b.m_tags
+    GROUP BY b.district, b.city
+    UNION ALL
+    SELECT 'property_type', b.property_type, NULL, count(*)
+    FROM base b WHERE b.m_city AND b.m_area AND b.m_finishing AND b.m_tags
+    GROUP BY b.property_type
+    UNION ALL
+    SELECT 'finishing', b.finishing, NULL, count(*)
+    FROM base b WHERE b.m_city AND b.m_area AND b.m_type AND b.m_tags
+    GROUP BY b.finishing
+    UNION ALL
+    SELECT 'tag', t.tag, NULL, count(*)
+    FROM base b, unnest(b.tags) AS t(tag)
+    WHERE b.m_city AND b.m_area AND b.m_type AND b.m_finishing AND b.m_tags
+    GROUP BY t.tag
+  )
+  SELECT o.facet, o.value, o.parent, l.label_en, l.label_ar, coalesce(c.n, 0)
+  FROM options o
+  LEFT JOIN counts c
+    ON c.facet = o.facet AND c.value = o.value AND c.parent IS NOT DISTINCT FROM o.parent
+  LEFT JOIN public.property_facet_labels l
+    ON l.facet = o.facet AND l.value = o.value
+  ORDER BY o.facet, coalesce(l.sort_order, 0), coalesce(l.label_en, o.value);
+END;
+$function$;
@@ -0,0 +1,342 @@
+
+-- ============ GEO COORDINATES ============
+CREATE EXTENSION IF NOT EXISTS postgis WITH SCHEMA extensions;
+
+ALTER TABLE public.properties
+  ADD COLUMN IF NOT EXISTS latitude double precision,
+  ADD COLUMN IF NOT EXISTS longitude double precision;
+
+ALTER TABLE public.properties
+  ADD CONSTRAINT properties_coordinates_check CHECK (
+    (latitude IS NULL AND longitude IS NULL)
+    OR (latitude BETWEEN -90 AND 90 AND longitude BETWEEN -180 AND 180)
+  );
+
+CREATE INDEX IF NOT EXISTS idx_properties_geo
+  ON public.properties
+  USING gist ((extensions.ST_SetSRID(extensions.ST_MakePoint(longitude, latitude), 4326)::extensions.geography))
+  WHERE latitude IS NOT NULL;
+
+-- Whether a point lies inside the drawn search area: a GeoJSON polygon, a radius around a
+-- centre, or both. With neither set every property matches, including ones without coordinates.
+CREATE OR REPLACE FUNCTION public.property_in_area(
+  p_latitude double precision,
+  p_longitude double precision,
+  p_polygon jsonb,
+  p_center_lat double precision,
+  p_center_lng double precision,
+  p_radius_km double precision
+)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $function$
+  SELECT
+    (
+      p_polygon IS NULL
+      OR (
+        p_latitude IS NOT NULL
+        AND extensions.ST_Covers(
+          extensions.ST_SetSRID(extensions.ST_GeomFromGeoJSON(p_polygon::text), 4326),
+          extensions.ST_SetSRID(extensions.ST_MakePoint(p_longitude, p_latitude), 4326)
+        )
+      )
+    )
+    AND (
+      p_radius_km IS NULL OR p_center_lat IS NULL OR p_center_lng IS NULL
+      OR (
+        p_latitude IS NOT NULL
+        AND extensions.ST_DWithin(
+          extensions.ST_SetSRID(extensions.ST_MakePoint(p_longitude, p_latitude), 4326)::extensions.geography,
+          extensions.ST_SetSRID(extensions.ST_MakePoint(p_center_lng, p_center_lat), 4326)::extensions.geography,
+          p_radius_km * 1000
+        )
+      )
+    )
+$function$;
+
+-- ============ SEARCH WITH AREA FILTER ============
+-- New arguments change the signatures, so the old versions are dropped rather than overloaded
+DROP FUNCTION IF EXISTS public.search_properties(
+  text, text, text, numeric, numeric, integer, integer, numeric, numeric, text, text[], text, text, text, text, integer, integer
+);
+DROP FUNCTION IF EXISTS public.property_facets(
+  text, text, text, numeric, numeric, integer, integer, numeric, numeric, text, text[], text, text, text
+);
+
+CREATE OR REPLACE FUNCTION public.search_properties(
+  p_search text DEFAULT NULL,
+  p_city text DEFAULT NULL,
+  p_area text DEFAULT NULL,
+  p_min_price numeric DEFAULT NULL,
+  p_max_price numeric DEFAULT NULL,
+  p_bedrooms integer DEFAULT NULL,
+  p_bathrooms integer DEFAULT NULL,
+  p_min_area numeric DEFAULT NULL,
+  p_max_area numeric DEFAULT NULL,
+  p_finishing text DEFAULT NULL,
+  p_tags text[] DEFAULT NULL,
+  p_status text DEFAULT NULL,
+  p_property_type text DEFAULT NULL,
+  p_delivery_status text DEFAULT NULL,
+  p_polygon jsonb DEFAULT NULL,
+  p_center_lat double precision DEFAULT NULL,
+  p_center_lng double precision DEFAULT NULL,
+  p_radius_km double precision DEFAULT NULL,
+  p_sort_by text DEFAULT NULL,
+  p_limit integer DEFAULT 12,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE(property public.properties, rank real, total_count bigint)
+LANGUAGE plpgsql
+STABLE
+SET search_path TO 'public', 'extensions'
+AS $function$
+#variable_conflict use_column
+DECLARE
+  _query text := nullif(trim(public.normalize_arabic(p_search)), '');
+  _tsquery tsquery;
+  _like text;
+  _sort text;
+BEGIN
+  IF _query IS NOT NULL THEN
+    _tsquery := public.property_search_tsquery(_query);
+    _like := '%' || replace(replace(replace(_query, '\', '\\'), '%', '\%'), '_', '\_') || '%';
+  END IF;
+
+  _sort := coalesce(p_sort_by, CASE WHEN _query IS NULL THEN 'newest' ELSE 'relevance' END);
+
+  RETURN QUERY
+  WITH matches AS (
+    SELECT
+      p AS prop,
+      p.id,
+      p.price,
+      p.area AS size,
+      p.created_at,
+      CASE
+        WHEN _query IS NULL THEN 0
+        ELSE coalesce(ts_rank(p.search_vector, _tsquery), 0) * 2 + word_similarity(_query, p.search_text)
+      END::real AS score
+    FROM public.properties p
+    WHERE (
+        _query IS NULL
+        OR (_tsquery IS NOT NULL AND p.search_vector @@ _tsquery)
+        OR _query <% p.search_text
+        OR p.search_text LIKE _like
+      )
+      AND (p_city IS NULL OR lower(p.city) = lower(p_city))
+      AND (p_area IS NULL OR lower(p.district) = lower(p_area))
+      AND (p_min_price IS NULL OR p.price >= p_min_price)
+      AND (p_max_price IS NULL OR p.price <= p_max_price)
+      AND (p_bedrooms IS NULL OR p.beds >= p_bedrooms)
+      AND (p_bathrooms IS NULL OR p.baths >= p_bathrooms)
+      AND (p_min_area IS NULL OR p.area >= p_min_area)
+      AND (p_max_area IS NULL OR p.area <= p_max_area)
+      AND (p_finishing IS NULL OR p.finishing = p_finishing)
+      AND (p_tags IS NULL OR cardinality(p_tags) = 0 OR p.tags @> p_tags)
+      AND (p_status IS NULL OR p.status = p_status)
+      AND (p_property_type IS NULL OR lower(p.property_type) = lower(p_property_type))
+      AND (p_delivery_status IS NULL OR p.progress_status = p_delivery_status)
+      AND public.property_in_area(p.latitude, p.longitude, p_polygon, p_center_lat, p_center_lng, p_radius_km)
+  )
+  SELECT m.prop, m.score, count(*) OVER ()
+  FROM matches m
+  ORDER BY
+    CASE WHEN _sort = 'price_asc' THEN m.price END ASC NULLS LAST,
+    CASE WHEN _sort = 'price_desc' THEN m.price END DESC NULLS LAST,
+    CASE WHEN _sort = 'area_asc' THEN m.size END ASC NULLS LAST,
+    CASE WHEN _sort = 'area_desc' THEN m.size END DESC NULLS LAST,
+    CASE WHEN _sort = 'relevance' THEN m.score END DESC,
+    m.created_at DESC,
+    m.id
+  LIMIT greatest(coalesce(p_limit, 12), 1)
+  OFFSET greatest(coalesce(p_offset, 0), 0);
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.property_facets(
+  p_search text DEFAULT NULL,
+  p_city text DEFAULT NULL,
+  p_area text DEFAULT NULL,
+  p_min_price numeric DEFAULT NULL,
+  p_max_price numeric DEFAULT NULL,
+  p_bedrooms integer DEFAULT NULL,
+  p_bathrooms integer DEFAULT NULL,
+  p_min_area numeric DEFAULT NULL,
+  p_max_area numeric DEFAULT NULL,
+  p_finishing text DEFAULT NULL,
+  p_tags text[] DEFAULT NULL,
+  p_status text DEFAULT NULL,
+  p_property_type text DEFAULT NULL,
+  p_delivery_status text DEFAULT NULL,
+  p_polygon jsonb DEFAULT NULL,
+  p_center_lat double precision DEFAULT NULL,
+  p_center_lng double precision DEFAULT NULL,
+  p_radius_km double precision DEFAULT NULL
+)
+RETURNS TABLE(facet text, value text, parent text, label_en text, label_ar text, count bigint)
+LANGUAGE plpgsql
+STABLE
+SET search_path TO 'public', 'extensions'
+AS $function$
+#variable_conflict use_column
+DECLARE
+  _query text := nullif(trim(public.normalize_arabic(p_search)), '');
+  _tsquery tsquery;
+  _like text;
+BEGIN
+  IF _query IS NOT NULL THEN
+    _tsquery := public.property_search_tsquery(_query);
+    _like := '%' || replace(replace(replace(_query, '\', '\\'), '%', '\%'), '_', '\_') || '%';
+  END IF;
+
+  RETURN QUERY
+  WITH base AS (
+    SELECT
+      p.city,
+      p.district,
+      lower(p.property_type) AS property_type,
+      p.finishing,
+      p.tags,
+      (p_city IS NULL OR lower(p.city) = lower(p_city)) AS m_city,
+      (p_area IS NULL OR lower(p.district) = lower(p_area)) AS m_area,
+      (p_property_type IS NULL OR lower(p.property_type) = lower(p_property_type)) AS m_type,
+      (p_finishing IS NULL OR p.finishing = p_finishing) AS m_finishing,
+      (p_tags IS NULL OR cardinality(p_tags) = 0 OR p.tags @> p_tags) AS m_tags
+    FROM public.properties p
+    WHERE (
+        _query IS NULL
+        OR (_tsquery IS NOT NULL AND p.search_vector @@ _tsquery)
+        OR _query <% p.search_text
+        OR p.search_text LIKE _like
+      )
+      AND (p_min_price IS NULL OR p.price >= p_min_price)
+      AND (p_max_price IS NULL OR p.price <= p_max_price)
+      AND (p_bedrooms IS NULL OR p.beds >= p_bedrooms)
+      AND (p_bathrooms IS NULL OR p.baths >= p_bathrooms)
+      AND (p_min_area IS NULL OR p.area >= p_min_area)
+      AND (p_max_area IS NULL OR p.area <= p_max_area)
+      AND (p_status IS NULL OR p.status = p_status)
+      AND (p_delivery_status IS NULL OR p.progress_status = p_delivery_status)
+      AND public.property_in_area(p.latitude, p.longitude, p_polygon, p_center_lat, p_center_lng, p_radius_km)
+  ),
+  options AS (
+    SELECT DISTINCT 'city' AS facet, p.city AS value, NULL::text AS parent FROM public.properties p WHERE p.city IS NOT NULL
+    UNION
+    SELECT DISTINCT 'area', p.district, p.city FROM public.properties p WHERE p.district IS NOT NULL
+    UNION
+    SELECT DISTINCT 'property_type', lower(p.property_type), NULL FROM public.properties p WHERE p.property_type IS NOT NULL
+    UNION
+    SELECT DISTINCT 'finishing', p.finishing, NULL FROM public.properties p WHERE p.finishing IS NOT NULL
+    UNION
+    SELECT DISTINCT 'tag', t.tag, NULL FROM public.properties p, unnest(p.tags) AS t(tag)
+  ),
+  counts AS (
+    SELECT 'city' AS facet, b.city AS value, NULL::text AS parent, count(*) AS n
+    FROM base b WHERE b.m_area AND b.m_type AND b.m_finishing AND b.m_tags
+    GROUP BY b.city
+    UNION ALL
+    SELECT 'area', b.district, b.city, count(*)
+    FROM base b WHERE b.m_city AND b.m_type AND b.m_finishing AND b.m_tags
+    GROUP BY b.district, b.city
+    UNION ALL
+    SELECT 'property_type', b.property_type, NULL, count(*)
+    FROM base b WHERE b.m_city AND b.m_area AND b.m_finishing AND b.m_tags
+    GROUP BY b.property_type
+    UNION ALL
+    SELECT 'finishing', b.finishing, NULL, count(*)
+    FROM base b WHERE b.m_city AND b.m_area AND b.m_type AND b.m_tags
+    GROUP BY b.finishing
+    UNION ALL
+    SELECT 'tag', t.tag, NULL, count(*)
+    FROM base b, unnest(b.tags) AS t(tag)
+    WHERE b.m_city AND b.m_area AND b.m_type AND b.m_finishing AND b.m_tags
+    GROUP BY t.tag
+  )
+  SELECT o.facet, o.value, o.parent, l.label_en, l.label_ar, coalesce(c.n, 0)
+  FROM options o
+  LEFT JOIN counts c
+    ON c.facet = o.facet AND c.value = o.value AND c.parent IS NOT DISTINCT FROM o.parent
+  LEFT JOIN public.property_facet_labels l
+    ON l.facet = o.facet AND l.value = o.value
+  ORDER BY o.facet, coalesce(l.sort_order, 0), coalesce(l.label_en, o.value);
+END;
+$function$;
+
+-- ============ MAP POINTS ============
+-- Lightweight pins for the map view: every geolocated match (up to p_limit), not just one page
+CREATE OR REPLACE FUNCTION public.property_map_points(
+  p_search text DEFAULT NULL,
+  p_city text DEFAULT NULL,
+  p_area text DEFAULT NULL,
+  p_min_price numeric DEFAULT NULL,
+  p_max_price numeric DEFAULT NULL,
+  p_bedrooms integer DEFAULT NULL,
+  p_bathrooms integer DEFAULT NULL,
+  p_min_area numeric DEFAULT NULL,
+  p_max_area numeric DEFAULT NULL,
+  p_finishing text DEFAULT NULL,
+  p_tags text[] DEFAULT NULL,
+  p_status text DEFAULT NULL,
+  p_property_type text DEFAULT NULL,
+  p_delivery_status text DEFAULT NULL,
+  p_polygon jsonb DEFAULT NULL,
+  p_center_lat double precision DEFAULT NULL,
+  p_center_lng double precision DEFAULT NULL,
+  p_radius_km double precision DEFAULT NULL,
+  p_limit integer DEFAULT 1000
+)
+RETURNS TABLE(
+  id uuid,
+  title text,
+  location text,
+  price numeric,
+  image_url text,
+  latitude double precision,
+  longitude double precision,
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path TO 'public', 'extensions'
+AS $function$
+#variable_conflict use_column
+DECLARE
+  _query text := nullif(trim(public.normalize_arabic(p_search)), '');
+  _tsquery tsquery;
+  _like text;
+BEGIN
+  IF _query IS NOT NULL THEN
+    _tsquery := public.property_search_tsquery(_query);
+    _like := '%' || replace(replace(replace(_query, '\', '\\'), '%', '\%'), '_', '\_') || '%';
+  END IF;
+
+  RETURN QUERY
+  SELECT p.id, p.title, p.location, p.price, p.image_url, p.latitude, p.longitude, count(*) OVER ()
+  FROM public.properties p
+  WHERE p.latitude IS NOT NULL
+    AND (
+      _query IS NULL
+      OR (_tsquery IS NOT NULL AND p.search_vector @@ _tsquery)
+      OR _query <% p.search_text
+      OR p.search_text LIKE _like
+    )
+    AND (p_city IS NULL OR lower(p.city) = lower(p_city))
+    AND (p_area IS NULL OR lower(p.district) = lower(p_area))
+    AND (p_min_price IS NULL OR p.price >= p_min_price)
+    AND (p_max_price IS NULL OR p.price <= p_max_price)
+    AND (p_bedrooms IS NULL OR p.beds >= p_bedrooms)
+    AND (p_bathrooms IS NULL OR p.baths >= p_bathrooms)
+    AND (p_min_area IS NULL OR p.area >= p_min_area)
+    AND (p_max_area IS NULL OR p.area <= p_max_area)
+    AND (p_finishing IS NULL OR p.finishing = p_finishing)
+    AND (p_tags IS NULL OR cardinality(p_tags) = 0 OR p.tags @> p_tags)
+    AND (p_status IS NULL OR p.status = p_status)
+    AND (p_property_type IS NULL OR lower(p.property_type) = lower(p_property_type))
+    AND (p_delivery_status IS NULL OR p.progress_status = p_delivery_status)
+    AND public.property_in_area(p.latitude, p.longitude, p_polygon, p_center_lat, p_center_lng, p_radius_km)
+  ORDER BY p.created_at DESC, p.id
+  LIMIT greatest(coalesce(p_limit, 1000), 1);
+END;
+$function$;
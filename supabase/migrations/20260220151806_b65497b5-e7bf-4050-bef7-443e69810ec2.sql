@@ -0,0 +1,187 @@
+
+-- ============ PUBLISHED AT ============
+-- When a property last became publicly listed; saved-search alerts look for anything newer
+ALTER TABLE public.properties ADD COLUMN IF NOT EXISTS published_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE public.properties
+SET published_at = created_at
+WHERE published_at IS NULL
+  AND status NOT IN ('draft', 'pending_approval', 'archived');
+
+CREATE INDEX IF NOT EXISTS idx_properties_published_at ON public.properties (published_at DESC);
+
+CREATE OR REPLACE FUNCTION public.set_property_published_at()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.status IN ('draft', 'pending_approval', 'archived') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.published_at := coalesce(NEW.published_at, now());
+  ELSIF OLD.status IN ('draft', 'pending_approval', 'archived') THEN
+    NEW.published_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER set_property_published_at
+  BEFORE INSERT OR UPDATE OF status ON public.properties
+  FOR EACH ROW EXECUTE FUNCTION public.set_property_published_at();
+
+-- ============ SAVED SEARCHES ============
+ALTER TYPE public.notification_type ADD VALUE IF NOT EXISTS 'saved_search_match';
+
+-- filters holds the /properties URL filters (PropertyFilters keys), so a search reopens exactly as saved
+CREATE TABLE public.saved_searches (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 100),
+  filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  alert_frequency TEXT NOT NULL DEFAULT 'daily' CHECK (alert_frequency IN ('instant', 'daily', 'weekly')),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  last_checked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_notified_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_saved_searches_user ON public.saved_searches (user_id, created_at DESC);
+CREATE INDEX idx_saved_searches_due ON public.saved_searches (alert_frequency, last_checked_at) WHERE is_active;
+
+ALTER TABLE public.saved_searches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own saved searches"
+  ON public.saved_searches FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Admins can view saved searches"
+  ON public.saved_searches FOR SELECT
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_saved_searches_updated_at
+  BEFORE UPDATE ON public.saved_searches
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Resuming a paused search shouldn't alert on everything published while it was paused
+CREATE OR REPLACE FUNCTION public.reset_saved_search_watermark()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.is_active AND NOT OLD.is_active THEN
+    NEW.last_checked_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER reset_saved_search_watermark
+  BEFORE UPDATE OF is_active ON public.saved_searches
+  FOR EACH ROW EXECUTE FUNCTION public.reset_saved_search_watermark();
+
+-- Properties matching a saved filter set that were published in (p_since, p_until], newest first.
+-- Filters are translated into search_properties arguments so alerts match the listing page exactly.
+CREATE OR REPLACE FUNCTION public.saved_search_matches(
+  p_filters jsonb,
+  p_since timestamp with time zone,
+  p_until timestamp with time zone DEFAULT NULL,
+  p_limit integer DEFAULT 10
+)
+RETURNS TABLE(
+  id uuid,
+  title text,
+  location text,
+  price numeric,
+  image_url text,
+  published_at timestamp with time zone,
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path TO 'public', 'extensions'
+AS $function$
+#variable_conflict use_column
+DECLARE
+  _ring jsonb;
+  _polygon jsonb;
+  _radius text[] := string_to_array(p_filters->>'radius', ',');
+BEGIN
+  -- "lat,lng;lat,lng;..." -> closed GeoJSON ring of [lng, lat] pairs
+  IF coalesce(p_filters->>'polygon', '') <> '' THEN
+    SELECT jsonb_agg(
+             jsonb_build_array(split_part(pt, ',', 2)::double precision, split_part(pt, ',', 1)::double precision)
+             ORDER BY ord
+           )
+    INTO _ring
+    FROM unnest(string_to_array(p_filters->>'polygon', ';')) WITH ORDINALITY AS t(pt, ord);
+
+    IF jsonb_array_length(_ring) >= 3 THEN
+      _polygon := jsonb_build_object('type', 'Polygon', 'coordinates', jsonb_build_array(_ring || jsonb_build_array(_ring->0)));
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    (s.property).id,
+    (s.property).title,
+    (s.property).location,
+    (s.property).price,
+    (s.property).image_url,
+    (s.property).published_at,
+    count(*) OVER ()
+  FROM public.search_properties(
+    p_search => p_filters->>'search',
+    p_city => p_filters->>'city',
+    p_area => p_filters->>'area',
+    p_min_price => (p_filters->>'minPrice')::numeric,
+    p_max_price => (p_filters->>'maxPrice')::numeric,
+    p_bedrooms => (p_filters->>'bedrooms')::integer,
+    p_bathrooms => (p_filters->>'bathrooms')::integer,
+    p_min_area => (p_filters->>'minArea')::numeric,
+    p_max_area => (p_filters->>'maxArea')::numeric,
+    p_finishing => p_filters->>'finishing',
+    p_tags => CASE
+      WHEN jsonb_typeof(p_filters->'tags') = 'array' THEN ARRAY(SELECT jsonb_array_elements_text(p_filters->'tags'))
+    END,
+    p_status => p_filters->>'status',
+    p_property_type => p_filters->>'propertyType',
+    p_delivery_status => p_filters->>'deliveryStatus',
+    p_polygon => _polygon,
+    p_center_lat => CASE WHEN cardinality(_radius) = 3 THEN _radius[1]::double precision END,
+    p_center_lng => CASE WHEN cardinality(_radius) = 3 THEN _radius[2]::double precision END,
+    p_radius_km => CASE WHEN cardinality(_radius) = 3 THEN _radius[3]::double precision END,
+    p_sort_by => 'newest',
+    p_limit => 10000
+  ) s
+  WHERE (s.property).published_at > p_since
+    AND (p_until IS NULL OR (s.property).published_at <= p_until)
+    AND (s.property).status NOT IN ('draft', 'pending_approval', 'archived')
+  ORDER BY (s.property).published_at DESC
+  LIMIT greatest(coalesce(p_limit, 10), 1);
+END;
+$function$;
+
+-- ============ Alert Scheduler ============
+-- Ticks every five minutes; instant searches are checked every tick, daily and weekly ones when due
+SELECT cron.schedule(
+  'saved-search-alerts',
+  '*/5 * * * *',
+  $cron$
+  SELECT net.http_post(
+    url := 'https://savzdjxsjecgntvjzhvv.supabase.co/functions/v1/saved-search-alerts',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'x-cron-secret', current_setting('app.settings.cron_secret', true)
+    ),
+    body := '{}'::jsonb
+  );
+  $cron$
+);
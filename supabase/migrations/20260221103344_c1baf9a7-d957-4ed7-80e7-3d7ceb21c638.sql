@@ -0,0 +1,131 @@
+
+-- ============ ARABIC CONTENT ============
+-- title/description stay the English (primary) text; Arabic lives alongside and is optional
+ALTER TABLE public.properties
+  ADD COLUMN IF NOT EXISTS title_ar text,
+  ADD COLUMN IF NOT EXISTS description_ar text,
+  ADD COLUMN IF NOT EXISTS slug text,
+  ADD COLUMN IF NOT EXISTS slug_ar text;
+
+-- ============ SLUGS ============
+-- Lowercase words joined by hyphens; Arabic letters are kept (after normalize_arabic folds
+-- their variants) so Arabic titles get readable Arabic slugs
+CREATE OR REPLACE FUNCTION public.slugify(p_text text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+AS $function$
+  SELECT nullif(
+    btrim(left(regexp_replace(public.normalize_arabic(p_text), '[^a-z0-9\u0621-\u064A]+', '-', 'g'), 80), '-'),
+    ''
+  )
+$function$;
+
+-- Appends -2, -3, ... until no other property uses the slug in either language
+CREATE OR REPLACE FUNCTION public.unique_property_slug(p_base text, p_property_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+VOLATILE
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _candidate text := p_base;
+  _n integer := 1;
+BEGIN
+  IF p_base IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  WHILE EXISTS (
+    SELECT 1 FROM public.properties
+    WHERE (slug = _candidate OR slug_ar = _candidate) AND id <> p_property_id
+  ) LOOP
+    _n := _n + 1;
+    _candidate := p_base || '-' || _n;
+  END LOOP;
+
+  RETURN _candidate;
+END;
+$function$;
+
+-- Slugs are generated once and then left alone, so renaming a property doesn't break shared
+-- links. Clearing a slug regenerates it from the current title.
+CREATE OR REPLACE FUNCTION public.set_property_slugs()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.slug IS DISTINCT FROM OLD.slug OR NEW.slug IS NULL THEN
+    NEW.slug := public.unique_property_slug(
+      coalesce(public.slugify(NEW.slug), public.slugify(NEW.title), left(NEW.id::text, 8)),
+      NEW.id
+    );
+  END IF;
+
+  IF NEW.title_ar IS NULL OR btrim(NEW.title_ar) = '' THEN
+    NEW.slug_ar := NULL;
+  ELSIF TG_OP = 'INSERT' OR NEW.slug_ar IS DISTINCT FROM OLD.slug_ar OR NEW.slug_ar IS NULL THEN
+    NEW.slug_ar := public.unique_property_slug(
+      coalesce(public.slugify(NEW.slug_ar), public.slugify(NEW.title_ar)),
+      NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER set_property_slugs
+  BEFORE INSERT OR UPDATE OF title, title_ar, slug, slug_ar ON public.properties
+  FOR EACH ROW EXECUTE FUNCTION public.set_property_slugs();
+
+-- Rows are processed in order and each sees the slugs assigned before it, so duplicates get suffixes
+UPDATE public.properties SET slug = NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS properties_slug_key ON public.properties (slug);
+CREATE UNIQUE INDEX IF NOT EXISTS properties_slug_ar_key ON public.properties (slug_ar);
+
+-- ============ SEARCH DOCUMENT ============
+-- Rebuild the generated search columns so Arabic titles and descriptions are searchable too
+DROP INDEX IF EXISTS public.idx_properties_search_vector;
+DROP INDEX IF EXISTS public.idx_properties_search_text_trgm;
+ALTER TABLE public.properties DROP COLUMN IF EXISTS search_vector;
+ALTER TABLE public.properties DROP COLUMN IF EXISTS search_text;
+DROP FUNCTION IF EXISTS public.property_search_document(text, text, text[], text);
+
+CREATE OR REPLACE FUNCTION public.property_search_document(
+  p_title text,
+  p_title_ar text,
+  p_location text,
+  p_tags text[],
+  p_description text,
+  p_description_ar text
+)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+AS $function$
+  SELECT public.normalize_arabic(
+    concat_ws(' ', p_title, p_title_ar, p_location, array_to_string(p_tags, ' '), p_description, p_description_ar)
+  )
+$function$;
+
+ALTER TABLE public.properties
+  ADD COLUMN search_text text
+    GENERATED ALWAYS AS (
+      public.property_search_document(title, title_ar, location, tags, description, description_ar)
+    ) STORED;
+
+ALTER TABLE public.properties
+  ADD COLUMN search_vector tsvector
+    GENERATED ALWAYS AS (
+      setweight(to_tsvector('simple'::regconfig, public.property_search_document(title, title_ar, NULL, NULL, NULL, NULL)), 'A') ||
+      setweight(to_tsvector('simple'::regconfig, public.property_search_document(NULL, NULL, location, tags, NULL, NULL)), 'B') ||
+      setweight(to_tsvector('simple'::regconfig, public.property_search_document(NULL, NULL, NULL, NULL, description, description_ar)), 'C')
+    ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_properties_search_vector ON public.properties USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_properties_search_text_trgm ON public.properties USING GIN (search_text extensions.gin_trgm_ops);
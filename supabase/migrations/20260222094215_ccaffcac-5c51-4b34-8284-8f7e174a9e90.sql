@@ -0,0 +1,97 @@
+
+-- ============ PROPERTY MEDIA ============
+-- Ordered listing media. Uploaded files live in the public property-images bucket under
+-- <property_id>/media/ (storage_path is kept so they can be removed); videos may instead be
+-- external YouTube/Vimeo links with no storage_path.
+CREATE TABLE public.property_media (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  property_id UUID NOT NULL REFERENCES public.properties(id) ON DELETE CASCADE,
+  media_type TEXT NOT NULL DEFAULT 'image' CHECK (media_type IN ('image', 'video', 'floor_plan', '360_view')),
+  url TEXT NOT NULL,
+  storage_path TEXT,
+  caption_en TEXT CHECK (char_length(caption_en) <= 200),
+  caption_ar TEXT CHECK (char_length(caption_ar) <= 200),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_property_media_property ON public.property_media (property_id, sort_order);
+
+ALTER TABLE public.property_media ENABLE ROW LEVEL SECURITY;
+
+-- Media is visible wherever the property itself is (the subquery runs under properties RLS)
+CREATE POLICY "Media is viewable with its property"
+  ON public.property_media FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.properties p WHERE p.id = property_media.property_id));
+
+CREATE POLICY "Admins can manage property media"
+  ON public.property_media FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_property_media_updated_at
+  BEFORE UPDATE ON public.property_media
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- New items go to the end of their property's list
+CREATE OR REPLACE FUNCTION public.set_property_media_sort_order()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  SELECT coalesce(max(sort_order) + 1, 0) INTO NEW.sort_order
+  FROM public.property_media
+  WHERE property_id = NEW.property_id;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER set_property_media_sort_order
+  BEFORE INSERT ON public.property_media
+  FOR EACH ROW EXECUTE FUNCTION public.set_property_media_sort_order();
+
+-- Saves a drag-to-reorder in one statement; ids not belonging to the property are ignored
+CREATE OR REPLACE FUNCTION public.reorder_property_media(p_property_id uuid, p_media_ids uuid[])
+RETURNS void
+LANGUAGE sql
+SET search_path TO 'public'
+AS $function$
+  UPDATE public.property_media m
+  SET sort_order = o.ordinality - 1
+  FROM unnest(p_media_ids) WITH ORDINALITY AS o(id, ordinality)
+  WHERE m.id = o.id AND m.property_id = p_property_id
+$function$;
+
+-- Cards, search results and alerts all read properties.image_url, so keep it pointing at the
+-- first gallery image. Properties without gallery images keep whatever cover they had.
+CREATE OR REPLACE FUNCTION public.sync_property_cover_image()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _property_id uuid := CASE WHEN TG_OP = 'DELETE' THEN OLD.property_id ELSE NEW.property_id END;
+  _cover text;
+BEGIN
+  SELECT url INTO _cover
+  FROM public.property_media
+  WHERE property_id = _property_id AND media_type = 'image'
+  ORDER BY sort_order, created_at
+  LIMIT 1;
+
+  IF _cover IS NOT NULL THEN
+    UPDATE public.properties
+    SET image_url = _cover
+    WHERE id = _property_id AND image_url IS DISTINCT FROM _cover;
+  END IF;
+
+  RETURN NULL;
+END;
+$function$;
+
+CREATE TRIGGER sync_property_cover_image
+  AFTER INSERT OR UPDATE OF url, media_type, sort_order OR DELETE ON public.property_media
+  FOR EACH ROW EXECUTE FUNCTION public.sync_property_cover_image();
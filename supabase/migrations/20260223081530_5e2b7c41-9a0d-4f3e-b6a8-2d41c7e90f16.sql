@@ -0,0 +1,197 @@
+
+-- ============ PRICE HISTORY ============
+-- One row per price a property has had, written by trigger whenever properties.price changes.
+-- previous_price is denormalised so the admin log can show the step without a window query.
+CREATE TABLE public.property_price_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  property_id UUID NOT NULL REFERENCES public.properties(id) ON DELETE CASCADE,
+  price NUMERIC NOT NULL,
+  previous_price NUMERIC,
+  changed_by UUID,
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_property_price_history_property ON public.property_price_history (property_id, changed_at);
+
+ALTER TABLE public.property_price_history ENABLE ROW LEVEL SECURITY;
+
+-- History is visible wherever the property itself is (the subquery runs under properties RLS).
+-- Rows are only ever written by the trigger below, so there are no write policies.
+CREATE POLICY "Price history is viewable with its property"
+  ON public.property_price_history FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.properties p WHERE p.id = property_price_history.property_id));
+
+-- ============ PURCHASE DATE ============
+-- When the assigned client took the unit; MyAssets measures value movement from here
+ALTER TABLE public.properties ADD COLUMN purchased_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE public.properties
+SET purchased_at = created_at
+WHERE assigned_user_id IS NOT NULL;
+
+-- Stamp the date on (re)assignment unless the same statement sets it explicitly
+CREATE OR REPLACE FUNCTION public.set_property_purchased_at()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.assigned_user_id IS NULL THEN
+    NEW.purchased_at := NULL;
+  ELSIF TG_OP = 'INSERT' THEN
+    NEW.purchased_at := coalesce(NEW.purchased_at, now());
+  ELSIF NEW.assigned_user_id IS DISTINCT FROM OLD.assigned_user_id
+    AND NEW.purchased_at IS NOT DISTINCT FROM OLD.purchased_at THEN
+    NEW.purchased_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER set_property_purchased_at
+  BEFORE INSERT OR UPDATE OF assigned_user_id, purchased_at ON public.properties
+  FOR EACH ROW EXECUTE FUNCTION public.set_property_purchased_at();
+
+-- ============ PRICE DELTA ============
+INSERT INTO public.settings (key, value)
+VALUES ('price_delta_window_days', '90')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.price_delta_window_days()
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT coalesce(
+    (SELECT value::integer FROM public.settings WHERE key = 'price_delta_window_days' AND value ~ '^\d+$'),
+    90
+  )
+$function$;
+
+-- Percentage change from the price in effect at the start of the window (or the first recorded
+-- price, for listings younger than the window) to p_current_price
+CREATE OR REPLACE FUNCTION public.property_price_delta(p_property_id uuid, p_current_price numeric)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _baseline numeric;
+BEGIN
+  IF p_current_price IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT price INTO _baseline
+  FROM public.property_price_history
+  WHERE property_id = p_property_id
+    AND changed_at <= now() - make_interval(days => public.price_delta_window_days())
+  ORDER BY changed_at DESC
+  LIMIT 1;
+
+  IF _baseline IS NULL THEN
+    SELECT price INTO _baseline
+    FROM public.property_price_history
+    WHERE property_id = p_property_id
+    ORDER BY changed_at
+    LIMIT 1;
+  END IF;
+
+  IF _baseline IS NULL OR _baseline = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN round((p_current_price - _baseline) / _baseline * 100, 1);
+END;
+$function$;
+
+-- Before the write: recompute the delta against history so far
+CREATE OR REPLACE FUNCTION public.set_property_price_delta()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.price IS DISTINCT FROM OLD.price THEN
+    NEW.price_delta_percent := public.property_price_delta(NEW.id, NEW.price);
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER set_property_price_delta
+  BEFORE INSERT OR UPDATE OF price ON public.properties
+  FOR EACH ROW EXECUTE FUNCTION public.set_property_price_delta();
+
+-- After the write: append the new price to history
+CREATE OR REPLACE FUNCTION public.record_property_price_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.price IS NOT NULL AND (TG_OP = 'INSERT' OR NEW.price IS DISTINCT FROM OLD.price) THEN
+    INSERT INTO public.property_price_history (property_id, price, previous_price, changed_by)
+    VALUES (NEW.id, NEW.price, CASE WHEN TG_OP = 'UPDATE' THEN OLD.price END, auth.uid());
+  END IF;
+  RETURN NULL;
+END;
+$function$;
+
+CREATE TRIGGER record_property_price_change
+  AFTER INSERT OR UPDATE OF price ON public.properties
+  FOR EACH ROW EXECUTE FUNCTION public.record_property_price_change();
+
+-- Deltas drift as old prices slide out of the window, so they are refreshed daily and
+-- whenever the window setting changes. Only rows whose value actually moves are touched.
+CREATE OR REPLACE FUNCTION public.refresh_price_deltas()
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  UPDATE public.properties
+  SET price_delta_percent = public.property_price_delta(id, price)
+  WHERE price_delta_percent IS DISTINCT FROM public.property_price_delta(id, price)
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_price_deltas() FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.refresh_price_deltas_on_window_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.key = 'price_delta_window_days' THEN
+    PERFORM public.refresh_price_deltas();
+  END IF;
+  RETURN NULL;
+END;
+$function$;
+
+CREATE TRIGGER refresh_price_deltas_on_window_change
+  AFTER INSERT OR UPDATE OF value ON public.settings
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_price_deltas_on_window_change();
+
+-- Seed history with the current price so existing listings have a baseline, then replace the
+-- hand-entered deltas with computed ones
+INSERT INTO public.property_price_history (property_id, price, changed_at)
+SELECT id, price, created_at
+FROM public.properties
+WHERE price IS NOT NULL;
+
+SELECT public.refresh_price_deltas();
+
+-- ============ Delta Refresh Scheduler ============
+SELECT cron.schedule(
+  'refresh-price-deltas',
+  '15 2 * * *',
+  $cron$ SELECT public.refresh_price_deltas(); $cron$
+);
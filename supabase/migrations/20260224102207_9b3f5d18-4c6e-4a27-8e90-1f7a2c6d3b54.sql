@@ -0,0 +1,117 @@
+
+-- ============ DEVELOPERS ============
+CREATE TABLE public.developers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) > 0),
+  name_ar TEXT,
+  description TEXT,
+  description_ar TEXT,
+  logo_url TEXT,
+  website TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_developers_name ON public.developers (lower(name));
+
+ALTER TABLE public.developers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view developers"
+  ON public.developers FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage developers"
+  ON public.developers FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_developers_updated_at
+  BEFORE UPDATE ON public.developers
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============ PROJECTS ============
+-- Compounds/launches grouping the unit listings in properties. Unit counts and starting price are
+-- deliberately not stored here; project_summaries() derives them from properties and inventory.
+CREATE TABLE public.projects (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  developer_id UUID REFERENCES public.developers(id) ON DELETE SET NULL,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) > 0),
+  name_ar TEXT,
+  description TEXT,
+  description_ar TEXT,
+  location TEXT,
+  city TEXT,
+  image_url TEXT,
+  delivery_year INTEGER CHECK (delivery_year BETWEEN 2000 AND 2100),
+  progress_percent INTEGER NOT NULL DEFAULT 0 CHECK (progress_percent BETWEEN 0 AND 100),
+  featured BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_projects_developer ON public.projects (developer_id);
+
+ALTER TABLE public.projects ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view projects"
+  ON public.projects FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage projects"
+  ON public.projects FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_projects_updated_at
+  BEFORE UPDATE ON public.projects
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.properties
+  ADD COLUMN project_id UUID REFERENCES public.projects(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_properties_project ON public.properties (project_id);
+
+-- ============ PROJECT SUMMARIES ============
+-- Live unit counts and starting price per project. A listing with an inventory row contributes
+-- its counts; one without is a single unit, sold once assigned to a client. Unpublished listings
+-- are left out. SECURITY DEFINER because inventory is not readable by anonymous visitors.
+CREATE OR REPLACE FUNCTION public.project_summaries(p_project_ids uuid[] DEFAULT NULL)
+RETURNS TABLE(
+  project_id uuid,
+  listings bigint,
+  total_units bigint,
+  available_units bigint,
+  reserved_units bigint,
+  sold_units bigint,
+  starting_price numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  WITH units AS (
+    SELECT
+      p.project_id,
+      p.price,
+      coalesce(i.total_units, 1) AS total_units,
+      coalesce(i.available_units, CASE WHEN p.assigned_user_id IS NULL THEN 1 ELSE 0 END) AS available_units,
+      coalesce(i.reserved_units, 0) AS reserved_units,
+      coalesce(i.sold_units, CASE WHEN p.assigned_user_id IS NULL THEN 0 ELSE 1 END) AS sold_units
+    FROM public.properties p
+    LEFT JOIN public.inventory i ON i.property_id = p.id
+    WHERE p.project_id IS NOT NULL
+      AND p.status NOT IN ('draft', 'pending_approval', 'archived')
+      AND (p_project_ids IS NULL OR p.project_id = ANY(p_project_ids))
+  )
+  SELECT
+    u.project_id,
+    count(*),
+    sum(u.total_units)::bigint,
+    sum(u.available_units)::bigint,
+    sum(u.reserved_units)::bigint,
+    sum(u.sold_units)::bigint,
+    min(u.price) FILTER (WHERE u.available_units > 0)
+  FROM units u
+  GROUP BY u.project_id
+$function$;
@@ -0,0 +1,15 @@
+
+-- ============ SIMILAR LISTINGS WEIGHTS ============
+-- Admin-tuned weights for the similar listings scorer (src/lib/similarity.ts), stored as JSON.
+-- Listing pages are public, so visitors need to read this one key.
+INSERT INTO public.settings (key, value) VALUES (
+  'similarity_weights',
+  '{"price":3,"price_per_sqm":2,"beds":2,"area":1.5,"location":3,"property_type":2,"progress_status":1,"tags":1}'
+) ON CONFLICT (key) DO NOTHING;
+
+CREATE POLICY "Public can read similarity weights"
+ON public.settings
+FOR SELECT
+TO anon, authenticated
+USING (key = 'similarity_weights');
+
@@ -0,0 +1,266 @@
+
+-- ============ BROWSING HISTORY ============
+-- One row per signed-in user and listing; feeds the recommendation engine
+CREATE TABLE public.property_views (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  property_id UUID NOT NULL REFERENCES public.properties(id) ON DELETE CASCADE,
+  view_count INTEGER NOT NULL DEFAULT 1,
+  first_viewed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_viewed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, property_id)
+);
+
+CREATE INDEX idx_property_views_recent ON public.property_views (user_id, last_viewed_at DESC);
+
+ALTER TABLE public.property_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own browsing history"
+  ON public.property_views FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can view browsing history"
+  ON public.property_views FOR SELECT
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Views are only written through this function, so users can't backdate or edit their history
+CREATE OR REPLACE FUNCTION public.record_property_view(p_property_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  INSERT INTO public.property_views (user_id, property_id)
+  SELECT auth.uid(), p_property_id
+  WHERE auth.uid() IS NOT NULL
+  ON CONFLICT (user_id, property_id) DO UPDATE
+  SET view_count = property_views.view_count + 1,
+      last_viewed_at = now()
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.record_property_view(uuid) FROM PUBLIC, anon;
+
+-- ============ AUTO-GENERATED RECOMMENDATIONS ============
+-- source tells hand-written rows from generated ones. Generated rows are rebuilt on every run
+-- unless an admin pinned them (kept) or suppressed them (kept hidden, so they don't come back).
+ALTER TABLE public.recommendations
+  ADD COLUMN property_id UUID REFERENCES public.properties(id) ON DELETE CASCADE,
+  ADD COLUMN source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'auto')),
+  ADD COLUMN score NUMERIC,
+  ADD COLUMN is_pinned BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN is_suppressed BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN generated_at TIMESTAMP WITH TIME ZONE;
+
+CREATE UNIQUE INDEX idx_recommendations_auto_property
+  ON public.recommendations (user_id, property_id)
+  WHERE source = 'auto';
+
+CREATE INDEX idx_recommendations_user ON public.recommendations (user_id, sort_order);
+
+DROP POLICY IF EXISTS "Users can view their own recommendations" ON public.recommendations;
+
+CREATE POLICY "Users can view their own recommendations"
+  ON public.recommendations FOR SELECT
+  USING (user_id = auth.uid() AND is_active = true AND NOT is_suppressed);
+
+-- Published listings scored for one client, best first. The profile comes from the listings they
+-- own, browsed in the last six months or enquired about, plus the budget, city, district and
+-- property type on any lead with their email. Each factor is weighted (budget 3, location 3,
+-- type 2, bedrooms 1) and factors with no data are left out, as on the similar-listings scorer.
+-- Listings already recommended by hand, pinned or suppressed for the client are skipped.
+CREATE OR REPLACE FUNCTION public.recommendation_candidates(p_user_id uuid, p_limit integer DEFAULT 6)
+RETURNS TABLE(
+  property_id uuid,
+  title text,
+  image_url text,
+  slug text,
+  price numeric,
+  score numeric,
+  reasons text[]
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+#variable_conflict use_column
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can preview recommendations' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH client_leads AS (
+    SELECT l.budget_min, l.budget_max, l.city, l.district, l.property_type, l.property_id
+    FROM public.leads l
+    JOIN public.profiles pr ON lower(pr.email) = lower(l.email)
+    WHERE pr.user_id = p_user_id
+  ),
+  seed_ids AS (
+    SELECT p.id FROM public.properties p WHERE p.assigned_user_id = p_user_id
+    UNION
+    SELECT v.property_id FROM public.property_views v
+    WHERE v.user_id = p_user_id AND v.last_viewed_at > now() - interval '180 days'
+    UNION
+    SELECT cl.property_id FROM client_leads cl WHERE cl.property_id IS NOT NULL
+  ),
+  seeds AS (
+    SELECT p.price, p.beds, p.city, p.district, p.property_type
+    FROM public.properties p
+    WHERE p.id IN (SELECT id FROM seed_ids)
+  ),
+  prefs AS (
+    SELECT
+      (SELECT min(budget_min) FROM client_leads WHERE budget_min > 0) AS budget_min,
+      (SELECT max(budget_max) FROM client_leads WHERE budget_max > 0) AS budget_max,
+      (SELECT percentile_cont(0.5) WITHIN GROUP (ORDER BY price)::numeric FROM seeds WHERE price > 0) AS ref_price,
+      (SELECT round(avg(beds)) FROM seeds) AS ref_beds,
+      ARRAY(SELECT city FROM client_leads UNION SELECT city FROM seeds) AS cities,
+      ARRAY(SELECT district FROM client_leads UNION SELECT district FROM seeds) AS districts,
+      ARRAY(SELECT property_type FROM client_leads UNION SELECT property_type FROM seeds) AS types
+  ),
+  scored AS (
+    SELECT
+      p.id,
+      p.title,
+      p.image_url,
+      p.slug,
+      p.price,
+      p.published_at,
+      -- Inside the lead's budget scores 1, fading out 20% beyond it; otherwise within 30% of the typical seed price
+      CASE
+        WHEN p.price IS NULL THEN NULL
+        WHEN pr.budget_min IS NOT NULL OR pr.budget_max IS NOT NULL THEN
+          CASE
+            WHEN p.price < pr.budget_min THEN greatest(0, 1 - (pr.budget_min - p.price) / (pr.budget_min * 0.2))
+            WHEN p.price > pr.budget_max THEN greatest(0, 1 - (p.price - pr.budget_max) / (pr.budget_max * 0.2))
+            ELSE 1
+          END
+        WHEN pr.ref_price IS NOT NULL THEN greatest(0, 1 - abs(p.price - pr.ref_price) / pr.ref_price / 0.3)
+      END AS budget_score,
+      CASE
+        WHEN p.district = ANY (pr.districts) THEN 1
+        WHEN p.city = ANY (pr.cities) THEN 0.6
+        WHEN (p.city IS NOT NULL OR p.district IS NOT NULL)
+          AND (array_remove(pr.cities, NULL) <> '{}' OR array_remove(pr.districts, NULL) <> '{}') THEN 0
+      END AS location_score,
+      CASE
+        WHEN p.property_type IS NOT NULL AND array_remove(pr.types, NULL) <> '{}' THEN (p.property_type = ANY (pr.types))::integer
+      END AS type_score,
+      CASE
+        WHEN p.beds IS NOT NULL AND pr.ref_beds IS NOT NULL THEN
+          CASE abs(p.beds - pr.ref_beds) WHEN 0 THEN 1 WHEN 1 THEN 0.5 ELSE 0 END
+      END AS beds_score
+    FROM public.properties p
+    CROSS JOIN prefs pr
+    WHERE p.status NOT IN ('draft', 'pending_approval', 'archived', 'sold')
+      AND p.id NOT IN (SELECT id FROM seed_ids WHERE id IS NOT NULL)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.recommendations r
+        WHERE r.user_id = p_user_id
+          AND r.property_id = p.id
+          AND (r.source = 'manual' OR r.is_pinned OR r.is_suppressed)
+      )
+  ),
+  weighted AS (
+    SELECT
+      s.*,
+      3 * (s.budget_score IS NOT NULL)::integer
+        + 3 * (s.location_score IS NOT NULL)::integer
+        + 2 * (s.type_score IS NOT NULL)::integer
+        + (s.beds_score IS NOT NULL)::integer AS evidence,
+      3 * coalesce(s.budget_score, 0)
+        + 3 * coalesce(s.location_score, 0)
+        + 2 * coalesce(s.type_score, 0)
+        + coalesce(s.beds_score, 0) AS points
+    FROM scored s
+  )
+  SELECT
+    w.id,
+    w.title,
+    w.image_url,
+    w.slug,
+    w.price,
+    round(w.points / w.evidence, 3),
+    array_remove(ARRAY[
+      CASE WHEN w.budget_score = 1 THEN 'Within budget' END,
+      CASE WHEN w.location_score = 1 THEN 'Preferred district' WHEN w.location_score > 0 THEN 'Preferred city' END,
+      CASE WHEN w.type_score = 1 THEN 'Preferred property type' END,
+      CASE WHEN w.beds_score = 1 THEN 'Right number of bedrooms' END
+    ], NULL)
+  FROM weighted w
+  -- Need at least a budget or location signal, and a fair overall match
+  WHERE w.evidence >= 3
+    AND w.points / w.evidence >= 0.5
+  ORDER BY w.points / w.evidence DESC, w.published_at DESC NULLS LAST, w.id
+  LIMIT greatest(coalesce(p_limit, 6), 0);
+END;
+$function$;
+
+-- Rebuilds the generated suggestions for every client, or just one. Manual rows are never
+-- touched; pinned and suppressed rows survive, and pinned ones count towards the limit of six.
+CREATE OR REPLACE FUNCTION public.generate_recommendations(p_user_id uuid DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _max_per_client CONSTANT integer := 6;
+  _user uuid;
+  _pinned integer;
+  _inserted integer;
+  _total integer := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can generate recommendations' USING ERRCODE = '42501';
+  END IF;
+
+  FOR _user IN
+    SELECT DISTINCT ur.user_id FROM public.user_roles ur
+    WHERE p_user_id IS NULL AND ur.role = 'client'::app_role
+    UNION
+    SELECT p_user_id WHERE p_user_id IS NOT NULL
+  LOOP
+    DELETE FROM public.recommendations
+    WHERE user_id = _user AND source = 'auto' AND NOT is_pinned AND NOT is_suppressed;
+
+    SELECT count(*) INTO _pinned
+    FROM public.recommendations
+    WHERE user_id = _user AND source = 'auto' AND is_pinned AND NOT is_suppressed;
+
+    INSERT INTO public.recommendations (
+      user_id, property_id, source, title, description, image_url, link, score, sort_order, generated_at
+    )
+    SELECT
+      _user,
+      c.property_id,
+      'auto',
+      c.title,
+      nullif(array_to_string(c.reasons, ' · '), ''),
+      c.image_url,
+      '/properties/' || coalesce(c.slug, c.property_id::text),
+      c.score,
+      -- After hand-written rows, which default to 0
+      100 + c.rank,
+      now()
+    FROM public.recommendation_candidates(_user, _max_per_client - _pinned)
+      WITH ORDINALITY AS c(property_id, title, image_url, slug, price, score, reasons, rank)
+    ON CONFLICT (user_id, property_id) WHERE source = 'auto' DO NOTHING;
+
+    GET DIAGNOSTICS _inserted = ROW_COUNT;
+    _total := _total + _inserted;
+  END LOOP;
+
+  RETURN _total;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.recommendation_candidates(uuid, integer) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.generate_recommendations(uuid) FROM PUBLIC, anon;
+
+-- ============ Recommendation Scheduler ============
+SELECT cron.schedule(
+  'generate-recommendations',
+  '45 2 * * *',
+  $cron$ SELECT public.generate_recommendations(); $cron$
+);
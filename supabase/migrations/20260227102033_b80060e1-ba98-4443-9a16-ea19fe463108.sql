@@ -0,0 +1,25 @@
+
+-- ============ EXCHANGE RATES ============
+-- Prices are stored in EGP. Each row is the EGP price of one unit of a display currency from
+-- effective_date on; the site uses the latest rate that has taken effect.
+CREATE TABLE public.exchange_rates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  currency TEXT NOT NULL CHECK (currency IN ('USD')),
+  rate NUMERIC(12,4) NOT NULL CHECK (rate > 0),
+  effective_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (currency, effective_date)
+);
+
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view exchange rates"
+  ON public.exchange_rates FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage exchange rates"
+  ON public.exchange_rates FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
@@ -0,0 +1,46 @@
+
+-- ============ PAYMENT PLANS ============
+-- Developer payment plans offered on a single listing or on every unit of a project. The down
+-- payment, installments and delivery payment add up to the price; the maintenance deposit and
+-- club fees are charged on top and fall due at delivery.
+CREATE TABLE public.payment_plans (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  property_id UUID REFERENCES public.properties(id) ON DELETE CASCADE,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) > 0),
+  name_ar TEXT,
+  down_payment_percent NUMERIC NOT NULL CHECK (down_payment_percent BETWEEN 0 AND 100),
+  installment_years INTEGER NOT NULL CHECK (installment_years BETWEEN 0 AND 20),
+  installment_frequency TEXT NOT NULL DEFAULT 'quarterly'
+    CHECK (installment_frequency IN ('monthly', 'quarterly', 'semi_annual', 'annual')),
+  delivery_payment_percent NUMERIC NOT NULL DEFAULT 0 CHECK (delivery_payment_percent BETWEEN 0 AND 100),
+  -- Months from contract to handover, when the delivery payment, deposit and club fees are due
+  delivery_months INTEGER NOT NULL DEFAULT 36 CHECK (delivery_months BETWEEN 0 AND 240),
+  maintenance_deposit_percent NUMERIC NOT NULL DEFAULT 0 CHECK (maintenance_deposit_percent BETWEEN 0 AND 100),
+  club_fees NUMERIC NOT NULL DEFAULT 0 CHECK (club_fees >= 0),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (num_nonnulls(property_id, project_id) = 1),
+  CHECK (down_payment_percent + delivery_payment_percent <= 100),
+  -- A plan without installments is paid in full by delivery
+  CHECK (installment_years > 0 OR down_payment_percent + delivery_payment_percent = 100)
+);
+
+CREATE INDEX idx_payment_plans_property ON public.payment_plans (property_id, sort_order);
+CREATE INDEX idx_payment_plans_project ON public.payment_plans (project_id, sort_order);
+
+ALTER TABLE public.payment_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view payment plans"
+  ON public.payment_plans FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage payment plans"
+  ON public.payment_plans FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_payment_plans_updated_at
+  BEFORE UPDATE ON public.payment_plans
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
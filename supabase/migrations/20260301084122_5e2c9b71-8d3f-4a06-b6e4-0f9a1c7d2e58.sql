@@ -0,0 +1,60 @@
+-- ============ Inventory sync source ============
+-- sync_source defaulted to 'manual', so records never touched by a sync or an admin looked hand-edited.
+-- Only edits say where they came from now; untouched records are cleared so the first sync takes them over.
+ALTER TABLE public.inventory ALTER COLUMN sync_source DROP DEFAULT;
+
+UPDATE public.inventory i
+SET sync_source = NULL
+WHERE i.last_synced_at IS NULL
+  AND i.sync_source = 'manual'
+  AND NOT EXISTS (
+    SELECT 1 FROM public.inventory_history h
+    WHERE h.inventory_id = i.id AND h.source = 'manual'
+  );
+
+-- Keeping the manual counts now also marks the record as reconciled with the sheet, so the sync
+-- follows the sheet again once its counts move on from the ones the admin turned down
+CREATE OR REPLACE FUNCTION public.resolve_inventory_conflict(p_conflict_id uuid, p_resolution text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _conflict inventory_conflicts%ROWTYPE;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can resolve inventory conflicts';
+  END IF;
+
+  IF p_resolution NOT IN ('kept_manual', 'applied_sheet') THEN
+    RAISE EXCEPTION 'Invalid resolution: %', p_resolution;
+  END IF;
+
+  SELECT * INTO _conflict FROM inventory_conflicts WHERE id = p_conflict_id AND status = 'open' FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Conflict not found or already resolved';
+  END IF;
+
+  IF p_resolution = 'applied_sheet' THEN
+    UPDATE inventory
+    SET total_units = (_conflict.sheet_counts->>'total_units')::integer,
+        available_units = (_conflict.sheet_counts->>'available_units')::integer,
+        reserved_units = (_conflict.sheet_counts->>'reserved_units')::integer,
+        sold_units = (_conflict.sheet_counts->>'sold_units')::integer,
+        sync_source = 'google_sheets',
+        last_synced_at = now()
+    WHERE id = _conflict.inventory_id;
+  ELSE
+    UPDATE inventory
+    SET last_synced_at = now()
+    WHERE id = _conflict.inventory_id;
+  END IF;
+
+  UPDATE inventory_conflicts
+  SET status = p_resolution,
+      resolved_by = auth.uid(),
+      resolved_at = now()
+  WHERE id = p_conflict_id;
+END;
+$function$;
@@ -0,0 +1,31 @@
+-- Cards, search results and alerts all read properties.image_url, so keep it pointing at the
+-- first gallery image. When the last gallery image is deleted or changed, a cover that pointed at
+-- it is cleared rather than left on a removed file; covers set outside the gallery are kept.
+CREATE OR REPLACE FUNCTION public.sync_property_cover_image()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _property_id uuid := CASE WHEN TG_OP = 'DELETE' THEN OLD.property_id ELSE NEW.property_id END;
+  _cover text;
+BEGIN
+  SELECT url INTO _cover
+  FROM public.property_media
+  WHERE property_id = _property_id AND media_type = 'image'
+  ORDER BY sort_order, created_at
+  LIMIT 1;
+
+  IF _cover IS NOT NULL THEN
+    UPDATE public.properties
+    SET image_url = _cover
+    WHERE id = _property_id AND image_url IS DISTINCT FROM _cover;
+  ELSIF TG_OP <> 'INSERT' THEN
+    UPDATE public.properties
+    SET image_url = NULL
+    WHERE id = _property_id AND image_url = OLD.url;
+  END IF;
+
+  RETURN NULL;
+END;
+$function$;
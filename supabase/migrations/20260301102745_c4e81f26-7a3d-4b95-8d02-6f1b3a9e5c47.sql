@@ -0,0 +1,170 @@
+-- Hand-written recommendations only carry a link, so the listing they point at is read from it:
+-- the decoded last segment of a /properties/<slug or id> path, or NULL for any other link.
+CREATE OR REPLACE FUNCTION public.recommendation_link_ref(p_link text)
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _segment text := substring(p_link FROM '/properties/([^/?#]+)/?(?:[?#].*)?$');
+BEGIN
+  IF _segment IS NULL OR position('%' IN _segment) = 0 THEN
+    RETURN _segment;
+  END IF;
+
+  -- Arabic slugs are percent-encoded in links
+  RETURN convert_from(
+    (SELECT string_agg(
+       CASE WHEN m[1] IS NOT NULL THEN decode(substr(m[1], 2), 'hex') ELSE convert_to(m[2], 'UTF8') END,
+       ''::bytea ORDER BY n)
+     FROM regexp_matches(_segment, '(%[0-9A-Fa-f]{2})|([^%]+|%)', 'g') WITH ORDINALITY AS t(m, n)),
+    'UTF8'
+  );
+EXCEPTION WHEN OTHERS THEN
+  RETURN _segment;
+END;
+$function$;
+
+-- Unsold listings (no client owns them yet) scored for one client, best first. The profile comes from the listings they
+-- own, browsed in the last six months or enquired about, plus the budget, city, district and
+-- property type on any lead with their email. Each factor is weighted (budget 3, location 3,
+-- type 2, bedrooms 1) and factors with no data are left out, as on the similar-listings scorer.
+-- Listings already recommended by hand (matched on their link), pinned or suppressed for the client
+-- are skipped.
+CREATE OR REPLACE FUNCTION public.recommendation_candidates(p_user_id uuid, p_limit integer DEFAULT 6)
+RETURNS TABLE(
+  property_id uuid,
+  title text,
+  image_url text,
+  slug text,
+  price numeric,
+  score numeric,
+  reasons text[]
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+#variable_conflict use_column
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can preview recommendations' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH client_leads AS (
+    SELECT l.budget_min, l.budget_max, l.city, l.district, l.property_type, l.property_id
+    FROM public.leads l
+    JOIN public.profiles pr ON lower(pr.email) = lower(l.email)
+    WHERE pr.user_id = p_user_id
+  ),
+  seed_ids AS (
+    SELECT p.id FROM public.properties p WHERE p.assigned_user_id = p_user_id
+    UNION
+    SELECT v.property_id FROM public.property_views v
+    WHERE v.user_id = p_user_id AND v.last_viewed_at > now() - interval '180 days'
+    UNION
+    SELECT cl.property_id FROM client_leads cl WHERE cl.property_id IS NOT NULL
+  ),
+  seeds AS (
+    SELECT p.price, p.beds, p.city, p.district, p.property_type
+    FROM public.properties p
+    WHERE p.id IN (SELECT id FROM seed_ids)
+  ),
+  prefs AS (
+    SELECT
+      (SELECT min(budget_min) FROM client_leads WHERE budget_min > 0) AS budget_min,
+      (SELECT max(budget_max) FROM client_leads WHERE budget_max > 0) AS budget_max,
+      (SELECT percentile_cont(0.5) WITHIN GROUP (ORDER BY price)::numeric FROM seeds WHERE price > 0) AS ref_price,
+      (SELECT round(avg(beds)) FROM seeds) AS ref_beds,
+      ARRAY(SELECT city FROM client_leads UNION SELECT city FROM seeds) AS cities,
+      ARRAY(SELECT district FROM client_leads UNION SELECT district FROM seeds) AS districts,
+      ARRAY(SELECT property_type FROM client_leads UNION SELECT property_type FROM seeds) AS types
+  ),
+  scored AS (
+    SELECT
+      p.id,
+      p.title,
+      p.image_url,
+      p.slug,
+      p.price,
+      p.published_at,
+      -- Inside the lead's budget scores 1, fading out 20% beyond it; otherwise within 30% of the typical seed price
+      CASE
+        WHEN p.price IS NULL THEN NULL
+        WHEN pr.budget_min IS NOT NULL OR pr.budget_max IS NOT NULL THEN
+          CASE
+            WHEN p.price < pr.budget_min THEN greatest(0, 1 - (pr.budget_min - p.price) / (pr.budget_min * 0.2))
+            WHEN p.price > pr.budget_max THEN greatest(0, 1 - (p.price - pr.budget_max) / (pr.budget_max * 0.2))
+            ELSE 1
+          END
+        WHEN pr.ref_price IS NOT NULL THEN greatest(0, 1 - abs(p.price - pr.ref_price) / pr.ref_price / 0.3)
+      END AS budget_score,
+      CASE
+        WHEN p.district = ANY (pr.districts) THEN 1
+        WHEN p.city = ANY (pr.cities) THEN 0.6
+        WHEN (p.city IS NOT NULL OR p.district IS NOT NULL)
+          AND (array_remove(pr.cities, NULL) <> '{}' OR array_remove(pr.districts, NULL) <> '{}') THEN 0
+      END AS location_score,
+      CASE
+        WHEN p.property_type IS NOT NULL AND array_remove(pr.types, NULL) <> '{}' THEN (p.property_type = ANY (pr.types))::integer
+      END AS type_score,
+      CASE
+        WHEN p.beds IS NOT NULL AND pr.ref_beds IS NOT NULL THEN
+          CASE abs(p.beds - pr.ref_beds) WHEN 0 THEN 1 WHEN 1 THEN 0.5 ELSE 0 END
+      END AS beds_score
+    FROM public.properties p
+    CROSS JOIN prefs pr
+    WHERE p.status NOT IN ('draft', 'pending_approval', 'archived', 'sold')
+      AND p.assigned_user_id IS NULL
+      AND p.id NOT IN (SELECT id FROM seed_ids WHERE id IS NOT NULL)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.recommendations r
+        WHERE r.user_id = p_user_id
+          AND r.source = 'auto'
+          AND r.property_id = p.id
+          AND (r.is_pinned OR r.is_suppressed)
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.recommendations r
+        WHERE r.user_id = p_user_id
+          AND r.source = 'manual'
+          AND public.recommendation_link_ref(r.link) IN (p.id::text, p.slug, p.slug_ar)
+      )
+  ),
+  weighted AS (
+    SELECT
+      s.*,
+      3 * (s.budget_score IS NOT NULL)::integer
+        + 3 * (s.location_score IS NOT NULL)::integer
+        + 2 * (s.type_score IS NOT NULL)::integer
+        + (s.beds_score IS NOT NULL)::integer AS evidence,
+      3 * coalesce(s.budget_score, 0)
+        + 3 * coalesce(s.location_score, 0)
+        + 2 * coalesce(s.type_score, 0)
+        + coalesce(s.beds_score, 0) AS points
+    FROM scored s
+  )
+  SELECT
+    w.id,
+    w.title,
+    w.image_url,
+    w.slug,
+    w.price,
+    round(w.points / w.evidence, 3),
+    array_remove(ARRAY[
+      CASE WHEN w.budget_score = 1 THEN 'Within budget' END,
+      CASE WHEN w.location_score = 1 THEN 'Preferred district' WHEN w.location_score > 0 THEN 'Preferred city' END,
+      CASE WHEN w.type_score = 1 THEN 'Preferred property type' END,
+      CASE WHEN w.beds_score = 1 THEN 'Right number of bedrooms' END
+    ], NULL)
+  FROM weighted w
+  -- Need at least a budget or location signal, and a fair overall match
+  WHERE w.evidence >= 3
+    AND w.points / w.evidence >= 0.5
+  ORDER BY w.points / w.evidence DESC, w.published_at DESC NULLS LAST, w.id
+  LIMIT greatest(coalesce(p_limit, 6), 0);
+END;
+$function$;